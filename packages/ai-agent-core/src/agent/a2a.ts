@@ -1,4 +1,18 @@
 import { Agent } from "./base";
+import Log from "../common/log";
+import { sleep, uuidv4 } from "../common/utils";
+import { AgentChain } from "../core/chain";
+import Context, { AgentContext } from "../core/context";
+import { getAgentUserPrompt } from "../prompt/agent";
+import {
+  A2aPart,
+  A2aTask,
+  A2aMessage,
+  A2aAgentCard,
+  A2aTaskState,
+  A2aStreamEvent,
+  WorkflowNode,
+} from "../types";
 
 /**
  * Interface for the A2A client.
@@ -12,9 +26,586 @@ export interface IA2aClient {
   listAgents(taskPrompt: string): Promise<Agent[]>;
 }
 
+/** Path of the agent card relative to the agent base URL */
+export const AGENT_CARD_PATH = "/.well-known/agent-card.json";
+
+const TERMINAL_STATES: A2aTaskState[] = [
+  "completed",
+  "canceled",
+  "failed",
+  "rejected",
+];
+
+/**
+ * A client for the A2A (Agent-to-Agent) protocol.
+ *
+ * Discovers remote agents from their agent cards and exposes each of them as an `Agent`
+ * that the planner can assign workflow agents to. Tasks are delegated over JSON-RPC,
+ * using `message/stream` when the remote agent supports streaming and `message/send`
+ * with `tasks/get` polling otherwise.
+ *
+ * @example
+ * const xsky = new XSky({
+ *   llms,
+ *   agents,
+ *   a2aClient: new A2aClient(["https://agents.example.com/research"]),
+ * });
+ */
+export class A2aClient implements IA2aClient {
+  private agentUrls: string[];
+  private headers: Record<string, string>;
+  private pollInterval: number;
+  private cards: Map<string, A2aAgentCard> = new Map();
+
+  /**
+   * Creates an instance of the A2aClient.
+   * @param agentUrls - Base URLs of the remote agents, or full URLs of their agent cards.
+   * @param headers - Additional HTTP headers, e.g. for authentication.
+   * @param pollInterval - Interval in milliseconds for polling non-streaming tasks.
+   */
+  constructor(
+    agentUrls: string | string[],
+    headers: Record<string, string> = {},
+    pollInterval: number = 1000
+  ) {
+    this.agentUrls = typeof agentUrls === "string" ? [agentUrls] : agentUrls;
+    this.headers = headers;
+    this.pollInterval = pollInterval;
+  }
+
+  /**
+   * Lists the remote agents. Agents whose card cannot be fetched are skipped.
+   * @param taskPrompt - The task prompt to search for agents.
+   * @returns A promise that resolves to a list of agents.
+   */
+  async listAgents(taskPrompt: string): Promise<Agent[]> {
+    const agents: Agent[] = [];
+    for (let i = 0; i < this.agentUrls.length; i++) {
+      try {
+        const card = await this.getAgentCard(this.agentUrls[i]);
+        agents.push(new A2aRemoteAgent(this, card));
+      } catch (e) {
+        Log.error("A2A Client, agent card error: " + this.agentUrls[i], e);
+      }
+    }
+    return agents;
+  }
+
+  /**
+   * Fetches (and caches) the agent card of a remote agent.
+   * @param agentUrl - Base URL of the remote agent, or the full URL of its agent card.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise that resolves to the agent card.
+   */
+  async getAgentCard(
+    agentUrl: string,
+    signal?: AbortSignal
+  ): Promise<A2aAgentCard> {
+    let card = this.cards.get(agentUrl);
+    if (card) {
+      return card;
+    }
+    const cardUrl = agentUrl.endsWith(".json")
+      ? agentUrl
+      : agentUrl.replace(/\/+$/, "") + AGENT_CARD_PATH;
+    const response = await fetch(cardUrl, {
+      headers: { Accept: "application/json", ...this.headers },
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(
+        `A2A agent card error: ${response.status} ${response.statusText}`
+      );
+    }
+    card = (await response.json()) as A2aAgentCard;
+    if (!card.name || !card.url) {
+      throw new Error("A2A agent card error: missing name or url");
+    }
+    this.cards.set(agentUrl, card);
+    return card;
+  }
+
+  /**
+   * Sends a message and returns the direct reply or the created task.
+   * @param card - The agent card of the remote agent.
+   * @param message - The message to send.
+   * @param signal - Optional AbortSignal to cancel the request.
+   */
+  async sendMessage(
+    card: A2aAgentCard,
+    message: A2aMessage,
+    signal?: AbortSignal
+  ): Promise<A2aMessage | A2aTask> {
+    return await this.request(card.url, "message/send", { message }, signal);
+  }
+
+  /**
+   * Sends a message and streams the task events emitted by the remote agent.
+   * @param card - The agent card of the remote agent.
+   * @param message - The message to send.
+   * @param signal - Optional AbortSignal to cancel the stream.
+   */
+  async *streamMessage(
+    card: A2aAgentCard,
+    message: A2aMessage,
+    signal?: AbortSignal
+  ): AsyncGenerator<A2aStreamEvent> {
+    const response = await fetch(card.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "text/event-stream",
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: uuidv4(),
+        method: "message/stream",
+        params: { message },
+      }),
+      signal,
+    });
+    if (!response.ok || !response.body) {
+      throw new Error(
+        `A2A message/stream error: ${response.status} ${response.statusText}`
+      );
+    }
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          break;
+        }
+        buffer += decoder.decode(value, { stream: true });
+        const chunks = buffer.split(/\r?\n\r?\n/);
+        buffer = chunks.pop() || "";
+        for (const chunk of chunks) {
+          const data = chunk
+            .split(/\r?\n/)
+            .filter((line) => line.startsWith("data:"))
+            .map((line) => line.substring(5).trim())
+            .join("\n");
+          if (!data) {
+            continue;
+          }
+          const message = JSON.parse(data);
+          this.handleError("message/stream", message);
+          yield message.result as A2aStreamEvent;
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+  }
+
+  /**
+   * Gets the current state of a remote task.
+   * @param card - The agent card of the remote agent.
+   * @param taskId - The ID of the remote task.
+   * @param signal - Optional AbortSignal to cancel the request.
+   */
+  async getTask(
+    card: A2aAgentCard,
+    taskId: string,
+    signal?: AbortSignal
+  ): Promise<A2aTask> {
+    return await this.request(card.url, "tasks/get", { id: taskId }, signal);
+  }
+
+  /**
+   * Requests cancellation of a remote task.
+   * @param card - The agent card of the remote agent.
+   * @param taskId - The ID of the remote task.
+   */
+  async cancelTask(card: A2aAgentCard, taskId: string): Promise<A2aTask> {
+    return await this.request(card.url, "tasks/cancel", { id: taskId });
+  }
+
+  /**
+   * The configured poll interval for non-streaming tasks.
+   */
+  get PollInterval(): number {
+    return this.pollInterval;
+  }
+
+  private async request(
+    url: string,
+    method: string,
+    params: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        Accept: "application/json",
+        ...this.headers,
+      },
+      body: JSON.stringify({
+        jsonrpc: "2.0",
+        id: uuidv4(),
+        method,
+        params,
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      throw new Error(`A2A ${method} error: HTTP ${response.status}`);
+    }
+    const message = await response.json();
+    this.handleError(method, message);
+    return message.result;
+  }
+
+  private handleError(method: string, message: any) {
+    if (!message) {
+      throw new Error(`A2A ${method} error: no response`);
+    }
+    if (message.error) {
+      throw new Error(
+        `A2A ${method} error: ` +
+          (typeof message.error === "string"
+            ? message.error
+            : message.error.message)
+      );
+    }
+  }
+}
+
+/**
+ * Tracks the progress of a remote task while it is being delegated.
+ */
+type RemoteTaskState = {
+  taskId?: string;
+  contextId?: string;
+  state: A2aTaskState;
+  statusText: string;
+  artifacts: Map<string, string>;
+};
+
+/**
+ * An agent that delegates its workflow task to a remote A2A agent.
+ */
+export class A2aRemoteAgent extends Agent {
+  private client: A2aClient;
+  private card: A2aAgentCard;
+
+  /**
+   * Creates an instance of the A2aRemoteAgent.
+   * @param client - The A2A client used to reach the remote agent.
+   * @param card - The agent card of the remote agent.
+   */
+  constructor(client: A2aClient, card: A2aAgentCard) {
+    super({
+      name: card.name,
+      description: describeAgentCard(card),
+      tools: [],
+    });
+    this.client = client;
+    this.card = card;
+  }
+
+  /**
+   * Runs the workflow agent on the remote agent.
+   * Progress is streamed as "thinking" messages and artifacts as "text" messages;
+   * input requested by the remote agent is asked from the human via `onHumanInput`.
+   * Aborting the task cancels the remote task. During a dry run, the task is recorded
+   * instead of sent.
+   * @param context - The context for the agent to run in.
+   * @param agentChain - The agent chain to run.
+   * @returns A promise that resolves to the text output of the remote task.
+   */
+  public async run(context: Context, agentChain: AgentChain): Promise<string> {
+    const agentContext = new AgentContext(context, this, agentChain);
+    this.agentContext = agentContext;
+    return await this.traceAgent(agentContext, () =>
+      this.runRemote(agentContext)
+    );
+  }
+
+  private async runRemote(agentContext: AgentContext): Promise<string> {
+    const context = agentContext.context;
+    const agentChain = agentContext.agentChain;
+    if (context.dryRun) {
+      // The remote agent runs its own tools, none of them is simulated
+      const result = context.dryRun.recordRemote(
+        agentContext,
+        this.card.url,
+        this.buildParts(agentContext)
+      );
+      agentChain.agentResult = result;
+      return result;
+    }
+    const callback = this.callback || context.config.callback;
+    const signal = context.controller.signal;
+    const remote: RemoteTaskState = {
+      state: "submitted",
+      statusText: "",
+      artifacts: new Map(),
+    };
+    const onAbort = () => {
+      if (remote.taskId && TERMINAL_STATES.indexOf(remote.state) == -1) {
+        this.client.cancelTask(this.card, remote.taskId).catch((e) => {
+          Log.warn("A2A cancel task error: " + remote.taskId, e);
+        });
+      }
+    };
+    signal.addEventListener("abort", onAbort);
+    try {
+      let parts = this.buildParts(agentContext);
+      while (true) {
+        await context.checkAborted();
+        const message: A2aMessage = {
+          kind: "message",
+          messageId: uuidv4(),
+          role: "user",
+          parts,
+          taskId: remote.taskId,
+          contextId: remote.contextId,
+        };
+        if (this.card.capabilities?.streaming) {
+          await this.doStream(agentContext, message, remote);
+        } else {
+          await this.doSend(agentContext, message, remote);
+        }
+        if (remote.state == "input-required") {
+          if (!callback?.onHumanInput) {
+            throw new Error(
+              `A2A agent ${this.name} requires input: ${remote.statusText}`
+            );
+          }
+          const input = await callback.onHumanInput(
+            agentContext,
+            remote.statusText,
+            { a2aTaskId: remote.taskId }
+          );
+          parts = [{ kind: "text", text: input }];
+          continue;
+        }
+        if (remote.state != "completed") {
+          throw new Error(
+            `A2A agent ${this.name} task ${remote.state}` +
+              (remote.statusText ? ": " + remote.statusText : "")
+          );
+        }
+        const artifacts = [...remote.artifacts.values()].filter((s) => s);
+        const result =
+          artifacts.length > 0 ? artifacts.join("\n\n") : remote.statusText;
+        agentChain.agentResult = result;
+        return result;
+      }
+    } finally {
+      signal.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Builds the message parts for the workflow agent: the task prompt,
+   * plus the values of the input variables read by its nodes.
+   */
+  protected buildParts(agentContext: AgentContext): A2aPart[] {
+    const context = agentContext.context;
+    const agentNode = agentContext.agentChain.agent;
+    const parts: A2aPart[] = [
+      {
+        kind: "text",
+        text: agentNode.xml
+          ? getAgentUserPrompt(this, agentNode, context)
+          : agentNode.task,
+      },
+    ];
+    const variables: Record<string, unknown> = {};
+    collectInputVariables(agentNode.nodes).forEach((name) => {
+      if (context.variables.has(name)) {
+        variables[name] = context.variables.get(name);
+      }
+    });
+    if (Object.keys(variables).length > 0) {
+      parts.push({ kind: "data", data: { variables } });
+    }
+    return parts;
+  }
+
+  private async doStream(
+    agentContext: AgentContext,
+    message: A2aMessage,
+    remote: RemoteTaskState
+  ): Promise<void> {
+    const events = this.client.streamMessage(
+      this.card,
+      message,
+      agentContext.context.controller.signal
+    );
+    for await (const event of events) {
+      await this.onEvent(agentContext, event, remote);
+      if (event.kind == "status-update" && event.final) {
+        break;
+      }
+    }
+  }
+
+  private async doSend(
+    agentContext: AgentContext,
+    message: A2aMessage,
+    remote: RemoteTaskState
+  ): Promise<void> {
+    const context = agentContext.context;
+    const signal = context.controller.signal;
+    let event: A2aStreamEvent = await this.client.sendMessage(
+      this.card,
+      message,
+      signal
+    );
+    await this.onEvent(agentContext, event, remote);
+    while (
+      remote.taskId &&
+      TERMINAL_STATES.indexOf(remote.state) == -1 &&
+      remote.state != "input-required" &&
+      remote.state != "auth-required"
+    ) {
+      await sleep(this.client.PollInterval);
+      await context.checkAborted();
+      event = await this.client.getTask(this.card, remote.taskId, signal);
+      await this.onEvent(agentContext, event, remote);
+    }
+  }
+
+  private async onEvent(
+    agentContext: AgentContext,
+    event: A2aStreamEvent,
+    remote: RemoteTaskState
+  ): Promise<void> {
+    const callback = this.callback || agentContext.context.config.callback;
+    switch (event.kind) {
+      case "message": {
+        // A direct reply without a task
+        remote.state = "completed";
+        remote.statusText = partsToText(event.parts);
+        break;
+      }
+      case "task": {
+        remote.taskId = event.id;
+        remote.contextId = event.contextId;
+        remote.state = event.status.state;
+        if (event.status.message) {
+          remote.statusText = partsToText(event.status.message.parts);
+        }
+        (event.artifacts || []).forEach((artifact) => {
+          remote.artifacts.set(artifact.artifactId, partsToText(artifact.parts));
+        });
+        break;
+      }
+      case "status-update": {
+        remote.taskId = event.taskId;
+        remote.contextId = event.contextId;
+        remote.state = event.status.state;
+        if (event.status.message) {
+          remote.statusText = partsToText(event.status.message.parts);
+          callback &&
+            (await callback.onMessage(
+              {
+                taskId: agentContext.context.taskId,
+                agentName: this.name,
+                nodeId: agentContext.agentChain.agent.id,
+                type: "thinking",
+                streamId: event.taskId + "-status",
+                streamDone: event.final,
+                text: remote.statusText,
+              },
+              agentContext
+            ));
+        }
+        break;
+      }
+      case "artifact-update": {
+        remote.taskId = event.taskId;
+        remote.contextId = event.contextId;
+        const artifactId = event.artifact.artifactId;
+        const chunk = partsToText(event.artifact.parts);
+        const text = event.append
+          ? (remote.artifacts.get(artifactId) || "") + chunk
+          : chunk;
+        remote.artifacts.set(artifactId, text);
+        callback &&
+          (await callback.onMessage(
+            {
+              taskId: agentContext.context.taskId,
+              agentName: this.name,
+              nodeId: agentContext.agentChain.agent.id,
+              type: "text",
+              streamId: event.taskId + "-" + artifactId,
+              streamDone: event.lastChunk !== false,
+              text: text,
+            },
+            agentContext
+          ));
+        break;
+      }
+    }
+  }
+
+  /**
+   * The agent card of the remote agent.
+   */
+  get AgentCard(): A2aAgentCard {
+    return this.card;
+  }
+}
+
+/**
+ * Builds the planner-facing description of a remote agent from its card.
+ */
+function describeAgentCard(card: A2aAgentCard): string {
+  let description = card.description || "";
+  if (card.skills && card.skills.length > 0) {
+    description +=
+      "\nSkills:\n" +
+      card.skills
+        .map((skill) => `- ${skill.name}: ${skill.description}`)
+        .join("\n");
+  }
+  return description.trim();
+}
+
 /**
- * A client for the A2A protocol.
+ * Joins the parts of an A2A message or artifact into text, data parts as JSON and files as their URI or name.
  */
-export class A2aClient {
-  // TODO A2A: https://www.a2aprotocol.net/zh
-}
\ No newline at end of file
+export function partsToText(parts: A2aPart[]): string {
+  return parts
+    .map((part) => {
+      if (part.kind == "text") {
+        return part.text;
+      } else if (part.kind == "data") {
+        return JSON.stringify(part.data);
+      } else {
+        return part.file.uri || part.file.name || "";
+      }
+    })
+    .filter((s) => s)
+    .join("\n");
+}
+
+function collectInputVariables(nodes: WorkflowNode[]): string[] {
+  const names: string[] = [];
+  for (const node of nodes) {
+    if (node.type == "normal") {
+      node.input && names.push(node.input);
+    } else if (node.type == "forEach") {
+      names.push(node.items, ...collectInputVariables(node.nodes));
+    } else if (node.type == "watch") {
+      names.push(...collectInputVariables(node.triggerNodes));
+    } else if (node.type == "if") {
+      node.condition.variable && names.push(node.condition.variable);
+      names.push(...collectInputVariables([...node.thenNodes, ...node.elseNodes]));
+    } else if (node.type == "while") {
+      node.condition.variable && names.push(node.condition.variable);
+      names.push(...collectInputVariables(node.nodes));
+    } else if (node.type == "try") {
+      names.push(...collectInputVariables([...node.nodes, ...node.catchNodes]));
+    }
+  }
+  return names;
+}
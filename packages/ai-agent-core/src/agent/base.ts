@@ -2,13 +2,14 @@ import config from "../config";
 import Log from "../common/log";
 import * as memory from "../memory";
 import { RetryLanguageModel } from "../llm";
-import { mergeTools } from "../common/utils";
+import { mergeTools, sub, toFile, toImage, urlHost } from "../common/utils";
 import { ToolWrapper } from "../tools/wrapper";
 import { AgentChain, ToolChain } from "../core/chain";
 import Context, { AgentContext } from "../core/context";
 import {
   McpTool,
   ForeachTaskTool,
+  ControlFlowTool,
   WatchTriggerTool,
   VariableStorageTool,
   HumanInteractTool,
@@ -24,8 +25,13 @@ import {
   HumanCallback,
   StreamCallback,
   ToolHookResult,
+  McpServerHandlers,
+  McpSamplingParams,
+  McpSamplingResult,
+  McpElicitationParams,
+  McpElicitationResult,
 } from "../types";
-import type { ApprovalRequest } from "../types/hooks.types";
+import { ApprovalManager, type ApprovalOutcome } from "../security/approval-manager";
 import {
   LanguageModelV2Prompt,
   LanguageModelV2FilePart,
@@ -45,6 +51,16 @@ import { doTodoListManager } from "../tools/todo_list_manager";
 import { getAgentSystemPrompt, getAgentUserPrompt } from "../prompt/agent";
 import { ToolSandboxFactory } from "../security/tool-sandbox";
 import { ResourceAccess, ResourceType } from "../types/security.types";
+import { hashArgs } from "../trace/tracer";
+
+/** Last MCP tool list of an MCP client, cleared when the tools of the server change */
+type McpToolCache = {
+  /** Incremented when the tools of the server change */
+  version: number;
+  /** List parameters of the cached tools */
+  key?: string;
+  tools?: Tool[];
+};
 
 export type AgentParams = {
   name: string;
@@ -52,8 +68,12 @@ export type AgentParams = {
   tools: Tool[];
   llms?: string[];
   mcpClient?: IMcpClient;
+  /** URIs of MCP resources attached to the user prompt, read from the MCP client of the agent */
+  resources?: string[];
   planDescription?: string;
   requestHandler?: (request: LLMRequest) => void;
+  /** Serve the sampling requests of MCP servers without asking the user, declined by default without `onHumanConfirm` */
+  allowMcpSampling?: boolean;
 };
 
 /**
@@ -82,18 +102,25 @@ export class Agent {
   protected llms?: string[];
   /** Optional MCP client for dynamic tool discovery and execution */
   protected mcpClient?: IMcpClient;
+  /** Optional URIs of MCP resources attached to the user prompt */
+  protected resources?: string[];
   /** Optional description of the agent's planning/decision making approach */
   protected planDescription?: string;
   /** Optional handler for intercepting and modifying LLM requests */
   protected requestHandler?: (request: LLMRequest) => void;
+  /** Whether the sampling requests of MCP servers are served without asking the user */
+  protected allowMcpSampling: boolean;
   /** Optional callbacks for streaming execution updates and human interaction */
   protected callback?: StreamCallback & HumanCallback;
   /** Runtime context available during agent execution (set during run()) */
   protected agentContext?: AgentContext;
+  /** Cached MCP tool list by MCP client */
+  private mcpToolCache: Map<IMcpClient, McpToolCache> = new Map();
 
   // Static instances to avoid allocation overhead
   private static variableStorageTool = new VariableStorageTool();
   private static foreachTaskTool = new ForeachTaskTool();
+  private static controlFlowTool = new ControlFlowTool();
   private static watchTriggerTool = new WatchTriggerTool();
   private static humanInteractTool = new HumanInteractTool();
 
@@ -215,8 +242,10 @@ export class Agent {
     this.tools = params.tools;
     this.llms = params.llms;
     this.mcpClient = params.mcpClient;
+    this.resources = params.resources;
     this.planDescription = params.planDescription;
     this.requestHandler = params.requestHandler;
+    this.allowMcpSampling = params.allowMcpSampling ?? false;
   }
 
   /**
@@ -230,38 +259,82 @@ export class Agent {
     const agentContext = new AgentContext(context, this, agentChain);
     const hooks = context.config.hooks;
 
-    try {
-      this.agentContext = agentContext;
-
-      // ============ BEFORE AGENT START HOOK ============
-      // Called here because AgentContext is now available
-      if (hooks?.beforeAgentStart) {
-        try {
-          const hookResult = await hooks.beforeAgentStart(agentContext);
-          if (hookResult?.block) {
-            const reason = hookResult.reason || "Agent blocked by beforeAgentStart hook";
-            Log.warn(`Agent ${this.name} blocked: ${reason}`);
-            throw new Error(reason);
-          }
-        } catch (hookError: any) {
-          if (hookError.message?.includes("blocked by")) {
-            throw hookError;
+    return await this.traceAgent(agentContext, async () => {
+      try {
+        this.agentContext = agentContext;
+
+        // ============ BEFORE AGENT START HOOK ============
+        // Called here because AgentContext is now available
+        if (hooks?.beforeAgentStart) {
+          try {
+            const hookResult = await hooks.beforeAgentStart(agentContext);
+            if (hookResult?.block) {
+              const reason = hookResult.reason || "Agent blocked by beforeAgentStart hook";
+              Log.warn(`Agent ${this.name} blocked: ${reason}`);
+              throw new Error(reason);
+            }
+          } catch (hookError: any) {
+            if (hookError.message?.includes("blocked by")) {
+              throw hookError;
+            }
+            Log.error("beforeAgentStart hook error:", hookError);
+            // Continue if hook fails (non-blocking)
           }
-          Log.error("beforeAgentStart hook error:", hookError);
-          // Continue if hook fails (non-blocking)
         }
+
+        mcpClient &&
+          !mcpClient.isConnected() &&
+          (await mcpClient.connect(context.controller.signal));
+        return await this.runWithContext(
+          agentContext,
+          mcpClient,
+          config.maxReactNum
+        );
+      } finally {
+        mcpClient && (await mcpClient.close());
       }
+    });
+  }
 
-      mcpClient &&
-        !mcpClient.isConnected() &&
-        (await mcpClient.connect(context.controller.signal));
-      return await this.runWithContext(
-        agentContext,
-        mcpClient,
-        config.maxReactNum
-      );
+  /**
+   * Runs a workflow agent within its span and reports its duration to `telemetry.onTrace`.
+   * @param agentContext - The context of the running agent.
+   * @param run - Runs the agent.
+   * @returns A promise that resolves to the result of the agent's run.
+   */
+  protected async traceAgent(
+    agentContext: AgentContext,
+    run: () => Promise<string>
+  ): Promise<string> {
+    const context = agentContext.context;
+    const span = context.tracer?.startSpan("xsky.agent", {
+      parent: context.span,
+      attributes: {
+        "xsky.task.id": context.taskId,
+        "xsky.agent.name": this.name,
+        "xsky.agent.node_id": agentContext.agentChain.agent.id,
+      },
+    });
+    agentContext.span = span;
+    const startTime = Date.now();
+    try {
+      const result = await run();
+      span?.setStatus("ok");
+      return result;
+    } catch (e) {
+      span?.recordError(e);
+      throw e;
     } finally {
-      mcpClient && (await mcpClient.close());
+      span?.end();
+      try {
+        context.config.telemetry?.onTrace?.({
+          taskId: context.taskId,
+          agentName: this.name,
+          duration: Date.now() - startTime,
+        });
+      } catch (traceError) {
+        Log.error("onTrace callback error:", traceError);
+      }
     }
   }
 
@@ -321,6 +394,8 @@ export class Agent {
     const rlm = new RetryLanguageModel(context.config.llms, this.llms);
     rlm.setContext(agentContext);
     let agentTools = tools;
+    // Version of the MCP tools listed last, the tools are listed again when the server changes them
+    let mcpToolsVersion = -1;
 
     // Main ReAct (Reasoning + Acting) loop - continues until task completion or iteration limit
     while (loopNum < maxReactNum) {
@@ -329,68 +404,86 @@ export class Agent {
         Log.warn(`Agent ${this.name} approaching max reaction limit: ${loopNum}/${maxReactNum}. Consider increasing maxReactNum if this is expected.`);
       }
 
-      await context.checkAborted(); // Check for user cancellation requests
-      if (mcpClient) {
-        const controlMcp = await this.controlMcpTools(
+      // Each reasoning-action cycle is a span, parent of its LLM and tool call spans
+      const iterationSpan = context.tracer?.startSpan("xsky.agent.iteration", {
+        parent: agentContext.span,
+        attributes: { "xsky.agent.name": this.name, "xsky.iteration": loopNum },
+      });
+      agentContext.iterationSpan = iterationSpan;
+      try {
+        await context.checkAborted(); // Check for user cancellation requests
+        if (mcpClient) {
+          const controlMcp = await this.controlMcpTools(
+            agentContext,
+            messages,
+            loopNum
+          );
+          const mcpToolsChanged =
+            mcpToolsVersion > -1 &&
+            this.mcpToolCacheOf(mcpClient).version != mcpToolsVersion;
+          if (controlMcp.mcpTools || mcpToolsChanged) {
+            mcpToolsVersion = this.mcpToolCacheOf(mcpClient).version;
+            const mcpTools = await this.listTools(
+              context,
+              mcpClient,
+              agentNode,
+              controlMcp.mcpParams
+            );
+            const usedTools = memory.extractUsedTool(messages, agentTools);
+            const _agentTools = mergeTools(tools, usedTools);
+            agentTools = mergeTools(_agentTools, mcpTools);
+          }
+        }
+        await this.handleMessages(agentContext, messages, tools);
+        const llm_tools = convertTools(agentTools);
+        const results = await callAgentLLM(
           agentContext,
+          rlm,
           messages,
-          loopNum
+          llm_tools,
+          false,
+          undefined,
+          0,
+          this.callback,
+          this.requestHandler
         );
-        if (controlMcp.mcpTools) {
-          const mcpTools = await this.listTools(
-            context,
-            mcpClient,
-            agentNode,
-            controlMcp.mcpParams
-          );
-          const usedTools = memory.extractUsedTool(messages, agentTools);
-          const _agentTools = mergeTools(tools, usedTools);
-          agentTools = mergeTools(_agentTools, mcpTools);
+        const forceStop = agentContext.variables.get("forceStop");
+        if (forceStop) {
+          return forceStop;
         }
-      }
-      await this.handleMessages(agentContext, messages, tools);
-      const llm_tools = convertTools(agentTools);
-      const results = await callAgentLLM(
-        agentContext,
-        rlm,
-        messages,
-        llm_tools,
-        false,
-        undefined,
-        0,
-        this.callback,
-        this.requestHandler
-      );
-      const forceStop = agentContext.variables.get("forceStop");
-      if (forceStop) {
-        return forceStop;
-      }
-      const finalResult = await this.handleCallResult(
-        agentContext,
-        messages,
-        agentTools,
-        results
-      );
-      loopNum++;
-      if (!finalResult) {
-        if (config.expertMode && loopNum % config.expertModeTodoLoopNum == 0) {
-          await doTodoListManager(agentContext, rlm, messages, llm_tools);
-        }
-        continue;
-      }
-      if (config.expertMode && checkNum == 0) {
-        checkNum++;
-        const { completionStatus } = await doTaskResultCheck(
+        const finalResult = await this.handleCallResult(
           agentContext,
-          rlm,
           messages,
-          llm_tools
+          agentTools,
+          results
         );
-        if (completionStatus == "incomplete") {
+        loopNum++;
+        if (!finalResult) {
+          if (config.expertMode && loopNum % config.expertModeTodoLoopNum == 0) {
+            await doTodoListManager(agentContext, rlm, messages, llm_tools);
+          }
           continue;
         }
+        if (config.expertMode && checkNum == 0) {
+          checkNum++;
+          const { completionStatus } = await doTaskResultCheck(
+            agentContext,
+            rlm,
+            messages,
+            llm_tools
+          );
+          if (completionStatus == "incomplete") {
+            continue;
+          }
+        }
+        return finalResult;
+      } catch (e) {
+        iterationSpan?.recordError(e);
+        throw e;
+      } finally {
+        iterationSpan?.end();
+        agentContext.iterationSpan = undefined;
       }
-      return finalResult;
     }
 
     // Improved error message when limit is hit
@@ -486,20 +579,75 @@ export class Agent {
     user_messages: LanguageModelV2Prompt = [],
     retryCount: number = 0
   ): Promise<LanguageModelV2ToolResultPart> {
-    const MAX_TOOL_RETRIES = 3;
     const context = agentContext.context;
-    const hooks = context.config.hooks;
     const toolChain = new ToolChain(
       result,
       agentContext.agentChain.agentRequest as LLMRequest
     );
     agentContext.agentChain.push(toolChain);
+    const span = context.tracer?.startSpan("xsky.tool", {
+      parent: agentContext.iterationSpan || agentContext.span,
+      attributes: {
+        "xsky.agent.name": this.name,
+        "xsky.tool.name": result.toolName,
+        "xsky.tool.call_id": result.toolCallId,
+        "xsky.tool.retry_count": retryCount,
+      },
+    });
+    try {
+      const toolResult = await this.executeToolCall(
+        agentContext,
+        agentTools,
+        result,
+        user_messages,
+        retryCount,
+        toolChain
+      );
+      if (toolChain.toolResult?.isError) {
+        const text = toolChain.toolResult.content?.[0];
+        span?.setStatus("error", text?.type == "text" ? text.text : undefined);
+      } else {
+        span?.setStatus("ok");
+      }
+      return toolResult;
+    } catch (e) {
+      span?.recordError(e);
+      throw e;
+    } finally {
+      // Arguments are hashed, they may contain sensitive data
+      toolChain.params && span?.setAttribute("xsky.tool.args_hash", hashArgs(toolChain.params));
+      span?.end();
+    }
+  }
+
+  /**
+   * Executes a tool call, applying hooks, approvals, rate limits and sandboxing.
+   * @param agentContext - The context for the agent to run in.
+   * @param agentTools - The tools available to the agent.
+   * @param result - The tool call to execute.
+   * @param user_messages - The user messages to append to.
+   * @param retryCount - Internal retry counter to prevent infinite loops.
+   * @param toolChain - The chain entry recording the tool call.
+   * @returns A promise that resolves to the result of the tool call.
+   */
+  private async executeToolCall(
+    agentContext: AgentContext,
+    agentTools: Tool[],
+    result: LanguageModelV2ToolCallPart,
+    user_messages: LanguageModelV2Prompt,
+    retryCount: number,
+    toolChain: ToolChain
+  ): Promise<LanguageModelV2ToolResultPart> {
+    const MAX_TOOL_RETRIES = 3;
+    const context = agentContext.context;
+    const hooks = context.config.hooks;
 
     let args =
       typeof result.input == "string"
         ? JSON.parse(result.input || "{}")
         : result.input || {};
     toolChain.params = args;
+    let escalation: string | undefined;
 
     // ============ BEFORE TOOL CALL HOOK ============
     if (hooks?.beforeToolCall) {
@@ -517,57 +665,8 @@ export class Agent {
           Log.warn(`Tool ${result.toolName} blocked: ${blockReason}`);
 
           if (hookResult.escalate) {
-            // ============ ON APPROVAL REQUIRED HOOK ============
-            if (hooks?.onApprovalRequired) {
-              try {
-                const approvalRequest: ApprovalRequest = {
-                  type: "tool_execution",
-                  description: `Approve execution of tool "${result.toolName}"?`,
-                  context: {
-                    toolName: result.toolName,
-                    args,
-                    reason: blockReason,
-                  },
-                };
-
-                const approval = await hooks.onApprovalRequired(agentContext, approvalRequest);
-
-                if (approval.approved) {
-                  // Approval granted - continue with tool execution
-                  Log.info(`Tool ${result.toolName} approved by ${approval.approver || "user"}`);
-                  // Fall through to execute the tool
-                } else {
-                  // Approval denied
-                  const deniedResult: ToolResult = {
-                    content: [
-                      {
-                        type: "text",
-                        text: `Action rejected: ${approval.feedback || blockReason}`,
-                      },
-                    ],
-                    isError: false,
-                  };
-                  toolChain.updateToolResult(deniedResult);
-                  return convertToolResult(result, deniedResult, user_messages);
-                }
-              } catch (approvalError) {
-                Log.error("onApprovalRequired hook error:", approvalError);
-                // Fall through to default escalate behavior
-              }
-            } else {
-              // No approval hook - use default escalate behavior
-              const escalateResult: ToolResult = {
-                content: [
-                  {
-                    type: "text",
-                    text: `Action requires human approval: ${blockReason}. Please request human assistance.`,
-                  },
-                ],
-                isError: false,
-              };
-              toolChain.updateToolResult(escalateResult);
-              return convertToolResult(result, escalateResult, user_messages);
-            }
+            // Approval is requested below, outside of the hook error handling
+            escalation = blockReason;
           } else if (hookResult.skip) {
             // Skip without error (for batch/scraping scenarios)
             const skipResult: ToolResult = {
@@ -583,18 +682,20 @@ export class Agent {
             return convertToolResult(result, skipResult, user_messages);
           }
 
-          // Return as error to LLM
-          const blockedResult: ToolResult = {
-            content: [
-              {
-                type: "text",
-                text: `Blocked: ${blockReason}`,
-              },
-            ],
-            isError: true,
-          };
-          toolChain.updateToolResult(blockedResult);
-          return convertToolResult(result, blockedResult, user_messages);
+          if (escalation === undefined) {
+            // Return as error to LLM
+            const blockedResult: ToolResult = {
+              content: [
+                {
+                  type: "text",
+                  text: `Blocked: ${blockReason}`,
+                },
+              ],
+              isError: true,
+            };
+            toolChain.updateToolResult(blockedResult);
+            return convertToolResult(result, blockedResult, user_messages);
+          }
         }
 
         // Apply modified args if provided
@@ -608,6 +709,55 @@ export class Agent {
       }
     }
 
+    // Side-effecting tools are simulated during a dry run, without approval
+    const dryRun = context.dryRun;
+    const simulated =
+      !!dryRun && getTool(agentTools, result.toolName)?.sideEffects === true;
+
+    // The sandbox audits both its executions and the approvals decided here
+    const securityConfig = context.config.security;
+    const sandbox = securityConfig?.enabled
+      ? ToolSandboxFactory.createDefault(securityConfig)
+      : undefined;
+
+    // ============ APPROVAL ============
+    // Hook escalations and matching approval rules go through the approval workflow
+    const approvalConfig = context.config.approvalConfig;
+    let approval: ApprovalOutcome | undefined;
+    if (escalation !== undefined || approvalConfig?.rules?.length) {
+      const approvalManager = new ApprovalManager(approvalConfig, sandbox?.AuditLogger);
+      const toolCall = { toolName: result.toolName, args };
+      if (escalation === undefined) {
+        const rule = approvalManager.findRule(agentContext, toolCall);
+        if (rule && !rule.autoApprove) {
+          escalation = `Approval rule matched for tool "${result.toolName}"`;
+        }
+      }
+      if (escalation !== undefined && !simulated) {
+        approval = await approvalManager.request(agentContext, toolCall, {
+          type: "tool_execution",
+          description: `Approve execution of tool "${result.toolName}"?`,
+          context: {
+            toolName: result.toolName,
+            args,
+            reason: escalation,
+          },
+        });
+        const approvalResult = this.approvalToolResult(
+          agentContext,
+          approval,
+          escalation
+        );
+        if (approvalResult) {
+          toolChain.updateToolResult(approvalResult);
+          return convertToolResult(result, approvalResult, user_messages);
+        }
+        Log.info(
+          `Tool ${result.toolName} approved by ${approval.result?.approver || "user"}`
+        );
+      }
+    }
+
     let toolResult: ToolResult;
     try {
       // Resolve tool by name from available tools
@@ -616,11 +766,36 @@ export class Agent {
         throw new Error(result.toolName + " tool does not exist");
       }
 
+      // ============ DRY RUN ============
+      // Side-effecting tools are intercepted, and every call is reported
+      dryRun?.record(
+        agentContext,
+        result,
+        args,
+        this.extractResourcesFromArgs(result.toolName, args),
+        simulated,
+        escalation !== undefined
+      );
+
+      // ============ RATE LIMITING ============
+      // Wait for (or reject on) the tool, agent and domain limits of XSkyConfig.rateLimits
+      const rateLimiter = context.rateLimiter;
+      if (rateLimiter && !simulated) {
+        await rateLimiter.acquire(
+          rateLimiter.getBuckets({
+            toolName: result.toolName,
+            agentName: this.name,
+            domain: await this.getRateLimitDomain(agentContext, result.toolName, args),
+          }),
+          context.controller.signal
+        );
+      }
+
       // ============ SECURITY SANDBOXING ============
       // Apply permission-based access control and resource restrictions
-      const securityConfig = context.config.security;
-      if (securityConfig && securityConfig.enabled) {
-        const sandbox = ToolSandboxFactory.createDefault(securityConfig);
+      if (simulated) {
+        toolResult = dryRun!.simulate(result.toolName);
+      } else if (sandbox) {
         const toolExecutor = async () => {
           return await tool!.execute(args, agentContext, result);
         };
@@ -630,7 +805,8 @@ export class Agent {
           result.toolName,
           args,
           toolExecutor,
-          this.extractResourcesFromArgs(result.toolName, args)
+          this.extractResourcesFromArgs(result.toolName, args),
+          approval
         );
 
         if (!sandboxResult.allowed) {
@@ -798,6 +974,65 @@ export class Agent {
     return convertToolResult(result, toolResult, user_messages);
   }
 
+  /**
+   * Gets the domain a tool call targets, used for the per-domain rate limits.
+   * @param agentContext - The context for the agent to run in.
+   * @param toolName - The name of the tool being called.
+   * @param args - The arguments of the tool call.
+   * @returns The host of the `url` or `targetUrl` argument, if any.
+   */
+  protected async getRateLimitDomain(
+    agentContext: AgentContext,
+    toolName: string,
+    args: Record<string, any>
+  ): Promise<string | undefined> {
+    return urlHost(args?.url) || urlHost(args?.targetUrl);
+  }
+
+  /**
+   * Converts an approval outcome into the tool result returned to the LLM.
+   * @param agentContext - The context for the agent to run in.
+   * @param approval - The outcome of the approval request.
+   * @param reason - Why approval was requested.
+   * @returns The tool result, or undefined if the tool call was approved.
+   * @throws AbortError if the approval timed out with the "abort" policy.
+   */
+  protected approvalToolResult(
+    agentContext: AgentContext,
+    approval: ApprovalOutcome,
+    reason: string
+  ): ToolResult | undefined {
+    let text: string;
+    switch (approval.decision) {
+      case "approved":
+        return undefined;
+      case "aborted": {
+        agentContext.context.controller.abort();
+        const error = new Error(`Task aborted: ${approval.reason}`);
+        error.name = "AbortError";
+        throw error;
+      }
+      case "skipped":
+        text = `Skipped: ${approval.reason}`;
+        break;
+      case "unavailable":
+        text = `Action requires human approval: ${reason}. Please request human assistance.`;
+        break;
+      case "rejected":
+      default:
+        // Plain rejections report the approver feedback, other rejections their cause
+        text =
+          approval.result && !approval.result.approved
+            ? `Action rejected: ${approval.result.feedback || reason}`
+            : `Action rejected: ${approval.reason}`;
+        break;
+    }
+    return {
+      content: [{ type: "text", text }],
+      isError: false,
+    };
+  }
+
   /**
    * Returns a list of system tools that are automatically added to the agent.
    * @param agentNode - The workflow agent node.
@@ -816,6 +1051,10 @@ export class Agent {
     if (hasForeach) {
       tools.push(Agent.foreachTaskTool);
     }
+    let hasControlFlow = /<\/(if|while|try)>/.test(agentNodeXml);
+    if (hasControlFlow) {
+      tools.push(Agent.controlFlowTool);
+    }
     let hasWatch = agentNodeXml.indexOf("</watch>") > -1;
     if (hasWatch) {
       tools.push(Agent.watchTriggerTool);
@@ -864,9 +1103,59 @@ export class Agent {
           tools
         ),
       },
+      ...(await this.loadResources(agentContext)),
     ];
   }
 
+  /**
+   * Reads the MCP resources of the agent to attach them to the user prompt.
+   * Text resources are attached as text, image resources as files, resources failing to read are skipped.
+   * @param agentContext - The context for the agent to run in.
+   * @returns A promise that resolves to the prompt parts of the resources.
+   */
+  protected async loadResources(
+    agentContext: AgentContext
+  ): Promise<Array<LanguageModelV2TextPart | LanguageModelV2FilePart>> {
+    const context = agentContext.context;
+    const mcpClient = this.mcpClient || context.config.defaultMcpClient;
+    if (!this.resources?.length || !mcpClient?.readResource) {
+      return [];
+    }
+    const parts: Array<LanguageModelV2TextPart | LanguageModelV2FilePart> = [];
+    for (const uri of this.resources) {
+      try {
+        if (!mcpClient.isConnected()) {
+          await mcpClient.connect(context.controller.signal);
+        }
+        const contents = await mcpClient.readResource(uri, context.controller.signal);
+        for (const content of contents) {
+          if (content.text !== undefined) {
+            parts.push({
+              type: "text",
+              text: `<resource uri="${content.uri}">\n${content.text}\n</resource>`,
+            });
+          } else if (content.blob && content.mimeType?.startsWith("image/")) {
+            parts.push({
+              type: "text",
+              text: `<resource uri="${content.uri}" />`,
+            });
+            parts.push({
+              type: "file",
+              data: toImage(content.blob),
+              mediaType: content.mimeType,
+            });
+          }
+        }
+      } catch (e) {
+        if ((e as any)?.name === "AbortError") {
+          throw e;
+        }
+        Log.error(`Failed to read the MCP resource ${uri}`, e);
+      }
+    }
+    return parts;
+  }
+
   /**
    * Returns an extended system prompt for the agent.
    * @param agentContext - The context for the agent to run in.
@@ -890,24 +1179,32 @@ export class Agent {
       if (!mcpClient.isConnected()) {
         await mcpClient.connect(context.controller.signal);
       }
-      let list = await mcpClient.listTools(
-        {
-          taskId: context.taskId,
-          nodeId: agentNode?.id,
-          environment: config.platform,
-          agent_name: agentNode?.name || this.name,
-          params: {},
-          prompt: agentNode?.task || context.chain.taskPrompt,
-          ...(mcpParams || {}),
-        },
-        context.controller.signal
-      );
+      const param = {
+        taskId: context.taskId,
+        nodeId: agentNode?.id,
+        environment: config.platform,
+        agent_name: agentNode?.name || this.name,
+        params: {},
+        prompt: agentNode?.task || context.chain.taskPrompt,
+        ...(mcpParams || {}),
+      };
+      const cache = this.mcpToolCacheOf(mcpClient);
+      const key = JSON.stringify(param);
+      if (cache.tools && cache.key == key) {
+        return cache.tools;
+      }
+      const version = cache.version;
+      let list = await mcpClient.listTools(param, context.controller.signal);
       let mcpTools: Tool[] = [];
       for (let i = 0; i < list.length; i++) {
         let toolSchema: ToolSchema = list[i];
         let execute = this.toolExecuter(mcpClient, toolSchema.name);
         let toolWrapper = new ToolWrapper(toolSchema, execute);
-        mcpTools.push(new McpTool(toolWrapper));
+        mcpTools.push(new McpTool(toolWrapper, list[i].annotations));
+      }
+      if (cache.version == version) {
+        cache.key = key;
+        cache.tools = mcpTools;
       }
       return mcpTools;
     } catch (e) {
@@ -916,6 +1213,24 @@ export class Agent {
     }
   }
 
+  /**
+   * Gets the cached MCP tool list of an MCP client, cleared on its `tools/list_changed` notifications.
+   */
+  private mcpToolCacheOf(mcpClient: IMcpClient): McpToolCache {
+    let cache = this.mcpToolCache.get(mcpClient);
+    if (!cache) {
+      const created: McpToolCache = { version: 0 };
+      mcpClient.onToolsChanged?.(() => {
+        created.version++;
+        created.key = undefined;
+        created.tools = undefined;
+      });
+      this.mcpToolCache.set(mcpClient, created);
+      cache = created;
+    }
+    return cache;
+  }
+
   /**
    * Controls the MCP tools.
    * @param agentContext - The context for the agent to run in.
@@ -943,8 +1258,9 @@ export class Agent {
    * @returns A tool executer.
    */
   protected toolExecuter(mcpClient: IMcpClient, name: string): ToolExecuter {
+    const agent = this;
     return {
-      execute: async function (args, agentContext): Promise<ToolResult> {
+      execute: async function (args, agentContext, toolCall): Promise<ToolResult> {
         return await mcpClient.callTool(
           {
             name: name,
@@ -956,12 +1272,200 @@ export class Agent {
               agent_name: agentContext.agent.Name,
             },
           },
-          agentContext.context.controller.signal
+          agentContext.context.controller.signal,
+          agent.mcpServerHandlers(agentContext, name, toolCall?.toolCallId)
         );
       },
     };
   }
 
+  /**
+   * Returns the handlers of the messages an MCP server sends during a tool call:
+   * sampling requests are served by the LLMs of the agent once the user confirms them,
+   * elicitation requests are asked to the user with the human callback, and progress
+   * is streamed as "tool_running" messages.
+   * @param agentContext - The context for the agent to run in.
+   * @param toolName - The name of the MCP tool.
+   * @param toolCallId - The ID of the tool call.
+   * @returns The handlers of the server messages.
+   */
+  protected mcpServerHandlers(
+    agentContext: AgentContext,
+    toolName: string,
+    toolCallId: string
+  ): McpServerHandlers {
+    const context = agentContext.context;
+    return {
+      onSampling: async (params, signal) => {
+        if (!(await this.confirmMcpSampling(agentContext, toolName, params))) {
+          throw new Error("Sampling request declined by the user");
+        }
+        return await this.mcpSampling(agentContext, params, signal);
+      },
+      onElicitation: (params) => this.mcpElicitation(agentContext, params),
+      onProgress: (progress) => {
+        const callback = this.callback || context.config.callback;
+        if (!callback) {
+          return;
+        }
+        const total = progress.total ? `${progress.progress}/${progress.total}` : `${progress.progress}`;
+        callback
+          .onMessage(
+            {
+              taskId: context.taskId,
+              agentName: agentContext.agent.Name,
+              nodeId: agentContext.agentChain.agent.id,
+              type: "tool_running",
+              toolName,
+              toolId: toolCallId,
+              text: progress.message ? `${progress.message} (${total})` : total,
+              streamId: toolCallId,
+              streamDone: progress.total !== undefined && progress.progress >= progress.total,
+            },
+            agentContext
+          )
+          .catch((e) => {
+            Log.error("MCP progress callback error:", e);
+          });
+      },
+    };
+  }
+
+  /**
+   * Asks the user to confirm a sampling request of an MCP server, which spends the LLM budget
+   * on a prompt the server wrote. Declined without the `onHumanConfirm` callback, unless the
+   * agent allows MCP sampling.
+   * @param agentContext - The context for the agent to run in.
+   * @param toolName - The name of the MCP tool.
+   * @param params - The parameters of the sampling request.
+   * @returns A promise that resolves to true when the request is confirmed.
+   */
+  protected async confirmMcpSampling(
+    agentContext: AgentContext,
+    toolName: string,
+    params: McpSamplingParams
+  ): Promise<boolean> {
+    if (this.allowMcpSampling) {
+      return true;
+    }
+    const callback = this.callback || agentContext.context.config.callback;
+    if (!callback?.onHumanConfirm) {
+      return false;
+    }
+    const text = params.messages
+      .map((message) => (message.content.type == "text" ? message.content.text : `[${message.content.type}]`))
+      .join("\n");
+    return await callback.onHumanConfirm(
+      agentContext,
+      `The MCP tool "${toolName}" asks to generate a completion with the LLM:\n${sub(text, 1000, true)}`
+    );
+  }
+
+  /**
+   * Serves a sampling request of an MCP server with the LLMs of the agent, counted in the budget of the task.
+   * @param agentContext - The context for the agent to run in.
+   * @param params - The parameters of the sampling request.
+   * @param signal - Aborted when the server cancels the request.
+   * @returns A promise that resolves to the generated message.
+   */
+  protected async mcpSampling(
+    agentContext: AgentContext,
+    params: McpSamplingParams,
+    signal?: AbortSignal
+  ): Promise<McpSamplingResult> {
+    const context = agentContext.context;
+    const messages: LanguageModelV2Prompt = [];
+    if (params.systemPrompt) {
+      messages.push({ role: "system", content: params.systemPrompt });
+    }
+    for (const message of params.messages) {
+      const content = message.content;
+      messages.push({
+        role: message.role,
+        content: [
+          content.type == "text"
+            ? { type: "text", text: content.text }
+            : { type: "file", data: toFile(content.data), mediaType: content.mimeType },
+        ],
+      });
+    }
+    const rlm = new RetryLanguageModel(context.config.llms, this.llms);
+    rlm.setContext(agentContext);
+    const result = await rlm.call({
+      messages,
+      maxTokens: params.maxTokens,
+      temperature: params.temperature,
+      stopSequences: params.stopSequences,
+      abortSignal: signal
+        ? AbortSignal.any([context.controller.signal, signal])
+        : context.controller.signal,
+    });
+    return {
+      role: "assistant",
+      content: { type: "text", text: result.text || "" },
+      model: result.llmConfig.model,
+      stopReason:
+        result.finishReason == "stop"
+          ? "endTurn"
+          : result.finishReason == "length"
+          ? "maxTokens"
+          : result.finishReason,
+    };
+  }
+
+  /**
+   * Asks the user for the information an MCP server requests, one question per property.
+   * Enum and boolean properties are selected, the others are input. The request is declined
+   * without the human callback, and cancelled when a required property is not answered.
+   * @param agentContext - The context for the agent to run in.
+   * @param params - The parameters of the elicitation request.
+   * @returns A promise that resolves to the answers of the user.
+   */
+  protected async mcpElicitation(
+    agentContext: AgentContext,
+    params: McpElicitationParams
+  ): Promise<McpElicitationResult> {
+    const callback = this.callback || agentContext.context.config.callback;
+    const schema = params.requestedSchema || { type: "object", properties: {} };
+    const required = schema.required || [];
+    const content: Record<string, string | number | boolean> = {};
+    for (const [name, property] of Object.entries(schema.properties || {})) {
+      const prompt =
+        `${params.message}\n${property.title || name}` +
+        (property.description ? `: ${property.description}` : "");
+      let value: string | undefined;
+      if (property.enum || property.type == "boolean") {
+        if (!callback?.onHumanSelect) {
+          return { action: "decline" };
+        }
+        const options = property.enum ? property.enum.map(String) : ["true", "false"];
+        value = (await callback.onHumanSelect(agentContext, prompt, options, false))?.[0];
+      } else {
+        if (!callback?.onHumanInput) {
+          return { action: "decline" };
+        }
+        value = await callback.onHumanInput(agentContext, prompt);
+      }
+      if (value === undefined || value === null || value === "") {
+        if (required.includes(name)) {
+          return { action: "cancel" };
+        }
+        continue;
+      }
+      if (property.type == "boolean") {
+        content[name] = value == "true";
+      } else if (property.type == "number" || property.type == "integer") {
+        if (isNaN(Number(value))) {
+          return { action: "cancel" };
+        }
+        content[name] = Number(value);
+      } else {
+        content[name] = value;
+      }
+    }
+    return { action: "accept", content };
+  }
+
   /**
    * Handles the messages in the agent's context, including memory management.
    * @param agentContext - The context for the agent to run in.
@@ -3,7 +3,7 @@ import {
   LanguageModelV2ToolCallPart,
 } from "@ai-sdk/provider";
 import { Agent, AgentParams } from "../base";
-import { sleep } from "../../common/utils";
+import { sleep, urlHost } from "../../common/utils";
 import { AgentContext } from "../../core/context";
 import { ToolExecuter, ToolResult, IMcpClient } from "../../types";
 import * as utils from "./utils";
@@ -160,6 +160,30 @@ export default abstract class BaseBrowserAgent extends Agent {
     }
   }
 
+  /**
+   * Gets the domain a tool call targets, falling back to the current page
+   * so that clicks and typing count against the domain of the page.
+   * @param agentContext - The context for the agent to run in.
+   * @param toolName - The name of the tool being called.
+   * @param args - The arguments of the tool call.
+   * @returns The target domain, if any.
+   */
+  protected async getRateLimitDomain(
+    agentContext: AgentContext,
+    toolName: string,
+    args: Record<string, any>
+  ): Promise<string | undefined> {
+    const domain = await super.getRateLimitDomain(agentContext, toolName, args);
+    if (domain) {
+      return domain;
+    }
+    try {
+      return urlHost((await this.get_current_page(agentContext)).url);
+    } catch (e) {
+      return undefined;
+    }
+  }
+
   /**
    * Creates a tool executer for the MCP client.
    * @param mcpClient - The MCP client to use.
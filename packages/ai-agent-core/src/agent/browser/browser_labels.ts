@@ -479,6 +479,7 @@ export default abstract class BaseBrowserLabelsAgent extends BaseBrowserAgent {
       },
       {
         name: "input_text",
+        sideEffects: true,
         description: "Inputs text into a element by first clicking to focus the element, then clearing any existing text and typing the new text. Optionally presses Enter after input completion.",
         parameters: {
           type: "object",
@@ -516,6 +517,7 @@ export default abstract class BaseBrowserLabelsAgent extends BaseBrowserAgent {
       },
       {
         name: "click_element",
+        sideEffects: true,
         description: "Click on an element by index",
         parameters: {
           type: "object",
@@ -663,6 +665,7 @@ export default abstract class BaseBrowserLabelsAgent extends BaseBrowserAgent {
       },
       {
         name: "select_option",
+        sideEffects: true,
         description:
           "Select the native dropdown option, Use this after get_select_options and when you need to select an option from a dropdown.",
         parameters: {
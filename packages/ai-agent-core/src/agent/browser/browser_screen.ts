@@ -202,6 +202,7 @@ export default abstract class BaseBrowserScreenAgent extends BaseBrowserAgent {
       },
       {
         name: "typing",
+        sideEffects: true,
         description: "Type specified text",
         parameters: {
           type: "object",
@@ -224,6 +225,7 @@ export default abstract class BaseBrowserScreenAgent extends BaseBrowserAgent {
       },
       {
         name: "click",
+        sideEffects: true,
         description: "Click at current or specified position",
         parameters: {
           type: "object",
@@ -355,6 +357,7 @@ export default abstract class BaseBrowserScreenAgent extends BaseBrowserAgent {
       },
       {
         name: "press",
+        sideEffects: true,
         description:
           "Press and release a key, supports Enter, Delete, Backspace, Tab, Space",
         parameters: {
@@ -379,6 +382,7 @@ export default abstract class BaseBrowserScreenAgent extends BaseBrowserAgent {
       },
       {
         name: "drag_and_drop",
+        sideEffects: true,
         description: "Drag and drop operation",
         parameters: {
           type: "object",
@@ -167,6 +167,7 @@ This is a computer GUI interface, observe the execution through screenshots, and
     return [
       {
         name: "typing",
+        sideEffects: true,
         description: "Simulates keyboard typing to input text into the currently focused application or text field on the computer.",
         parameters: {
           type: "object",
@@ -189,6 +190,7 @@ This is a computer GUI interface, observe the execution through screenshots, and
       },
       {
         name: "click",
+        sideEffects: true,
         description: "Simulates mouse clicking at an absolute screen position (x, y) on the computer.",
         parameters: {
           type: "object",
@@ -291,6 +293,7 @@ This is a computer GUI interface, observe the execution through screenshots, and
       },
       {
         name: "press",
+        sideEffects: true,
         description: "Simulate pressing and releasing a specific keyboard key",
         parameters: {
           type: "object",
@@ -314,6 +317,7 @@ This is a computer GUI interface, observe the execution through screenshots, and
       },
       {
         name: "hotkey",
+        sideEffects: true,
         description: "Simulate pressing one or more keyboard keys, including combinations.",
         parameters: {
           type: "object",
@@ -337,6 +341,7 @@ This is a computer GUI interface, observe the execution through screenshots, and
       },
       {
         name: "drag_and_drop",
+        sideEffects: true,
         description: "Performs a mouse drag-and-drop operation from a starting point to a target point on the screen.",
         parameters: {
           type: "object",
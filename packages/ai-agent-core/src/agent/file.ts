@@ -260,6 +260,7 @@ export default abstract class BaseFileAgent extends Agent {
       },
       {
         name: "file_write",
+        sideEffects: true,
         description:
           "Overwrite or append content to a file. Use for creating new files, appending content, or modifying existing files, only supports txt/md/json/csv or other text formats.",
         parameters: {
@@ -303,6 +304,7 @@ export default abstract class BaseFileAgent extends Agent {
       },
       {
         name: "file_str_replace",
+        sideEffects: true,
         description:
           "Replace specified string in a file. Use for updating specific content in files.",
         parameters: {
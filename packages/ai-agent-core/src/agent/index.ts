@@ -8,6 +8,8 @@ import {
   BaseBrowserLabelsAgent,    // Base class for label-based browser interaction
   BaseBrowserScreenAgent,    // Base class for screen-based browser automation
 } from "./browser";
+import { A2aClient, A2aRemoteAgent, partsToText, type IA2aClient } from "./a2a"; // A2A protocol client and remote agents
+import { AgentPool } from "./pool";                           // Pool of agent instances leased per workflow agent
 
 // Export all agent base classes for extensibility
 export {
@@ -18,5 +20,10 @@ export {
   BaseBrowserAgent,          // Browser automation base class
   BaseBrowserLabelsAgent,    // Label-based browser agent base class
   BaseBrowserScreenAgent,    // Screen-based browser agent base class
+  A2aClient,                 // A2A protocol client discovering remote agents
+  A2aRemoteAgent,            // Agent delegating its task to a remote A2A agent
+  partsToText,               // Joins the parts of an A2A message into text
+  AgentPool,                 // Pool of agent instances leased per workflow agent
+  type IA2aClient,           // Interface for A2A clients
   type AgentParams,          // Type definition for agent initialization parameters
 };
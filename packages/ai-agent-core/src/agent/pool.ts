@@ -0,0 +1,290 @@
+import Log from "../common/log";
+import { abortError } from "../common/utils";
+import type { Agent } from "./base";
+import {
+  AgentLease,
+  AgentPoolMetrics,
+  AgentPoolOptions,
+} from "../types/pool.types";
+
+type PooledAgent = {
+  name: string;
+  agent: Agent;
+  /** Task the instance was last leased by, its state belongs to this task */
+  taskId?: string;
+  leases: number;
+};
+
+type Waiter = {
+  name: string;
+  taskId?: string;
+  resolve: (pooled: PooledAgent) => void;
+  reject: (error: unknown) => void;
+  /** Set when the wait is aborted, possibly while an instance is created for the waiter */
+  aborted?: boolean;
+};
+
+/**
+ * A pool of agent instances leased per workflow agent, e.g. browser agents with separate
+ * browser contexts, so that parallel workflow agents of the same name do not share state.
+ *
+ * Set as `XSkyConfig.agentPool`, workflow agents whose name has a factory run on a leased
+ * instance instead of the configured agent. Released instances are kept idle and reused:
+ * an instance keeps its state for the agents of the same task, and is recycled before it
+ * is leased to another task. The pool holds at most `maxSize` instances, idle instances of
+ * other agents are evicted to make room.
+ *
+ * @example
+ * const agentPool = new AgentPool({
+ *   factories: { Browser: () => new BrowserAgent() },
+ *   maxSize: 4,
+ *   recycle: async (agent) => await (agent as BrowserAgent).resetSession(),
+ * });
+ * const xsky = new XSky({ llms, agents: [new BrowserAgent()], agentPool });
+ */
+export class AgentPool {
+  private factories: Record<string, () => Agent | Promise<Agent>>;
+  private maxSize: number;
+  private recycleAgent?: (agent: Agent) => Promise<void>;
+  private destroyAgent?: (agent: Agent) => Promise<void>;
+  /** Leased instances, including the instances being recycled for a lease */
+  private leased: Set<PooledAgent> = new Set();
+  /** Idle instances, least recently released first */
+  private idle: PooledAgent[] = [];
+  private waiters: Waiter[] = [];
+  /** Instances being created, counted in the size of the pool */
+  private creating: number = 0;
+  private closed: boolean = false;
+  private counters = {
+    leases: 0,
+    created: 0,
+    reused: 0,
+    recycled: 0,
+    destroyed: 0,
+    totalWaitMs: 0,
+    maxWaitMs: 0,
+  };
+
+  /**
+   * Creates a new AgentPool.
+   * @param options - The agent factories, maximum size and lifecycle callbacks.
+   */
+  constructor(options: AgentPoolOptions) {
+    this.factories = options.factories;
+    this.maxSize = options.maxSize || 4;
+    this.recycleAgent = options.recycle;
+    this.destroyAgent = options.destroy;
+  }
+
+  /**
+   * Whether the pool creates instances of an agent.
+   * @param name - The name of the agent.
+   */
+  has(name: string): boolean {
+    return !!this.factories[name];
+  }
+
+  /**
+   * Leases an instance of an agent, waiting while the pool is full.
+   * @param name - The name of the agent.
+   * @param taskId - The task the instance is leased by, its idle instances are preferred.
+   * @param signal - Aborts the wait, e.g. the abort signal of the task.
+   * @returns The lease, release it when the workflow agent finishes.
+   * @throws Error if the pool is closed or has no factory for the agent.
+   */
+  async acquire(name: string, taskId?: string, signal?: AbortSignal): Promise<AgentLease> {
+    if (this.closed) {
+      throw new Error("The agent pool is closed");
+    }
+    if (!this.has(name)) {
+      throw new Error("The agent pool has no factory for the agent: " + name);
+    }
+    const start = Date.now();
+    const pooled = await this.take(name, taskId, signal);
+    const reused = pooled.leases++ > 0;
+    pooled.taskId = taskId;
+    const waitMs = Date.now() - start;
+    this.counters.leases++;
+    this.counters.totalWaitMs += waitMs;
+    this.counters.maxWaitMs = Math.max(this.counters.maxWaitMs, waitMs);
+    reused && this.counters.reused++;
+    let released = false;
+    return {
+      agent: pooled.agent,
+      reused,
+      waitMs,
+      release: async () => {
+        if (!released) {
+          released = true;
+          await this.release(pooled);
+        }
+      },
+    };
+  }
+
+  /**
+   * Gets the metrics of the pool.
+   */
+  getMetrics(): AgentPoolMetrics {
+    const agents: AgentPoolMetrics["agents"] = {};
+    const count = (pooled: PooledAgent, key: "inUse" | "idle") => {
+      agents[pooled.name] = agents[pooled.name] || { inUse: 0, idle: 0 };
+      agents[pooled.name][key]++;
+    };
+    this.leased.forEach((pooled) => count(pooled, "inUse"));
+    this.idle.forEach((pooled) => count(pooled, "idle"));
+    return {
+      size: this.leased.size + this.idle.length,
+      inUse: this.leased.size,
+      idle: this.idle.length,
+      waiting: this.waiters.length,
+      ...this.counters,
+      agents,
+    };
+  }
+
+  /**
+   * Closes the pool, destroying the idle instances and the leased instances once released.
+   * Waiting leases are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+    const waiters = this.waiters;
+    this.waiters = [];
+    waiters.forEach((waiter) => waiter.reject(new Error("The agent pool is closed")));
+    const idle = this.idle;
+    this.idle = [];
+    await Promise.all(idle.map((pooled) => this.destroy(pooled)));
+  }
+
+  private async take(
+    name: string,
+    taskId: string | undefined,
+    signal?: AbortSignal
+  ): Promise<PooledAgent> {
+    const index = this.findIdle(name, taskId);
+    if (index > -1) {
+      const [pooled] = this.idle.splice(index, 1);
+      this.leased.add(pooled);
+      return await this.prepare(pooled, taskId);
+    }
+    if (this.size() < this.maxSize) {
+      return await this.create(name);
+    }
+    if (this.idle.length > 0) {
+      // Evict the least recently used instance of another agent
+      return await this.replace(this.idle.shift()!, name);
+    }
+    if (signal?.aborted) {
+      throw abortError();
+    }
+    const pooled = await new Promise<PooledAgent>((resolve, reject) => {
+      const waiter: Waiter = { name, taskId, resolve, reject };
+      this.waiters.push(waiter);
+      signal?.addEventListener(
+        "abort",
+        () => {
+          waiter.aborted = true;
+          this.waiters = this.waiters.filter((item) => item != waiter);
+          reject(abortError());
+        },
+        { once: true }
+      );
+    });
+    return await this.prepare(pooled, taskId);
+  }
+
+  private async release(pooled: PooledAgent) {
+    if (this.closed) {
+      this.leased.delete(pooled);
+      await this.destroy(pooled);
+      return;
+    }
+    const waiter =
+      this.waiters.find((item) => item.name == pooled.name) || this.waiters[0];
+    if (!waiter) {
+      this.leased.delete(pooled);
+      this.idle.push(pooled);
+      return;
+    }
+    this.waiters = this.waiters.filter((item) => item != waiter);
+    if (waiter.name == pooled.name) {
+      // Handed over, the instance stays counted as leased
+      waiter.resolve(pooled);
+      return;
+    }
+    this.replace(pooled, waiter.name).then((replaced) => {
+      if (waiter.aborted) {
+        // Nobody holds the instance, it goes to the next waiter or idle
+        return this.release(replaced);
+      }
+      waiter.resolve(replaced);
+    }, waiter.reject);
+  }
+
+  /**
+   * Finds an idle instance of an agent, preferring the instances of the same task.
+   */
+  private findIdle(name: string, taskId?: string): number {
+    const index = this.idle.findIndex(
+      (pooled) => pooled.name == name && pooled.taskId === taskId
+    );
+    return index > -1 ? index : this.idle.findIndex((pooled) => pooled.name == name);
+  }
+
+  /**
+   * Recycles an instance leased by another task, an instance failing to recycle is replaced.
+   */
+  private async prepare(pooled: PooledAgent, taskId?: string): Promise<PooledAgent> {
+    if (pooled.leases == 0 || pooled.taskId === taskId || !this.recycleAgent) {
+      return pooled;
+    }
+    try {
+      await this.recycleAgent(pooled.agent);
+      this.counters.recycled++;
+      return pooled;
+    } catch (e) {
+      Log.warn(`Replacing the ${pooled.name} agent that failed to recycle`, e);
+      return await this.replace(pooled, pooled.name);
+    }
+  }
+
+  /**
+   * Destroys an instance and creates an instance of an agent in its slot.
+   */
+  private async replace(pooled: PooledAgent, name: string): Promise<PooledAgent> {
+    this.leased.delete(pooled);
+    this.creating++;
+    try {
+      await this.destroy(pooled);
+    } finally {
+      this.creating--;
+    }
+    return await this.create(name);
+  }
+
+  private async create(name: string): Promise<PooledAgent> {
+    this.creating++;
+    try {
+      const pooled: PooledAgent = { name, agent: await this.factories[name](), leases: 0 };
+      this.counters.created++;
+      this.leased.add(pooled);
+      return pooled;
+    } finally {
+      this.creating--;
+    }
+  }
+
+  private async destroy(pooled: PooledAgent) {
+    this.counters.destroyed++;
+    if (this.destroyAgent) {
+      await this.destroyAgent(pooled.agent).catch((e) => {
+        Log.warn(`Failed to destroy the ${pooled.name} agent`, e);
+      });
+    }
+  }
+
+  private size(): number {
+    return this.leased.size + this.idle.length + this.creating;
+  }
+}
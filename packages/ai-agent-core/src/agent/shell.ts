@@ -3,6 +3,7 @@ import { AgentParams } from "./base";
 import { mergeTools } from "../common/utils";
 import { AgentContext } from "../core/context";
 import { Tool, ToolResult, IMcpClient } from "../types";
+import { LanguageModelV2ToolCallPart } from "@ai-sdk/provider";
 
 export const AGENT_NAME = "Shell";
 
@@ -60,12 +61,16 @@ export default abstract class BaseShellAgent extends Agent {
    * @param agentContext - The context for the agent to run in.
    * @param session_id - The ID of the session to execute the command in.
    * @param command - The command to execute.
+   * @param timeout - Optional timeout of the command in seconds.
+   * @param toolCallId - The ID of the tool call, to stream the output as "tool_running" messages.
    * @returns A promise that resolves to the output of the command.
    */
   protected abstract shell_exec(
     agentContext: AgentContext,
     session_id: string,
-    command: string
+    command: string,
+    timeout?: number,
+    toolCallId?: string
   ): Promise<string>;
 
   /**
@@ -109,6 +114,7 @@ export default abstract class BaseShellAgent extends Agent {
       },
       {
         name: "shell_exec",
+        sideEffects: true,
         description: "Execute commands in a specified shell session",
         parameters: {
           type: "object",
@@ -121,18 +127,26 @@ export default abstract class BaseShellAgent extends Agent {
               type: "string",
               description: "Shell command to execute",
             },
+            timeout: {
+              type: "number",
+              description:
+                "Optional timeout in seconds, the command is killed when it runs longer",
+            },
           },
           required: ["session_id", "command"],
         },
         execute: async (
           args: Record<string, unknown>,
-          agentContext: AgentContext
+          agentContext: AgentContext,
+          toolCall?: LanguageModelV2ToolCallPart
         ): Promise<ToolResult> => {
           return await this.callInnerTool(() =>
             this.shell_exec(
               agentContext,
               args.session_id as string,
-              args.command as string
+              args.command as string,
+              args.timeout as number | undefined,
+              toolCall?.toolCallId
             )
           );
         },
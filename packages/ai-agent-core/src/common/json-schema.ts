@@ -0,0 +1,217 @@
+// JSON Schema validation of values, e.g. the typed variables passed between agents
+import type { JSONSchema7, JSONSchema7Definition } from "json-schema";
+import type { JsonSchemaIssue } from "../types/tools.types";
+
+/**
+ * Validates a value against a JSON Schema (draft-07).
+ *
+ * Supports the keywords LLM-written schemas use: type, enum, const, properties, required,
+ * additionalProperties, items, min/maxItems, uniqueItems, min/maxLength, pattern,
+ * minimum, maximum, exclusiveMinimum, exclusiveMaximum, multipleOf, allOf, anyOf, oneOf and not.
+ * Other keywords, such as `$ref` and `format`, are ignored.
+ *
+ * @param schema - The JSON Schema.
+ * @param value - The value to validate.
+ * @param path - Path of the value, prefixed to the issue paths.
+ * @returns The issues found, empty when the value is valid.
+ */
+export function validateJsonSchema(
+  schema: JSONSchema7Definition,
+  value: unknown,
+  path: string = ""
+): JsonSchemaIssue[] {
+  const issues: JsonSchemaIssue[] = [];
+  validate(schema, value, path, issues);
+  return issues;
+}
+
+function validate(
+  schema: JSONSchema7Definition,
+  value: any,
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  if (schema === true) {
+    return;
+  }
+  if (schema === false) {
+    issues.push({ path, message: "Is not allowed" });
+    return;
+  }
+  if (schema.type && !matchesType(schema.type, value)) {
+    issues.push({ path, message: `Must be ${[schema.type].flat().join(" or ")}` });
+    return;
+  }
+  if (schema.enum && !schema.enum.some((item) => isEqual(item, value))) {
+    issues.push({
+      path,
+      message: `Must be one of: ${schema.enum.map((item) => JSON.stringify(item)).join(", ")}`,
+    });
+  }
+  if (schema.const !== undefined && !isEqual(schema.const, value)) {
+    issues.push({ path, message: `Must be ${JSON.stringify(schema.const)}` });
+  }
+  for (const subSchema of schema.allOf || []) {
+    validate(subSchema, value, path, issues);
+  }
+  if (schema.anyOf && !schema.anyOf.some((s) => validateJsonSchema(s, value).length == 0)) {
+    issues.push({ path, message: "Must match at least one of the anyOf schemas" });
+  }
+  if (schema.oneOf) {
+    const matches = schema.oneOf.filter((s) => validateJsonSchema(s, value).length == 0);
+    const intended = matches.length == 0 ? intendedBranch(schema.oneOf, value) : undefined;
+    if (intended) {
+      // Reports the issues of the intended branch rather than a mismatch of all of them
+      validate(intended, value, path, issues);
+    } else if (matches.length != 1) {
+      issues.push({ path, message: "Must match exactly one of the oneOf schemas" });
+    }
+  }
+  if (schema.not !== undefined && validateJsonSchema(schema.not, value).length == 0) {
+    issues.push({ path, message: "Must not match the not schema" });
+  }
+  if (typeof value == "string") {
+    validateString(schema, value, path, issues);
+  } else if (typeof value == "number") {
+    validateNumber(schema, value, path, issues);
+  } else if (Array.isArray(value)) {
+    validateArray(schema, value, path, issues);
+  } else if (typeof value == "object" && value !== null) {
+    validateObject(schema, value, path, issues);
+  }
+}
+
+function validateString(
+  schema: JSONSchema7,
+  value: string,
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  if (schema.minLength !== undefined && value.length < schema.minLength) {
+    issues.push({ path, message: `Must have at least ${schema.minLength} character(s)` });
+  }
+  if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+    issues.push({ path, message: `Must have at most ${schema.maxLength} character(s)` });
+  }
+  if (schema.pattern && !new RegExp(schema.pattern, "u").test(value)) {
+    issues.push({ path, message: `Must match the pattern ${schema.pattern}` });
+  }
+}
+
+function validateNumber(
+  schema: JSONSchema7,
+  value: number,
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  if (schema.minimum !== undefined && value < schema.minimum) {
+    issues.push({ path, message: `Must be >= ${schema.minimum}` });
+  }
+  if (schema.maximum !== undefined && value > schema.maximum) {
+    issues.push({ path, message: `Must be <= ${schema.maximum}` });
+  }
+  if (schema.exclusiveMinimum !== undefined && value <= schema.exclusiveMinimum) {
+    issues.push({ path, message: `Must be > ${schema.exclusiveMinimum}` });
+  }
+  if (schema.exclusiveMaximum !== undefined && value >= schema.exclusiveMaximum) {
+    issues.push({ path, message: `Must be < ${schema.exclusiveMaximum}` });
+  }
+  if (schema.multipleOf && !Number.isInteger(value / schema.multipleOf)) {
+    issues.push({ path, message: `Must be a multiple of ${schema.multipleOf}` });
+  }
+}
+
+function validateArray(
+  schema: JSONSchema7,
+  value: any[],
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  if (schema.minItems !== undefined && value.length < schema.minItems) {
+    issues.push({ path, message: `Must have at least ${schema.minItems} item(s)` });
+  }
+  if (schema.maxItems !== undefined && value.length > schema.maxItems) {
+    issues.push({ path, message: `Must have at most ${schema.maxItems} item(s)` });
+  }
+  if (schema.uniqueItems && value.some((item, i) => value.findIndex((other) => isEqual(item, other)) != i)) {
+    issues.push({ path, message: "Must have unique items" });
+  }
+  if (Array.isArray(schema.items)) {
+    // Tuple validation
+    schema.items.forEach((itemSchema, i) => {
+      i < value.length && validate(itemSchema, value[i], `${path}[${i}]`, issues);
+    });
+    if (schema.additionalItems !== undefined) {
+      for (let i = schema.items.length; i < value.length; i++) {
+        validate(schema.additionalItems, value[i], `${path}[${i}]`, issues);
+      }
+    }
+  } else if (schema.items !== undefined) {
+    value.forEach((item, i) => validate(schema.items as JSONSchema7Definition, item, `${path}[${i}]`, issues));
+  }
+}
+
+function validateObject(
+  schema: JSONSchema7,
+  value: Record<string, any>,
+  path: string,
+  issues: JsonSchemaIssue[]
+) {
+  const properties = schema.properties || {};
+  for (const key of schema.required || []) {
+    if (value[key] === undefined) {
+      issues.push({ path: joinPath(path, key), message: "Is required" });
+    }
+  }
+  for (const key of Object.keys(value)) {
+    if (properties[key] !== undefined) {
+      validate(properties[key], value[key], joinPath(path, key), issues);
+    } else if (schema.additionalProperties === false) {
+      issues.push({ path: joinPath(path, key), message: "Unknown property" });
+    } else if (typeof schema.additionalProperties == "object") {
+      validate(schema.additionalProperties, value[key], joinPath(path, key), issues);
+    }
+  }
+}
+
+/**
+ * The oneOf branch a value is meant for, the only one matching its type and having
+ * its first required property, e.g. the kind of a node object.
+ */
+function intendedBranch(
+  branches: JSONSchema7Definition[],
+  value: any
+): JSONSchema7 | undefined {
+  const candidates = branches.filter(
+    (s): s is JSONSchema7 =>
+      typeof s == "object" &&
+      matchesType(s.type, value) &&
+      (!s.required || value[s.required[0]] !== undefined)
+  );
+  return candidates.length == 1 ? candidates[0] : undefined;
+}
+
+function matchesType(type: JSONSchema7["type"], value: any): boolean {
+  return [type || []].flat().some((t) => {
+    switch (t) {
+      case "object":
+        return typeof value == "object" && value !== null && !Array.isArray(value);
+      case "array":
+        return Array.isArray(value);
+      case "integer":
+        return Number.isInteger(value);
+      case "null":
+        return value === null;
+      default:
+        return typeof value == t;
+    }
+  });
+}
+
+function isEqual(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function joinPath(path: string, key: string): string {
+  return path ? path + "." + key : key;
+}
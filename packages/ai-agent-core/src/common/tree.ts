@@ -12,10 +12,10 @@ import Log from "./log";
  * @returns The root node of the agent tree.
  */
 export function buildAgentTree(agents: WorkflowAgent[]): AgentNode {
-  // Detect and handle circular dependencies
-  const safeAgents = detectAndBreakCycles(agents);
+  // Detect and handle circular dependencies, the workflow agents are left unchanged
+  const safeDependsOn = detectAndBreakCycles(agents);
 
-  if (safeAgents.length === 0) {
+  if (agents.length === 0) {
     throw new Error("No executable agent");
   }
 
@@ -23,25 +23,27 @@ export function buildAgentTree(agents: WorkflowAgent[]): AgentNode {
   const agentMap = new Map<string, WorkflowAgent>();
   const dependents = new Map<string, WorkflowAgent[]>();
 
-  for (const agent of safeAgents) {
+  for (const agent of agents) {
     agentMap.set(agent.id, agent);
     dependents.set(agent.id, []);
   }
 
-  for (const agent of safeAgents) {
-    for (const depId of agent.dependsOn) {
+  for (const agent of agents) {
+    for (const depId of safeDependsOn.get(agent.id)!) {
       if (dependents.has(depId)) {
         dependents.get(depId)!.push(agent);
       }
     }
   }
 
-  let entryAgents = safeAgents.filter((agent) => agent.dependsOn.length === 0);
+  let entryAgents = agents.filter(
+    (agent) => safeDependsOn.get(agent.id)!.length === 0
+  );
   if (entryAgents.length === 0) {
-    entryAgents = safeAgents.filter(
-      (agent) =>
-        agent.dependsOn.length == 1 && agent.dependsOn[0].endsWith("00")
-    );
+    entryAgents = agents.filter((agent) => {
+      const dependsOn = safeDependsOn.get(agent.id)!;
+      return dependsOn.length == 1 && dependsOn[0].endsWith("00");
+    });
   }
 
   const processedAgents = new Set<string>();
@@ -61,9 +63,9 @@ export function buildAgentTree(agents: WorkflowAgent[]): AgentNode {
     for (const agent of currentAgents) {
       const dependentAgents = dependents.get(agent.id) || [];
       for (const dependentAgent of dependentAgents) {
-        const allDependenciesProcessed = dependentAgent.dependsOn.every(
-          (depId) => processedAgents.has(depId)
-        );
+        const allDependenciesProcessed = safeDependsOn
+          .get(dependentAgent.id)!
+          .every((depId) => processedAgents.has(depId));
         if (allDependenciesProcessed && !nextLevelSet.has(dependentAgent.id)) {
           nextLevelAgents.push(dependentAgent);
           nextLevelSet.add(dependentAgent.id);
@@ -104,12 +106,51 @@ export function buildAgentTree(agents: WorkflowAgent[]): AgentNode {
   return rootNode;
 }
 
+/**
+ * Finds a dependency cycle in a graph of agents.
+ * @param ids - The ids of the agents.
+ * @param getDependsOn - Gets the ids an agent depends on, unknown ids are ignored.
+ * @returns The ids along the cycle, starting and ending with the same id, or null without cycle.
+ */
+export function findDependencyCycle(
+  ids: string[],
+  getDependsOn: (id: string) => string[]
+): string[] | null {
+  const state = new Map<string, "visiting" | "done">();
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (state.get(id) == "visiting") {
+      return [...path.slice(path.indexOf(id)), id];
+    }
+    if (state.has(id) || ids.indexOf(id) == -1) {
+      return null;
+    }
+    state.set(id, "visiting");
+    for (const depId of getDependsOn(id)) {
+      const cycle = visit(depId, [...path, id]);
+      if (cycle) {
+        return cycle;
+      }
+    }
+    state.set(id, "done");
+    return null;
+  };
+  for (const id of ids) {
+    const cycle = visit(id, []);
+    if (cycle) {
+      return cycle;
+    }
+  }
+  return null;
+}
+
 /**
  * Detects and breaks cycles in a list of agents.
  * @param agents - The list of agents to check for cycles.
- * @returns A list of agents with cycles broken.
+ * @returns The dependencies of each agent with cycles broken and non-existent dependencies removed.
  */
-function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
+function detectAndBreakCycles(
+  agents: WorkflowAgent[]
+): Map<string, string[]> {
   // Detect cyclic dependencies and return a safe dependency relationship
   // Use topological sorting algorithm to detect cycles, if a cycle is found, break some dependencies.
   const agentMap = new Map<string, WorkflowAgent>();
@@ -131,12 +172,10 @@ function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
   }
   // Topological Sorting Detects Cycles
   const queue: string[] = [];
-  const processedCount = new Map<string, number>();
   for (const [agentId, degree] of inDegree.entries()) {
     if (degree === 0) {
       queue.push(agentId);
     }
-    processedCount.set(agentId, 0);
   }
 
   let processedNodes = 0;
@@ -152,6 +191,7 @@ function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
     }
   }
 
+  const safeDependsOn = new Map<string, string[]>();
   if (processedNodes < agents.length) {
     Log.warn(
       "Detected a circular dependency, automatically disconnecting the circular link..."
@@ -163,8 +203,6 @@ function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
       }
     }
 
-    const fixedAgents: WorkflowAgent[] = [];
-
     for (const agent of agents) {
       if (cyclicNodes.has(agent.id)) {
         const filteredDependsOn = agent.dependsOn.filter(
@@ -181,8 +219,7 @@ function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
           }
         }
 
-        agent.dependsOn = filteredDependsOn;
-        fixedAgents.push(agent);
+        safeDependsOn.set(agent.id, filteredDependsOn);
 
         if (filteredDependsOn.length !== agent.dependsOn.length) {
           Log.warn(
@@ -191,20 +228,22 @@ function detectAndBreakCycles(agents: WorkflowAgent[]): WorkflowAgent[] {
         }
       } else {
         // Non-cyclic node, filter out non-existent dependencies
-        const validDependsOn = agent.dependsOn.filter((depId) =>
-          agentMap.has(depId)
+        safeDependsOn.set(
+          agent.id,
+          agent.dependsOn.filter((depId) => agentMap.has(depId))
         );
-        agent.dependsOn = validDependsOn;
-        fixedAgents.push(agent);
       }
     }
 
-    return fixedAgents;
+    return safeDependsOn;
   }
 
   // No loops, just need to filter out non-existent dependencies
-  return agents.map((agent) => {
-    agent.dependsOn = agent.dependsOn.filter((depId) => agentMap.has(depId));
-    return agent;
-  });
+  for (const agent of agents) {
+    safeDependsOn.set(
+      agent.id,
+      agent.dependsOn.filter((depId) => agentMap.has(depId))
+    );
+  }
+  return safeDependsOn;
 }
@@ -5,10 +5,34 @@ import { LanguageModelV2FunctionTool } from "@ai-sdk/provider";
 /**
  * Sleeps for a specified amount of time.
  * @param time - The time to sleep in milliseconds.
+ * @param signal - Stops the sleep early, rejecting with an `AbortError`.
  * @returns A promise that resolves when the time has passed.
  */
-export function sleep(time: number): Promise<void> {
-  return new Promise((resolve) => setTimeout(() => resolve(), Math.max(0, time)));
+export function sleep(time: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(abortError());
+      return;
+    }
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, Math.max(0, time));
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError());
+    };
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/**
+ * Creates the error thrown when an operation is stopped by its abort signal.
+ */
+export function abortError(): Error {
+  const error = new Error("Operation was interrupted");
+  error.name = "AbortError";
+  return error;
 }
 
 /**
@@ -408,3 +432,33 @@ export function fixXmlTag(code: string) {
   let completedCode = code + missingParts.join("");
   return completedCode;
 }
+
+/**
+ * Gets the host of a URL.
+ * @param url - The URL, may be any value.
+ * @returns The lowercase host, or undefined if the value is not an absolute URL.
+ */
+export function urlHost(url: any): string | undefined {
+  if (typeof url != "string" || !url) {
+    return undefined;
+  }
+  try {
+    return new URL(url).hostname.toLowerCase() || undefined;
+  } catch (e) {
+    return undefined;
+  }
+}
+
+/**
+ * Hashes a string with 64-bit FNV-1a.
+ * @param text - The string to hash.
+ * @returns The hash, as 16 hex characters.
+ */
+export function hashString(text: string): string {
+  let hash = 0xcbf29ce484222325n;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= BigInt(text.charCodeAt(i));
+    hash = (hash * 0x100000001b3n) & 0xffffffffffffffffn;
+  }
+  return hash.toString(16).padStart(16, "0");
+}
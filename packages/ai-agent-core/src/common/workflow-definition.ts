@@ -0,0 +1,590 @@
+// Structured (JSON/YAML) workflow definitions, converted to and from the XML plan
+import { parse, stringify } from "yaml";
+import type { JSONSchema7 } from "json-schema";
+import config from "../config";
+import { uuidv4 } from "./utils";
+import { getLocalAgentId, parseWorkflow, resetWorkflowXml } from "./xml";
+import { findDependencyCycle } from "./tree";
+import { validateJsonSchema } from "./json-schema";
+import {
+  Workflow,
+  WorkflowAgentDefinition,
+  WorkflowCondition,
+  WorkflowConditionDefinition,
+  WorkflowDefinition,
+  WorkflowDefinitionIssue,
+  WorkflowDefinitionOptions,
+  WorkflowNode,
+  WorkflowNodeDefinition,
+  WorkflowTextNode,
+  WorkflowTextNodeDefinition,
+} from "../types/core.types";
+
+const textNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["text"],
+  additionalProperties: false,
+  properties: {
+    text: { type: "string", minLength: 1 },
+    input: { type: "string" },
+    output: { type: "string" },
+    outputSchema: { type: "object" },
+  },
+};
+
+const forEachNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["forEach", "nodes"],
+  additionalProperties: false,
+  properties: {
+    forEach: { type: "string", minLength: 1 },
+    nodes: {
+      type: "array",
+      items: { oneOf: [{ type: "string", minLength: 1 }, textNodeSchema] },
+    },
+  },
+};
+
+const textNodesSchema: JSONSchema7 = {
+  type: "array",
+  items: { oneOf: [{ type: "string", minLength: 1 }, textNodeSchema] },
+};
+
+const conditionSchema: JSONSchema7 = {
+  type: "object",
+  additionalProperties: false,
+  properties: {
+    variable: { type: "string", minLength: 1 },
+    equals: { type: "string" },
+    condition: { type: "string", minLength: 1 },
+  },
+};
+
+const ifNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["if", "then"],
+  additionalProperties: false,
+  properties: {
+    if: conditionSchema,
+    then: textNodesSchema,
+    else: textNodesSchema,
+  },
+};
+
+const whileNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["while", "nodes"],
+  additionalProperties: false,
+  properties: {
+    while: conditionSchema,
+    maxIterations: { type: "integer" },
+    nodes: textNodesSchema,
+  },
+};
+
+const tryNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["try"],
+  additionalProperties: false,
+  properties: {
+    try: textNodesSchema,
+    catch: textNodesSchema,
+  },
+};
+
+const bindingsSchema: JSONSchema7 = {
+  type: "object",
+  additionalProperties: { type: "string", minLength: 1 },
+};
+
+const watchNodeSchema: JSONSchema7 = {
+  type: "object",
+  required: ["watch", "trigger"],
+  additionalProperties: false,
+  properties: {
+    watch: { type: "string", enum: ["dom", "gui", "file"] },
+    loop: { type: "boolean" },
+    description: { type: "string" },
+    trigger: {
+      type: "array",
+      items: { oneOf: [{ type: "string", minLength: 1 }, textNodeSchema] },
+    },
+  },
+};
+
+/**
+ * JSON Schema of workflow definitions, it can be referenced by the `$schema`
+ * property of hand-authored JSON or YAML files for editor completion.
+ */
+export const workflowDefinitionSchema: JSONSchema7 = {
+  $schema: "http://json-schema.org/draft-07/schema#",
+  title: "XSky workflow definition",
+  type: "object",
+  required: ["name", "agents"],
+  additionalProperties: false,
+  properties: {
+    $schema: { type: "string" },
+    taskId: { type: "string", minLength: 1 },
+    name: { type: "string" },
+    thought: { type: "string" },
+    taskPrompt: { type: "string" },
+    agents: {
+      type: "array",
+      minItems: 1,
+      items: {
+        type: "object",
+        required: ["name", "task"],
+        additionalProperties: false,
+        properties: {
+          id: { type: ["string", "integer"] },
+          name: { type: "string", minLength: 1 },
+          task: { type: "string" },
+          dependsOn: { type: "array", items: { type: ["string", "integer"] } },
+          workflow: { type: "boolean" },
+          inputs: bindingsSchema,
+          outputs: bindingsSchema,
+          nodes: {
+            type: "array",
+            items: {
+              oneOf: [
+                { type: "string", minLength: 1 },
+                forEachNodeSchema,
+                watchNodeSchema,
+                ifNodeSchema,
+                whileNodeSchema,
+                tryNodeSchema,
+                textNodeSchema,
+              ],
+            },
+          },
+        },
+      },
+    },
+  },
+};
+
+/**
+ * Error thrown when a workflow definition is invalid, with every issue found.
+ */
+export class WorkflowDefinitionError extends Error {
+  readonly issues: WorkflowDefinitionIssue[];
+
+  constructor(issues: WorkflowDefinitionIssue[]) {
+    super(
+      "Invalid workflow definition:\n" +
+        issues
+          .map((issue) => `- ${issue.path || "(root)"}: ${issue.message}`)
+          .join("\n")
+    );
+    this.name = "WorkflowDefinitionError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Validates a workflow definition against the JSON Schema, then checks that agent names
+ * are registered, that sub-workflow entries call saved workflows, that `dependsOn` references existing agents without cycles, that if and
+ * while nodes have a condition, and that node `input` and condition variables are written
+ * before by the agent or one of its dependencies.
+ * @param definition - The parsed workflow definition.
+ * @param options - The registered agent and saved workflow names, and the variables set before execution.
+ * @returns The issues found, empty when the definition is valid.
+ */
+export function validateWorkflowDefinition(
+  definition: unknown,
+  options: WorkflowDefinitionOptions = {}
+): WorkflowDefinitionIssue[] {
+  const issues: WorkflowDefinitionIssue[] = validateJsonSchema(workflowDefinitionSchema, definition);
+  if (issues.length > 0) {
+    return issues;
+  }
+  const agents = (definition as WorkflowDefinition).agents;
+  const ids = agents.map((agent, i) => String(agent.id ?? i));
+  agents.forEach((agent, i) => {
+    const path = `agents[${i}]`;
+    if (ids.indexOf(ids[i]) != i) {
+      issues.push({ path: path + ".id", message: `Duplicate agent id "${ids[i]}"` });
+    }
+    if (agent.workflow) {
+      if (options.workflows && options.workflows.indexOf(agent.name) == -1) {
+        issues.push({
+          path: path + ".name",
+          message: `Unknown workflow "${agent.name}", saved workflows: ${options.workflows.join(", ")}`,
+        });
+      }
+    } else if (options.agents && options.agents.indexOf(agent.name) == -1) {
+      issues.push({
+        path: path + ".name",
+        message: `Unknown agent "${agent.name}", available agents: ${options.agents.join(", ")}`,
+      });
+    }
+    visitTextNodes(agent.nodes || [], path + ".nodes", () => {}, (condition, conditionPath) => {
+      if (!condition.variable && !condition.condition) {
+        issues.push({ path: conditionPath, message: "Must have a variable or a condition" });
+      }
+    });
+    (agent.dependsOn || []).forEach((dependency, j) => {
+      if (ids.indexOf(String(dependency)) == -1) {
+        issues.push({
+          path: `${path}.dependsOn[${j}]`,
+          message: `Agent "${ids[i]}" depends on undefined agent "${dependency}"`,
+        });
+      }
+    });
+  });
+  const cycle = findDependencyCycle(ids, (id) =>
+    (agents[ids.indexOf(id)].dependsOn || []).map(String)
+  );
+  if (cycle) {
+    issues.push({
+      path: `agents[${ids.indexOf(cycle[0])}].dependsOn`,
+      message: "Dependency cycle: " + cycle.join(" -> "),
+    });
+  } else if (issues.length == 0) {
+    checkVariables(agents, ids, options.variables || [], issues);
+  }
+  return issues;
+}
+
+/**
+ * Parses a JSON or YAML workflow definition into a Workflow.
+ * @param text - The JSON or YAML text (YAML is a superset of JSON).
+ * @param options - The registered agent names, the variables set before execution
+ *   and the task ID used when the definition has none.
+ * @returns The workflow, with the equivalent XML plan.
+ * @throws WorkflowDefinitionError if the text cannot be parsed or the definition is invalid.
+ */
+export function parseWorkflowDefinition(
+  text: string,
+  options: WorkflowDefinitionOptions & { taskId?: string } = {}
+): Workflow {
+  return workflowFromDefinition(readWorkflowDefinition(text), options);
+}
+
+/**
+ * Reads the JSON or YAML text of a workflow definition, without validating it.
+ * @param text - The JSON or YAML text.
+ * @returns The workflow definition.
+ * @throws WorkflowDefinitionError if the text cannot be parsed.
+ */
+export function readWorkflowDefinition(text: string): WorkflowDefinition {
+  try {
+    return parse(text);
+  } catch (e: any) {
+    throw new WorkflowDefinitionError([{ path: "", message: e.message }]);
+  }
+}
+
+/**
+ * Converts a workflow definition into a Workflow, as `parseWorkflow` would from the XML plan.
+ * @param definition - The workflow definition.
+ * @param options - The registered agent names, the variables set before execution
+ *   and the task ID used when the definition has none.
+ * @returns The workflow, with the equivalent XML plan.
+ * @throws WorkflowDefinitionError if the definition is invalid.
+ */
+export function workflowFromDefinition(
+  definition: WorkflowDefinition,
+  options: WorkflowDefinitionOptions & { taskId?: string } = {}
+): Workflow {
+  const issues = validateWorkflowDefinition(definition, options);
+  if (issues.length > 0) {
+    throw new WorkflowDefinitionError(issues);
+  }
+  const taskId = definition.taskId || options.taskId || uuidv4();
+  const localIds = definition.agents.map((agent, i) => String(agent.id ?? i));
+  const draft: Workflow = {
+    taskId: taskId,
+    name: definition.name,
+    thought: definition.thought || "",
+    agents: definition.agents.map((agent, i) => ({
+      id: taskId + "-" + localIds[i],
+      name: agent.name,
+      task: agent.task,
+      dependsOn: (agent.dependsOn || []).map((id) => taskId + "-" + id),
+      nodes: (agent.nodes || []).map(toWorkflowNode),
+      status: "init",
+      xml: "",
+      ...(agent.workflow
+        ? { subWorkflow: { inputs: agent.inputs || {}, outputs: agent.outputs || {} } }
+        : {}),
+    })),
+    xml: "",
+  };
+  resetWorkflowXml(draft);
+  // Parsed back from its XML, the workflow is identical to one planned by the LLM
+  const workflow = parseWorkflow(taskId, draft.xml, true) as Workflow;
+  if (definition.taskPrompt) {
+    workflow.taskPrompt = definition.taskPrompt;
+  }
+  return workflow;
+}
+
+/**
+ * Converts a Workflow into a workflow definition.
+ * @param workflow - The workflow, planned or parsed from a definition.
+ * @returns The workflow definition.
+ */
+export function workflowToDefinition(workflow: Workflow): WorkflowDefinition {
+  const localId = (id: string, index: number) => {
+    const local = getLocalAgentId(workflow.taskId, id, index);
+    return /^\d+$/.test(local) ? +local : local;
+  };
+  const agents = workflow.agents.map((agent, i) => {
+    const agentDefinition: WorkflowAgentDefinition = {
+      id: localId(agent.id, i),
+      name: agent.name,
+      task: agent.task,
+    };
+    if (agent.dependsOn.length > 0) {
+      agentDefinition.dependsOn = agent.dependsOn.map((id) =>
+        localId(id, workflow.agents.findIndex((a) => a.id == id))
+      );
+    }
+    if (agent.subWorkflow) {
+      agentDefinition.workflow = true;
+      Object.keys(agent.subWorkflow.inputs).length &&
+        (agentDefinition.inputs = agent.subWorkflow.inputs);
+      Object.keys(agent.subWorkflow.outputs).length &&
+        (agentDefinition.outputs = agent.subWorkflow.outputs);
+    } else {
+      agentDefinition.nodes = agent.nodes.map(toNodeDefinition);
+    }
+    return agentDefinition;
+  });
+  return {
+    taskId: workflow.taskId,
+    name: workflow.name,
+    ...(workflow.thought ? { thought: workflow.thought } : {}),
+    ...(workflow.taskPrompt ? { taskPrompt: workflow.taskPrompt } : {}),
+    agents,
+  };
+}
+
+/**
+ * Serializes a Workflow as a workflow definition.
+ * @param workflow - The workflow.
+ * @param format - "yaml" or "json", defaults to "yaml".
+ * @returns The workflow definition text.
+ */
+export function stringifyWorkflowDefinition(
+  workflow: Workflow,
+  format: "json" | "yaml" = "yaml"
+): string {
+  const definition = workflowToDefinition(workflow);
+  return format == "json"
+    ? JSON.stringify(definition, null, 2)
+    : stringify(definition, { lineWidth: 0 });
+}
+
+/**
+ * Checks whether a value is a workflow definition rather than a Workflow,
+ * which always has its XML plan.
+ * @param workflow - The value to check.
+ * @returns true for a workflow definition.
+ */
+export function isWorkflowDefinition(
+  workflow: Workflow | WorkflowDefinition
+): workflow is WorkflowDefinition {
+  return typeof (workflow as Workflow).xml != "string";
+}
+
+function toWorkflowNode(node: WorkflowNodeDefinition): WorkflowNode {
+  if (typeof node == "string") {
+    return { type: "normal", text: node };
+  } else if ("forEach" in node) {
+    return {
+      type: "forEach",
+      items: node.forEach,
+      nodes: node.nodes.map(toWorkflowNode),
+    };
+  } else if ("watch" in node) {
+    return {
+      type: "watch",
+      event: node.watch,
+      loop: node.loop || false,
+      description: node.description || "",
+      triggerNodes: node.trigger.map(toWorkflowNode) as WorkflowTextNode[],
+    };
+  } else if ("if" in node) {
+    return {
+      type: "if",
+      condition: toCondition(node.if),
+      thenNodes: node.then.map(toWorkflowNode),
+      elseNodes: (node.else || []).map(toWorkflowNode),
+    };
+  } else if ("while" in node) {
+    return {
+      type: "while",
+      condition: toCondition(node.while),
+      maxIterations: node.maxIterations || config.maxWhileIterations,
+      nodes: node.nodes.map(toWorkflowNode),
+    };
+  } else if ("try" in node) {
+    return {
+      type: "try",
+      nodes: node.try.map(toWorkflowNode),
+      catchNodes: (node.catch || []).map(toWorkflowNode),
+    };
+  } else {
+    const textNode: WorkflowTextNode = {
+      type: "normal",
+      text: node.text,
+      input: node.input,
+      output: node.output,
+    };
+    node.outputSchema && (textNode.outputSchema = node.outputSchema);
+    return textNode;
+  }
+}
+
+function toNodeDefinition(node: WorkflowNode): WorkflowNodeDefinition {
+  if (node.type == "forEach") {
+    return {
+      forEach: node.items,
+      nodes: node.nodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[],
+    };
+  } else if (node.type == "watch") {
+    return {
+      watch: node.event,
+      loop: node.loop,
+      description: node.description,
+      trigger: node.triggerNodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[],
+    };
+  } else if (node.type == "if") {
+    const definition: WorkflowNodeDefinition = {
+      if: toConditionDefinition(node.condition),
+      then: node.thenNodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[],
+    };
+    node.elseNodes.length &&
+      (definition.else = node.elseNodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[]);
+    return definition;
+  } else if (node.type == "while") {
+    return {
+      while: toConditionDefinition(node.condition),
+      maxIterations: node.maxIterations,
+      nodes: node.nodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[],
+    };
+  } else if (node.type == "try") {
+    const definition: WorkflowNodeDefinition = {
+      try: node.nodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[],
+    };
+    node.catchNodes.length &&
+      (definition.catch = node.catchNodes.map(toNodeDefinition) as WorkflowTextNodeDefinition[]);
+    return definition;
+  } else if (!node.input && !node.output && !node.outputSchema) {
+    return node.text;
+  } else {
+    const definition: WorkflowTextNodeDefinition = { text: node.text };
+    node.input && (definition.input = node.input);
+    node.output && (definition.output = node.output);
+    node.outputSchema && (definition.outputSchema = node.outputSchema);
+    return definition;
+  }
+}
+
+function toCondition(condition: WorkflowConditionDefinition): WorkflowCondition {
+  if (condition.variable) {
+    return condition.equals !== undefined
+      ? { variable: condition.variable, equals: condition.equals }
+      : { variable: condition.variable };
+  }
+  return { text: condition.condition || "" };
+}
+
+function toConditionDefinition(condition: WorkflowCondition): WorkflowConditionDefinition {
+  if (condition.variable) {
+    return condition.equals !== undefined
+      ? { variable: condition.variable, equals: condition.equals }
+      : { variable: condition.variable };
+  }
+  return { condition: condition.text || "" };
+}
+
+/**
+ * Checks that node inputs and condition variables are written before they are read: by an earlier node of the agent,
+ * by one of the agents it depends on (transitively), or before execution.
+ */
+function checkVariables(
+  agents: WorkflowAgentDefinition[],
+  ids: string[],
+  variables: string[],
+  issues: WorkflowDefinitionIssue[]
+) {
+  const outputs: Record<string, string[]> = {};
+  const getOutputs = (index: number): string[] => {
+    if (!outputs[ids[index]]) {
+      const written: string[] = [];
+      for (const dependency of agents[index].dependsOn || []) {
+        written.push(...getOutputs(ids.indexOf(String(dependency))));
+      }
+      visitTextNodes(agents[index].nodes || [], "", (node) => {
+        node.output && written.push(node.output);
+      });
+      written.push(...Object.values(agents[index].outputs || {}));
+      outputs[ids[index]] = written;
+    }
+    return outputs[ids[index]];
+  };
+  agents.forEach((agent, i) => {
+    const written = [...variables];
+    for (const dependency of agent.dependsOn || []) {
+      written.push(...getOutputs(ids.indexOf(String(dependency))));
+    }
+    const readIssue = (name: string, path: string) =>
+      issues.push({
+        path,
+        message: `Variable "${name}" is read before it is written by agent "${ids[i]}" or the agents it depends on`,
+      });
+    Object.entries(agent.inputs || {})
+      .filter(([, name]) => written.indexOf(name) == -1)
+      .forEach(([input, name]) => readIssue(name, `agents[${i}].inputs.${input}`));
+    visitTextNodes(
+      agent.nodes || [],
+      `agents[${i}].nodes`,
+      (node, path) => {
+        (node.input || "")
+          .split(",")
+          .map((name) => name.trim())
+          .filter((name) => name && written.indexOf(name) == -1)
+          .forEach((name) => readIssue(name, path + ".input"));
+        node.output && written.push(node.output);
+      },
+      (condition, path) => {
+        if (condition.variable && written.indexOf(condition.variable) == -1) {
+          readIssue(condition.variable, path + ".variable");
+        }
+      }
+    );
+  });
+}
+
+function visitTextNodes(
+  nodes: WorkflowNodeDefinition[],
+  path: string,
+  callback: (node: { text: string; input?: string; output?: string }, path: string) => void,
+  onCondition?: (condition: WorkflowConditionDefinition, path: string) => void
+) {
+  nodes.forEach((node, i) => {
+    const nodePath = `${path}[${i}]`;
+    if (typeof node == "string") {
+      return;
+    } else if ("forEach" in node) {
+      visitTextNodes(node.nodes, nodePath + ".nodes", callback, onCondition);
+    } else if ("watch" in node) {
+      visitTextNodes(node.trigger, nodePath + ".trigger", callback, onCondition);
+    } else if ("if" in node) {
+      onCondition?.(node.if, nodePath + ".if");
+      visitTextNodes(node.then, nodePath + ".then", callback, onCondition);
+      visitTextNodes(node.else || [], nodePath + ".else", callback, onCondition);
+    } else if ("while" in node) {
+      onCondition?.(node.while, nodePath + ".while");
+      visitTextNodes(node.nodes, nodePath + ".nodes", callback, onCondition);
+    } else if ("try" in node) {
+      visitTextNodes(node.try, nodePath + ".try", callback, onCondition);
+      visitTextNodes(node.catch || [], nodePath + ".catch", callback, onCondition);
+    } else {
+      callback(node, nodePath);
+    }
+  });
+}
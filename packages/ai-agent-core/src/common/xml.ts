@@ -1,13 +1,19 @@
 // XML workflow parsing and manipulation utilities
+import config from "../config";                       // Global configuration
+import Log from "./log";                              // Logging utility
 import { fixXmlTag } from "./utils";                  // XML tag fixing utility
 import { DOMParser, XMLSerializer } from "@xmldom/xmldom"; // XML parsing/serialization
 import {
   Workflow,                          // Workflow structure definition
   WorkflowAgent,                     // Agent configuration in workflow
+  WorkflowCondition,                 // Condition of if and while nodes
   WorkflowForEachNode,               // Loop node in workflow
+  WorkflowIfNode,                    // Conditional node
   WorkflowNode,                      // Base workflow node
   WorkflowTextNode,                  // Text content node
+  WorkflowTryNode,                   // Fallback node
   WorkflowWatchNode,                 // Event watching node
+  WorkflowWhileNode,                 // Conditional loop node
 } from "../types/core.types";
 import { buildAgentTree } from "./tree"; // Agent dependency tree builder
 
@@ -82,14 +88,15 @@ export function parseWorkflow(
     for (let i = 0; i < agentsNodes.length; i++) {
       let agentNode = agentsNodes[i];
       let name = agentNode.getAttribute("name");
-      if (!name) {
+      if (!name && !done) {
+        // The name is still being streamed
         break;
       }
       let index = agentNode.getAttribute("id") || i;
       let dependsOn = agentNode.getAttribute("dependsOn") || "";
       let nodes: WorkflowNode[] = [];
       let agent: WorkflowAgent = {
-        name: name,
+        name: name || "",
         id: getAgentId(taskId, index),
         dependsOn: dependsOn.split(",").filter(idx => idx.trim() != "").map(idx => getAgentId(taskId, idx)),
         task: agentNode.getElementsByTagName("task")[0]?.textContent || "",
@@ -102,6 +109,12 @@ export function parseWorkflow(
       if (xmlNodes.length > 0) {
         parseWorkflowNodes(nodes, xmlNodes[0].childNodes);
       }
+      if (agentNode.getAttribute("type") == "workflow") {
+        agent.subWorkflow = {
+          inputs: parseBindings(agentNode, "input"),
+          outputs: parseBindings(agentNode, "output"),
+        };
+      }
       agents.push(agent);
     }
     if (done) {
@@ -153,6 +166,14 @@ function parseWorkflowNodes(
           input: xmlNode.getAttribute("input"),
           output: xmlNode.getAttribute("output"),
         };
+        let outputSchema = xmlNode.getAttribute("outputSchema");
+        if (outputSchema) {
+          try {
+            node.outputSchema = JSON.parse(outputSchema);
+          } catch (e) {
+            Log.warn("Invalid outputSchema of variable " + node.output + ": " + outputSchema);
+          }
+        }
         nodes.push(node);
         break;
       }
@@ -187,10 +208,92 @@ function parseWorkflowNodes(
         nodes.push(node);
         break;
       }
+      case "if": {
+        let node: WorkflowIfNode = {
+          type: "if",
+          condition: parseCondition(xmlNode),
+          thenNodes: [],
+          elseNodes: [],
+        };
+        let thenNode = getChildElement(xmlNode, "then");
+        if (thenNode) {
+          parseWorkflowNodes(node.thenNodes, thenNode.childNodes);
+        }
+        let elseNode = getChildElement(xmlNode, "else");
+        if (elseNode) {
+          parseWorkflowNodes(node.elseNodes, elseNode.childNodes);
+        }
+        nodes.push(node);
+        break;
+      }
+      case "while": {
+        let maxIterations = parseInt(xmlNode.getAttribute("maxIterations") || "");
+        let node: WorkflowWhileNode = {
+          type: "while",
+          condition: parseCondition(xmlNode),
+          maxIterations:
+            maxIterations > 0 ? maxIterations : config.maxWhileIterations,
+          nodes: [],
+        };
+        parseWorkflowNodes(node.nodes, xmlNode.childNodes);
+        nodes.push(node);
+        break;
+      }
+      case "try": {
+        let node: WorkflowTryNode = {
+          type: "try",
+          nodes: [],
+          catchNodes: [],
+        };
+        // The <catch> element is skipped among the tried nodes
+        parseWorkflowNodes(node.nodes, xmlNode.childNodes);
+        let catchNode = getChildElement(xmlNode, "catch");
+        if (catchNode) {
+          parseWorkflowNodes(node.catchNodes, catchNode.childNodes);
+        }
+        nodes.push(node);
+        break;
+      }
     }
   }
 }
 
+function parseCondition(xmlNode: Element): WorkflowCondition {
+  const variable = xmlNode.getAttribute("variable");
+  if (variable) {
+    return xmlNode.hasAttribute("equals")
+      ? { variable, equals: xmlNode.getAttribute("equals") || "" }
+      : { variable };
+  }
+  return { text: xmlNode.getAttribute("condition") || "" };
+}
+
+function getChildElement(xmlNode: Element, tagName: string): Element | undefined {
+  for (let i = 0; i < xmlNode.childNodes.length; i++) {
+    const child = xmlNode.childNodes[i] as Element;
+    if (child.nodeType === 1 && child.tagName === tagName) {
+      return child;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses the `<input name="..." variable="..." />` or `<output>` bindings of a sub-workflow entry,
+ * a binding without variable uses the variable of the same name.
+ */
+function parseBindings(agentNode: Element, tagName: string): Record<string, string> {
+  const bindings: Record<string, string> = {};
+  for (let i = 0; i < agentNode.childNodes.length; i++) {
+    const child = agentNode.childNodes[i] as Element;
+    const name = child.nodeType === 1 && child.tagName === tagName && child.getAttribute("name");
+    if (name) {
+      bindings[name] = child.getAttribute("variable") || name;
+    }
+  }
+  return bindings;
+}
+
 /**
  * Builds the root XML for an agent.
  * @param agentXml - The XML of the agent.
@@ -340,64 +443,135 @@ export function buildSimpleAgentWorkflow({
  */
 export function resetWorkflowXml(workflow: Workflow) {
   const agents: string[] = [];
+  const textNode = (node: WorkflowTextNode, indent: string) => {
+    const input = node.input ? ` input="${escapeXml(node.input)}"` : "";
+    const output = node.output ? ` output="${escapeXml(node.output)}"` : "";
+    const outputSchema = node.outputSchema
+      ? ` outputSchema="${escapeXml(JSON.stringify(node.outputSchema))}"`
+      : "";
+    return `${indent}<node${input}${output}${outputSchema}>${escapeXml(node.text)}</node>`;
+  };
+  const conditionAttrs = (condition: WorkflowCondition) => {
+    if (condition.variable) {
+      const equals =
+        condition.equals !== undefined ? ` equals="${escapeXml(condition.equals)}"` : "";
+      return ` variable="${escapeXml(condition.variable)}"${equals}`;
+    }
+    return ` condition="${escapeXml(condition.text || "")}"`;
+  };
+  const nodeXml = (node: WorkflowNode, indent: string): string => {
+    const childNodes = (nodes: WorkflowNode[], childIndent: string) =>
+      nodes.map((child) => nodeXml(child, childIndent) + "\n").join("");
+    if (node.type == "forEach") {
+      return `${indent}<forEach items="${escapeXml(node.items || "")}">
+${childNodes(node.nodes, indent + "  ")}${indent}</forEach>`;
+    } else if (node.type == "watch") {
+      return `${indent}<watch event="${node.event || "dom"}" loop="${
+        node.loop ? "true" : "false"
+      }">
+${indent}  <description>${escapeXml(node.description)}</description>
+${indent}  <trigger>
+${childNodes(node.triggerNodes, indent + "    ")}${indent}  </trigger>
+${indent}</watch>`;
+    } else if (node.type == "if") {
+      const elseXml = node.elseNodes.length
+        ? `${indent}  <else>
+${childNodes(node.elseNodes, indent + "    ")}${indent}  </else>
+`
+        : "";
+      return `${indent}<if${conditionAttrs(node.condition)}>
+${indent}  <then>
+${childNodes(node.thenNodes, indent + "    ")}${indent}  </then>
+${elseXml}${indent}</if>`;
+    } else if (node.type == "while") {
+      return `${indent}<while${conditionAttrs(node.condition)} maxIterations="${node.maxIterations}">
+${childNodes(node.nodes, indent + "  ")}${indent}</while>`;
+    } else if (node.type == "try") {
+      const catchXml = node.catchNodes.length
+        ? `${indent}  <catch>
+${childNodes(node.catchNodes, indent + "    ")}${indent}  </catch>
+`
+        : "";
+      return `${indent}<try>
+${childNodes(node.nodes, indent + "  ")}${catchXml}${indent}</try>`;
+    } else {
+      return textNode(node, indent);
+    }
+  };
   for (let i = 0; i < workflow.agents.length; i++) {
     const agent = workflow.agents[i];
-    const agentDependsAttr = ` id="${i}" dependsOn="${(agent.dependsOn || []).filter(s => parseInt(s.split("-")[s.split("-").length - 1])).join(",")}"`;
-    const nodes = agent.nodes
-      .map((node) => {
-        if (node.type == "forEach") {
-          const forEachNodes: string[] = [];
-          for (let j = 0; j < node.nodes.length; j++) {
-            const _node = node.nodes[j] as WorkflowTextNode;
-            const input = _node.input ? ` input="${_node.input}"` : "";
-            const output = _node.output ? ` output="${_node.output}"` : "";
-            forEachNodes.push(
-              `          <node${input}${output}>${_node.text}</node>`
-            );
-          }
-          return `        <forEach items="${node.items || ""}">
-${forEachNodes.join("\n")}
-        </forEach>`;
-        } else if (node.type == "watch") {
-          const watchNodes: string[] = [];
-          for (let j = 0; j < node.triggerNodes.length; j++) {
-            const _node = node.triggerNodes[j] as WorkflowTextNode;
-            const input = _node.input ? ` input="${_node.input}"` : "";
-            const output = _node.output ? ` output="${_node.output}"` : "";
-            watchNodes.push(
-              `            <node${input}${output}>${_node.text}</node>`
-            );
-          }
-          return `        <watch event="${node.event || "dom"}" loop="${
-            node.loop ? "true" : "false"
-          }">
-          <description>${node.description}</description>
-          <trigger>
-${watchNodes.join("\n")}
-          </trigger>
-        </watch>`;
-        } else {
-          const input = node.input ? ` input="${node.input}"` : "";
-          const output = node.output ? ` output="${node.output}"` : "";
-          return `        <node${input}${output}>${node.text}</node>`;
-        }
+    const dependsOn = (agent.dependsOn || [])
+      .map((id) => {
+        const index = workflow.agents.findIndex((a) => a.id == id);
+        return getLocalAgentId(workflow.taskId, id, index);
       })
-      .join("\n");
-    const agentXml = `    <agent name="${agent.name}"${agentDependsAttr}>
-      <task>${agent.task}</task>
+      .filter((id) => id != "-1");
+    const agentDependsAttr = ` id="${escapeXml(
+      getLocalAgentId(workflow.taskId, agent.id, i)
+    )}" dependsOn="${escapeXml(dependsOn.join(","))}"`;
+    let agentXml: string;
+    if (agent.subWorkflow) {
+      const bindings = (tagName: string, bound: Record<string, string>) =>
+        Object.keys(bound)
+          .map(
+            (name) =>
+              `\n      <${tagName} name="${escapeXml(name)}" variable="${escapeXml(bound[name])}" />`
+          )
+          .join("");
+      agentXml = `    <agent name="${escapeXml(agent.name)}"${agentDependsAttr} type="workflow">
+      <task>${escapeXml(agent.task)}</task>${bindings("input", agent.subWorkflow.inputs)}${bindings(
+        "output",
+        agent.subWorkflow.outputs
+      )}
+    </agent>`;
+    } else {
+      const nodes = agent.nodes
+        .map((node) => nodeXml(node, "        "))
+        .join("\n");
+      agentXml = `    <agent name="${escapeXml(agent.name)}"${agentDependsAttr}>
+      <task>${escapeXml(agent.task)}</task>
       <nodes>
 ${nodes}
       </nodes>
     </agent>`;
+    }
     agent.xml = agentXml;
     agents.push(agentXml);
   }
   const xml = `<root>
-  <name>${workflow.name}</name>
-  <thought>${workflow.thought}</thought>
+  <name>${escapeXml(workflow.name)}</name>
+  <thought>${escapeXml(workflow.thought)}</thought>
   <agents>
 ${agents.join("\n")}
   </agents>
 </root>`;
   workflow.xml = xml;
 }
+
+/**
+ * Gets the id of an agent within its workflow, as written in the `id` and `dependsOn`
+ * attributes of the XML: "task-01" in task "task" is "1", "task-login" is "login".
+ * @param taskId - The task ID of the workflow.
+ * @param agentId - The ID of the agent.
+ * @param index - The index of the agent, used when the ID is not prefixed by the task ID.
+ * @returns The id of the agent within the workflow.
+ */
+export function getLocalAgentId(
+  taskId: string,
+  agentId: string,
+  index: number
+): string {
+  if (!agentId.startsWith(taskId + "-")) {
+    return index + "";
+  }
+  const localId = agentId.substring(taskId.length + 1);
+  return /^\d+$/.test(localId) ? +localId + "" : localId;
+}
+
+function escapeXml(text: string): string {
+  return (text || "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
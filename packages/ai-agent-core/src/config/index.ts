@@ -33,6 +33,10 @@ type GlobalConfig = {
   expertMode: boolean;
   /** Number of todo loop iterations in expert mode */
   expertModeTodoLoopNum: number;
+  /** Default maximum number of iterations of a while node */
+  maxWhileIterations: number;
+  /** Maximum nesting depth of sub-workflows calling other saved workflows */
+  maxSubWorkflowDepth: number;
   /** Whether to use DOM intelligence extraction */
   useDomIntelligence?: boolean;
   /** Enable coordinate-based mouse operations (click_at_coordinates, hover_at_coordinates, etc.) */
@@ -78,6 +82,8 @@ const config: GlobalConfig = {
   parallelToolCalls: true,
   expertMode: false,
   expertModeTodoLoopNum: 10,
+  maxWhileIterations: 10,
+  maxSubWorkflowDepth: 5,
   useDomIntelligence: true,
   enableCoordinateTools: true,
   maxRecentScreenshots: 0,
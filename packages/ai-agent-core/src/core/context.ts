@@ -1,7 +1,7 @@
 import { Agent } from "../agent";
 import { sleep, uuidv4 } from "../common/utils";
 import Log from "../common/log";
-import Chain, { AgentChain } from "./chain";
+import Chain, { AgentChain, ToolChain } from "./chain";
 import {
   XSkyConfig,
   LanguageModelV2Prompt,
@@ -9,7 +9,13 @@ import {
   WorkflowAgent,
 } from "../types";
 import { DomIntelligenceCache } from "../agent/browser/dom_intelligence";
-import type { Checkpoint } from "../types/hooks.types";
+import type { Checkpoint, ICheckpointStore } from "../types/hooks.types";
+import type { RateLimiter } from "../utils/rate-limiter";
+import { BudgetTracker } from "../llm/budget";
+import type { Span, Tracer } from "../trace/tracer";
+import type { DryRunRecorder } from "./dry-run";
+import type { ScheduledRunInfo } from "../types/scheduler.types";
+import type { LongTermMemoryEntry } from "../types/memory.types";
 
 export interface AdaptiveWaitSignal {
   type: 'mutation' | 'event' | 'animation' | 'load';
@@ -47,6 +53,8 @@ export default class Context {
   private pauseStatus: 0 | 1 | 2 = 0;
   /** Controllers for individual execution steps that can be aborted independently */
   readonly currentStepControllers: Set<AbortController> = new Set();
+  /** Resolvers of `waitForPause`, called once the execution reaches a pause point */
+  private pauseWaiters: Array<() => void> = [];
 
   // ============ CHECKPOINT SYSTEM ============
   /** Timer for periodic state checkpointing */
@@ -55,6 +63,24 @@ export default class Context {
   private stateChangeDebounceTimer?: ReturnType<typeof setTimeout>;
   /** Pending state changes waiting to be persisted */
   private pendingStateChanges: Map<string, any> = new Map();
+  /** Store that checkpoints are persisted to for durable resume */
+  checkpointStore?: ICheckpointStore;
+  /** Rate limiter enforcing XSkyConfig.rateLimits on tool calls, shared across tasks */
+  rateLimiter?: RateLimiter;
+  /** Token and cost budget of the task, tracked by RetryLanguageModel */
+  budget?: BudgetTracker;
+  /** Tracer exporting the spans of the task, shared across tasks */
+  tracer?: Tracer;
+  /** Span of the running task, parent of the workflow agent spans */
+  span?: Span;
+  /** Recorder of the tool calls, set when the task is executed as a dry run */
+  dryRun?: DryRunRecorder;
+  /** Context of the calling task, set when the workflow runs as a sub-workflow */
+  parent?: Context;
+  /** Metadata of the scheduled run, set when the task is run by a Scheduler */
+  schedule?: ScheduledRunInfo;
+  /** Memories of previous tasks recalled for the task, see XSkyConfig.longTermMemory */
+  memories?: LongTermMemoryEntry[];
 
   /**
    * Creates an instance of the Context.
@@ -75,6 +101,9 @@ export default class Context {
     this.chain = chain;
     this.variables = new Map();
     this.controller = new AbortController();
+    if (config?.budget) {
+      this.budget = new BudgetTracker(taskId, config.budget, config.telemetry);
+    }
   }
 
   /**
@@ -88,6 +117,7 @@ export default class Context {
       throw error;
     }
     while (this.pauseStatus > 0 && !noCheckPause) {
+      this.pauseWaiters.splice(0).forEach((resolve) => resolve());
       await sleep(500);
       if (this.pauseStatus == 2) {
         this.currentStepControllers.forEach((c) => {
@@ -144,6 +174,26 @@ export default class Context {
     }
   }
 
+  /**
+   * Waits until the paused execution stops at a pause point, i.e. its current step has
+   * been aborted or finished.
+   * @param timeoutMs - The maximum time to wait in milliseconds.
+   * @returns Whether the execution stopped at a pause point before the timeout.
+   */
+  waitForPause(timeoutMs: number = 10000): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      const timer = setTimeout(() => {
+        this.pauseWaiters = this.pauseWaiters.filter((waiter) => waiter != paused);
+        resolve(false);
+      }, timeoutMs);
+      const paused = () => {
+        clearTimeout(timer);
+        resolve(true);
+      };
+      this.pauseWaiters.push(paused);
+    });
+  }
+
   /**
    * Resets the context.
    */
@@ -187,12 +237,13 @@ export default class Context {
   }
 
   /**
-   * Creates a checkpoint and triggers the onCheckpoint hook.
-   * @returns The created checkpoint, or undefined if no hook is configured.
+   * Creates a checkpoint, persists it to the checkpoint store and triggers the onCheckpoint hook.
+   * @returns The created checkpoint, or undefined if neither a hook nor a store is configured,
+   *   and for sub-workflows, which are run again when their calling task is resumed.
    */
   async createCheckpoint(): Promise<Checkpoint | undefined> {
     const hooks = this.config.hooks;
-    if (!hooks?.onCheckpoint) {
+    if ((!hooks?.onCheckpoint && !this.checkpointStore) || this.parent) {
       return undefined;
     }
 
@@ -208,11 +259,21 @@ export default class Context {
       createdAt: Date.now(),
     };
 
-    try {
-      await hooks.onCheckpoint(checkpoint);
-    } catch (error) {
-      // Don't fail the workflow if checkpoint fails
-      Log.error("Checkpoint hook error:", error);
+    if (this.checkpointStore) {
+      try {
+        await this.checkpointStore.save(checkpoint);
+      } catch (error) {
+        Log.error("Checkpoint store error:", error);
+      }
+    }
+
+    if (hooks?.onCheckpoint) {
+      try {
+        await hooks.onCheckpoint(checkpoint);
+      } catch (error) {
+        // Don't fail the workflow if checkpoint fails
+        Log.error("Checkpoint hook error:", error);
+      }
     }
 
     return checkpoint;
@@ -231,11 +292,27 @@ export default class Context {
         name: a.name,
         status: a.status,
       })),
+      workflow: this.workflow,
+      chain: {
+        taskPrompt: this.chain.taskPrompt,
+        planResult: this.chain.planResult,
+        agents: this.chain.agents.map((agentChain) => ({
+          agentId: agentChain.agent.id,
+          agentResult: agentChain.agentResult,
+          tools: agentChain.tools.map((toolChain) => ({
+            toolName: toolChain.toolName,
+            toolCallId: toolChain.toolCallId,
+            params: toolChain.params,
+            toolResult: toolChain.toolResult,
+          })),
+        })),
+      },
     };
   }
 
   /**
    * Restores context state from a checkpoint.
+   * The workflow and chain are rebuilt when present, so that a task can be resumed.
    * @param state - The serialized state to restore.
    */
   restore(state: Record<string, any>): void {
@@ -245,6 +322,40 @@ export default class Context {
     if (state.conversation) {
       this.conversation = state.conversation;
     }
+    if (state.workflow) {
+      this.workflow = state.workflow as Workflow;
+    }
+    if (state.chain) {
+      const chain = new Chain(state.chain.taskPrompt || this.chain.taskPrompt);
+      chain.planResult = state.chain.planResult;
+      for (const item of state.chain.agents || []) {
+        const agentNode = this.workflow?.agents.find(
+          (agent) => agent.id == item.agentId
+        );
+        // Agents interrupted mid-run start over, keep the chains of completed agents only
+        if (!agentNode || agentNode.status != "done") {
+          continue;
+        }
+        const agentChain = new AgentChain(agentNode);
+        agentChain.agentResult = item.agentResult;
+        for (const tool of item.tools || []) {
+          const toolChain = new ToolChain(
+            {
+              type: "tool-call",
+              toolCallId: tool.toolCallId,
+              toolName: tool.toolName,
+              input: JSON.stringify(tool.params || {}),
+            },
+            { messages: [] }
+          );
+          toolChain.params = tool.params;
+          toolChain.toolResult = tool.toolResult;
+          agentChain.push(toolChain);
+        }
+        chain.push(agentChain);
+      }
+      this.chain = chain;
+    }
   }
 
   // ============ STATE CHANGE TRACKING ============
@@ -320,6 +431,10 @@ export class AgentContext {
   variables: Map<string, any>;
   consecutiveErrorNum: number;
   messages?: LanguageModelV2Prompt;
+  /** Span of the running workflow agent */
+  span?: Span;
+  /** Span of the current react loop iteration, parent of its LLM and tool call spans */
+  iterationSpan?: Span;
 
   // DOM Intelligence related properties
   domIntelligenceCache?: DomIntelligenceCache;
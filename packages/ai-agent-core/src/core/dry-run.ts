@@ -0,0 +1,114 @@
+import { AgentContext } from "./context";
+import { ToolResult } from "../types/tools.types";
+import { ResourceAccess } from "../types/security.types";
+import { DryRunAction, DryRunReport } from "../types/core.types";
+import { A2aPart } from "../types/a2a.types";
+import { uuidv4 } from "../common/utils";
+import { LanguageModelV2ToolCallPart } from "@ai-sdk/provider";
+
+/**
+ * Records the tool calls of a dry run, see `ExecuteOptions.dryRun`.
+ *
+ * Agents run read-only tools for real, and replace the result of side-effecting tools
+ * (`Tool.sideEffects`) by a synthetic one, so that the LLM carries on with the plan.
+ */
+export class DryRunRecorder {
+  readonly taskId: string;
+  readonly workflowName?: string;
+  private startTime: number = Date.now();
+  private actions: DryRunAction[] = [];
+
+  /**
+   * Creates a recorder for a dry run.
+   * @param taskId - The ID of the task.
+   * @param workflowName - The name of the workflow.
+   */
+  constructor(taskId: string, workflowName?: string) {
+    this.taskId = taskId;
+    this.workflowName = workflowName;
+  }
+
+  /**
+   * Records a tool call.
+   * @param agentContext - The context of the calling agent.
+   * @param toolCall - The tool call of the LLM.
+   * @param args - The arguments of the call, after the beforeToolCall hooks.
+   * @param resources - The resources accessed by the call.
+   * @param simulated - Whether the call is intercepted instead of run.
+   * @param approvalRequired - Whether the call would be submitted for approval.
+   */
+  record(
+    agentContext: AgentContext,
+    toolCall: LanguageModelV2ToolCallPart,
+    args: Record<string, unknown>,
+    resources: ResourceAccess[],
+    simulated: boolean,
+    approvalRequired: boolean = false
+  ) {
+    this.actions.push({
+      agentName: agentContext.agent.Name,
+      nodeId: agentContext.agentChain.agent.id,
+      toolName: toolCall.toolName,
+      toolCallId: toolCall.toolCallId,
+      args,
+      resources,
+      simulated,
+      approvalRequired,
+      timestamp: Date.now(),
+    });
+  }
+
+  /**
+   * Records the task of a remote A2A agent, which is not sent during a dry run.
+   * @param agentContext - The context of the remote agent.
+   * @param url - The URL of the agent card of the remote agent.
+   * @param parts - The parts of the message that would be sent.
+   * @returns The synthetic result of the remote agent.
+   */
+  recordRemote(agentContext: AgentContext, url: string, parts: A2aPart[]): string {
+    const agentName = agentContext.agent.Name;
+    this.actions.push({
+      agentName,
+      nodeId: agentContext.agentChain.agent.id,
+      toolName: "a2a_remote_agent",
+      toolCallId: uuidv4(),
+      args: { url, parts },
+      resources: [
+        { type: "network", identifier: url, accessType: "execute", permission: "allow", allowed: true },
+      ],
+      simulated: true,
+      timestamp: Date.now(),
+    });
+    return `Dry run: the task was not sent to the remote agent "${agentName}". Assume it succeeded.`;
+  }
+
+  /**
+   * Builds the synthetic result of an intercepted tool call.
+   * @param toolName - The name of the tool.
+   * @returns The tool result returned to the LLM.
+   */
+  simulate(toolName: string): ToolResult {
+    return {
+      content: [
+        {
+          type: "text",
+          text: `Dry run: "${toolName}" was not executed. Assume it succeeded and continue with the next step.`,
+        },
+      ],
+      extInfo: { dryRun: true },
+    };
+  }
+
+  /**
+   * Gets the report of the run.
+   */
+  getReport(): DryRunReport {
+    return {
+      taskId: this.taskId,
+      workflowName: this.workflowName,
+      startTime: this.startTime,
+      endTime: Date.now(),
+      actions: [...this.actions],
+    };
+  }
+}
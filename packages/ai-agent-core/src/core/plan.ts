@@ -4,7 +4,12 @@ import { sleep } from "../common/utils";
 import { RetryLanguageModel } from "../llm";
 import { parseWorkflow } from "../common/xml";
 import { LLMRequest } from "../types/llm.types";
-import { StreamCallback, Workflow } from "../types/core.types";
+import {
+  StreamCallback,
+  Workflow,
+  WorkflowValidationIssue,
+} from "../types/core.types";
+import { getWorkflowCorrectionPrompt } from "./validate";
 import { getPlanSystemPrompt, getPlanUserPrompt } from "../prompt/plan";
 import {
   LanguageModelV2Prompt,
@@ -99,6 +104,38 @@ export class Planner {
     }
   }
 
+  /**
+   * Asks for a corrected plan of an invalid workflow, keeping the task prompt of the workflow.
+   * @param workflow - The invalid workflow.
+   * @param issues - The issues found by the static validation.
+   * @param saveHistory - Whether to save the plan to the history.
+   * @returns A promise that resolves to the corrected workflow.
+   */
+  async correct(
+    workflow: Workflow,
+    issues: WorkflowValidationIssue[],
+    saveHistory: boolean = true
+  ): Promise<Workflow> {
+    const chain = this.context.chain;
+    if (!chain.planRequest || !chain.planResult) {
+      throw new Error("Only a planned workflow can be corrected");
+    }
+    const messages: LanguageModelV2Prompt = [
+      ...chain.planRequest.messages,
+      {
+        role: "assistant",
+        content: [{ type: "text", text: chain.planResult }],
+      },
+      {
+        role: "user",
+        content: [{ type: "text", text: getWorkflowCorrectionPrompt(issues) }],
+      },
+    ];
+    const corrected = await this.doPlan("", messages, saveHistory);
+    corrected.taskPrompt = workflow.taskPrompt;
+    return corrected;
+  }
+
   /**
    * Executes a plan.
    * @param taskPrompt - The prompt for the task.
@@ -0,0 +1,66 @@
+// Sub-workflows - saved workflows called by the agent entries of other workflows
+import { parseWorkflow } from "../common/xml";
+import {
+  isWorkflowDefinition,
+  readWorkflowDefinition,
+  workflowFromDefinition,
+} from "../common/workflow-definition";
+import {
+  SavedWorkflow,
+  SubWorkflowCall,
+  Workflow,
+} from "../types/core.types";
+
+/**
+ * Gets the variables bound to the inputs and outputs of a saved workflow by a calling
+ * agent entry. Declared inputs and outputs without a binding use the variable of the same name.
+ * @param saved - The saved workflow.
+ * @param call - The bindings of the calling agent entry.
+ * @returns The variables of the caller by input name and by output name.
+ */
+export function getSubWorkflowBindings(
+  saved: SavedWorkflow | undefined,
+  call: SubWorkflowCall
+): SubWorkflowCall {
+  const bind = (names: string[], bound: Record<string, string>) => {
+    const bindings: Record<string, string> = {};
+    names.forEach((name) => (bindings[name] = name));
+    return { ...bindings, ...bound };
+  };
+  return {
+    inputs: bind(saved?.inputs || [], call.inputs),
+    outputs: bind(saved?.outputs || [], call.outputs),
+  };
+}
+
+/**
+ * Loads a fresh copy of a saved workflow for one call, its agent status is updated by the execution.
+ * @param saved - The saved workflow.
+ * @param agents - Names of the registered agents, checked when the workflow is a definition.
+ * @param taskId - Task ID of the copy, defaults to the task ID of the saved workflow or its name.
+ * @returns The workflow.
+ * @throws WorkflowDefinitionError if the workflow is an invalid definition.
+ */
+export function loadSavedWorkflow(
+  saved: SavedWorkflow,
+  agents?: string[],
+  taskId?: string
+): Workflow {
+  let workflow = saved.workflow;
+  if (typeof workflow == "string") {
+    if (workflow.indexOf("<root>") > -1) {
+      return parseWorkflow(taskId || saved.name, workflow, true) as Workflow;
+    }
+    workflow = readWorkflowDefinition(workflow);
+  }
+  if (isWorkflowDefinition(workflow)) {
+    return workflowFromDefinition(taskId ? { ...workflow, taskId } : workflow, {
+      agents,
+      variables: saved.inputs,
+      taskId: saved.name,
+    });
+  }
+  const copy: Workflow = JSON.parse(JSON.stringify(workflow));
+  taskId && (copy.taskId = taskId);
+  return copy;
+}
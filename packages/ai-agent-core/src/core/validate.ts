@@ -0,0 +1,256 @@
+// Static workflow validation - catches planning mistakes before any agent runs
+import type { Agent } from "../agent";               // Agent base class
+import { findDependencyCycle } from "../common/tree"; // Dependency cycle detection
+import { getSubWorkflowBindings } from "./sub-workflow"; // Variables bound by sub-workflow entries
+import {
+  SavedWorkflow,                     // Workflow called by agent entries
+  Workflow,                          // Workflow structure definition
+  WorkflowAgent,                     // Agent configuration in workflow
+  WorkflowNode,                      // Base workflow node
+  WorkflowValidationIssue,           // Issue found by the validation
+} from "../types/core.types";
+
+/**
+ * Error thrown when a workflow fails the static validation, with the blocking issues.
+ */
+export class WorkflowValidationError extends Error {
+  readonly issues: WorkflowValidationIssue[];
+
+  constructor(issues: WorkflowValidationIssue[]) {
+    super(
+      "Invalid workflow:\n" + issues.map((issue) => "- " + issue.message).join("\n")
+    );
+    this.name = "WorkflowValidationError";
+    this.issues = issues;
+  }
+}
+
+/**
+ * Statically validates a workflow before execution.
+ *
+ * `buildAgentTree` silently breaks dependency cycles and drops unknown dependencies,
+ * and agents with an unknown name only fail when they are reached. This pass reports
+ * them upfront, with the dataflow mistakes of the plan:
+ * - errors: dependency cycles, missing dependencies, nameless or unknown agents, unknown
+ *   sub-workflows, and watch nodes on agents that cannot watch (without `screenshot` and `execute_script`)
+ * - warnings: node inputs, sub-workflow inputs, forEach items and if/while condition variables
+ *   read before they are written by an earlier node of the agent, by the agents it depends on
+ *   (transitively), or in the initial variables
+ *
+ * @param workflow - The workflow to validate.
+ * @param agents - The agents available for execution.
+ * @param variables - Names of the variables set before execution, e.g. the context parameters.
+ * @param workflows - The saved workflows that agent entries can call.
+ * @returns The issues found, empty when the workflow is valid.
+ */
+export function validateWorkflow(
+  workflow: Workflow,
+  agents: Agent[],
+  variables: string[] = [],
+  workflows: SavedWorkflow[] = []
+): WorkflowValidationIssue[] {
+  const issues: WorkflowValidationIssue[] = [];
+  const ids = workflow.agents.map((agent) => agent.id);
+  const agentMap = new Map(workflow.agents.map((agent) => [agent.id, agent]));
+  workflow.agents.forEach((agentNode, i) => {
+    const label = `Agent ${i} (${agentNode.name || "no name"})`;
+    const issue = (
+      type: WorkflowValidationIssue["type"],
+      severity: WorkflowValidationIssue["severity"],
+      message: string
+    ) => issues.push({ type, severity, agentId: agentNode.id, message: label + " " + message });
+    const agent = agents.find((a) => a.Name == agentNode.name);
+    if (!agentNode.name) {
+      issue("unnamed_agent", "error", "has no name");
+    } else if (agentNode.subWorkflow) {
+      if (!workflows.some((saved) => saved.name == agentNode.name)) {
+        issue(
+          "unknown_workflow",
+          "error",
+          `is not a saved workflow, use one of: ${workflows.map((saved) => saved.name).join(", ")}`
+        );
+      }
+    } else if (!agent) {
+      issue(
+        "unknown_agent",
+        "error",
+        `is not an available agent, use one of: ${agents.map((a) => a.Name).join(", ")}`
+      );
+    }
+    for (const depId of agentNode.dependsOn) {
+      if (!agentMap.has(depId)) {
+        issue("missing_dependency", "error", `depends on the missing agent ${depId}`);
+      }
+    }
+    if (agent && hasWatchNode(agentNode.nodes) && !canWatch(agent)) {
+      issue(
+        "unsupported_watch",
+        "error",
+        "has a watch node, but cannot watch page changes (it needs `screenshot` and `execute_script`)"
+      );
+    }
+  });
+  const cycle = findDependencyCycle(ids, (id) => agentMap.get(id)!.dependsOn);
+  if (cycle) {
+    const index = ids.indexOf(cycle[0]);
+    issues.push({
+      type: "cycle",
+      severity: "error",
+      agentId: cycle[0],
+      message: `Agent ${index} (${workflow.agents[index].name}) is in a dependency cycle: ${cycle
+        .map((id) => ids.indexOf(id))
+        .join(" -> ")}`,
+    });
+  } else {
+    checkVariables(workflow.agents, agentMap, variables, workflows, issues);
+  }
+  return issues;
+}
+
+/**
+ * Builds the prompt asking the planner to correct an invalid workflow.
+ * @param issues - The issues found by `validateWorkflow`.
+ * @returns The corrective prompt.
+ */
+export function getWorkflowCorrectionPrompt(
+  issues: WorkflowValidationIssue[]
+): string {
+  return `The workflow you planned is invalid:
+${issues.map((issue) => "- " + issue.message).join("\n")}
+
+Please fix these issues and output the complete corrected workflow in the same XML format.`;
+}
+
+function checkVariables(
+  agentNodes: WorkflowAgent[],
+  agentMap: Map<string, WorkflowAgent>,
+  variables: string[],
+  workflows: SavedWorkflow[],
+  issues: WorkflowValidationIssue[]
+) {
+  const getBindings = (agentNode: WorkflowAgent) =>
+    getSubWorkflowBindings(
+      workflows.find((saved) => saved.name == agentNode.name),
+      agentNode.subWorkflow!
+    );
+  const outputs = new Map<string, Set<string>>();
+  const getOutputs = (agentNode: WorkflowAgent): Set<string> => {
+    let written = outputs.get(agentNode.id);
+    if (!written) {
+      written = new Set(getReadable(agentNode));
+      visitNodes(agentNode.nodes, {
+        onText: (_, output) => output && written!.add(output),
+      });
+      if (agentNode.subWorkflow) {
+        Object.values(getBindings(agentNode).outputs).forEach((name) => written!.add(name));
+      }
+      outputs.set(agentNode.id, written);
+    }
+    return written;
+  };
+  const getReadable = (agentNode: WorkflowAgent): Set<string> => {
+    const readable = new Set(variables);
+    for (const depId of agentNode.dependsOn) {
+      const dependency = agentMap.get(depId);
+      dependency && getOutputs(dependency).forEach((name) => readable.add(name));
+    }
+    return readable;
+  };
+  agentNodes.forEach((agentNode, i) => {
+    const readable = getReadable(agentNode);
+    const issue = (
+      type: WorkflowValidationIssue["type"],
+      message: string
+    ) =>
+      issues.push({
+        type,
+        severity: "warning",
+        agentId: agentNode.id,
+        message: `Agent ${i} (${agentNode.name}) ${message}`,
+      });
+    if (agentNode.subWorkflow) {
+      for (const name of Object.values(getBindings(agentNode).inputs)) {
+        if (!readable.has(name)) {
+          issue(
+            "undefined_variable",
+            `passes the variable "${name}" to the sub-workflow before it is written by a previous agent`
+          );
+        }
+      }
+    }
+    visitNodes(agentNode.nodes, {
+      onText: (input, output) => {
+        for (const name of (input || "").split(",").map((s) => s.trim())) {
+          if (name && !readable.has(name)) {
+            issue(
+              "undefined_variable",
+              `reads the variable "${name}" before it is written by a previous node or agent`
+            );
+          }
+        }
+        output && readable.add(output);
+      },
+      onCondition: (variable) => {
+        if (!readable.has(variable)) {
+          issue(
+            "undefined_condition_variable",
+            `tests the variable "${variable}" before it is written by a previous node or agent`
+          );
+        }
+      },
+      onForEach: (items) => {
+        // "list" and free-text items describe the list instead of naming a variable
+        if (/^[A-Za-z_]\w*$/.test(items) && items != "list" && !readable.has(items)) {
+          issue(
+            "undefined_foreach_items",
+            `iterates over the variable "${items}" before it is written by a previous node or agent`
+          );
+        }
+      },
+    });
+  });
+}
+
+function visitNodes(
+  nodes: WorkflowNode[],
+  visitor: {
+    onText: (input?: string | null, output?: string | null) => void;
+    onForEach?: (items: string) => void;
+    onCondition?: (variable: string) => void;
+  }
+) {
+  for (const node of nodes) {
+    if (node.type == "forEach") {
+      visitor.onForEach?.(node.items);
+      visitNodes(node.nodes, visitor);
+    } else if (node.type == "watch") {
+      visitNodes(node.triggerNodes, visitor);
+    } else if (node.type == "if") {
+      node.condition.variable && visitor.onCondition?.(node.condition.variable);
+      visitNodes(node.thenNodes, visitor);
+      visitNodes(node.elseNodes, visitor);
+    } else if (node.type == "while") {
+      node.condition.variable && visitor.onCondition?.(node.condition.variable);
+      visitNodes(node.nodes, visitor);
+    } else if (node.type == "try") {
+      visitNodes(node.nodes, visitor);
+      visitNodes(node.catchNodes, visitor);
+    } else {
+      visitor.onText(node.input, node.output);
+    }
+  }
+}
+
+function hasWatchNode(nodes: WorkflowNode[]): boolean {
+  return nodes.some((node) => node.type == "watch");
+}
+
+/**
+ * The watch_trigger tool compares screenshots and observes the DOM through the agent.
+ */
+function canWatch(agent: Agent): boolean {
+  return (
+    typeof (agent as any).screenshot == "function" &&
+    typeof (agent as any).execute_script == "function"
+  );
+}
@@ -1,5 +1,5 @@
 import config from "../config";
-import Context from "./context";
+import Context, { AgentContext } from "./context";
 import { Agent } from "../agent";
 import { Planner } from "./plan";
 import Log from "../common/log";
@@ -9,10 +9,26 @@ import { mergeAgents, uuidv4 } from "../common/utils";
 import {
   XSkyConfig,
   XSkyResult,
+  ExecuteOptions,
   Workflow,
+  WorkflowDefinition,
   NormalAgentNode,
+  SavedWorkflow,
 } from "../types/core.types";
 import { checkTaskReplan, replanWorkflow } from "./replan";
+import { validateWorkflow, WorkflowValidationError } from "./validate";
+import { DryRunRecorder } from "./dry-run";
+import { getSubWorkflowBindings, loadSavedWorkflow } from "./sub-workflow";
+import { createCheckpointStore } from "../state";
+import type { ICheckpointStore } from "../types/hooks.types";
+import { RateLimiter } from "../utils/rate-limiter";
+import { Tracer } from "../trace/tracer";
+import { parseWorkflow } from "../common/xml";
+import {
+  isWorkflowDefinition,
+  readWorkflowDefinition,
+  workflowFromDefinition,
+} from "../common/workflow-definition";
 
 /**
  * The main orchestrator class for the XSky AI Agent Framework.
@@ -38,6 +54,12 @@ export class XSky {
   private taskMap: Map<string, Context> = new Map();
   private cleanupTimeouts: Map<string, NodeJS.Timeout> = new Map(); // Track cleanup timeouts for cancellation
   private agentMap: Map<string, Agent> = new Map();
+  /** Checkpoint store derived from stateConfig, shared by all tasks of this instance */
+  private checkpointStore?: ICheckpointStore;
+  /** Rate limiter derived from rateLimits, shared by all tasks of this instance */
+  private rateLimiter?: RateLimiter;
+  /** Tracer derived from telemetry.exporter, shared by all tasks of this instance */
+  private tracer?: Tracer;
 
   /**
    * Creates an instance of the XSky class.
@@ -46,6 +68,15 @@ export class XSky {
   constructor(config: XSkyConfig) {
     this._config = config;
     this.taskMap = new Map();
+    if (config.stateConfig) {
+      this.checkpointStore = createCheckpointStore(config.stateConfig);
+    }
+    if (config.rateLimits) {
+      this.rateLimiter = new RateLimiter(config.rateLimits);
+    }
+    if (config.telemetry?.exporter) {
+      this.tracer = new Tracer(config.telemetry.exporter);
+    }
   }
 
   /**
@@ -70,6 +101,9 @@ export class XSky {
     const agents = [...(this.config.agents || [])];
     const chain: Chain = new Chain(taskPrompt);
     const context = new Context(taskId, this.config, agents, chain);
+    context.checkpointStore = this.checkpointStore;
+    context.rateLimiter = this.rateLimiter;
+    context.tracer = this.tracer;
     if (contextParams) {
       Object.keys(contextParams).forEach((key) =>
         context.variables.set(key, contextParams[key])
@@ -81,8 +115,19 @@ export class XSky {
         const a2aList = await this.config.a2aClient.listAgents(taskPrompt);
         context.agents = mergeAgents(context.agents, a2aList);
       }
+      await this.recallMemories(context);
       const planner = new Planner(context);
       context.workflow = await planner.plan(taskPrompt);
+      // Feed the errors of an invalid plan back to the planner, warnings do not block execution
+      const maxReplans = this.config.workflowValidation?.maxReplans || 0;
+      for (let i = 0; i < maxReplans; i++) {
+        const errors = this.validate(context).filter((issue) => issue.severity == "error");
+        if (errors.length == 0) {
+          break;
+        }
+        Log.info(`Correcting the invalid workflow of task ${taskId}`, errors);
+        context.workflow = await planner.correct(context.workflow, errors);
+      }
       return context.workflow;
     } catch (e) {
       this.deleteTask(taskId);
@@ -115,10 +160,105 @@ export class XSky {
 
   /**
    * Executes a workflow for a given task ID.
+   *
+   * With `options.dryRun`, side-effecting tools return synthetic results instead of running,
+   * and the result has a `dryRunReport` of every tool call for review before a live run.
+   *
+   * @param taskId - The ID of the task to execute.
+   * @param options - Optional execution options.
+   * @returns A promise that resolves to the result of the execution.
+   */
+  public async execute(
+    taskId: string,
+    options?: ExecuteOptions
+  ): Promise<XSkyResult> {
+    const context = this.getTask(taskId);
+    if (!context) {
+      throw new Error("The task does not exist");
+    }
+    const dryRun = options?.dryRun
+      ? new DryRunRecorder(taskId, context.workflow?.name)
+      : undefined;
+    context.dryRun = dryRun;
+    const result = await this.doExecute(taskId, false);
+    if (dryRun) {
+      result.dryRunReport = dryRun.getReport();
+    } else {
+      this.learnMemories(context, result);
+    }
+    return result;
+  }
+
+  /**
+   * Resumes a task from its last persisted checkpoint, e.g. after a process restart.
+   *
+   * The context variables, workflow and execution chain are rebuilt from the checkpoint,
+   * and execution continues from the first agent that is not `done`.
+   * Requires `stateConfig` to be configured.
+   *
+   * @param taskId - The ID of the task to resume.
+   * @returns A promise that resolves to the result of the execution.
+   */
+  public async resume(taskId: string): Promise<XSkyResult> {
+    if (!this.checkpointStore) {
+      throw new Error("State persistence is not configured");
+    }
+    const checkpoint = await this.checkpointStore.load(taskId);
+    if (!checkpoint) {
+      throw new Error("No checkpoint found for task: " + taskId);
+    }
+    const state = JSON.parse(checkpoint.state);
+    const agents = [...(this.config.agents || [])];
+    const chain: Chain = new Chain(state.chain?.taskPrompt || "");
+    const context = new Context(taskId, this.config, agents, chain);
+    context.checkpointStore = this.checkpointStore;
+    context.rateLimiter = this.rateLimiter;
+    context.tracer = this.tracer;
+    context.restore(state);
+    await this.recallMemories(context);
+    const workflow = context.workflow;
+    if (!workflow) {
+      throw new Error("The checkpoint of task " + taskId + " has no workflow");
+    }
+    if (this.config.a2aClient) {
+      const a2aList = await this.config.a2aClient.listAgents(
+        workflow.taskPrompt || context.chain.taskPrompt
+      );
+      context.agents = mergeAgents(context.agents, a2aList);
+    }
+    // Agents interrupted mid-run start over, completed agents are kept
+    workflow.agents.forEach((agent) => {
+      if (agent.status != "done") {
+        agent.status = "init";
+      }
+    });
+    this.taskMap.set(taskId, context);
+    if (workflow.agents.every((agent) => agent.status == "done")) {
+      const agentChains = context.chain.agents;
+      this.cleanupTask(taskId);
+      return {
+        taskId,
+        success: true,
+        stopReason: "done",
+        result: agentChains[agentChains.length - 1]?.agentResult || "",
+      };
+    }
+    Log.info(`Resuming task ${taskId} from checkpoint ${checkpoint.id}`);
+    const result = await this.doExecute(taskId, true);
+    this.learnMemories(context, result);
+    return result;
+  }
+
+  /**
+   * Runs the workflow of a task, recording telemetry and scheduling cleanup.
    * @param taskId - The ID of the task to execute.
+   * @param resumed - Whether agents already `done` should be skipped.
    * @returns A promise that resolves to the result of the execution.
    */
-  public async execute(taskId: string): Promise<XSkyResult> {
+  private async doExecute(
+    taskId: string,
+    resumed: boolean
+  ): Promise<XSkyResult> {
     const context = this.getTask(taskId);
     if (!context) {
       throw new Error("The task does not exist");
@@ -130,9 +270,42 @@ export class XSky {
       context.reset();
     }
     context.conversation = [];
+    const checkpointInterval = this.config.stateConfig?.checkpointInterval;
+    if (checkpointInterval) {
+      context.startCheckpointing(checkpointInterval);
+    }
     const startTime = Date.now();
+    const span = this.tracer?.startSpan("xsky.task", {
+      attributes: {
+        "xsky.task.id": taskId,
+        "xsky.workflow.name": context.workflow?.name || "",
+        "xsky.task.resumed": resumed,
+      },
+    });
+    context.span = span;
     try {
-      const result = await this.doRunWorkflow(context);
+      if (
+        !resumed &&
+        context.workflow &&
+        this.config.workflowValidation?.enabled !== false
+      ) {
+        const issues = this.validate(context);
+        issues
+          .filter((issue) => issue.severity == "warning")
+          .forEach((issue) => Log.warn("Workflow validation: " + issue.message));
+        const errors = issues.filter((issue) => issue.severity == "error");
+        if (errors.length > 0) {
+          throw new WorkflowValidationError(errors);
+        }
+      }
+      const result = await this.doRunWorkflow(context, resumed);
+      span?.setStatus("ok");
+      if (this.checkpointStore) {
+        // A completed task has nothing left to resume
+        await this.checkpointStore.delete(taskId).catch((e) => {
+          Log.error("Checkpoint store delete error:", e);
+        });
+      }
 
       this.config.telemetry?.onMetric?.({
         name: 'xsky.task.duration',
@@ -150,6 +323,18 @@ export class XSky {
         tags: { status: 'failure', taskId, error: e?.name || 'UnknownError' }
       });
 
+      // An exhausted budget aborts the task, report it instead of the abort
+      const budgetError = context.budget?.Exceeded;
+      span?.recordError(budgetError || e);
+      if (budgetError) {
+        return {
+          taskId,
+          success: false,
+          stopReason: "budget",
+          result: budgetError.name + ": " + budgetError.message,
+          error: budgetError,
+        };
+      }
       return {
         taskId,
         success: false,
@@ -158,11 +343,64 @@ export class XSky {
         error: e,
       };
     } finally {
+      span?.end();
+      context.span = undefined;
+      context.stopCheckpointing();
       // Schedule automatic cleanup for this task
       this.cleanupTask(taskId);
     }
   }
 
+  /**
+   * Statically validates the workflow of a task against its agents and variables.
+   * @param context - The context of the task.
+   * @returns The issues found, empty when the workflow is valid.
+   */
+  private validate(context: Context) {
+    return validateWorkflow(
+      context.workflow as Workflow,
+      context.agents,
+      Array.from(context.variables.keys()),
+      this.config.workflows
+    );
+  }
+
+  /**
+   * Recalls the long-term memories relevant to a task into its context, for its prompts.
+   * @param context - The context of the task.
+   */
+  private async recallMemories(context: Context) {
+    const memory = this.config.longTermMemory;
+    if (!memory) {
+      return;
+    }
+    try {
+      context.memories = await memory.recallFor(context);
+    } catch (e) {
+      Log.error("Long-term memory recall error:", e);
+    }
+  }
+
+  /**
+   * Remembers the reusable facts of a finished task in the long-term memory, in the background
+   * so that the result is not delayed by the extraction, see LongTermMemory.idle.
+   * @param context - The context of the task.
+   * @param result - The result of the task.
+   */
+  private async learnMemories(context: Context, result: XSkyResult) {
+    const memory = this.config.longTermMemory;
+    if (!memory) {
+      return;
+    }
+    try {
+      const memories = await memory.learn(context, result);
+      memories.length > 0 &&
+        Log.info(`Remembered ${memories.length} facts of task ${context.taskId}`);
+    } catch (e) {
+      Log.error("Long-term memory learn error:", e);
+    }
+  }
+
   /**
    * Generates and executes a workflow for a given task prompt.
    * @param taskPrompt - The prompt for the task.
@@ -181,29 +419,51 @@ export class XSky {
 
   /**
    * Initializes a context for a given workflow.
+   *
+   * The workflow is either a Workflow, a workflow definition, or the text of an XML plan
+   * or of a JSON / YAML workflow definition. Definitions are validated against the
+   * registered agents and the context parameters.
+   *
    * @param workflow - The workflow to initialize the context for.
    * @param contextParams - Additional parameters for the context.
    * @returns A promise that resolves to the initialized context.
+   * @throws WorkflowDefinitionError if the workflow definition is invalid.
    */
   public async initContext(
-    workflow: Workflow,
+    workflow: Workflow | WorkflowDefinition | string,
     contextParams?: Record<string, any>
   ): Promise<Context> {
-    const agents = this.config.agents || [];
-    const chain: Chain = new Chain(workflow.taskPrompt || workflow.name);
-    const context = new Context(workflow.taskId, this.config, agents, chain);
+    if (typeof workflow == "string") {
+      workflow =
+        workflow.indexOf("<root>") > -1
+          ? (parseWorkflow(uuidv4(), workflow, true) as Workflow)
+          : readWorkflowDefinition(workflow);
+    }
+    let agents = this.config.agents || [];
+    const taskPrompt = workflow.taskPrompt || workflow.name;
     if (this.config.a2aClient) {
-      const a2aList = await this.config.a2aClient.listAgents(
-        workflow.taskPrompt || workflow.name
-      );
-      context.agents = mergeAgents(context.agents, a2aList);
+      const a2aList = await this.config.a2aClient.listAgents(taskPrompt);
+      agents = mergeAgents(agents, a2aList);
+    }
+    if (isWorkflowDefinition(workflow)) {
+      workflow = workflowFromDefinition(workflow, {
+        agents: agents.map((agent) => agent.Name),
+        variables: Object.keys(contextParams || {}),
+        workflows: (this.config.workflows || []).map((saved) => saved.name),
+      });
     }
+    const chain: Chain = new Chain(taskPrompt);
+    const context = new Context(workflow.taskId, this.config, agents, chain);
+    context.checkpointStore = this.checkpointStore;
+    context.rateLimiter = this.rateLimiter;
+    context.tracer = this.tracer;
     if (contextParams) {
       Object.keys(contextParams).forEach((key) =>
         context.variables.set(key, contextParams[key])
       );
     }
     context.workflow = workflow;
+    await this.recallMemories(context);
     this.taskMap.set(workflow.taskId, context);
     return context;
   }
@@ -219,11 +479,14 @@ export class XSky {
    * 5. Provides comprehensive error handling and recovery through hooks
    *
    * @param context - The execution context containing workflow, agents, and state
+   * @param resumed - Whether the task is resumed from a checkpoint (agents already `done` are skipped)
    * @returns Promise resolving to execution result with success status and final output
    */
-  private async doRunWorkflow(context: Context): Promise<XSkyResult> {
+  private async doRunWorkflow(
+    context: Context,
+    resumed: boolean = false
+  ): Promise<XSkyResult> {
     const hooks = this.config.hooks;
-    const agents = context.agents as Agent[];
     const workflow = context.workflow as Workflow;
 
     // Validate workflow has at least one agent to execute
@@ -240,6 +503,34 @@ export class XSky {
       }
     }
 
+    const xskyResult = await this.runAgentTree(context, resumed);
+
+    // ============ ON WORKFLOW COMPLETE HOOK ============
+    if (hooks?.onWorkflowComplete) {
+      try {
+        await hooks.onWorkflowComplete(context, xskyResult);
+      } catch (hookError) {
+        Log.error("onWorkflowComplete hook error:", hookError);
+      }
+    }
+
+    return xskyResult;
+  }
+
+  /**
+   * Runs the agents of the workflow of a context without the workflow hooks,
+   * so that sub-workflows do not report themselves as the workflow of the task.
+   * @param context - The execution context containing workflow, agents, and state
+   * @param resumed - Whether agents already `done` are skipped
+   * @returns Promise resolving to execution result with success status and final output
+   */
+  private async runAgentTree(
+    context: Context,
+    resumed: boolean = false
+  ): Promise<XSkyResult> {
+    const agents = context.agents as Agent[];
+    const workflow = context.workflow as Workflow;
+
     // Create lookup map for O(1) agent resolution by name during execution
     const agentNameMap = agents.reduce((map, item) => {
       map[item.Name] = item;
@@ -247,31 +538,40 @@ export class XSky {
     }, {} as { [key: string]: Agent });
 
     // Build execution tree from workflow agents, resolving dependencies into sequential/parallel structure
-    let agentTree = buildAgentTree(workflow.agents);
+    let agentTree = buildAgentTree(
+      resumed
+        ? workflow.agents.filter((agent) => agent.status != "done")
+        : workflow.agents
+    );
     const results: string[] = [];
 
+    // Persist the initial state so that the task can be resumed even if the first agent fails
+    await context.createCheckpoint();
+
     // Main execution loop: traverse agent tree until all agents complete
     while (true) {
       await context.checkAborted(); // Check for user cancellation or pause requests
-      let lastAgent: Agent | undefined;
+      let lastAgentContext: AgentContext | undefined;
 
       // Execute single agent node
-      if (agentTree.type === "normal") {
+      if (agentTree.type === "normal" && agentTree.agent.subWorkflow) {
+        // saved workflow called by the agent entry
+        const agentChain = new AgentChain(agentTree.agent);
+        context.chain.push(agentChain);
+        agentTree.result = await this.runSubWorkflow(context, agentTree, agentChain);
+        results.push(agentTree.result);
+      } else if (agentTree.type === "normal") {
         // normal agent
         const agent = agentNameMap[agentTree.agent.name];
         if (!agent) {
           throw new Error("Unknown Agent: " + agentTree.agent.name);
         }
-        lastAgent = agent;
         const agentNode = agentTree.agent;
         const agentChain = new AgentChain(agentNode);
         context.chain.push(agentChain);
-        agentTree.result = await this.runAgent(
-          context,
-          agent,
-          agentTree,
-          agentChain
-        );
+        const run = await this.runLeasedAgent(context, agent, agentTree, agentChain);
+        agentTree.result = run.result;
+        lastAgentContext = run.agentContext;
         results.push(agentTree.result);
       } else {
         // Execute parallel agent group - multiple independent agents that can run concurrently
@@ -282,20 +582,20 @@ export class XSky {
           agentNode: NormalAgentNode,
           index: number
         ) => {
+          if (agentNode.agent.subWorkflow) {
+            const agentChain = new AgentChain(agentNode.agent);
+            const result = await this.runSubWorkflow(context, agentNode, agentChain);
+            return { result, agentChain, index };
+          }
           const agent = agentNameMap[agentNode.agent.name];
           if (!agent) {
             throw new Error("Unknown Agent: " + agentNode.agent.name);
           }
-          lastAgent = agent;
           const agentChain = new AgentChain(agentNode.agent);
           // Note: agentChain added to context later to prevent race conditions in parallel execution
-          const result = await this.runAgent(
-            context,
-            agent,
-            agentNode,
-            agentChain
-          );
-          return { result: result, agentChain, index };
+          const run = await this.runLeasedAgent(context, agent, agentNode, agentChain);
+          lastAgentContext = run.agentContext;
+          return { result: run.result, agentChain, index };
         };
 
         let agent_results: string[] = [];
@@ -335,16 +635,19 @@ export class XSky {
       // Clear conversation history after each agent completes to prevent context pollution
       context.conversation.splice(0, context.conversation.length);
 
+      // Checkpoint after every completed step so a restarted process can resume from here
+      await context.createCheckpoint();
+
       // Expert mode: dynamically replan workflow if agent detects significant task changes
       // This enables adaptive workflows that can adjust strategy based on execution results
       if (
         config.expertMode && // Expert mode must be enabled globally
         !workflow.modified && // Don't replan if already modified
         agentTree.nextAgent && // Only replan if more agents remain
-        lastAgent?.AgentContext && // Agent must have execution context
-        (await checkTaskReplan(lastAgent.AgentContext)) // Agent signals replanning needed
+        lastAgentContext && // Agent must have execution context
+        (await checkTaskReplan(lastAgentContext)) // Agent signals replanning needed
       ) {
-        await replanWorkflow(lastAgent.AgentContext);
+        await replanWorkflow(lastAgentContext);
       }
 
       // Handle workflow modifications from replanning or external changes
@@ -368,19 +671,54 @@ export class XSky {
       taskId: context.taskId,
       result: results[results.length - 1] || "",
     };
-
-    // ============ ON WORKFLOW COMPLETE HOOK ============
-    if (hooks?.onWorkflowComplete) {
-      try {
-        await hooks.onWorkflowComplete(context, xskyResult);
-      } catch (hookError) {
-        Log.error("onWorkflowComplete hook error:", hookError);
-      }
+    if (context.schedule) {
+      xskyResult.schedule = context.schedule;
     }
-
     return xskyResult;
   }
 
+  /**
+   * Runs an agent node on an instance leased from the agent pool when the pool has the agent,
+   * so that parallel agent nodes of the same name do not share state, e.g. a browser page.
+   * @param context - The workflow execution context
+   * @param agent - The configured agent, run when the pool does not have it
+   * @param agentNode - The workflow node containing agent configuration
+   * @param agentChain - Execution chain for tracking agent steps and results
+   * @returns The result of the agent and the agent context of its run
+   */
+  private async runLeasedAgent(
+    context: Context,
+    agent: Agent,
+    agentNode: NormalAgentNode,
+    agentChain: AgentChain
+  ): Promise<{ result: string; agentContext?: AgentContext }> {
+    const agentPool = this.config.agentPool;
+    if (!agentPool?.has(agent.Name)) {
+      const result = await this.runAgent(context, agent, agentNode, agentChain);
+      return { result, agentContext: agent.AgentContext };
+    }
+    const lease = await agentPool.acquire(
+      agent.Name,
+      context.taskId,
+      context.controller.signal
+    );
+    this.config.telemetry?.onMetric?.({
+      name: "xsky.agent.lease_wait",
+      value: lease.waitMs,
+      tags: {
+        taskId: context.taskId,
+        agentName: agent.Name,
+        reused: String(lease.reused),
+      },
+    });
+    try {
+      const result = await this.runAgent(context, lease.agent, agentNode, agentChain);
+      return { result, agentContext: lease.agent.AgentContext };
+    } finally {
+      await lease.release();
+    }
+  }
+
   /**
    * Executes a single agent within the workflow, handling lifecycle hooks, error recovery, and callbacks.
    *
@@ -517,6 +855,105 @@ export class XSky {
     }
   }
 
+  /**
+   * Executes an agent entry calling a saved workflow, in a child context sharing the abort signal,
+   * budget and tracer of the task. The inputs of the saved workflow are bound from the variables
+   * of the task, and its declared outputs are returned to them.
+   *
+   * @param context - The workflow execution context
+   * @param agentNode - The workflow node of the calling agent entry
+   * @param agentChain - Execution chain recording the result of the sub-workflow
+   * @returns Promise resolving to the result of the sub-workflow
+   */
+  protected async runSubWorkflow(
+    context: Context,
+    agentNode: NormalAgentNode,
+    agentChain: AgentChain
+  ): Promise<string> {
+    const workflowAgent = agentNode.agent;
+    const saved = (this.config.workflows || []).find(
+      (item) => item.name == workflowAgent.name
+    );
+    if (!saved) {
+      throw new Error("Unknown sub-workflow: " + workflowAgent.name);
+    }
+    let depth = 0;
+    for (let parent = context.parent; parent; parent = parent.parent) {
+      depth++;
+    }
+    if (depth >= config.maxSubWorkflowDepth) {
+      throw new Error(
+        `Sub-workflow ${saved.name} exceeds the maximum nesting depth of ${config.maxSubWorkflowDepth}`
+      );
+    }
+    try {
+      workflowAgent.status = "running";
+      this.config.callback &&
+        (await this.config.callback.onMessage({
+          taskId: context.taskId,
+          agentName: workflowAgent.name,
+          nodeId: workflowAgent.id,
+          type: "agent_start",
+          agentNode: workflowAgent,
+        }));
+      const bindings = getSubWorkflowBindings(saved, workflowAgent.subWorkflow!);
+      const child = new Context(
+        context.taskId,
+        context.config,
+        context.agents,
+        new Chain(workflowAgent.task || saved.description)
+      );
+      child.parent = context;
+      child.controller = context.controller;
+      child.budget = context.budget;
+      child.rateLimiter = context.rateLimiter;
+      child.tracer = context.tracer;
+      child.span = context.span;
+      child.dryRun = context.dryRun;
+      child.memories = context.memories;
+      for (const [input, variable] of Object.entries(bindings.inputs)) {
+        if (context.variables.has(variable)) {
+          child.variables.set(input, context.variables.get(variable));
+        }
+      }
+      child.workflow = loadSavedWorkflow(
+        saved,
+        context.agents.map((agent) => agent.Name)
+      );
+      const result = await this.runAgentTree(child);
+      for (const [output, variable] of Object.entries(bindings.outputs)) {
+        if (child.variables.has(output)) {
+          context.variables.set(variable, child.variables.get(output));
+        }
+      }
+      agentNode.result = result.result;
+      agentChain.agentResult = result.result;
+      workflowAgent.status = "done";
+      this.config.callback &&
+        (await this.config.callback.onMessage({
+          taskId: context.taskId,
+          agentName: workflowAgent.name,
+          nodeId: workflowAgent.id,
+          type: "agent_result",
+          agentNode: workflowAgent,
+          result: result.result,
+        }));
+      return result.result;
+    } catch (e: any) {
+      workflowAgent.status = "error";
+      this.config.callback &&
+        (await this.config.callback.onMessage({
+          taskId: context.taskId,
+          agentName: workflowAgent.name,
+          nodeId: workflowAgent.id,
+          type: "agent_result",
+          agentNode: workflowAgent,
+          error: e,
+        }));
+      throw e;
+    }
+  }
+
   /**
    * Gets a task by its ID.
    * @param taskId - The ID of the task to get.
@@ -623,6 +1060,17 @@ export class XSky {
     this.config.agents.push(agent);
   }
 
+  /**
+   * Saves a workflow that plans can call as a sub-workflow.
+   * @param workflow - The workflow to save, replacing any saved workflow of the same name.
+   */
+  public addWorkflow(workflow: SavedWorkflow): void {
+    this.config.workflows = (this.config.workflows || []).filter(
+      (saved) => saved.name != workflow.name
+    );
+    this.config.workflows.push(workflow);
+  }
+
   private async onTaskStatus(
     context: Context,
     status: string,
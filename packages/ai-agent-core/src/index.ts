@@ -3,11 +3,20 @@ import config from "./config";                    // Global configuration settin
 import Log from "./common/log";                   // Logging utility for consistent output
 import { Planner } from "./core/plan";           // Workflow planning engine
 import { RetryLanguageModel } from "./llm";      // LLM wrapper with retry logic
+import { BudgetTracker, BudgetExceededError } from "./llm/budget"; // Token and cost budgets
+import { LlmCassette, CassetteMissError } from "./llm/cassette"; // Record-and-replay of LLM calls
 import { XSkyMemory } from "./memory/memory";     // Memory management system
 import { XSky, XSkyDialogue } from "./core/index"; // Main orchestrator and dialogue interface
 import Chain, { AgentChain } from "./core/chain"; // Workflow chain management
 import Context, { AgentContext } from "./core/context"; // Execution context handling
-import { SimpleSseMcpClient, SimpleHttpMcpClient } from "./mcp"; // Model Context Protocol clients
+import {
+  SimpleSseMcpClient,
+  SimpleHttpMcpClient,
+  StreamableHttpMcpClient,
+  MultiMcpClient,
+  McpServerMessages,
+  McpResponseError,
+} from "./mcp"; // Model Context Protocol clients
 
 // Export the main XSky class as default for easy import
 export default XSky;
@@ -26,7 +35,15 @@ export {
   AgentChain,              // Agent-specific chain implementation
   SimpleSseMcpClient,      // Server-Sent Events MCP client
   SimpleHttpMcpClient,     // HTTP-based MCP client
+  StreamableHttpMcpClient, // Streamable HTTP MCP client with sessions, resumption and auth
+  MultiMcpClient,          // MCP client multiplexing several servers with health tracking
+  McpServerMessages,       // Dispatcher of MCP server-initiated messages for MCP clients
+  McpResponseError,        // Error answered by an MCP server, e.g. a failed tool call
   RetryLanguageModel,      // LLM wrapper with retry capabilities
+  BudgetTracker,           // Token and cost budget tracking per task
+  BudgetExceededError,     // Error stopping a task that exhausted its budget
+  LlmCassette,             // Records LLM calls and replays them offline
+  CassetteMissError,       // Error for a replayed request that was not recorded
 };
 
 // Agent base classes and interfaces - foundation for creating specialized agents
@@ -39,6 +56,11 @@ export {
   BaseBrowserAgent,          // Base class for browser automation agents
   BaseBrowserLabelsAgent,    // Base class for label-based browser agents
   BaseBrowserScreenAgent,    // Base class for screen-based browser agents
+  A2aClient,                 // A2A protocol client discovering remote agents
+  A2aRemoteAgent,            // Agent delegating its task to a remote A2A agent
+  partsToText,               // Joins the parts of an A2A message into text
+  type IA2aClient,           // Interface for A2A clients
+  AgentPool,                 // Pool of agent instances leased per workflow agent
 } from "./agent";
 
 // Built-in tools - core functionality available to all agents
@@ -47,20 +69,45 @@ export {
   TaskNodeStatusTool,       // Tool for managing task node status
   VariableStorageTool,      // Tool for persistent variable storage
   ForeachTaskTool,          // Tool for iterative task execution
+  ControlFlowTool,          // Tool for if, while and try node execution
   WatchTriggerTool,         // Tool for event-driven triggers
 } from "./tools";
 
 // Core type definitions - TypeScript interfaces for the framework
 export {
   type LLMs,                  // Type definition for LLM provider configurations
+  type LLMPrice,              // Type definition for LLM prices per million tokens
+  type BudgetConfig,          // Type definition for token and cost budgets
+  type CassetteMode,          // Type definition for LLM cassette modes
+  type CassetteData,          // Type definition for recorded LLM calls
+  type CassetteOptions,       // Type definition for LLM cassette options
   type LLMRequest,           // Type definition for LLM API requests
   type StreamCallback,       // Type definition for streaming response callbacks
   type HumanCallback,        // Type definition for human interaction callbacks
   type XSkyConfig,            // Type definition for XSky configuration
+  type ExecuteOptions,        // Type definition for XSky.execute options
+  type DryRunAction,          // Type definition for tool calls of a dry run
+  type DryRunReport,          // Type definition for dry run reports
+  type TelemetryConfig,       // Type definition for metrics and tracing configuration
   type Workflow,             // Type definition for workflow structures
   type WorkflowAgent,        // Type definition for workflow agent configurations
   type WorkflowNode,         // Type definition for workflow node structures
+  type WorkflowCondition,    // Type definition for if and while node conditions
+  type WorkflowDefinition,   // Type definition for JSON/YAML workflow definitions
+  type SavedWorkflow,        // Type definition for workflows called as sub-workflows
+  type SubWorkflowCall,      // Type definition for the bindings of sub-workflow calls
+  type AgentPoolOptions,     // Type definition for agent pool options
+  type AgentLease,           // Type definition for agent instances leased from a pool
+  type AgentPoolMetrics,     // Type definition for agent pool metrics
+  type WorkflowDefinitionIssue, // Type definition for workflow definition errors
+  type WorkflowValidationConfig, // Type definition for workflow validation configuration
+  type WorkflowValidationIssue, // Type definition for workflow validation issues
+  type JsonSchemaIssue,      // Type definition for JSON Schema validation issues
   type StreamCallbackMessage, // Type definition for streaming callback messages
+  type A2aAgentCard,         // Type definition for A2A agent cards
+  type A2aMessage,           // Type definition for A2A messages
+  type A2aTask,              // Type definition for A2A remote tasks
+  type A2aStreamEvent,       // Type definition for A2A task events
 } from "./types";
 
 // Hooks and production types - interfaces for advanced workflow control
@@ -74,7 +121,9 @@ export type {
   Checkpoint,               // Type definition for workflow checkpoint structures
   StateConfig,              // Type definition for state management configuration
   ApprovalConfig,           // Type definition for approval system configuration
+  ApprovalRule,             // Type definition for conditional approval rules
   RateLimitConfig,          // Type definition for rate limiting configuration
+  RateLimit,                // Type definition for a single rate limit window
   ProductionXSkyConfig,       // Type definition for production-ready XSky configuration
 } from "./types/hooks.types";
 
@@ -106,6 +155,73 @@ export {
   buildSimpleAgentWorkflow, // Build simple XML workflow for single agent
 } from "./common/xml";
 
+// Workflow definitions - JSON/YAML workflows converted to and from the XML plan
+export {
+  workflowDefinitionSchema,    // JSON Schema of workflow definitions
+  parseWorkflowDefinition,     // Parse a JSON/YAML workflow definition into a workflow
+  workflowFromDefinition,      // Convert a workflow definition into a workflow
+  workflowToDefinition,        // Convert a workflow into a workflow definition
+  stringifyWorkflowDefinition, // Serialize a workflow as JSON/YAML
+  validateWorkflowDefinition,  // Validate a workflow definition
+  WorkflowDefinitionError,     // Error listing the issues of an invalid definition
+} from "./common/workflow-definition";
+
+// Typed variables - JSON Schema validation of the variables written by nodes
+export { validateJsonSchema } from "./common/json-schema";
+
+// Workflow validation - static checks of workflows before execution
+export {
+  validateWorkflow,         // Report cycles, missing agents and undefined variables
+  WorkflowValidationError,  // Error listing the blocking issues of a workflow
+} from "./core/validate";
+
+// Dry runs - simulated side effects with a report of the intended actions
+export { DryRunRecorder } from "./core/dry-run";
+
+// Long-term memory - facts learned from tasks, recalled into the prompts of new tasks
+export {
+  LongTermMemory,           // Extracts, recalls and forgets the facts learned from tasks
+  formatMemories,           // Formats memories as a list for prompts
+} from "./memory/long-term";
+export {
+  Bm25MemoryStore,          // In-memory memory store ranked by keywords, without embeddings
+  VectorMemoryStore,        // In-memory memory store ranked by embedding similarity
+} from "./memory/store";
+export type {
+  LongTermMemoryEntry,      // Type definition for remembered facts
+  LongTermMemoryKind,       // Type definition for the kinds of remembered facts
+  LongTermMemoryMatch,      // Type definition for recalled memories with their score
+  LongTermMemoryOptions,    // Type definition for long-term memory options
+  ILongTermMemoryStore,     // Interface for long-term memory stores
+} from "./types/memory.types";
+
+// Scheduler - recurring runs of task prompts and saved workflows
+export {
+  Scheduler,                // Runs tasks on cron or interval schedules
+  InMemoryScheduleStore,    // In-memory run history of schedules
+  parseCron,                // Parse a cron expression
+  nextCronTime,             // Next time matching a cron expression
+} from "./scheduler";
+export type {
+  Schedule,                 // Type definition for task schedules
+  ScheduleOverlapPolicy,    // Type definition for overlapping run policies
+  ScheduleRun,              // Type definition for recorded schedule runs
+  ScheduledRunInfo,         // Type definition for the schedule metadata of tasks
+  IScheduleStore,           // Interface for schedule run history stores
+  SchedulerClock,           // Interface for scheduler clocks
+  SchedulerOptions,         // Type definition for scheduler options
+} from "./types/scheduler.types";
+
+// Task queue - bounded concurrency of simultaneous tasks
+export { TaskQueue } from "./queue"; // Runs tasks with concurrency limits, priorities and tenant fairness
+export type {
+  TaskQueueOptions,         // Type definition for task queue options
+  TaskQueueSubmitOptions,   // Type definition for the priority and tenant of queued tasks
+  TaskQueueRunOptions,      // Type definition for queued task prompts
+  TaskQueueExecuteOptions,  // Type definition for queued task executions
+  TaskQueueShutdownResult,  // Type definition for the tasks of a shut down queue
+} from "./types/queue.types";
+
 // Specialized utility exports - domain-specific helper functions
 export { buildAgentTree } from "./common/tree";                    // Build hierarchical agent tree structures
 export { extract_page_content } from "./agent/browser/utils";     // Extract content from web pages
@@ -116,6 +232,8 @@ export { validateUrl, validateFilePath, sanitizeSessionData } from "./common/sec
 export {
   RateLimiter,              // Rate limiting implementation
   RateLimitPresets,         // Pre-configured rate limit presets
+  RateLimitError,           // Error thrown when a rate limit rejects an operation
+  type RateLimitBucket,     // Type definition for rate limit buckets
   createRateLimitedHook,    // Create hook with rate limiting
   createBlocklistHook,      // Create hook for blocking operations
   createApprovalRequiredHook, // Create hook requiring approval
@@ -132,10 +250,45 @@ export {
   AuditLoggerFactory,        // Factory for creating audit loggers
   ToolExecutionSandbox,      // Sandbox for secure tool execution
   ToolSandboxFactory,        // Factory for creating tool sandboxes
+  ApprovalManager,           // Applies approval rules, timeouts and policies
+  evaluateApproval,          // Checks approvals against required approvers
+  type ApprovalOutcome,      // Type definition for approval request outcomes
   type ToolSandboxOptions,    // Type definition for sandbox configuration
   type SandboxResult,        // Type definition for sandbox execution results
 } from "./security";
 
+// State persistence - checkpoint stores for durable workflow resume
+export {
+  InMemoryCheckpointStore,   // In-memory checkpoint store implementation
+  CustomCheckpointStore,     // Adapter for StateConfig.customHandlers
+  createCheckpointStore,     // Factory creating the store described by a StateConfig
+  isExpired,                 // Checks a checkpoint against a time-to-live
+  type ICheckpointStore,     // Interface for checkpoint stores
+} from "./state";
+
+// Tracing - hierarchical spans exported through TelemetryConfig.exporter
+export {
+  Span,                      // Timed operation within a trace
+  Tracer,                    // Creates spans and exports them in batches
+  InMemorySpanExporter,      // Span exporter keeping finished spans in memory
+  toOtlpJson,                // Converts spans to an OTLP/JSON trace request
+  hashArgs,                  // Hashes tool call arguments for span attributes
+  type StartSpanOptions,     // Type definition for span start options
+  type SpanData,             // Type definition for finished spans
+  type SpanExporter,         // Interface for span exporters
+} from "./trace";
+
+// Execution reports - HTML/Markdown/JSON timelines of finished tasks
+export {
+  ExecutionRecorder,         // Stream callback capturing the events of tasks
+  buildExecutionReport,      // Builds the report of a task from its chain and events
+  renderExecutionReport,     // Renders a report as HTML, Markdown or JSON
+  type ExecutionReportOptions, // Type definition for report build options
+  type ExecutionReport,      // Type definition for execution reports
+  type ExecutionReportFormat, // Type definition for report output formats
+  type RecordedStreamEvent,  // Type definition for captured stream events
+} from "./report";
+
 // Security type definitions - interfaces for security system components
 export type {
   PermissionLevel,           // Enum for permission levels (allow, deny, etc.)
@@ -0,0 +1,205 @@
+import { LanguageModelV2Usage } from "@ai-sdk/provider";
+import Log from "../common/log";
+import type { TelemetryConfig } from "../types/core.types";
+import type {
+  BudgetConfig,
+  BudgetLimits,
+  BudgetUsage,
+  LLMConfig,
+} from "../types/llm.types";
+
+/**
+ * Error thrown when the budget of a task is exhausted.
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * Tracks the token usage and estimated cost of the LLM calls of a task
+ * against its BudgetConfig, per task and per agent.
+ */
+export class BudgetTracker {
+  private taskId: string;
+  private config: BudgetConfig;
+  private telemetry?: TelemetryConfig;
+  private taskUsage: BudgetUsage = emptyUsage();
+  private agentUsage: Map<string, BudgetUsage> = new Map();
+  private downgraded: Set<string> = new Set();
+  private exceeded?: BudgetExceededError;
+
+  /**
+   * Creates a new BudgetTracker.
+   * @param taskId - The ID of the task.
+   * @param config - The budget configuration.
+   * @param telemetry - Optional telemetry to emit budget metrics to.
+   */
+  constructor(taskId: string, config: BudgetConfig, telemetry?: TelemetryConfig) {
+    this.taskId = taskId;
+    this.config = config;
+    this.telemetry = telemetry;
+  }
+
+  /**
+   * Records the usage of an LLM call.
+   * @param llm - The name of the LLM that was called.
+   * @param llmConfig - The configuration of the LLM, its price estimates the cost.
+   * @param usage - The token usage of the call.
+   * @param agentName - The agent that made the call, if any.
+   * @returns The usage of the call.
+   */
+  record(
+    llm: string,
+    llmConfig: LLMConfig,
+    usage: LanguageModelV2Usage,
+    agentName?: string
+  ): BudgetUsage {
+    const promptTokens = usage.inputTokens || 0;
+    const completionTokens = usage.outputTokens || 0;
+    const price = llmConfig.price;
+    const callUsage: BudgetUsage = {
+      promptTokens,
+      completionTokens,
+      cost: price
+        ? (promptTokens * price.prompt + completionTokens * price.completion) /
+          1_000_000
+        : 0,
+    };
+    addUsage(this.taskUsage, callUsage);
+    if (agentName) {
+      const agentUsage = this.agentUsage.get(agentName) || emptyUsage();
+      addUsage(agentUsage, callUsage);
+      this.agentUsage.set(agentName, agentUsage);
+    }
+    const tags = { taskId: this.taskId, agentName: agentName || "", llm };
+    this.emit("xsky.budget.prompt_tokens", promptTokens, tags);
+    this.emit("xsky.budget.completion_tokens", completionTokens, tags);
+    this.emit("xsky.budget.cost", callUsage.cost, tags);
+    return callUsage;
+  }
+
+  /**
+   * Checks whether the budget of the task, or of an agent, is exhausted.
+   * @param agentName - The agent about to make a call, if any.
+   * @returns A description of the exhausted limit, or undefined if within budget.
+   */
+  check(agentName?: string): string | undefined {
+    const taskReason = exhausted(this.config, this.taskUsage);
+    if (taskReason) {
+      return `Task budget exhausted: ${taskReason}`;
+    }
+    const agentLimits = agentName && this.getAgentLimits(agentName);
+    if (agentLimits) {
+      const agentReason = exhausted(agentLimits, this.getUsage(agentName));
+      if (agentReason) {
+        return `Budget of agent ${agentName} exhausted: ${agentReason}`;
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Marks the calls of an agent (or of the task) as downgraded to the cheaper LLM.
+   * @param reason - Description of the exhausted limit.
+   * @param agentName - The agent whose calls are downgraded, if any.
+   */
+  downgrade(reason: string, agentName?: string): void {
+    const scope = agentName || "";
+    if (this.downgraded.has(scope)) {
+      return;
+    }
+    this.downgraded.add(scope);
+    Log.warn(`${reason}, downgrading to LLM: ${this.config.downgradeLlm}`);
+    this.emit("xsky.budget.exhausted", 1, {
+      taskId: this.taskId,
+      agentName: agentName || "",
+      action: "downgrade",
+    });
+  }
+
+  /**
+   * Marks the budget as exceeded, the task is stopped with stopReason "budget".
+   * @param reason - Description of the exhausted limit.
+   * @param agentName - The agent that exhausted the budget, if any.
+   * @returns The error to abort the task with.
+   */
+  exceed(reason: string, agentName?: string): BudgetExceededError {
+    if (!this.exceeded) {
+      this.exceeded = new BudgetExceededError(reason);
+      Log.warn(reason);
+      this.emit("xsky.budget.exhausted", 1, {
+        taskId: this.taskId,
+        agentName: agentName || "",
+        action: "abort",
+      });
+    }
+    return this.exceeded;
+  }
+
+  /**
+   * Gets the usage of the task, or of an agent.
+   * @param agentName - Optional agent name.
+   */
+  getUsage(agentName?: string): BudgetUsage {
+    const usage = agentName ? this.agentUsage.get(agentName) : this.taskUsage;
+    return { ...(usage || emptyUsage()) };
+  }
+
+  /**
+   * Gets the budget configuration.
+   */
+  get Config(): BudgetConfig {
+    return this.config;
+  }
+
+  /**
+   * Gets the error the task was stopped with, if the budget was exceeded.
+   */
+  get Exceeded(): BudgetExceededError | undefined {
+    return this.exceeded;
+  }
+
+  private getAgentLimits(agentName: string): BudgetLimits | undefined {
+    return this.config.perAgent?.[agentName] || this.config.perAgent?.["*"];
+  }
+
+  private emit(name: string, value: number, tags: Record<string, string>) {
+    try {
+      this.telemetry?.onMetric?.({ name, value, tags });
+    } catch (e) {
+      Log.error("Budget metric error:", e);
+    }
+  }
+}
+
+function emptyUsage(): BudgetUsage {
+  return { promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addUsage(usage: BudgetUsage, add: BudgetUsage) {
+  usage.promptTokens += add.promptTokens;
+  usage.completionTokens += add.completionTokens;
+  usage.cost += add.cost;
+}
+
+function exhausted(limits: BudgetLimits, usage: BudgetUsage): string | undefined {
+  if (
+    limits.maxPromptTokens !== undefined &&
+    usage.promptTokens >= limits.maxPromptTokens
+  ) {
+    return `${usage.promptTokens} of ${limits.maxPromptTokens} prompt tokens used`;
+  }
+  if (
+    limits.maxCompletionTokens !== undefined &&
+    usage.completionTokens >= limits.maxCompletionTokens
+  ) {
+    return `${usage.completionTokens} of ${limits.maxCompletionTokens} completion tokens used`;
+  }
+  if (limits.maxCost !== undefined && usage.cost >= limits.maxCost) {
+    return `$${usage.cost.toFixed(4)} of $${limits.maxCost} spent`;
+  }
+  return undefined;
+}
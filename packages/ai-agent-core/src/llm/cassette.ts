@@ -0,0 +1,387 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { hashString, sleep } from "../common/utils";
+import type {
+  CassetteData,
+  CassetteInteraction,
+  CassetteMode,
+  CassetteOptions,
+  LLMConfig,
+  LLMs,
+} from "../types/llm.types";
+import { createLanguageModel } from "./index";
+
+/**
+ * Error thrown in replay mode when a request has no recorded response.
+ * RetryLanguageModel does not retry it, a miss is deterministic.
+ */
+export class CassetteMissError extends Error {
+  /** Hash of the normalized request */
+  readonly key: string;
+
+  constructor(key: string, message: string) {
+    super(message);
+    this.name = "CassetteMissError";
+    this.key = key;
+  }
+}
+
+/**
+ * Records LLM calls and replays them offline, for deterministic tests of planners,
+ * replanning and full agent loops.
+ *
+ * `wrap` replaces the providers of an LLMs map: in "record" mode the calls go to the
+ * configured providers and every request and response (including the timing of stream parts)
+ * is captured; in "replay" mode the captured responses are served by the hash of the
+ * normalized request, and a request that was not recorded fails with a CassetteMissError.
+ *
+ * @example
+ * const cassette = new LlmCassette("replay", recordedData);
+ * const xsky = new XSky({ llms: cassette.wrap(llms), agents });
+ */
+export class LlmCassette {
+  private mode: CassetteMode;
+  private options: CassetteOptions;
+  private interactions: CassetteInteraction[];
+  private replayIndex: Map<string, number> = new Map();
+
+  /**
+   * Creates a new LlmCassette.
+   * @param mode - "record" to capture calls, "replay" to serve captured calls.
+   * @param data - The recorded calls to replay, ignored in "record" mode.
+   * @param options - Replay timing and prompt normalization options.
+   */
+  constructor(mode: CassetteMode, data?: CassetteData, options: CassetteOptions = {}) {
+    this.mode = mode;
+    this.options = options;
+    this.interactions = mode == "replay" && data ? [...data.interactions] : [];
+  }
+
+  /**
+   * Wraps LLM configurations so that their calls go through the cassette.
+   * @param llms - The LLM configurations.
+   * @returns The LLM configurations with cassette providers.
+   */
+  wrap(llms: LLMs): LLMs {
+    const wrapped = {} as LLMs;
+    Object.keys(llms).forEach((name) => {
+      const llmConfig = llms[name];
+      wrapped[name] = {
+        ...llmConfig,
+        provider: this.createProvider(name, llmConfig),
+      };
+    });
+    return wrapped;
+  }
+
+  /**
+   * Gets the mode of the cassette.
+   */
+  get Mode(): CassetteMode {
+    return this.mode;
+  }
+
+  /**
+   * Gets the recorded calls, in call order.
+   */
+  getInteractions(): CassetteInteraction[] {
+    return [...this.interactions];
+  }
+
+  /**
+   * Gets the serializable content of the cassette.
+   */
+  toJSON(): CassetteData {
+    return { version: 1, interactions: this.interactions };
+  }
+
+  private createProvider(name: string, llmConfig: LLMConfig): ProviderV2 {
+    const unsupported = () => {
+      throw new Error("LLM cassettes only support language models");
+    };
+    return {
+      languageModel: (modelId: string) =>
+        this.createLanguageModel(name, llmConfig, modelId),
+      textEmbeddingModel: unsupported,
+      imageModel: unsupported,
+    };
+  }
+
+  private createLanguageModel(
+    name: string,
+    llmConfig: LLMConfig,
+    modelId: string
+  ): LanguageModelV2 {
+    const provider =
+      typeof llmConfig.provider == "string" ? llmConfig.provider : "cassette";
+    let model: Promise<LanguageModelV2> | undefined;
+    // The recorded model is only created when called, replay mode never creates it
+    const getModel = () => (model = model || createLanguageModel(llmConfig));
+    return {
+      specificationVersion: "v2",
+      provider,
+      modelId,
+      supportedUrls: {},
+      doGenerate: async (options) => {
+        const key = this.requestKey("generate", modelId, options);
+        if (this.mode == "replay") {
+          const interaction = this.replay(key, name, modelId, "generate", options);
+          return reviveGenerateResponse(interaction.response || {});
+        }
+        const realModel = await getModel();
+        const result = await realModel.doGenerate(
+          withProviderOptions(options, provider, realModel.provider)
+        );
+        this.interactions.push({
+          key,
+          llm: name,
+          model: modelId,
+          type: "generate",
+          request: this.normalizeRequest(modelId, options),
+          response: toJson({
+            content: result.content,
+            finishReason: result.finishReason,
+            usage: result.usage,
+            providerMetadata: result.providerMetadata,
+            response: result.response && {
+              id: result.response.id,
+              modelId: result.response.modelId,
+              timestamp: result.response.timestamp,
+            },
+            warnings: result.warnings,
+          }),
+        });
+        return result;
+      },
+      doStream: async (options) => {
+        const key = this.requestKey("stream", modelId, options);
+        if (this.mode == "replay") {
+          const interaction = this.replay(key, name, modelId, "stream", options);
+          return {
+            stream: this.replayStream(interaction, options.abortSignal),
+          };
+        }
+        const startTime = Date.now();
+        const realModel = await getModel();
+        const result = await realModel.doStream(
+          withProviderOptions(options, provider, realModel.provider)
+        );
+        const chunks: NonNullable<CassetteInteraction["chunks"]> = [];
+        let lastTime = startTime;
+        const stream = result.stream.pipeThrough(
+          new TransformStream<LanguageModelV2StreamPart, LanguageModelV2StreamPart>({
+            transform: (part, controller) => {
+              const now = Date.now();
+              chunks.push({ delay: now - lastTime, part: toJson(part) });
+              lastTime = now;
+              controller.enqueue(part);
+            },
+            flush: () => {
+              // Only streams read to the end are recorded
+              this.interactions.push({
+                key,
+                llm: name,
+                model: modelId,
+                type: "stream",
+                request: this.normalizeRequest(modelId, options),
+                chunks,
+              });
+            },
+          })
+        );
+        return { ...result, stream };
+      },
+    };
+  }
+
+  private replay(
+    key: string,
+    name: string,
+    modelId: string,
+    type: CassetteInteraction["type"],
+    options: LanguageModelV2CallOptions
+  ): CassetteInteraction {
+    const matches = this.interactions.filter((s) => s.key == key);
+    if (matches.length == 0) {
+      throw new CassetteMissError(
+        key,
+        `No recorded ${type} response for request ${key} (llm: ${name}, model: ${modelId}, ` +
+          `last message: "${lastMessageText(options)}"). Record the cassette again to capture it.`
+      );
+    }
+    // Identical requests are replayed in recorded order, the last response is repeated
+    const index = this.replayIndex.get(key) || 0;
+    this.replayIndex.set(key, index + 1);
+    return matches[Math.min(index, matches.length - 1)];
+  }
+
+  private replayStream(
+    interaction: CassetteInteraction,
+    abortSignal?: AbortSignal
+  ): ReadableStream<LanguageModelV2StreamPart> {
+    const chunks = interaction.chunks || [];
+    let index = 0;
+    return new ReadableStream<LanguageModelV2StreamPart>({
+      pull: async (controller) => {
+        if (index >= chunks.length) {
+          controller.close();
+          return;
+        }
+        const chunk = chunks[index++];
+        if (this.options.replayTiming && chunk.delay > 0) {
+          await sleep(chunk.delay);
+        }
+        if (abortSignal?.aborted) {
+          const error = new Error("Operation was aborted");
+          error.name = "AbortError";
+          controller.error(error);
+          return;
+        }
+        controller.enqueue(revivePart(chunk.part));
+      },
+    });
+  }
+
+  private requestKey(
+    type: CassetteInteraction["type"],
+    modelId: string,
+    options: LanguageModelV2CallOptions
+  ): string {
+    return hashString(
+      JSON.stringify({ type, ...this.normalizeRequest(modelId, options) })
+    );
+  }
+
+  /**
+   * Normalizes a request for hashing: provider options, abort signals and headers are dropped,
+   * and datetimes and UUIDs in texts are masked, as they change between runs.
+   */
+  private normalizeRequest(
+    modelId: string,
+    options: LanguageModelV2CallOptions
+  ): Record<string, unknown> {
+    const normalize = this.options.normalize;
+    return JSON.parse(
+      JSON.stringify(
+        {
+          model: modelId,
+          prompt: options.prompt,
+          tools: options.tools,
+          toolChoice: options.toolChoice,
+          responseFormat: options.responseFormat,
+        },
+        (key, value) => {
+          if (key == "providerOptions") {
+            return undefined;
+          }
+          if (value instanceof Uint8Array) {
+            return "bytes:" + hashString(toBase64(value));
+          }
+          if (typeof value == "string") {
+            const text = maskVolatile(value);
+            return normalize ? normalize(text) : text;
+          }
+          return value;
+        }
+      )
+    );
+  }
+}
+
+function maskVolatile(text: string): string {
+  return text
+    .replace(/Current datetime: [^\n]*/g, "Current datetime: <datetime>")
+    .replace(
+      /[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}/gi,
+      "<uuid>"
+    )
+    .replace(
+      /\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?/g,
+      "<timestamp>"
+    );
+}
+
+/**
+ * The provider options of the wrapped model are keyed by the cassette provider,
+ * the recorded model reads them under its own provider name.
+ */
+function withProviderOptions(
+  options: LanguageModelV2CallOptions,
+  provider: string,
+  realProvider: string
+): LanguageModelV2CallOptions {
+  const providerOptions = options.providerOptions;
+  if (!providerOptions?.[provider] || provider == realProvider) {
+    return options;
+  }
+  return {
+    ...options,
+    providerOptions: {
+      ...providerOptions,
+      [realProvider]: providerOptions[provider],
+    },
+  };
+}
+
+function lastMessageText(options: LanguageModelV2CallOptions): string {
+  const message = options.prompt[options.prompt.length - 1];
+  let text = "";
+  if (message?.role == "system") {
+    text = message.content;
+  } else if (message) {
+    text = message.content
+      .map((part) => (part.type == "text" ? part.text : "[" + part.type + "]"))
+      .join(" ");
+  }
+  return text.length > 100 ? text.substring(0, 100) + "..." : text;
+}
+
+/**
+ * Converts a response or stream part to JSON: binary data becomes base64
+ * and errors become their message.
+ */
+function toJson(value: unknown): Record<string, unknown> {
+  return JSON.parse(
+    JSON.stringify(value, (key, item) => {
+      if (item instanceof Uint8Array) {
+        return toBase64(item);
+      }
+      if (item instanceof Error) {
+        return item.message;
+      }
+      return item;
+    })
+  );
+}
+
+function reviveGenerateResponse(response: Record<string, any>): any {
+  const metadata = response.response;
+  return {
+    ...response,
+    content: response.content || [],
+    warnings: response.warnings || [],
+    response: metadata && {
+      ...metadata,
+      timestamp: metadata.timestamp ? new Date(metadata.timestamp) : undefined,
+    },
+  };
+}
+
+function revivePart(part: Record<string, any>): LanguageModelV2StreamPart {
+  if (part.type == "response-metadata" && part.timestamp) {
+    return { ...part, timestamp: new Date(part.timestamp) } as LanguageModelV2StreamPart;
+  }
+  return part as LanguageModelV2StreamPart;
+}
+
+function toBase64(data: Uint8Array): string {
+  let binary = "";
+  for (let i = 0; i < data.length; i++) {
+    binary += String.fromCharCode(data[i]);
+  }
+  return btoa(binary);
+}
@@ -2,6 +2,7 @@ import {
   LanguageModelV2,
   LanguageModelV2CallOptions,
   LanguageModelV2StreamPart,
+  LanguageModelV2Usage,
 } from "@ai-sdk/provider";
 import Log from "../common/log";
 import config from "../config";
@@ -15,11 +16,13 @@ import { createOpenAICompatible } from "@ai-sdk/openai-compatible";
 import { createDeepSeek } from "@ai-sdk/deepseek";
 import {
   LLMs,
+  LLMConfig,
   LLMRequest,
   StreamResult,
   GenerateResult,
 } from "../types/llm.types";
 import Context, { AgentContext } from "../core/context";
+import type { Span } from "../trace/tracer";
 import { defaultLLMProviderOptions } from "./provider-options";
 
 import { CircuitBreaker } from "./circuit-breaker";
@@ -105,10 +108,13 @@ export class RetryLanguageModel {
   ): Promise<GenerateResult> {
     const maxTokens = options.maxOutputTokens;
     const providerOptions = options.providerOptions;
-    const names = [...this.names, ...this.names];
+    const budgetNames = this.checkBudget();
+    const names = [...budgetNames, ...budgetNames];
+    const span = this.startSpan(false);
     let lastError;
     // Track if we skipped any providers due to open circuit
     let skippedProviders = 0;
+    let retryCount = 0;
 
     for (let i = 0; i < names.length; i++) {
       const name = names[i];
@@ -148,15 +154,27 @@ export class RetryLanguageModel {
         result.llm = name;
         result.llmConfig = llmConfig;
         result.text = result.content.find((c) => c.type === "text")?.text;
+        this.recordUsage(name, result.usage);
+        span?.setAttributes({
+          ...spanAttributes(name, llmConfig, retryCount, skippedProviders),
+          "gen_ai.usage.input_tokens": result.usage.inputTokens,
+          "gen_ai.usage.output_tokens": result.usage.outputTokens,
+        });
+        span?.setStatus("ok");
+        span?.end();
 
         // Success! Record it
         this.circuitBreaker.recordSuccess(name);
         return result;
       } catch (e: any) {
-        if (e?.name === "AbortError") {
-          throw e; // Abort errors shouldn't trip circuit breaker
+        // Abort errors and cassette misses shouldn't trip circuit breaker
+        if (e?.name === "AbortError" || e?.name === "CassetteMissError") {
+          span?.recordError(e);
+          span?.end();
+          throw e;
         }
         lastError = e;
+        retryCount++;
 
         // Record failure
         this.circuitBreaker.recordFailure(name);
@@ -173,12 +191,9 @@ export class RetryLanguageModel {
 
     // If we skipped providers and failed to get a result, mention it in error
     if (skippedProviders > 0 && !lastError) {
-      return Promise.reject(new Error(`All safe LLM providers are currently unavailable (Circuit Breaker Open)`));
+      lastError = new Error(`All safe LLM providers are currently unavailable (Circuit Breaker Open)`);
     }
-
-    return Promise.reject(
-      lastError ? lastError : new Error("No LLM available")
-    );
+    return this.rejectSpan(span, lastError, retryCount, skippedProviders);
   }
 
   /**
@@ -208,9 +223,12 @@ export class RetryLanguageModel {
   async doStream(options: LanguageModelV2CallOptions): Promise<StreamResult> {
     const maxTokens = options.maxOutputTokens;
     const providerOptions = options.providerOptions;
-    const names = [...this.names, ...this.names];
+    const budgetNames = this.checkBudget();
+    const names = [...budgetNames, ...budgetNames];
+    const span = this.startSpan(true);
     let lastError;
     let skippedProviders = 0;
+    let retryCount = 0;
 
     for (let i = 0; i < names.length; i++) {
       const name = names[i];
@@ -264,6 +282,7 @@ export class RetryLanguageModel {
         if (done) {
           Log.warn(`LLM stream done, name: ${name} => `, { done, value });
           reader.releaseLock();
+          retryCount++;
           continue;
         }
         if (Log.isEnableDebug()) {
@@ -274,20 +293,47 @@ export class RetryLanguageModel {
           Log.error(`LLM stream error, name: ${name}`, chunk);
           reader.releaseLock();
           this.circuitBreaker.recordFailure(name);
+          retryCount++;
           continue;
         }
         result.llm = name;
         result.llmConfig = llmConfig;
-        result.stream = this.streamWrapper([chunk], reader, controller);
+        span?.setAttributes(
+          spanAttributes(name, llmConfig, retryCount, skippedProviders)
+        );
+        // The span of a stream ends with its finish part, or when it closes without one
+        result.stream = this.streamWrapper(
+          [chunk],
+          reader,
+          controller,
+          (usage) => {
+            this.recordUsage(name, usage);
+            span?.setAttributes({
+              "gen_ai.usage.input_tokens": usage.inputTokens,
+              "gen_ai.usage.output_tokens": usage.outputTokens,
+            });
+            span?.setStatus("ok");
+            span?.end();
+          },
+          (error) => {
+            if (error && !span?.Ended) {
+              span?.recordError(error);
+            }
+            span?.end();
+          }
+        );
 
         // Success
         this.circuitBreaker.recordSuccess(name);
         return result;
       } catch (e: any) {
-        if (e?.name === "AbortError") {
+        if (e?.name === "AbortError" || e?.name === "CassetteMissError") {
+          span?.recordError(e);
+          span?.end();
           throw e;
         }
         lastError = e;
+        retryCount++;
 
         // Record failure
         this.circuitBreaker.recordFailure(name);
@@ -303,11 +349,83 @@ export class RetryLanguageModel {
     }
 
     if (skippedProviders > 0 && !lastError) {
-      return Promise.reject(new Error(`All safe LLM providers are currently unavailable (Circuit Breaker Open)`));
+      lastError = new Error(`All safe LLM providers are currently unavailable (Circuit Breaker Open)`);
     }
+    return this.rejectSpan(span, lastError, retryCount, skippedProviders);
+  }
 
-    return Promise.reject(
-      lastError ? lastError : new Error("No LLM available")
+  /**
+   * Checks the budget of the task before a call.
+   * @returns The names of the LLMs to call, only the downgrade LLM once the budget is exhausted.
+   * @throws BudgetExceededError if the budget is exhausted, after aborting the task.
+   */
+  private checkBudget(): string[] {
+    const budget = this.context?.budget;
+    const agentName = this.agentContext?.agent.Name;
+    const reason = budget?.check(agentName);
+    if (!budget || !reason) {
+      return this.names;
+    }
+    const downgradeLlm = budget.Config.downgradeLlm;
+    if (
+      budget.Config.onExhausted == "downgrade" &&
+      downgradeLlm &&
+      this.llms[downgradeLlm]
+    ) {
+      budget.downgrade(reason, agentName);
+      return [downgradeLlm];
+    }
+    const error = budget.exceed(reason, agentName);
+    this.context!.controller.abort(error);
+    throw error;
+  }
+
+  /**
+   * Starts the span of a call, nested in the current react loop iteration if any.
+   * @param stream - Whether the call is streamed.
+   */
+  private startSpan(stream: boolean): Span | undefined {
+    const tracer = this.context?.tracer;
+    if (!tracer) {
+      return undefined;
+    }
+    const span = tracer.startSpan("xsky.llm", {
+      parent:
+        this.agentContext?.iterationSpan ||
+        this.agentContext?.span ||
+        this.context?.span,
+      kind: "client",
+      attributes: { "xsky.llm.stream": stream },
+    });
+    return span.setAttribute("xsky.agent.name", this.agentContext?.agent.Name);
+  }
+
+  /**
+   * Ends the span of a call that failed with every LLM.
+   * @returns A rejected promise with the error of the last LLM.
+   */
+  private rejectSpan(
+    span: Span | undefined,
+    lastError: any,
+    retryCount: number,
+    skippedProviders: number
+  ): Promise<never> {
+    const error = lastError ? lastError : new Error("No LLM available");
+    span?.setAttributes({
+      "xsky.llm.retry_count": retryCount,
+      "xsky.llm.circuit_breaker_skips": skippedProviders,
+    });
+    span?.recordError(error);
+    span?.end();
+    return Promise.reject(error);
+  }
+
+  private recordUsage(name: string, usage: LanguageModelV2Usage) {
+    this.context?.budget?.record(
+      name,
+      this.llms[name],
+      usage,
+      this.agentContext?.agent.Name
     );
   }
 
@@ -316,108 +434,31 @@ export class RetryLanguageModel {
     if (!llm) {
       return null;
     }
-    let apiKey;
-    if (typeof llm.apiKey === "string") {
-      apiKey = llm.apiKey;
-    } else {
-      apiKey = await llm.apiKey();
-    }
-    let baseURL = undefined;
-    if (llm.config?.baseURL) {
-      if (typeof llm.config.baseURL === "string") {
-        baseURL = llm.config.baseURL;
-      } else {
-        baseURL = await llm.config.baseURL();
-      }
-    }
-    if (llm.provider == "openai") {
-      if (
-        !baseURL ||
-        baseURL.indexOf("openai.com") > -1 ||
-        llm.config?.organization ||
-        llm.config?.openai
-      ) {
-        return createOpenAI({
-          apiKey: apiKey,
-          baseURL: baseURL,
-          fetch: llm.fetch,
-          organization: llm.config?.organization,
-          project: llm.config?.project,
-          headers: llm.config?.headers,
-        }).languageModel(llm.model);
-      } else {
-        return createOpenAICompatible({
-          name: llm.model,
-          apiKey: apiKey,
-          baseURL: baseURL,
-          fetch: llm.fetch,
-          headers: llm.config?.headers,
-        }).languageModel(llm.model);
-      }
-    } else if (llm.provider == "anthropic") {
-      return createAnthropic({
-        apiKey: apiKey,
-        baseURL: baseURL,
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-      }).languageModel(llm.model);
-    } else if (llm.provider == "google") {
-      return createGoogleGenerativeAI({
-        apiKey: apiKey,
-        baseURL: baseURL,
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-      }).languageModel(llm.model);
-    } else if (llm.provider == "aws") {
-      let keys = apiKey.split("=");
-      return createAmazonBedrock({
-        accessKeyId: keys[0],
-        secretAccessKey: keys[1],
-        baseURL: baseURL,
-        region: llm.config?.region || "us-west-1",
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-        sessionToken: llm.config?.sessionToken,
-      }).languageModel(llm.model);
-    } else if (llm.provider == "openai-compatible") {
-      return createOpenAICompatible({
-        name: llm.config?.name || llm.model.split("/")[0],
-        apiKey: apiKey,
-        baseURL: baseURL || "https://openrouter.ai/api/v1",
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-      }).languageModel(llm.model);
-    } else if (llm.provider == "openrouter") {
-      return createOpenRouter({
-        apiKey: apiKey,
-        baseURL: baseURL || "https://openrouter.ai/api/v1",
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-        compatibility: llm.config?.compatibility,
-      }).languageModel(llm.model);
-    } else if (llm.provider == "deepseek") {
-      return createDeepSeek({
-        apiKey: apiKey,
-        baseURL: baseURL,
-        fetch: llm.fetch,
-        headers: llm.config?.headers,
-      }).languageModel(llm.model);
-    } else {
-      return llm.provider.languageModel(llm.model);
-    }
+    return await createLanguageModel(llm);
   }
 
   private streamWrapper(
     parts: LanguageModelV2StreamPart[],
     reader: ReadableStreamDefaultReader<LanguageModelV2StreamPart>,
-    abortController: AbortController
+    abortController: AbortController,
+    onFinish?: (usage: LanguageModelV2Usage) => void,
+    onClose?: (error?: unknown) => void
   ): ReadableStream<LanguageModelV2StreamPart> {
     let timer: any = null;
+    const enqueue = (
+      controller: ReadableStreamDefaultController<LanguageModelV2StreamPart>,
+      part: LanguageModelV2StreamPart
+    ) => {
+      if (part.type == "finish" && onFinish) {
+        onFinish(part.usage);
+      }
+      controller.enqueue(part);
+    };
     return new ReadableStream<LanguageModelV2StreamPart>({
       start: (controller) => {
         if (parts != null && parts.length > 0) {
           for (let i = 0; i < parts.length; i++) {
-            controller.enqueue(parts[i]);
+            enqueue(controller, parts[i]);
           }
         }
       },
@@ -425,18 +466,28 @@ export class RetryLanguageModel {
         timer = setTimeout(() => {
           abortController.abort("Streaming request timeout");
         }, this.stream_token_timeout);
-        const { done, value } = await reader.read();
+        let result: ReadableStreamReadResult<LanguageModelV2StreamPart>;
+        try {
+          result = await reader.read();
+        } catch (e) {
+          clearTimeout(timer);
+          onClose && onClose(e);
+          throw e;
+        }
+        const { done, value } = result;
         clearTimeout(timer);
         if (done) {
           controller.close();
           reader.releaseLock();
+          onClose && onClose();
           return;
         }
-        controller.enqueue(value);
+        enqueue(controller, value);
       },
       cancel: (reason) => {
         timer && clearTimeout(timer);
         reader.cancel(reason);
+        onClose && onClose();
       },
     });
   }
@@ -449,3 +500,122 @@ export class RetryLanguageModel {
     return this.names;
   }
 }
+
+
+/**
+ * Creates the language model described by an LLM configuration.
+ * @param llm - The LLM configuration.
+ * @returns The language model of the configured provider.
+ */
+export async function createLanguageModel(
+  llm: LLMConfig
+): Promise<LanguageModelV2> {
+  let apiKey;
+  if (typeof llm.apiKey === "string") {
+    apiKey = llm.apiKey;
+  } else {
+    apiKey = await llm.apiKey();
+  }
+  let baseURL = undefined;
+  if (llm.config?.baseURL) {
+    if (typeof llm.config.baseURL === "string") {
+      baseURL = llm.config.baseURL;
+    } else {
+      baseURL = await llm.config.baseURL();
+    }
+  }
+  if (llm.provider == "openai") {
+    if (
+      !baseURL ||
+      baseURL.indexOf("openai.com") > -1 ||
+      llm.config?.organization ||
+      llm.config?.openai
+    ) {
+      return createOpenAI({
+        apiKey: apiKey,
+        baseURL: baseURL,
+        fetch: llm.fetch,
+        organization: llm.config?.organization,
+        project: llm.config?.project,
+        headers: llm.config?.headers,
+      }).languageModel(llm.model);
+    } else {
+      return createOpenAICompatible({
+        name: llm.model,
+        apiKey: apiKey,
+        baseURL: baseURL,
+        fetch: llm.fetch,
+        headers: llm.config?.headers,
+      }).languageModel(llm.model);
+    }
+  } else if (llm.provider == "anthropic") {
+    return createAnthropic({
+      apiKey: apiKey,
+      baseURL: baseURL,
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+    }).languageModel(llm.model);
+  } else if (llm.provider == "google") {
+    return createGoogleGenerativeAI({
+      apiKey: apiKey,
+      baseURL: baseURL,
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+    }).languageModel(llm.model);
+  } else if (llm.provider == "aws") {
+    let keys = apiKey.split("=");
+    return createAmazonBedrock({
+      accessKeyId: keys[0],
+      secretAccessKey: keys[1],
+      baseURL: baseURL,
+      region: llm.config?.region || "us-west-1",
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+      sessionToken: llm.config?.sessionToken,
+    }).languageModel(llm.model);
+  } else if (llm.provider == "openai-compatible") {
+    return createOpenAICompatible({
+      name: llm.config?.name || llm.model.split("/")[0],
+      apiKey: apiKey,
+      baseURL: baseURL || "https://openrouter.ai/api/v1",
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+    }).languageModel(llm.model);
+  } else if (llm.provider == "openrouter") {
+    return createOpenRouter({
+      apiKey: apiKey,
+      baseURL: baseURL || "https://openrouter.ai/api/v1",
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+      compatibility: llm.config?.compatibility,
+    }).languageModel(llm.model);
+  } else if (llm.provider == "deepseek") {
+    return createDeepSeek({
+      apiKey: apiKey,
+      baseURL: baseURL,
+      fetch: llm.fetch,
+      headers: llm.config?.headers,
+    }).languageModel(llm.model);
+  } else {
+    return llm.provider.languageModel(llm.model);
+  }
+}
+
+/**
+ * Gets the span attributes of the LLM that answered a call.
+ */
+function spanAttributes(
+  name: string,
+  llmConfig: LLMConfig,
+  retryCount: number,
+  skippedProviders: number
+) {
+  return {
+    "xsky.llm.name": name,
+    "gen_ai.system":
+      typeof llmConfig.provider == "string" ? llmConfig.provider : "custom",
+    "gen_ai.request.model": llmConfig.model,
+    "xsky.llm.retry_count": retryCount,
+    "xsky.llm.circuit_breaker_skips": skippedProviders,
+  };
+}
@@ -0,0 +1,10 @@
+/**
+ * Error answered by an MCP server, a JSON-RPC error or a tool result with `isError`.
+ * Unlike connection and transport errors, it shows the server is reachable.
+ */
+export class McpResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "McpResponseError";
+  }
+}
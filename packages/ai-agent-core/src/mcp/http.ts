@@ -1,11 +1,18 @@
 import Log from "../common/log";
 import { uuidv4 } from "../common/utils";
+import { McpServerMessages } from "./server-messages";
+import { McpResponseError } from "./error";
 import {
   ToolResult,
   IMcpClient,
   McpCallToolParam,
   McpListToolParam,
   McpListToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpGetPromptResult,
+  McpServerHandlers,
 } from "../types";
 
 type SseEventData = {
@@ -22,6 +29,10 @@ export class SimpleHttpMcpClient implements IMcpClient {
   private protocolVersion: string = "2025-06-18";
   private connected: boolean = false;
   private mcpSessionId?: string | null; // Mcp-Session-Id
+  private resourceListeners: Map<string, Set<(uri: string) => void>> = new Map();
+  private serverMessages = new McpServerMessages(async (message) => {
+    await this.post(message);
+  });
 
   constructor(
     httpUrl: string,
@@ -45,6 +56,7 @@ export class SimpleHttpMcpClient implements IMcpClient {
             listChanged: true,
           },
           sampling: {},
+          elicitation: {},
         },
         clientInfo: {
           name: this.clientName,
@@ -77,13 +89,101 @@ export class SimpleHttpMcpClient implements IMcpClient {
 
   async callTool(
     param: McpCallToolParam,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
   ): Promise<ToolResult> {
+    return await this.serverMessages.track(handlers, async (progressToken) => {
+      const message = await this.request(
+        "tools/call",
+        {
+          ...param,
+          _meta: { progressToken },
+        },
+        signal
+      );
+      return message.result;
+    });
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    return this.serverMessages.onToolsChanged(listener);
+  }
+
+  async listResources(signal?: AbortSignal): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "resources/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      resources.push(...(message.result.resources || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<McpResourceContents[]> {
+    const message = await this.request("resources/read", { uri }, signal);
+    return message.result.contents || [];
+  }
+
+  async subscribe(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    let listeners = this.resourceListeners.get(uri);
+    if (listeners) {
+      listeners.add(listener);
+    } else {
+      // Listen before subscribing, updates may be sent before the response
+      listeners = new Set([listener]);
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.request("resources/subscribe", { uri }, signal);
+      } catch (e) {
+        this.resourceListeners.delete(uri);
+        throw e;
+      }
+    }
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) {
+        return;
+      }
+      this.resourceListeners.delete(uri);
+      await this.request("resources/unsubscribe", { uri });
+    };
+  }
+
+  async listPrompts(signal?: AbortSignal): Promise<McpPrompt[]> {
+    const prompts: McpPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "prompts/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      prompts.push(...(message.result.prompts || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult> {
     const message = await this.request(
-      "tools/call",
-      {
-        ...param,
-      },
+      "prompts/get",
+      { name, arguments: args || {} },
       signal
     );
     return message.result;
@@ -113,31 +213,17 @@ export class SimpleHttpMcpClient implements IMcpClient {
   ): Promise<any> {
     try {
       const id = method.startsWith("notifications/") ? undefined : uuidv4();
-      const extHeaders: Record<string, string> = {};
-      if (this.mcpSessionId && method !== "initialize") {
-        extHeaders["Mcp-Session-Id"] = this.mcpSessionId;
-      }
-      const response = await fetch(this.httpUrl, {
-        method: "POST",
-        headers: {
-          "Cache-Control": "no-cache",
-          "Content-Type": "application/json",
-          Accept: "application/json, text/event-stream",
-          "MCP-Protocol-Version": this.protocolVersion,
-          ...extHeaders,
-          ...this.headers,
-        },
-        body: JSON.stringify({
+      const response = await this.post(
+        {
           jsonrpc: "2.0",
           id: id,
           method: method,
           params: {
             ...params,
           },
-        }),
-        keepalive: true,
-        signal: signal,
-      });
+        },
+        signal
+      );
 
       if (method.startsWith("notifications/")){
           return;
@@ -171,7 +257,13 @@ export class SimpleHttpMcpClient implements IMcpClient {
               const chunk = chunks[i];
               const chunkData = this.parseChunk(chunk);
               if (chunkData.event == "message") {
-                message = JSON.parse(chunkData.data as string);
+                const data = JSON.parse(chunkData.data as string);
+                if (data.method) {
+                  // Server notification or request sent while answering the request
+                  this.onServerMessage(data, params._meta?.progressToken);
+                  continue;
+                }
+                message = data;
                 if (message.id == id) {
                   return message;
                 }
@@ -196,13 +288,46 @@ export class SimpleHttpMcpClient implements IMcpClient {
     }
   }
 
+  private async post(
+    body: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    const extHeaders: Record<string, string> = {};
+    if (this.mcpSessionId && body.method !== "initialize") {
+      extHeaders["Mcp-Session-Id"] = this.mcpSessionId;
+    }
+    return await fetch(this.httpUrl, {
+      method: "POST",
+      headers: {
+        "Cache-Control": "no-cache",
+        "Content-Type": "application/json",
+        Accept: "application/json, text/event-stream",
+        "MCP-Protocol-Version": this.protocolVersion,
+        ...extHeaders,
+        ...this.headers,
+      },
+      body: JSON.stringify(body),
+      keepalive: true,
+      signal: signal,
+    });
+  }
+
+  private onServerMessage(message: any, progressToken?: string) {
+    if (message.method == "notifications/resources/updated") {
+      const uri = message.params?.uri;
+      this.resourceListeners.get(uri)?.forEach((listener) => listener(uri));
+      return;
+    }
+    this.serverMessages.dispatch(message, progressToken);
+  }
+
   private handleError(method: string, message: any) {
     if (!message) {
       throw new Error(`MCP ${method} error: no response`);
     }
     if (message?.error) {
       Log.error(`MCP ${method} error: ` + message.error);
-      throw new Error(
+      throw new McpResponseError(
         `MCP ${method} error: ` +
           (typeof message.error === "string"
             ? message.error
@@ -211,14 +336,14 @@ export class SimpleHttpMcpClient implements IMcpClient {
     }
     if (message.result?.isError == true) {
       if (message.result.content) {
-        throw new Error(
+        throw new McpResponseError(
           `MCP ${method} error: ` +
             (typeof message.result.content === "string"
               ? message.result.content
               : message.result.content[0].text)
         );
       } else {
-        throw new Error(`MCP ${method} error: ` + JSON.stringify(message.result));
+        throw new McpResponseError(`MCP ${method} error: ` + JSON.stringify(message.result));
       }
     }
   }
@@ -1,4 +1,15 @@
 import { SimpleSseMcpClient } from "./sse";
 import { SimpleHttpMcpClient } from "./http";
+import { StreamableHttpMcpClient } from "./streamable-http";
+import { MultiMcpClient } from "./multi";
+import { McpServerMessages } from "./server-messages";
+import { McpResponseError } from "./error";
 
-export { SimpleSseMcpClient, SimpleHttpMcpClient };
+export {
+  SimpleSseMcpClient,
+  SimpleHttpMcpClient,
+  StreamableHttpMcpClient,
+  MultiMcpClient,
+  McpServerMessages,
+  McpResponseError,
+};
@@ -0,0 +1,408 @@
+import Log from "../common/log";
+import { McpResponseError } from "./error";
+import {
+  ToolResult,
+  IMcpClient,
+  McpCallToolParam,
+  McpListToolParam,
+  McpListToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpGetPromptResult,
+  McpServerHandlers,
+  McpServerFilter,
+  McpServerHealth,
+  MultiMcpClientOptions,
+} from "../types";
+
+/** The server owning a tool or prompt, and its name on that server */
+type McpRoute = {
+  server: string;
+  name: string;
+};
+
+type ServerState = {
+  healthy: boolean;
+  failures: number;
+  error?: string;
+  retryAt?: number;
+  /** Notifies the tools listeners once the server can be used again */
+  retryTimer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * An MCP client multiplexing several MCP servers, e.g. to give an agent both an internal
+ * tools server and a filesystem server.
+ *
+ * Tools and prompts of all servers are listed together, names offered by several servers
+ * are prefixed with the server name (`fs_search`), and calls are routed to the server
+ * owning the name. A server failing to connect or to answer is skipped until the retry
+ * interval elapsed, the other servers are still used, and the tools listeners are notified
+ * when its tools disappear or may come back. The servers and tools visible to an agent
+ * can be restricted by agent name.
+ *
+ * @example
+ * const mcpClient = new MultiMcpClient(
+ *   {
+ *     internal: new StreamableHttpMcpClient("https://tools.example.com/mcp"),
+ *     fs: new SimpleHttpMcpClient("http://localhost:3100/mcp"),
+ *   },
+ *   { agents: { Browser: { servers: ["internal", "fs"] }, Writer: { tools: ["fs/read_file"] } } }
+ * );
+ */
+export class MultiMcpClient implements IMcpClient {
+  private servers: Map<string, IMcpClient>;
+  private separator: string;
+  private retryInterval: number;
+  private filters: Record<string, McpServerFilter>;
+  private states: Map<string, ServerState> = new Map();
+  /** Routes of the exposed tool names by agent name, from the last tool lists */
+  private toolRoutes: Map<string, Map<string, McpRoute>> = new Map();
+  /** Routes of the exposed prompt names, from the last prompt lists */
+  private promptRoutes: Map<string, McpRoute> = new Map();
+  /** Servers of the resource URIs, from the last resource lists */
+  private resourceServers: Map<string, string> = new Map();
+  private toolsListeners: Set<() => void> = new Set();
+
+  /**
+   * Creates a new MultiMcpClient.
+   * @param servers - The clients of the servers, by server name.
+   * @param options - The name separator, retry interval and agent filters.
+   */
+  constructor(servers: Record<string, IMcpClient>, options: MultiMcpClientOptions = {}) {
+    this.servers = new Map(Object.entries(servers));
+    this.separator = options.separator ?? "_";
+    this.retryInterval = options.retryInterval ?? 30000;
+    this.filters = options.agents || {};
+    for (const [name, client] of this.servers) {
+      this.states.set(name, { healthy: true, failures: 0 });
+      client.onToolsChanged?.(() => this.toolsChanged());
+    }
+  }
+
+  /**
+   * Connects the available servers, failing only if none of them connected.
+   */
+  async connect(signal?: AbortSignal): Promise<void> {
+    const names = [...this.servers.keys()].filter((name) => this.available(name));
+    const results = await Promise.allSettled(
+      names.map((name) => this.use(name, async () => {}, signal))
+    );
+    const failed = results.filter((result) => result.status == "rejected");
+    if (failed.length > 0 && (signal?.aborted || failed.length == names.length)) {
+      throw (failed[0] as PromiseRejectedResult).reason;
+    }
+  }
+
+  async listTools(
+    param: McpListToolParam,
+    signal?: AbortSignal
+  ): Promise<McpListToolResult> {
+    const filter = this.filters[param.agent_name];
+    const lists = await this.fanOut(
+      this.visibleServers(filter),
+      async (client, server) =>
+        (await client.listTools(param, signal)).filter((tool) =>
+          this.visibleTool(filter, server, tool.name)
+        ),
+      signal
+    );
+    const routes: Map<string, McpRoute> = new Map();
+    const tools = this.expose(lists, (tool) => tool.name).map(({ name, server, item }) => {
+      routes.set(name, { server, name: item.name });
+      return { ...item, name };
+    });
+    this.toolRoutes.set(param.agent_name, routes);
+    return tools;
+  }
+
+  async callTool(
+    param: McpCallToolParam,
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
+  ): Promise<ToolResult> {
+    const agentName = param.extInfo?.agent_name || "";
+    const filter = this.filters[agentName];
+    const route =
+      this.toolRoutes.get(agentName)?.get(param.name) ||
+      this.parseRoute(param.name, this.visibleServers(filter));
+    if (!route || !this.visibleTool(filter, route.server, route.name)) {
+      throw new Error("Unknown MCP tool: " + param.name);
+    }
+    this.checkAvailable(route.server);
+    return await this.use(
+      route.server,
+      (client) => client.callTool({ ...param, name: route.name }, signal, handlers),
+      signal
+    );
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    this.toolsListeners.add(listener);
+    return () => {
+      this.toolsListeners.delete(listener);
+    };
+  }
+
+  async listResources(signal?: AbortSignal): Promise<McpResource[]> {
+    const lists = await this.fanOut(
+      [...this.servers.keys()].filter((name) => this.servers.get(name)!.listResources),
+      (client) => client.listResources!(signal),
+      signal
+    );
+    const resources: McpResource[] = [];
+    for (const { server, items } of lists) {
+      for (const resource of items) {
+        this.resourceServers.set(resource.uri, server);
+        resources.push(resource);
+      }
+    }
+    return resources;
+  }
+
+  async readResource(
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<McpResourceContents[]> {
+    const server = await this.resourceServer(uri, signal);
+    return await this.use(server, (client) => client.readResource!(uri, signal), signal);
+  }
+
+  async subscribe(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    const server = await this.resourceServer(uri, signal);
+    const client = this.servers.get(server)!;
+    if (!client.subscribe) {
+      throw new Error(`MCP server ${server} does not support resource subscriptions`);
+    }
+    return await this.use(server, () => client.subscribe!(uri, listener, signal), signal);
+  }
+
+  async listPrompts(signal?: AbortSignal): Promise<McpPrompt[]> {
+    const lists = await this.fanOut(
+      [...this.servers.keys()].filter((name) => this.servers.get(name)!.listPrompts),
+      (client) => client.listPrompts!(signal),
+      signal
+    );
+    this.promptRoutes.clear();
+    return this.expose(lists, (prompt) => prompt.name).map(({ name, server, item }) => {
+      this.promptRoutes.set(name, { server, name: item.name });
+      return { ...item, name };
+    });
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult> {
+    const route =
+      this.promptRoutes.get(name) || this.parseRoute(name, [...this.servers.keys()]);
+    const client = route && this.servers.get(route.server);
+    if (!route || !client?.getPrompt) {
+      throw new Error("Unknown MCP prompt: " + name);
+    }
+    this.checkAvailable(route.server);
+    return await this.use(
+      route.server,
+      () => client.getPrompt!(route.name, args, signal),
+      signal
+    );
+  }
+
+  /**
+   * Gets the health of each server.
+   * @returns The health of the servers, in the order they were given.
+   */
+  getHealth(): McpServerHealth[] {
+    return [...this.servers.entries()].map(([name, client]) => {
+      const state = this.states.get(name)!;
+      return {
+        name,
+        healthy: state.healthy,
+        connected: client.isConnected(),
+        failures: state.failures,
+        error: state.error,
+        retryAt: state.retryAt,
+      };
+    });
+  }
+
+  isConnected(): boolean {
+    return [...this.servers.values()].some((client) => client.isConnected());
+  }
+
+  async close(): Promise<void> {
+    for (const state of this.states.values()) {
+      state.retryTimer && clearTimeout(state.retryTimer);
+      state.retryTimer = undefined;
+    }
+    await Promise.all(
+      [...this.servers.entries()].map(async ([name, client]) => {
+        try {
+          await client.close();
+        } catch (e) {
+          Log.error(`MCP Client, failed to close server ${name}:`, e);
+        }
+      })
+    );
+  }
+
+  /**
+   * Runs a request on the available servers, the servers failing are left out.
+   */
+  private async fanOut<T>(
+    servers: string[],
+    request: (client: IMcpClient, server: string) => Promise<T[]>,
+    signal?: AbortSignal
+  ): Promise<Array<{ server: string; items: T[] }>> {
+    const lists = await Promise.all(
+      servers
+        .filter((name) => this.available(name))
+        .map(async (server) => {
+          try {
+            const items = await this.use(server, (client) => request(client, server), signal);
+            return { server, items };
+          } catch (e) {
+            if (signal?.aborted) {
+              throw e;
+            }
+            return { server, items: [] as T[] };
+          }
+        })
+    );
+    return lists;
+  }
+
+  /**
+   * Names the items of several servers, prefixing the names offered by several servers.
+   */
+  private expose<T>(
+    lists: Array<{ server: string; items: T[] }>,
+    nameOf: (item: T) => string
+  ): Array<{ name: string; server: string; item: T }> {
+    const counts: Map<string, number> = new Map();
+    for (const { items } of lists) {
+      for (const item of items) {
+        counts.set(nameOf(item), (counts.get(nameOf(item)) || 0) + 1);
+      }
+    }
+    return lists.flatMap(({ server, items }) =>
+      items.map((item) => ({
+        name: counts.get(nameOf(item))! > 1 ? server + this.separator + nameOf(item) : nameOf(item),
+        server,
+        item,
+      }))
+    );
+  }
+
+  /**
+   * Routes a prefixed name not listed yet to its server.
+   */
+  private parseRoute(name: string, servers: string[]): McpRoute | undefined {
+    const server = servers.find((server) => name.startsWith(server + this.separator));
+    return server ? { server, name: name.substring(server.length + this.separator.length) } : undefined;
+  }
+
+  private async resourceServer(uri: string, signal?: AbortSignal): Promise<string> {
+    if (!this.resourceServers.has(uri)) {
+      await this.listResources(signal);
+    }
+    const server = this.resourceServers.get(uri);
+    if (!server) {
+      throw new Error("Unknown MCP resource: " + uri);
+    }
+    this.checkAvailable(server);
+    return server;
+  }
+
+  private visibleServers(filter?: McpServerFilter): string[] {
+    return [...this.servers.keys()].filter(
+      (name) => !filter?.servers || filter.servers.includes(name)
+    );
+  }
+
+  private visibleTool(filter: McpServerFilter | undefined, server: string, tool: string): boolean {
+    return (
+      (!filter?.servers || filter.servers.includes(server)) &&
+      (!filter?.tools || filter.tools.includes(tool) || filter.tools.includes(server + "/" + tool))
+    );
+  }
+
+  private available(name: string): boolean {
+    const state = this.states.get(name)!;
+    return state.healthy || Date.now() >= (state.retryAt || 0);
+  }
+
+  private checkAvailable(name: string) {
+    if (!this.available(name)) {
+      throw new Error(`MCP server ${name} is unavailable: ${this.states.get(name)!.error}`);
+    }
+  }
+
+  /**
+   * Runs a request on a server, connecting it first, and records its health.
+   * Errors answered by the server, e.g. a failed tool call, do not change its health.
+   */
+  private async use<T>(
+    name: string,
+    request: (client: IMcpClient) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const client = this.servers.get(name)!;
+    let result: T;
+    try {
+      if (!client.isConnected()) {
+        await client.connect(signal);
+      }
+      result = await request(client);
+    } catch (e: any) {
+      if (e instanceof McpResponseError) {
+        throw e;
+      }
+      if (e?.name != "AbortError" && !signal?.aborted) {
+        this.failed(name, e);
+      }
+      throw e;
+    }
+    this.succeeded(name);
+    return result;
+  }
+
+  private succeeded(name: string) {
+    const state = this.states.get(name)!;
+    const recovered = !state.healthy;
+    state.retryTimer && clearTimeout(state.retryTimer);
+    this.states.set(name, { healthy: true, failures: 0 });
+    if (recovered) {
+      Log.info(`MCP Client, server ${name} recovered`);
+      this.toolsChanged();
+    }
+  }
+
+  private failed(name: string, e: any) {
+    const state = this.states.get(name)!;
+    const wasHealthy = state.healthy;
+    state.healthy = false;
+    state.failures++;
+    state.error = e?.message || String(e);
+    state.retryAt = Date.now() + this.retryInterval;
+    Log.warn(`MCP Client, server ${name} failed (${state.failures}):`, state.error);
+    state.retryTimer && clearTimeout(state.retryTimer);
+    state.retryTimer = setTimeout(() => {
+      state.retryTimer = undefined;
+      this.toolsChanged();
+    }, this.retryInterval);
+    if (wasHealthy) {
+      this.toolsChanged();
+    }
+  }
+
+  private toolsChanged() {
+    this.toolsListeners.forEach((listener) => listener());
+  }
+}
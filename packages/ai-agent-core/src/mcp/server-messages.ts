@@ -0,0 +1,135 @@
+import Log from "../common/log";
+import { uuidv4 } from "../common/utils";
+import { McpServerHandlers } from "../types";
+
+/**
+ * Dispatches the messages an MCP server initiates, for the MCP client implementations.
+ *
+ * Tool calls are tracked by a progress token sent in the `_meta` of their parameters:
+ * progress notifications go to the handlers of the call of their token, and server requests
+ * go to the handlers of the call they were sent during, or else of the latest running call.
+ * Requests are answered through the `send` function of the client.
+ */
+export class McpServerMessages {
+  private send: (message: Record<string, unknown>) => Promise<void>;
+  /** Handlers of the running tool calls by progress token, in call order */
+  private calls: Map<string, McpServerHandlers> = new Map();
+  /** Server requests being served by request ID, aborted when the server cancels them */
+  private serving: Map<string | number, AbortController> = new Map();
+  private toolsListeners: Set<() => void> = new Set();
+
+  /**
+   * Creates a new McpServerMessages.
+   * @param send - Sends a JSON-RPC response to the server.
+   */
+  constructor(send: (message: Record<string, unknown>) => Promise<void>) {
+    this.send = send;
+  }
+
+  /**
+   * Runs a tool call with its handlers, under a new progress token.
+   * @param handlers - The handlers of the messages the server sends during the call.
+   * @param call - Sends the call, with the progress token in the `_meta` of its parameters.
+   * @returns A promise resolving to the result of the call.
+   */
+  async track<T>(
+    handlers: McpServerHandlers | undefined,
+    call: (progressToken: string) => Promise<T>
+  ): Promise<T> {
+    const progressToken = uuidv4();
+    handlers && this.calls.set(progressToken, handlers);
+    try {
+      return await call(progressToken);
+    } finally {
+      this.calls.delete(progressToken);
+    }
+  }
+
+  /**
+   * Listens to the `notifications/tools/list_changed` notifications.
+   * @param listener - Called when the tools of the server changed.
+   * @returns A function that removes the listener.
+   */
+  onToolsChanged(listener: () => void): () => void {
+    this.toolsListeners.add(listener);
+    return () => {
+      this.toolsListeners.delete(listener);
+    };
+  }
+
+  /**
+   * Dispatches a message initiated by the server, a notification or a request.
+   * @param message - The JSON-RPC message.
+   * @param progressToken - The progress token of the call the message was sent during, if known.
+   * @returns False if the message is not initiated by the server, e.g. a response.
+   */
+  dispatch(message: any, progressToken?: string): boolean {
+    if (!message?.method) {
+      return false;
+    }
+    if (message.id === undefined || message.id === null) {
+      this.notify(message.method, message.params || {});
+    } else {
+      this.serve(message.id, message.method, message.params || {}, progressToken);
+    }
+    return true;
+  }
+
+  private notify(method: string, params: any) {
+    switch (method) {
+      case "notifications/progress": {
+        const handlers = this.calls.get(String(params.progressToken));
+        handlers?.onProgress?.(params);
+        break;
+      }
+      case "notifications/tools/list_changed":
+        this.toolsListeners.forEach((listener) => listener());
+        break;
+      case "notifications/cancelled":
+        this.serving.get(params.requestId)?.abort(params.reason);
+        break;
+    }
+  }
+
+  private async serve(
+    id: string | number,
+    method: string,
+    params: any,
+    progressToken?: string
+  ) {
+    const handlers =
+      (progressToken && this.calls.get(progressToken)) ||
+      [...this.calls.values()].pop();
+    const controller = new AbortController();
+    this.serving.set(id, controller);
+    let response: Record<string, unknown>;
+    try {
+      let result: unknown;
+      if (method == "ping") {
+        result = {};
+      } else if (method == "sampling/createMessage" && handlers?.onSampling) {
+        result = await handlers.onSampling(params, controller.signal);
+      } else if (method == "elicitation/create" && handlers?.onElicitation) {
+        result = await handlers.onElicitation(params, controller.signal);
+      }
+      response =
+        result === undefined
+          ? { jsonrpc: "2.0", id, error: { code: -32601, message: "Method not found: " + method } }
+          : { jsonrpc: "2.0", id, result };
+    } catch (e: any) {
+      Log.error(`MCP Client, ${method} error:`, e);
+      response = { jsonrpc: "2.0", id, error: { code: -32603, message: e?.message || String(e) } };
+    } finally {
+      this.serving.delete(id);
+    }
+    if (controller.signal.aborted) {
+      // Cancelled requests are not answered
+      return;
+    }
+    try {
+      await this.send(response);
+    } catch (e) {
+      Log.error(`MCP Client, failed to answer ${method}:`, e);
+    }
+  }
+}
@@ -1,11 +1,18 @@
 import Log from "../common/log";
 import { uuidv4 } from "../common/utils";
+import { McpServerMessages } from "./server-messages";
+import { McpResponseError } from "./error";
 import {
   ToolResult,
   IMcpClient,
   McpCallToolParam,
   McpListToolParam,
   McpListToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpGetPromptResult,
+  McpServerHandlers,
 } from "../types";
 
 type SseEventData = {
@@ -33,6 +40,8 @@ export class SimpleSseMcpClient implements IMcpClient {
   private headers: Record<string, string>;
   private protocolVersion: string = "2024-11-05";
   private requestMap: Map<string, (messageData: any) => void>;
+  private resourceListeners: Map<string, Set<(uri: string) => void>> = new Map();
+  private serverMessages = new McpServerMessages((message) => this.respond(message));
 
   constructor(
     sseServerUrl: string,
@@ -94,6 +103,10 @@ export class SimpleSseMcpClient implements IMcpClient {
       this.initialize();
     } else if (data.event == "message") {
       let message = JSON.parse(data.data as string);
+      if (message.method) {
+        this.onServerMessage(message);
+        return;
+      }
       let _resolve = this.requestMap.get(message.id);
       _resolve && _resolve(message);
     }
@@ -107,6 +120,7 @@ export class SimpleSseMcpClient implements IMcpClient {
           listChanged: true,
         },
         sampling: {},
+        elicitation: {},
       },
       clientInfo: {
         name: this.clientName,
@@ -138,18 +152,126 @@ export class SimpleSseMcpClient implements IMcpClient {
 
   async callTool(
     param: McpCallToolParam,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
   ): Promise<ToolResult> {
+    return await this.serverMessages.track(handlers, async (progressToken) => {
+      const message = await this.request(
+        "tools/call",
+        {
+          ...param,
+          _meta: { progressToken },
+        },
+        signal
+      );
+      return message.result;
+    });
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    return this.serverMessages.onToolsChanged(listener);
+  }
+
+  async listResources(signal?: AbortSignal): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "resources/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      resources.push(...(message.result.resources || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<McpResourceContents[]> {
+    const message = await this.request("resources/read", { uri }, signal);
+    return message.result.contents || [];
+  }
+
+  async subscribe(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    let listeners = this.resourceListeners.get(uri);
+    if (listeners) {
+      listeners.add(listener);
+    } else {
+      // Listen before subscribing, updates may be sent before the response
+      listeners = new Set([listener]);
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.request("resources/subscribe", { uri }, signal);
+      } catch (e) {
+        this.resourceListeners.delete(uri);
+        throw e;
+      }
+    }
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) {
+        return;
+      }
+      this.resourceListeners.delete(uri);
+      await this.request("resources/unsubscribe", { uri });
+    };
+  }
+
+  async listPrompts(signal?: AbortSignal): Promise<McpPrompt[]> {
+    const prompts: McpPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "prompts/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      prompts.push(...(message.result.prompts || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult> {
     const message = await this.request(
-      "tools/call",
-      {
-        ...param,
-      },
+      "prompts/get",
+      { name, arguments: args || {} },
       signal
     );
     return message.result;
   }
 
+  private onServerMessage(message: any) {
+    if (message.method == "notifications/resources/updated") {
+      const uri = message.params?.uri;
+      this.resourceListeners.get(uri)?.forEach((listener) => listener(uri));
+      return;
+    }
+    this.serverMessages.dispatch(message);
+  }
+
+  private async respond(message: Record<string, unknown>) {
+    await fetch(this.msgUrl as string, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...this.headers,
+      },
+      body: JSON.stringify(message),
+    });
+  }
+
   private async request(
     method: string,
     params: Record<string, any>,
@@ -189,7 +311,7 @@ export class SimpleSseMcpClient implements IMcpClient {
         const message = await callback;
         if (message.error) {
           Log.error(`MCP ${method} error: ` + message.error);
-          throw new Error(
+          throw new McpResponseError(
             `MCP ${method} error: ` +
               (typeof message.error === "string"
                 ? message.error
@@ -198,14 +320,14 @@ export class SimpleSseMcpClient implements IMcpClient {
         }
         if (message.result?.isError == true) {
           if (message.result.content) {
-            throw new Error(
+            throw new McpResponseError(
               `MCP ${method} error: ` +
                 (typeof message.result.content === "string"
                   ? message.result.content
                   : message.result.content[0].text)
             );
           } else {
-            throw new Error(
+            throw new McpResponseError(
               `MCP ${method} error: ` + JSON.stringify(message.result)
             );
           }
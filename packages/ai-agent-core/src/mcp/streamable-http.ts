@@ -0,0 +1,599 @@
+import Log from "../common/log";
+import { sleep, uuidv4 } from "../common/utils";
+import { McpServerMessages } from "./server-messages";
+import { McpResponseError } from "./error";
+import {
+  ToolResult,
+  IMcpClient,
+  McpCallToolParam,
+  McpListToolParam,
+  McpListToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpGetPromptResult,
+  McpServerHandlers,
+  StreamableHttpMcpClientOptions,
+} from "../types";
+
+type SseEventData = {
+  id?: string;
+  event?: string;
+  data?: string;
+  retry?: string;
+  [key: string]: unknown;
+};
+
+/**
+ * An MCP client of the Streamable HTTP transport.
+ *
+ * Messages are posted to the endpoint of the server, which answers with JSON or with an
+ * event stream carrying the response and the messages the server initiates meanwhile.
+ * The session of the `Mcp-Session-Id` header is initialized again when the server expires
+ * it (404), a response stream closed before the response is resumed with `Last-Event-ID`,
+ * and a GET stream receives the messages the server initiates outside requests, reconnecting
+ * with exponential backoff. Bearer tokens of the token provider are refreshed on 401 responses.
+ * Requests aborted by their signal are cancelled on the server.
+ *
+ * @example
+ * const mcpClient = new StreamableHttpMcpClient("https://mcp.example.com/mcp", {
+ *   tokenProvider: { getToken: async () => auth.accessToken, refreshToken: () => auth.refresh() },
+ * });
+ */
+export class StreamableHttpMcpClient implements IMcpClient {
+  private url: string;
+  private clientName: string;
+  private headers: Record<string, string>;
+  private options: StreamableHttpMcpClientOptions;
+  private protocolVersion: string = "2025-06-18";
+  private sessionId?: string;
+  private connected: boolean = false;
+  /** Initialization in progress, shared by the requests of an expired session */
+  private initializing?: Promise<void>;
+  /** Aborts the stream of the messages the server initiates outside requests */
+  private listenController?: AbortController;
+  private resourceListeners: Map<string, Set<(uri: string) => void>> = new Map();
+  private serverMessages = new McpServerMessages((message) => this.notify(message));
+
+  /**
+   * Creates a new StreamableHttpMcpClient.
+   * @param url - The MCP endpoint of the server.
+   * @param options - The client name, headers, token provider and reconnection options.
+   */
+  constructor(url: string, options: StreamableHttpMcpClientOptions = {}) {
+    this.url = url;
+    this.clientName = options.clientName || "XSkyMcpClient";
+    this.headers = options.headers || {};
+    this.options = options;
+  }
+
+  async connect(signal?: AbortSignal): Promise<void> {
+    Log.info("MCP Client, connecting...", this.url);
+    this.listenController?.abort();
+    this.sessionId = undefined;
+    this.connected = false;
+    const message = await this.request(
+      "initialize",
+      {
+        protocolVersion: this.protocolVersion,
+        capabilities: {
+          tools: {
+            listChanged: true,
+          },
+          sampling: {},
+          elicitation: {},
+        },
+        clientInfo: {
+          name: this.clientName,
+          version: "1.0.0",
+        },
+      },
+      signal
+    );
+    this.protocolVersion = message.result?.protocolVersion || this.protocolVersion;
+    await this.notify({ jsonrpc: "2.0", method: "notifications/initialized" });
+    this.connected = true;
+    if (this.options.listen !== false) {
+      this.listen();
+    }
+  }
+
+  async listTools(
+    param: McpListToolParam,
+    signal?: AbortSignal
+  ): Promise<McpListToolResult> {
+    const message = await this.request("tools/list", { ...param }, signal);
+    return message.result.tools || [];
+  }
+
+  async callTool(
+    param: McpCallToolParam,
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
+  ): Promise<ToolResult> {
+    return await this.serverMessages.track(handlers, async (progressToken) => {
+      const message = await this.request(
+        "tools/call",
+        { ...param, _meta: { progressToken } },
+        signal
+      );
+      return message.result;
+    });
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    return this.serverMessages.onToolsChanged(listener);
+  }
+
+  async listResources(signal?: AbortSignal): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "resources/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      resources.push(...(message.result.resources || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  async readResource(
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<McpResourceContents[]> {
+    const message = await this.request("resources/read", { uri }, signal);
+    return message.result.contents || [];
+  }
+
+  async subscribe(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    let listeners = this.resourceListeners.get(uri);
+    if (listeners) {
+      listeners.add(listener);
+    } else {
+      // Listen before subscribing, updates may be sent before the response
+      listeners = new Set([listener]);
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.request("resources/subscribe", { uri }, signal);
+      } catch (e) {
+        this.resourceListeners.delete(uri);
+        throw e;
+      }
+    }
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) {
+        return;
+      }
+      this.resourceListeners.delete(uri);
+      await this.request("resources/unsubscribe", { uri });
+    };
+  }
+
+  async listPrompts(signal?: AbortSignal): Promise<McpPrompt[]> {
+    const prompts: McpPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.request(
+        "prompts/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      prompts.push(...(message.result.prompts || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult> {
+    const message = await this.request(
+      "prompts/get",
+      { name, arguments: args || {} },
+      signal
+    );
+    return message.result;
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+    this.listenController?.abort();
+    this.listenController = undefined;
+    if (this.sessionId) {
+      try {
+        // Terminates the session, servers not allowing it answer 405
+        await fetch(this.url, {
+          method: "DELETE",
+          headers: await this.buildHeaders({}),
+        });
+      } catch (ignored) {}
+      this.sessionId = undefined;
+    }
+  }
+
+  /**
+   * Sends a request and waits for its response, cancelling it on the server when the signal aborts.
+   * @param method - The JSON-RPC method.
+   * @param params - The parameters of the request.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to the response message.
+   */
+  async request(
+    method: string,
+    params: Record<string, any>,
+    signal?: AbortSignal
+  ): Promise<any> {
+    const id = uuidv4();
+    const onAbort = () => {
+      this.notify({
+        jsonrpc: "2.0",
+        method: "notifications/cancelled",
+        params: { requestId: id, reason: String(signal?.reason || "Operation was interrupted") },
+      }).catch(() => {});
+    };
+    if (method != "initialize") {
+      signal?.addEventListener("abort", onAbort, { once: true });
+    }
+    try {
+      const response = await this.post({ jsonrpc: "2.0", id, method, params }, signal);
+      const contentType = response.headers.get("Content-Type") || "application/json";
+      const message = contentType.includes("text/event-stream")
+        ? await this.readResponse(method, id, response, params._meta?.progressToken, signal)
+        : await response.json();
+      this.handleError(method, message);
+      return message;
+    } catch (e: any) {
+      if (e?.name !== "AbortError") {
+        Log.error("MCP Client, request error:", e);
+      }
+      throw e;
+    } finally {
+      signal?.removeEventListener("abort", onAbort);
+    }
+  }
+
+  /**
+   * Sends a notification or a response, which the server accepts without a response.
+   */
+  private async notify(message: Record<string, unknown>): Promise<void> {
+    await this.post(message);
+  }
+
+  /**
+   * Posts a message, refreshing a rejected token and initializing an expired session once.
+   */
+  private async post(
+    message: Record<string, unknown>,
+    signal?: AbortSignal
+  ): Promise<Response> {
+    let authRetried = false;
+    let sessionRetried = false;
+    let authorization: string | undefined;
+    while (true) {
+      const headers = await this.buildHeaders(
+        {
+          "Content-Type": "application/json",
+          Accept: "application/json, text/event-stream",
+        },
+        authorization
+      );
+      const response = await fetch(this.url, {
+        method: "POST",
+        headers,
+        body: JSON.stringify(message),
+        signal,
+      });
+      if (response.status == 401 && !authRetried) {
+        authRetried = true;
+        authorization = await this.refreshToken();
+        if (authorization) {
+          continue;
+        }
+      }
+      if (
+        response.status == 404 &&
+        this.sessionId &&
+        message.method != "initialize" &&
+        message.method != "notifications/initialized" &&
+        !sessionRetried
+      ) {
+        // The server expired the session, initialize a new one and send the message again
+        sessionRetried = true;
+        await this.reinitialize(signal);
+        continue;
+      }
+      if (!response.ok) {
+        throw new Error(
+          `MCP ${message.method || "response"} error: HTTP ${response.status} ${await response.text()}`
+        );
+      }
+      if (message.method == "initialize") {
+        this.sessionId = response.headers.get("Mcp-Session-Id") || undefined;
+      }
+      return response;
+    }
+  }
+
+  /**
+   * Reads the event stream of a response until the response, resuming a closed stream with `Last-Event-ID`.
+   */
+  private async readResponse(
+    method: string,
+    id: string,
+    response: Response,
+    progressToken?: string,
+    signal?: AbortSignal
+  ): Promise<any> {
+    let lastEventId: string | undefined;
+    let retryDelay: number | undefined;
+    let attempt = 0;
+    while (true) {
+      let message: any;
+      try {
+        await this.readEvents(response, (event) => {
+          event.id && (lastEventId = event.id);
+          event.retry && (retryDelay = Number(event.retry));
+          const data = event.data ? JSON.parse(event.data) : undefined;
+          if (data?.method) {
+            this.onServerMessage(data, progressToken);
+          } else if (data?.id == id) {
+            message = data;
+            return true;
+          }
+          return false;
+        });
+      } catch (e: any) {
+        if (e?.name === "AbortError") {
+          throw e;
+        }
+        Log.warn(`MCP Client, ${method} response stream error:`, e);
+      }
+      if (message) {
+        return message;
+      }
+      if (!lastEventId || attempt >= this.maxRetries()) {
+        throw new Error(`MCP ${method} error: the response stream closed before the response`);
+      }
+      await sleep(this.backoff(attempt++, retryDelay), signal);
+      response = await this.get(lastEventId, signal);
+      if (!response.ok) {
+        throw new Error(`MCP ${method} error: failed to resume the response stream, HTTP ${response.status}`);
+      }
+    }
+  }
+
+  /**
+   * Listens to the messages the server initiates outside requests, reconnecting with backoff.
+   */
+  private async listen() {
+    const controller = new AbortController();
+    this.listenController = controller;
+    let lastEventId: string | undefined;
+    let retryDelay: number | undefined;
+    let attempt = 0;
+    while (!controller.signal.aborted) {
+      try {
+        const response = await this.get(lastEventId, controller.signal);
+        if (response.status == 405) {
+          // The server offers no stream
+          return;
+        }
+        if (response.status == 404 && this.sessionId) {
+          // Initializing the expired session starts a new listener
+          this.reinitialize().catch((e) => Log.error("MCP Client, reconnection error:", e));
+          return;
+        }
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+        attempt = 0;
+        await this.readEvents(response, (event) => {
+          event.id && (lastEventId = event.id);
+          event.retry && (retryDelay = Number(event.retry));
+          event.data && this.onServerMessage(JSON.parse(event.data));
+          return false;
+        });
+      } catch (e: any) {
+        if (controller.signal.aborted) {
+          return;
+        }
+        Log.warn("MCP Client, stream error:", this.url, e);
+      }
+      if (attempt >= this.maxRetries()) {
+        Log.error("MCP Client, stream closed after reconnection attempts:", this.url);
+        return;
+      }
+      try {
+        await sleep(this.backoff(attempt++, retryDelay), controller.signal);
+      } catch (ignored) {
+        return;
+      }
+    }
+  }
+
+  /**
+   * Opens a GET stream, resuming after `lastEventId` if given.
+   */
+  private async get(lastEventId?: string, signal?: AbortSignal): Promise<Response> {
+    const extHeaders: Record<string, string> = { Accept: "text/event-stream" };
+    lastEventId && (extHeaders["Last-Event-ID"] = lastEventId);
+    const response = await fetch(this.url, {
+      method: "GET",
+      headers: await this.buildHeaders(extHeaders),
+      signal,
+    });
+    if (response.status != 401) {
+      return response;
+    }
+    const authorization = await this.refreshToken();
+    if (!authorization) {
+      return response;
+    }
+    return await fetch(this.url, {
+      method: "GET",
+      headers: await this.buildHeaders(extHeaders, authorization),
+      signal,
+    });
+  }
+
+  private async reinitialize(signal?: AbortSignal): Promise<void> {
+    if (this.initializing) {
+      await this.initializing;
+      return;
+    }
+    Log.info("MCP Client, session expired, initializing a new session", this.url);
+    this.initializing = this.connect(signal).finally(() => {
+      this.initializing = undefined;
+    });
+    await this.initializing;
+    // The subscriptions belong to the expired session
+    for (const uri of this.resourceListeners.keys()) {
+      try {
+        await this.request("resources/subscribe", { uri });
+      } catch (e) {
+        Log.error("MCP Client, resubscribe error:", uri, e);
+      }
+    }
+  }
+
+  private async buildHeaders(
+    extHeaders: Record<string, string>,
+    authorization?: string
+  ): Promise<Record<string, string>> {
+    const headers: Record<string, string> = {
+      "Cache-Control": "no-cache",
+      "MCP-Protocol-Version": this.protocolVersion,
+      ...extHeaders,
+      ...this.headers,
+    };
+    if (this.sessionId) {
+      headers["Mcp-Session-Id"] = this.sessionId;
+    }
+    const token = authorization || (await this.options.tokenProvider?.getToken());
+    if (token) {
+      headers["Authorization"] = `Bearer ${token}`;
+    }
+    return headers;
+  }
+
+  private async refreshToken(): Promise<string | undefined> {
+    try {
+      return await this.options.tokenProvider?.refreshToken?.();
+    } catch (e) {
+      Log.error("MCP Client, token refresh error:", e);
+      return undefined;
+    }
+  }
+
+  private onServerMessage(message: any, progressToken?: string) {
+    if (message.method == "notifications/resources/updated") {
+      const uri = message.params?.uri;
+      this.resourceListeners.get(uri)?.forEach((listener) => listener(uri));
+      return;
+    }
+    this.serverMessages.dispatch(message, progressToken);
+  }
+
+  /**
+   * Reads the events of a stream until it ends or `onEvent` returns true.
+   */
+  private async readEvents(
+    response: Response,
+    onEvent: (event: SseEventData) => boolean
+  ): Promise<void> {
+    const reader = response.body?.getReader() as ReadableStreamDefaultReader;
+    if (!reader) {
+      return;
+    }
+    const decoder = new TextDecoder();
+    let str = "";
+    try {
+      while (true) {
+        const { value, done } = await reader.read();
+        if (done) {
+          return;
+        }
+        str += decoder.decode(value, { stream: true }).replace(/\r\n/g, "\n");
+        const chunks = str.split("\n\n");
+        str = chunks.pop() || "";
+        for (const chunk of chunks) {
+          if (chunk.trim() && onEvent(parseChunk(chunk))) {
+            return;
+          }
+        }
+      }
+    } finally {
+      reader.cancel().catch(() => {});
+    }
+  }
+
+  private handleError(method: string, message: any) {
+    if (!message) {
+      throw new Error(`MCP ${method} error: no response`);
+    }
+    if (message.error) {
+      throw new McpResponseError(
+        `MCP ${method} error: ` +
+          (typeof message.error === "string"
+            ? message.error
+            : message.error.message)
+      );
+    }
+    if (message.result?.isError == true) {
+      if (message.result.content) {
+        throw new McpResponseError(
+          `MCP ${method} error: ` +
+            (typeof message.result.content === "string"
+              ? message.result.content
+              : message.result.content[0].text)
+        );
+      } else {
+        throw new McpResponseError(`MCP ${method} error: ` + JSON.stringify(message.result));
+      }
+    }
+  }
+
+  private maxRetries(): number {
+    return this.options.maxRetries ?? 5;
+  }
+
+  private backoff(attempt: number, retryDelay?: number): number {
+    if (retryDelay !== undefined && !isNaN(retryDelay)) {
+      return retryDelay;
+    }
+    const initialDelay = this.options.initialDelay ?? 1000;
+    return Math.min(initialDelay * 2 ** attempt, this.options.maxDelay ?? 30000);
+  }
+}
+
+function parseChunk(chunk: string): SseEventData {
+  const chunk_obj: SseEventData = {};
+  for (const line of chunk.split("\n")) {
+    const idx = line.indexOf(":");
+    if (idx < 1) {
+      continue;
+    }
+    const field = line.substring(0, idx);
+    const value = line.substring(idx + 1).trim();
+    if (field == "data" && chunk_obj.data !== undefined) {
+      chunk_obj.data += "\n" + value;
+    } else {
+      chunk_obj[field] = value;
+    }
+  }
+  return chunk_obj;
+}
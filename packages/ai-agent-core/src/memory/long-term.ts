@@ -0,0 +1,266 @@
+import { sub, uuidv4 } from "../common/utils";
+import { RetryLanguageModel } from "../llm";
+import type Context from "../core/context";
+import { Bm25MemoryStore } from "./store";
+import {
+  ILongTermMemoryStore,
+  LLMRequest,
+  LongTermMemoryEntry,
+  LongTermMemoryKind,
+  LongTermMemoryMatch,
+  LongTermMemoryOptions,
+  XSkyResult,
+} from "../types";
+
+const KINDS: LongTermMemoryKind[] = ["navigation", "credentials", "preference", "fact"];
+
+const EXTRACT_SYSTEM_PROMPT = `You extract reusable knowledge from the execution of a task, to help the future tasks of the same user.
+Save only facts that remain true and useful beyond this task:
+- navigation: how to reach a page or a feature of a website or application.
+- credentials: where credentials are found, e.g. the password manager entry to use. Never save passwords, tokens, keys or other secrets.
+- preference: a preference of the user, e.g. a file format, a currency or a language.
+- fact: any other stable fact that saves work in later tasks.
+Do not save the results of the task or transient data. Write each fact as a short self-contained sentence. Save nothing when the task taught nothing reusable.`;
+
+/**
+ * Long-term memory of the facts learned from tasks, recalled into the prompts of new tasks.
+ *
+ * After each task, an LLM extracts reusable facts (navigation hints, where credentials are
+ * found, user preferences) from the execution, and stores them for the tenant of the task.
+ * Before a task is planned or initialized, the memories of its tenant relevant to the task
+ * prompt are recalled into the planner prompt and the user prompts of its agents.
+ *
+ * @example
+ * const memory = new LongTermMemory({ store: new VectorMemoryStore(embeddingModel) });
+ * const xsky = new XSky({ llms, agents, longTermMemory: memory });
+ * await xsky.run("Export last month's invoices", undefined, { tenant: "acme" });
+ * await memory.idle(); // The facts are learned in the background
+ * await memory.export("acme"); // The facts learned
+ */
+export class LongTermMemory {
+  private store: ILongTermMemoryStore;
+  private options: LongTermMemoryOptions;
+  private learning: Set<Promise<LongTermMemoryEntry[]>> = new Set();
+
+  /**
+   * Creates a new LongTermMemory.
+   * @param options - The store, extraction LLMs, recall limits and tenant of tasks.
+   */
+  constructor(options: LongTermMemoryOptions = {}) {
+    this.store = options.store || new Bm25MemoryStore();
+    this.options = options;
+  }
+
+  /**
+   * Gets the tenant of a task.
+   * @param context - The context of the task.
+   * @returns The tenant given by the `tenant` option, else the `tenant` variable, else "default".
+   */
+  getTenant(context: Context): string {
+    return (
+      this.options.tenant?.(context) || context.variables.get("tenant") || "default"
+    );
+  }
+
+  /**
+   * Recalls the memories of a tenant relevant to a query.
+   * @param tenant - The tenant of the memories.
+   * @param query - The text to find relevant memories for, e.g. a task prompt.
+   * @param limit - Maximum number of memories, defaults to the `maxRecalled` option.
+   * @returns The relevant memories, most relevant first.
+   */
+  async recall(
+    tenant: string,
+    query: string,
+    limit: number = this.options.maxRecalled ?? 5
+  ): Promise<LongTermMemoryMatch[]> {
+    const matches = await this.store.search(tenant, query, limit);
+    return matches.filter((match) => match.score >= (this.options.minScore ?? 0));
+  }
+
+  /**
+   * Recalls the memories relevant to the task prompt of a task, for its prompts.
+   * @param context - The context of the task.
+   * @returns The relevant memories of the tenant of the task.
+   */
+  async recallFor(context: Context): Promise<LongTermMemoryEntry[]> {
+    const matches = await this.recall(this.getTenant(context), context.chain.taskPrompt);
+    return matches.map((match) => match.entry);
+  }
+
+  /**
+   * Remembers facts for a tenant, skipping the facts already remembered.
+   * @param tenant - The tenant of the facts.
+   * @param facts - The kind and content of each fact.
+   * @param taskId - The task the facts were learned from.
+   * @returns The new memories.
+   */
+  async remember(
+    tenant: string,
+    facts: Array<{ kind: LongTermMemoryKind; content: string }>,
+    taskId?: string
+  ): Promise<LongTermMemoryEntry[]> {
+    const entries: LongTermMemoryEntry[] = [];
+    for (const fact of facts) {
+      const content = fact.content.trim();
+      if (
+        !content ||
+        entries.some((entry) => normalize(entry.content) == normalize(content)) ||
+        (await this.isKnown(tenant, content))
+      ) {
+        continue;
+      }
+      entries.push({
+        id: uuidv4(),
+        tenant,
+        kind: KINDS.includes(fact.kind) ? fact.kind : "fact",
+        content,
+        taskId,
+        createdAt: Date.now(),
+      });
+    }
+    if (entries.length > 0) {
+      await this.store.add(entries);
+    }
+    return entries;
+  }
+
+  /**
+   * Extracts the reusable facts of a finished task and remembers them for its tenant.
+   * Aborted tasks and memories with the `extract` option disabled are skipped.
+   * @param context - The context of the finished task.
+   * @param result - The result of the task.
+   * @returns The new memories.
+   */
+  async learn(context: Context, result: XSkyResult): Promise<LongTermMemoryEntry[]> {
+    if (this.options.extract === false || result.stopReason == "abort") {
+      return [];
+    }
+    const learning = this.extract(context, result).then((facts) =>
+      this.remember(this.getTenant(context), facts, context.taskId)
+    );
+    this.learning.add(learning);
+    try {
+      return await learning;
+    } finally {
+      this.learning.delete(learning);
+    }
+  }
+
+  /**
+   * Waits for the memories being learned, e.g. before exporting them or exiting the process.
+   * XSky learns the memories of a task in the background, after returning its result.
+   */
+  async idle(): Promise<void> {
+    await Promise.allSettled([...this.learning]);
+  }
+
+  /**
+   * Forgets memories of a tenant.
+   * @param tenant - The tenant of the memories.
+   * @param ids - IDs of the memories to forget, all memories of the tenant when undefined.
+   * @returns The number of forgotten memories.
+   */
+  async forget(tenant: string, ids?: string[]): Promise<number> {
+    return await this.store.delete(tenant, ids);
+  }
+
+  /**
+   * Exports all memories of a tenant, e.g. to review or migrate them.
+   * @param tenant - The tenant of the memories.
+   * @returns The memories, oldest first.
+   */
+  async export(tenant: string): Promise<LongTermMemoryEntry[]> {
+    return await this.store.list(tenant);
+  }
+
+  private async isKnown(tenant: string, content: string): Promise<boolean> {
+    const matches = await this.store.search(tenant, content, 3);
+    return matches.some((match) => normalize(match.entry.content) == normalize(content));
+  }
+
+  private async extract(
+    context: Context,
+    result: XSkyResult
+  ): Promise<Array<{ kind: LongTermMemoryKind; content: string }>> {
+    const execution = context.chain.agents
+      .map(
+        (agentChain) =>
+          `<agent name="${agentChain.agent.name}">\n` +
+          `Task: ${agentChain.agent.task}\n` +
+          `Result: ${sub(agentChain.agentResult || "", 2000, true)}\n` +
+          "</agent>"
+      )
+      .join("\n");
+    const prompt = `# Task
+${context.chain.taskPrompt}
+
+# Execution
+${execution}
+
+# Result
+Status: ${result.success ? "success" : "failure"}
+${sub(result.result || "", 2000, true)}`;
+    const functionName = "save_memories";
+    const request: LLMRequest = {
+      maxTokens: 1024,
+      temperature: 0,
+      messages: [
+        { role: "system", content: EXTRACT_SYSTEM_PROMPT },
+        { role: "user", content: [{ type: "text", text: prompt }] },
+      ],
+      tools: [
+        {
+          type: "function",
+          name: functionName,
+          description: "Save the reusable facts learned from the task.",
+          inputSchema: {
+            type: "object",
+            properties: {
+              memories: {
+                type: "array",
+                items: {
+                  type: "object",
+                  properties: {
+                    kind: { type: "string", enum: KINDS },
+                    content: { type: "string", description: "The fact, a short self-contained sentence." },
+                  },
+                  required: ["kind", "content"],
+                },
+              },
+            },
+            required: ["memories"],
+          },
+        },
+      ],
+      toolChoice: {
+        type: "tool",
+        toolName: functionName,
+      },
+    };
+    const rlm = new RetryLanguageModel(context.config.llms, this.options.llms);
+    rlm.setContext(context);
+    const llmResult = await rlm.call(request);
+    let input = llmResult.content.find((c) => c.type === "tool-call")?.input;
+    if (input && typeof input === "string") {
+      input = JSON.parse(input);
+    }
+    const memories = (input as any)?.memories;
+    return Array.isArray(memories)
+      ? memories.filter((memory) => typeof memory?.content == "string")
+      : [];
+  }
+}
+
+/**
+ * Formats memories as a list for prompts.
+ * @param memories - The memories.
+ * @returns One line per memory with its kind.
+ */
+export function formatMemories(memories: LongTermMemoryEntry[]): string {
+  return memories.map((memory) => `- [${memory.kind}] ${memory.content}`).join("\n");
+}
+
+function normalize(content: string): string {
+  return content.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, " ").trim();
+}
@@ -0,0 +1,187 @@
+import { EmbeddingModelV2 } from "@ai-sdk/provider";
+import {
+  ILongTermMemoryStore,
+  LongTermMemoryEntry,
+  LongTermMemoryMatch,
+} from "../types";
+
+/** Common English words, too frequent to tell memories apart */
+const STOP_WORDS = new Set(
+  (
+    "a an and are as at be by do for from has have how i in is it its me my of on or " +
+    "our so that the their them then there these this to was we were what when where " +
+    "which who will with you your"
+  ).split(" ")
+);
+
+/**
+ * Splits a text into lowercase words without stop words, for keyword search.
+ */
+function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || []).filter(
+    (word) => !STOP_WORDS.has(word)
+  );
+}
+
+/**
+ * In-memory store of long-term memories ranked by BM25 keyword relevance.
+ * Needs no embedding model, memories sharing no word with the query are not found.
+ * The memories are lost on a process restart; use a persistent store in production.
+ */
+export class Bm25MemoryStore implements ILongTermMemoryStore {
+  private entries: Map<string, Array<{ entry: LongTermMemoryEntry; tokens: string[] }>> =
+    new Map();
+  private k1: number;
+  private b: number;
+
+  /**
+   * Creates a new Bm25MemoryStore.
+   * @param k1 - Saturation of the term frequency, defaults to 1.2.
+   * @param b - Normalization by the memory length, defaults to 0.75.
+   */
+  constructor(k1: number = 1.2, b: number = 0.75) {
+    this.k1 = k1;
+    this.b = b;
+  }
+
+  async add(entries: LongTermMemoryEntry[]): Promise<void> {
+    for (const entry of entries) {
+      const items = this.entries.get(entry.tenant) || [];
+      const item = { entry: { ...entry }, tokens: tokenize(entry.content) };
+      const index = items.findIndex((existing) => existing.entry.id == entry.id);
+      if (index > -1) {
+        items[index] = item;
+      } else {
+        items.push(item);
+      }
+      this.entries.set(entry.tenant, items);
+    }
+  }
+
+  async search(tenant: string, query: string, limit: number): Promise<LongTermMemoryMatch[]> {
+    const items = this.entries.get(tenant) || [];
+    const terms = [...new Set(tokenize(query))];
+    if (items.length == 0 || terms.length == 0) {
+      return [];
+    }
+    const averageLength = items.reduce((total, item) => total + item.tokens.length, 0) / items.length;
+    const idf = terms.map((term) => {
+      const count = items.filter((item) => item.tokens.includes(term)).length;
+      return Math.log(1 + (items.length - count + 0.5) / (count + 0.5));
+    });
+    return items
+      .map((item) => {
+        let score = 0;
+        terms.forEach((term, i) => {
+          const frequency = item.tokens.filter((token) => token == term).length;
+          if (frequency > 0) {
+            score +=
+              (idf[i] * frequency * (this.k1 + 1)) /
+              (frequency +
+                this.k1 * (1 - this.b + (this.b * item.tokens.length) / (averageLength || 1)));
+          }
+        });
+        return { entry: { ...item.entry }, score };
+      })
+      .filter((match) => match.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async list(tenant: string): Promise<LongTermMemoryEntry[]> {
+    return (this.entries.get(tenant) || []).map((item) => ({ ...item.entry }));
+  }
+
+  async delete(tenant: string, ids?: string[]): Promise<number> {
+    const items = this.entries.get(tenant) || [];
+    const kept = ids ? items.filter((item) => !ids.includes(item.entry.id)) : [];
+    this.entries.set(tenant, kept);
+    return items.length - kept.length;
+  }
+}
+
+/**
+ * In-memory store of long-term memories ranked by the cosine similarity of their embeddings.
+ * Finds memories related to the query without sharing its words, at the cost of embedding
+ * each memory and each query. The memories are lost on a process restart; implement
+ * `ILongTermMemoryStore` over a vector database to persist them.
+ *
+ * @example
+ * const store = new VectorMemoryStore(openai.textEmbeddingModel("text-embedding-3-small"));
+ */
+export class VectorMemoryStore implements ILongTermMemoryStore {
+  private embeddingModel: EmbeddingModelV2<string>;
+  private entries: Map<string, Array<{ entry: LongTermMemoryEntry; vector: number[] }>> =
+    new Map();
+
+  /**
+   * Creates a new VectorMemoryStore.
+   * @param embeddingModel - The model embedding the memories and the queries.
+   */
+  constructor(embeddingModel: EmbeddingModelV2<string>) {
+    this.embeddingModel = embeddingModel;
+  }
+
+  async add(entries: LongTermMemoryEntry[]): Promise<void> {
+    const vectors = await this.embed(entries.map((entry) => entry.content));
+    entries.forEach((entry, i) => {
+      const items = this.entries.get(entry.tenant) || [];
+      const item = { entry: { ...entry }, vector: vectors[i] };
+      const index = items.findIndex((existing) => existing.entry.id == entry.id);
+      if (index > -1) {
+        items[index] = item;
+      } else {
+        items.push(item);
+      }
+      this.entries.set(entry.tenant, items);
+    });
+  }
+
+  async search(tenant: string, query: string, limit: number): Promise<LongTermMemoryMatch[]> {
+    const items = this.entries.get(tenant) || [];
+    if (items.length == 0) {
+      return [];
+    }
+    const [vector] = await this.embed([query]);
+    return items
+      .map((item) => ({ entry: { ...item.entry }, score: cosine(vector, item.vector) }))
+      .sort((a, b) => b.score - a.score)
+      .slice(0, limit);
+  }
+
+  async list(tenant: string): Promise<LongTermMemoryEntry[]> {
+    return (this.entries.get(tenant) || []).map((item) => ({ ...item.entry }));
+  }
+
+  async delete(tenant: string, ids?: string[]): Promise<number> {
+    const items = this.entries.get(tenant) || [];
+    const kept = ids ? items.filter((item) => !ids.includes(item.entry.id)) : [];
+    this.entries.set(tenant, kept);
+    return items.length - kept.length;
+  }
+
+  private async embed(values: string[]): Promise<number[][]> {
+    if (values.length == 0) {
+      return [];
+    }
+    const maxPerCall = (await this.embeddingModel.maxEmbeddingsPerCall) || values.length;
+    const vectors: number[][] = [];
+    for (let i = 0; i < values.length; i += maxPerCall) {
+      const result = await this.embeddingModel.doEmbed({ values: values.slice(i, i + maxPerCall) });
+      vectors.push(...result.embeddings);
+    }
+    return vectors;
+  }
+}
+
+function cosine(a: number[], b: number[]): number {
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < Math.min(a.length, b.length); i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+  return normA && normB ? dot / Math.sqrt(normA * normB) : 0;
+}
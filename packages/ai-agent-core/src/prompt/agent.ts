@@ -4,10 +4,15 @@ import Context from "../core/context";
 import { sub } from "../common/utils";
 import { WorkflowAgent, Tool } from "../types";
 import { buildAgentRootXml } from "../common/xml";
+import { formatMemories } from "../memory/long-term";
 import { TOOL_NAME as foreach_task } from "../tools/foreach_task";
+import { TOOL_NAME as control_flow } from "../tools/control_flow";
 import { TOOL_NAME as watch_trigger } from "../tools/watch_trigger";
 import { TOOL_NAME as human_interact } from "../tools/human_interact";
-import { TOOL_NAME as variable_storage } from "../tools/variable_storage";
+import {
+  getVariableSchemas,
+  TOOL_NAME as variable_storage,
+} from "../tools/variable_storage";
 import { TOOL_NAME as task_node_status } from "../tools/task_node_status";
 
 const AGENT_SYSTEM_TEMPLATE = `
@@ -46,6 +51,12 @@ When a step node has input/output variable attributes, use the \`${variable_stor
 The \`${variable_storage}\` tool does not support parallel calls.
 `;
 
+const VARIABLE_SCHEMA_PROMPT = `
+* VARIABLE SCHEMAS
+The values of these variables must match their JSON Schema, write them as JSON with the \`${variable_storage}\` tool, values that do not match are rejected:
+{schemas}
+`;
+
 const FOR_EACH_NODE = `
     <!-- duplicate task node, items support list and variable -->
     <forEach items="list or variable name">
@@ -57,6 +68,37 @@ const FOR_EACH_PROMPT = `
 For repetitive tasks, when executing a forEach node, the \`${foreach_task}\` tool must be used. Loop tasks support parallel tool calls, and during parallel execution, this tool needs to be called interspersed throughout the process.
 `;
 
+const IF_NODE = `
+    <!-- conditional task node, the condition is on a variable value (variable and equals attributes) or a condition description you evaluate -->
+    <if condition="condition description" state="then / else">
+      <then>
+        <node>step node when the condition is met</node>
+      </then>
+      <else>
+        <node>step node otherwise</node>
+      </else>
+    </if>`;
+
+const WHILE_NODE = `
+    <!-- loop task node, repeated while the condition is met, at most maxIterations times -->
+    <while condition="condition description" maxIterations="10" state="iteration 1 / ended">
+      <node>loop step node</node>
+    </while>`;
+
+const TRY_NODE = `
+    <!-- fallback task node, the catch nodes are executed only when the tried nodes fail -->
+    <try state="running / catch / succeeded">
+      <node>step node</node>
+      <catch>
+        <node>fallback step node</node>
+      </catch>
+    </try>`;
+
+const CONTROL_FLOW_PROMPT = `
+* if / while / try nodes
+When executing an if, while or try node, the \`${control_flow}\` tool must be used: call it when reaching an if node to know which branch to execute, before each iteration of a while node to know whether to continue the loop (with \`restart\` when a while node nested in a forEach or while node is entered again), and at the start and the end of the tried nodes of a try node to know whether to execute the catch nodes. Only execute the nodes the tool tells you to.
+`;
+
 const WATCH_NODE = `
     <!-- monitor task node, the loop attribute specifies whether to listen in a loop or listen once -->
     <watch event="dom" loop="true">
@@ -72,6 +114,12 @@ const WATCH_PROMPT = `
 monitor changes in webpage DOM elements, when executing to the watch node, require the use of the \`${watch_trigger}\` tool.
 `;
 
+const AGENT_MEMORY_TEMPLATE = `
+
+# Memories from previous tasks
+Facts learned from the previous tasks of the user, use them when they are relevant to the current task.
+{memories}`;
+
 export function getAgentSystemPrompt(
   agent: Agent,
   agentNode: WorkflowAgent,
@@ -85,6 +133,9 @@ export function getAgentSystemPrompt(
   let agentNodeXml = agentNode.xml;
   let hasWatchNode = agentNodeXml.indexOf("</watch>") > -1;
   let hasForEachNode = agentNodeXml.indexOf("</forEach>") > -1;
+  let hasIfNode = agentNodeXml.indexOf("</if>") > -1;
+  let hasWhileNode = agentNodeXml.indexOf("</while>") > -1;
+  let hasTryNode = agentNodeXml.indexOf("</try>") > -1;
   let hasHumanTool =
     tools.filter((tool) => tool.name == human_interact).length > 0;
   let hasVariable =
@@ -96,6 +147,10 @@ export function getAgentSystemPrompt(
   }
   if (hasVariable) {
     prompt += VARIABLE_PROMPT;
+    let schemas = getAgentVariableSchemas(agentNodeXml, context);
+    if (schemas) {
+      prompt += VARIABLE_SCHEMA_PROMPT.replace("{schemas}", schemas);
+    }
   }
   if (hasForEachNode) {
     if (tools.filter((tool) => tool.name == foreach_task).length > 0) {
@@ -103,6 +158,15 @@ export function getAgentSystemPrompt(
     }
     nodePrompt += FOR_EACH_NODE;
   }
+  if (hasIfNode || hasWhileNode || hasTryNode) {
+    if (tools.filter((tool) => tool.name == control_flow).length > 0) {
+      prompt += CONTROL_FLOW_PROMPT;
+    }
+    nodePrompt +=
+      (hasIfNode ? IF_NODE : "") +
+      (hasWhileNode ? WHILE_NODE : "") +
+      (hasTryNode ? TRY_NODE : "");
+  }
   if (hasWatchNode) {
     if (tools.filter((tool) => tool.name == watch_trigger).length > 0) {
       prompt += WATCH_PROMPT;
@@ -140,6 +204,21 @@ export function getAgentSystemPrompt(
   return sysPrompt;
 }
 
+/**
+ * The schemas of the variables read or written by the nodes of the agent.
+ */
+function getAgentVariableSchemas(agentNodeXml: string, context: Context): string {
+  let schemas = getVariableSchemas(context.workflow);
+  let names = new Set<string>();
+  for (const match of agentNodeXml.matchAll(/(?:input|output)="([^"]*)"/g)) {
+    match[1].split(",").forEach((name) => names.add(name.trim()));
+  }
+  return [...names]
+    .filter((name) => schemas.has(name))
+    .map((name) => `- ${name}: ${JSON.stringify(schemas.get(name))}`)
+    .join("\n");
+}
+
 export function getAgentUserPrompt(
   agent: Agent,
   agentNode: WorkflowAgent,
@@ -149,6 +228,9 @@ export function getAgentUserPrompt(
   const hasTaskNodeStatusTool =
     (tools || agent.Tools).filter((tool) => tool.name == task_node_status)
       .length > 0;
+  const memories = context.memories?.length
+    ? AGENT_MEMORY_TEMPLATE.replace("{memories}", formatMemories(context.memories))
+    : "";
   return buildAgentRootXml(
     agentNode.xml,
     context.chain.taskPrompt,
@@ -157,5 +239,5 @@ export function getAgentUserPrompt(
         node.setAttribute("status", "todo");
       }
     }
-  );
+  ) + memories;
 }
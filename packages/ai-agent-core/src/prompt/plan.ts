@@ -1,6 +1,9 @@
 import config from "../config";
+import Log from "../common/log";
 import { sub } from "../common/utils";
 import Context from "../core/context";
+import { IMcpClient, McpPrompt } from "../types";
+import { formatMemories } from "../memory/long-term";
 
 const PLAN_SYSTEM_TEMPLATE = `
 You are {name}, an autonomous AI Agent Planner.
@@ -10,7 +13,7 @@ You are {name}, an autonomous AI Agent Planner.
 
 ## Agent list
 {agents}
-
+{workflows}{templates}{memories}
 ## Output Rules and Format
 <root>
   <!-- Task Name (Short) -->
@@ -33,10 +36,32 @@ You are {name}, an autonomous AI Agent Planner.
         <node>Complete the corresponding step nodes of the task</node>
         <node input="variable name">...</node>
         <node output="variable name">...</node>
+        <!-- When the structure of an output variable matters to the agents reading it, declare its JSON Schema with outputSchema (single-quoted) -->
+        <node output="variable name" outputSchema='{"type":"array","items":{"type":"string"}}'>...</node>
         <!-- When including duplicate tasks, \`forEach\` can be used -->
         <forEach items="list or variable name">
           <node>forEach step node</node>
         </forEach>
+        <!-- When steps depend on a condition, \`if\` can be used, the condition is either on a variable value (variable and optional equals attributes) or a condition description, the else branch is optional -->
+        <if variable="variable name" equals="value">
+          <then>
+            <node>Step node when the condition is met</node>
+          </then>
+          <else>
+            <node>Step node otherwise</node>
+          </else>
+        </if>
+        <!-- When steps are repeated until a condition changes, \`while\` can be used, maxIterations limits the number of iterations -->
+        <while condition="condition description" maxIterations="10">
+          <node>Loop step node</node>
+        </while>
+        <!-- When steps may fail and have a fallback, \`try\` can be used, the catch nodes are only executed if the tried nodes fail -->
+        <try>
+          <node>Step node</node>
+          <catch>
+            <node>Fallback step node</node>
+          </catch>
+        </try>
         <!-- When you need to monitor changes in webpage DOM elements, you can use \`Watch\`, the loop attribute specifies whether to listen in a loop or listen once. -->
         <watch event="dom" loop="true">
           <description>Monitor task description</description>
@@ -69,6 +94,31 @@ You are {name}, an autonomous AI Agent Planner.
 {example_prompt}
 `;
 
+const SUB_WORKFLOW_TEMPLATE = `
+## Sub-workflow list
+Saved workflows completing recurring sequences, such as logins or exports, call them instead of planning their steps again.
+{workflows}
+
+To call a sub-workflow, use an agent entry with type="workflow" and the name of the sub-workflow, without nodes. Bind its inputs to the variables passing their values, and its outputs to the variables receiving them:
+<agent name="Sub-workflow name" id="1" dependsOn="0" type="workflow">
+  <task>sub-workflow task</task>
+  <input name="input name" variable="variable name" />
+  <output name="output name" variable="variable name" />
+</agent>
+`;
+
+const TASK_TEMPLATE_TEMPLATE = `
+## Task template list
+Task templates describe proven ways of completing recurring tasks, when the user's task matches a template, plan it following the template.
+{templates}
+`;
+
+const MEMORY_TEMPLATE = `
+## Memories from previous tasks
+Facts learned from the previous tasks of the user, use them when they are relevant to the task.
+{memories}
+`;
+
 const PLAN_TASK_DESCRIPTION = `Your task is to understand the user's requirements, dynamically plan the user's tasks based on the Agent list, and please follow the steps below:
 - Analyze the Agents that need to be used based on the user's requirements.
 - Generate the Agent calling plan based on the analysis results.
@@ -138,7 +188,7 @@ Output result:
         <node>Visit https://github.com/google</node>
         <node>Click "People" tab to view team members</node>
         <node>Scroll the page to load all developer information</node>
-        <node output="developers">Extract all developer account information</node>
+        <node output="developers" outputSchema='{"type":"array","items":{"type":"object","properties":{"account":{"type":"string"},"url":{"type":"string"}},"required":["account","url"]}}'>Extract all developer account information</node>
         <forEach items="developers">
           <node>Visit developer's homepage</node>
           <node>Extract developer's location information</node>
@@ -147,6 +197,39 @@ Output result:
       </nodes>
     </agent>
   </agents>
+</root>`,
+  `User: Log in to the supplier portal, download all the invoices of this month and check whether any of them is overdue.
+Output result:
+<root>
+  <name>Download supplier invoices</name>
+  <thought>OK, I need to log in to the supplier portal, go through the pages of the invoice list to download the invoices of this month, and then report the overdue invoices. The login may fail if the saved session has expired, in which case the user needs to log in manually.</thought>
+  <agents>
+    <agent name="Browser" id="0" dependsOn="">
+      <task>Download this month's invoices from the supplier portal and check for overdue invoices</task>
+      <nodes>
+        <try>
+          <node>Open the supplier portal and log in with the saved session</node>
+          <catch>
+            <node>Ask the user to log in to the supplier portal manually</node>
+          </catch>
+        </try>
+        <node>Open the invoice list filtered on this month</node>
+        <while condition="The invoice list has a next page" maxIterations="20">
+          <node>Download the invoices of the current page</node>
+          <node>Go to the next page</node>
+        </while>
+        <node output="overdueInvoices">Collect the invoices whose status is overdue</node>
+        <if variable="overdueInvoices">
+          <then>
+            <node input="overdueInvoices">Summarize the overdue invoices with their amounts and due dates</node>
+          </then>
+          <else>
+            <node>Report that no invoice is overdue</node>
+          </else>
+        </if>
+      </nodes>
+    </agent>
+  </agents>
 </root>`,
   `User: Open Discord to monitor messages in Group A, and automatically reply when new messages are received.
 Output result:
@@ -272,6 +355,31 @@ export async function getPlanSystemPrompt(
         .join("\n") +
       "\n</agent>\n\n";
   }
+  let workflows_prompt = "";
+  const workflows = context.config.workflows || [];
+  if (workflows.length > 0) {
+    workflows_prompt = SUB_WORKFLOW_TEMPLATE.replace(
+      "{workflows}",
+      workflows
+        .map(
+          (workflow) =>
+            `<workflow name="${workflow.name}">\n` +
+            `Description: ${sub(workflow.description, 2000, true)}\n` +
+            `Inputs: ${(workflow.inputs || []).join(", ") || "none"}\n` +
+            `Outputs: ${(workflow.outputs || []).join(", ") || "none"}\n` +
+            "</workflow>"
+        )
+        .join("\n\n")
+    );
+  }
+  const templates = await getTaskTemplates(context);
+  const templates_prompt =
+    templates.length > 0
+      ? TASK_TEMPLATE_TEMPLATE.replace("{templates}", templates.join("\n\n"))
+      : "";
+  const memories_prompt = context.memories?.length
+    ? MEMORY_TEMPLATE.replace("{memories}", formatMemories(context.memories))
+    : "";
   const task_description =
     planTaskDescription ||
     context.variables.get("plan_task_description") ||
@@ -287,10 +395,95 @@ export async function getPlanSystemPrompt(
   return PLAN_SYSTEM_TEMPLATE.replace("{name}", config.name)
     .replace("{task_description}", task_description)
     .replace("{agents}", agents_prompt.trim())
+    .replace("{workflows}", workflows_prompt)
+    .replace("{templates}", templates_prompt)
+    .replace("{memories}", memories_prompt)
     .replace("{example_prompt}", example_prompt)
     .trim();
 }
 
+/**
+ * Describes the MCP prompts of the default MCP client and the MCP clients of the agents as task templates.
+ * Prompts whose required arguments are all context variables are filled in, the others are described by their arguments.
+ */
+async function getTaskTemplates(context: Context): Promise<string[]> {
+  const mcpClients = new Set<IMcpClient>();
+  context.config.defaultMcpClient && mcpClients.add(context.config.defaultMcpClient);
+  context.agents.forEach((agent) => agent.McpClient && mcpClients.add(agent.McpClient));
+  const templates: string[] = [];
+  for (const mcpClient of mcpClients) {
+    if (!mcpClient.listPrompts) {
+      continue;
+    }
+    try {
+      if (!mcpClient.isConnected()) {
+        await mcpClient.connect(context.controller.signal);
+      }
+      const prompts = await mcpClient.listPrompts(context.controller.signal);
+      for (const prompt of prompts) {
+        templates.push(await getTaskTemplate(context, mcpClient, prompt));
+      }
+    } catch (e) {
+      if ((e as any)?.name === "AbortError") {
+        throw e;
+      }
+      Log.warn("Failed to list the MCP prompts", e);
+    }
+  }
+  return templates;
+}
+
+async function getTaskTemplate(
+  context: Context,
+  mcpClient: IMcpClient,
+  prompt: McpPrompt
+): Promise<string> {
+  const args: Record<string, string> = {};
+  let filled = !!mcpClient.getPrompt;
+  for (const argument of prompt.arguments || []) {
+    const value = context.variables.get(argument.name);
+    if (value !== undefined && value !== null) {
+      args[argument.name] = typeof value == "string" ? value : JSON.stringify(value);
+    } else if (argument.required) {
+      filled = false;
+    }
+  }
+  let template =
+    `<template name="${prompt.name}">\n` +
+    `Description: ${sub(prompt.description || prompt.title || "", 2000, true)}\n`;
+  if (prompt.arguments?.length) {
+    template +=
+      "Arguments:\n" +
+      prompt.arguments
+        .map(
+          (argument) =>
+            `  - ${argument.name}${argument.required ? " (required)" : ""}: ${
+              argument.description || ""
+            }`
+        )
+        .join("\n") +
+      "\n";
+  }
+  if (filled) {
+    try {
+      const result = await mcpClient.getPrompt!(prompt.name, args, context.controller.signal);
+      const text = result.messages
+        .map((message) => (message.content.type == "text" ? message.content.text : ""))
+        .filter((text) => text)
+        .join("\n");
+      if (text) {
+        template += `Template: ${sub(text, 4000, true)}\n`;
+      }
+    } catch (e) {
+      if ((e as any)?.name === "AbortError") {
+        throw e;
+      }
+      Log.warn(`Failed to get the MCP prompt ${prompt.name}`, e);
+    }
+  }
+  return template + "</template>";
+}
+
 export function getPlanUserPrompt(
   task_prompt: string,
   task_website?: string,
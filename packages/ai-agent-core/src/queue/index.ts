@@ -0,0 +1,6 @@
+/**
+ * Task queue module for XSky agent framework.
+ * Bounds the concurrency of simultaneous tasks with priorities and tenant fairness.
+ */
+
+export { TaskQueue } from "./task-queue";
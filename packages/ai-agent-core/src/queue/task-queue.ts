@@ -0,0 +1,362 @@
+import Log from "../common/log";
+import { uuidv4 } from "../common/utils";
+import type { XSky } from "../core/xsky";
+import type { XSkyResult } from "../types/core.types";
+import {
+  TaskQueueExecuteOptions,
+  TaskQueueOptions,
+  TaskQueueRunOptions,
+  TaskQueueShutdownResult,
+} from "../types/queue.types";
+
+type QueueEntry = {
+  /** Submission order, breaks ties */
+  seq: number;
+  taskId: string;
+  priority: number;
+  tenant: string;
+  /** Plans the task prompt, cleared once planned */
+  plan?: () => Promise<unknown>;
+  execute: () => Promise<XSkyResult>;
+  /** Limited agents of the workflow, undefined until the task prompt is planned */
+  agents?: string[];
+  /** Position last sent on the stream callback */
+  position?: number;
+  settled: boolean;
+  /** Runs the task once started, settles after the execution unwinds */
+  running?: Promise<void>;
+  resolve: (result: XSkyResult) => void;
+  reject: (error: unknown) => void;
+};
+
+/**
+ * Runs XSky tasks with bounded concurrency, e.g. to open at most two browsers
+ * and share one LLM key between many simultaneous requests.
+ *
+ * Tasks wait until a slot is free globally (`maxConcurrentTasks`) and for each limited
+ * agent of their workflow (`agentLimits`). Waiting tasks start by priority, and tasks of
+ * the same priority are shared fairly between tenants. Queue positions are sent on the
+ * stream callback as `queue` messages. Task prompts are planned once they are admitted,
+ * and wait again if the agents of the planned workflow are busy.
+ *
+ * @example
+ * const queue = new TaskQueue(xsky, { maxConcurrentTasks: 4, agentLimits: { Browser: 2 } });
+ * const result = await queue.run("Check the price of ...", { tenant: "acme", priority: 1 });
+ */
+export class TaskQueue {
+  private xsky: XSky;
+  private maxConcurrentTasks: number;
+  private agentLimits: Record<string, number>;
+  private waiting: QueueEntry[] = [];
+  private running: Set<QueueEntry> = new Set();
+  /** Running tasks by agent name, for the limited agents */
+  private agentsRunning: Map<string, number> = new Map();
+  /** Running tasks by tenant */
+  private tenantsRunning: Map<string, number> = new Map();
+  /** Order tenants were last served in, the least recently served goes first on ties */
+  private tenantsServed: Map<string, number> = new Map();
+  private seq: number = 0;
+  private closed: boolean = false;
+
+  /**
+   * Creates a new TaskQueue.
+   * @param xsky - The XSky instance running the tasks.
+   * @param options - The concurrency limits.
+   */
+  constructor(xsky: XSky, options: TaskQueueOptions = {}) {
+    this.xsky = xsky;
+    this.maxConcurrentTasks = options.maxConcurrentTasks || 1;
+    this.agentLimits = options.agentLimits || {};
+  }
+
+  /**
+   * Plans and executes a task prompt once the queue admits it, see `XSky.run`.
+   * @param taskPrompt - The prompt for the task.
+   * @param options - The task ID, context parameters, priority and tenant.
+   * @returns A promise that resolves to the result of the execution.
+   */
+  run(taskPrompt: string, options: TaskQueueRunOptions = {}): Promise<XSkyResult> {
+    const taskId = options.taskId || uuidv4();
+    return this.submit(
+      taskId,
+      options,
+      () => this.xsky.execute(taskId),
+      () => this.xsky.generate(taskPrompt, taskId, options.contextParams)
+    );
+  }
+
+  /**
+   * Executes an initialized task once the queue admits it, see `XSky.execute`.
+   * @param taskId - The ID of the task, planned with `XSky.generate` or initialized with `XSky.initContext`.
+   * @param options - The execution options, priority and tenant.
+   * @returns A promise that resolves to the result of the execution.
+   */
+  execute(taskId: string, options: TaskQueueExecuteOptions = {}): Promise<XSkyResult> {
+    return this.submit(taskId, options, () =>
+      this.xsky.execute(taskId, { dryRun: options.dryRun })
+    );
+  }
+
+  /**
+   * Gets the position of a waiting task, from 1.
+   * @param taskId - The ID of the task.
+   * @returns The position, 0 if the task is running, undefined if it is not in the queue.
+   */
+  getPosition(taskId: string): number | undefined {
+    if ([...this.running].some((entry) => entry.taskId == taskId)) {
+      return 0;
+    }
+    const index = this.order().findIndex((entry) => entry.taskId == taskId);
+    return index > -1 ? index + 1 : undefined;
+  }
+
+  /**
+   * Gets the number of waiting and running tasks.
+   */
+  getStats(): { waiting: number; running: number } {
+    return { waiting: this.waiting.length, running: this.running.size };
+  }
+
+  /**
+   * Shuts the queue down gracefully, e.g. before a process restart.
+   *
+   * New tasks are rejected and waiting tasks are cancelled. Running tasks are paused once
+   * their current step is aborted, checkpointed (with `stateConfig`) to be resumed with
+   * `XSky.resume`, then stopped and deleted, the checkpoint is kept. Tasks still planning
+   * are aborted. The promises of all unfinished tasks resolve with an "abort" result.
+   *
+   * @returns The paused and cancelled tasks.
+   */
+  async shutdown(): Promise<TaskQueueShutdownResult> {
+    this.closed = true;
+    const result: TaskQueueShutdownResult = { paused: [], cancelled: [] };
+    const waiting = this.waiting;
+    this.waiting = [];
+    waiting.forEach((entry) => {
+      result.cancelled.push(entry.taskId);
+      this.settle(entry, "The task queue was shut down before the task started");
+    });
+    for (const entry of [...this.running]) {
+      if (entry.settled) {
+        continue;
+      }
+      if (!entry.agents) {
+        this.xsky.abortTask(entry.taskId, "Shutdown");
+        result.cancelled.push(entry.taskId);
+        this.settle(entry, "The task queue was shut down before the task started");
+        continue;
+      }
+      const context = this.xsky.getTask(entry.taskId);
+      if (context) {
+        context.setPause(true, true);
+        await context.waitForPause();
+        await context.createCheckpoint();
+        // Unwind the execution to stop its timers, a failed task keeps its checkpoint
+        this.xsky.abortTask(entry.taskId, "Shutdown");
+      }
+      result.paused.push(entry.taskId);
+      this.settle(entry, "The task was paused by the shutdown of the task queue");
+      await entry.running;
+      this.xsky.deleteTask(entry.taskId);
+    }
+    return result;
+  }
+
+  private submit(
+    taskId: string,
+    options: TaskQueueRunOptions | TaskQueueExecuteOptions,
+    execute: () => Promise<XSkyResult>,
+    plan?: () => Promise<unknown>
+  ): Promise<XSkyResult> {
+    if (this.closed) {
+      return Promise.reject(new Error("The task queue is shut down"));
+    }
+    return new Promise<XSkyResult>((resolve, reject) => {
+      const entry: QueueEntry = {
+        seq: this.seq++,
+        taskId,
+        priority: options.priority || 0,
+        tenant: options.tenant || "default",
+        plan,
+        execute,
+        settled: false,
+        resolve,
+        reject,
+      };
+      if (!plan) {
+        const workflow = this.xsky.getTask(taskId)?.workflow;
+        if (!workflow) {
+          reject(new Error("The task does not exist"));
+          return;
+        }
+        entry.agents = this.limitedAgents(taskId);
+      }
+      this.waiting.push(entry);
+      this.drain();
+    });
+  }
+
+  /**
+   * Starts the waiting tasks that fit in the free slots, in queue order.
+   */
+  private drain() {
+    while (!this.closed && this.running.size < this.maxConcurrentTasks) {
+      const entry = this.order().find((item) => this.fits(item));
+      if (!entry) {
+        break;
+      }
+      this.waiting = this.waiting.filter((item) => item != entry);
+      this.acquire(entry);
+      this.notify(entry, "started", 0);
+      entry.running = this.start(entry);
+    }
+    this.order().forEach((entry, index) => {
+      if (entry.position != index + 1) {
+        this.notify(entry, "waiting", index + 1);
+      }
+    });
+  }
+
+  private async start(entry: QueueEntry) {
+    try {
+      if (entry.plan) {
+        const plan = entry.plan;
+        entry.plan = undefined;
+        await plan();
+        const agents = this.limitedAgents(entry.taskId);
+        if (!entry.settled && !this.fitsAgents(agents)) {
+          // Wait for the agents of the planned workflow without holding a slot
+          this.release(entry);
+          entry.agents = agents;
+          this.waiting.push(entry);
+          this.drain();
+          return;
+        }
+        entry.agents = agents;
+        agents.forEach((name) => this.increment(this.agentsRunning, name, 1));
+      }
+      if (!entry.settled) {
+        this.settle(entry, await entry.execute());
+      }
+    } catch (e) {
+      if (!entry.settled) {
+        entry.settled = true;
+        entry.reject(e);
+      }
+    }
+    this.release(entry);
+    this.drain();
+  }
+
+  /**
+   * Orders the waiting tasks by priority, then by tenant fairness and submission order.
+   * Fairness is simulated as if the tasks started in this order.
+   */
+  private order(): QueueEntry[] {
+    const running = new Map(this.tenantsRunning);
+    const served = new Map(this.tenantsServed);
+    let serveSeq = this.seq;
+    const remaining = [...this.waiting];
+    const ordered: QueueEntry[] = [];
+    while (remaining.length > 0) {
+      let best = remaining[0];
+      for (const entry of remaining) {
+        if (this.compare(entry, best, running, served) < 0) {
+          best = entry;
+        }
+      }
+      remaining.splice(remaining.indexOf(best), 1);
+      ordered.push(best);
+      running.set(best.tenant, (running.get(best.tenant) || 0) + 1);
+      served.set(best.tenant, serveSeq++);
+    }
+    return ordered;
+  }
+
+  private compare(
+    a: QueueEntry,
+    b: QueueEntry,
+    running: Map<string, number>,
+    served: Map<string, number>
+  ): number {
+    return (
+      b.priority - a.priority ||
+      (running.get(a.tenant) || 0) - (running.get(b.tenant) || 0) ||
+      (served.get(a.tenant) ?? -1) - (served.get(b.tenant) ?? -1) ||
+      a.seq - b.seq
+    );
+  }
+
+  private fits(entry: QueueEntry): boolean {
+    return !entry.agents || this.fitsAgents(entry.agents);
+  }
+
+  private fitsAgents(agents: string[]): boolean {
+    return agents.every(
+      (name) => (this.agentsRunning.get(name) || 0) < this.agentLimits[name]
+    );
+  }
+
+  private acquire(entry: QueueEntry) {
+    this.running.add(entry);
+    this.increment(this.tenantsRunning, entry.tenant, 1);
+    this.tenantsServed.set(entry.tenant, this.seq++);
+    entry.agents?.forEach((name) => this.increment(this.agentsRunning, name, 1));
+  }
+
+  private release(entry: QueueEntry) {
+    if (!this.running.delete(entry)) {
+      return;
+    }
+    this.increment(this.tenantsRunning, entry.tenant, -1);
+    entry.agents?.forEach((name) => this.increment(this.agentsRunning, name, -1));
+  }
+
+  private increment(counts: Map<string, number>, key: string, delta: number) {
+    const count = (counts.get(key) || 0) + delta;
+    count > 0 ? counts.set(key, count) : counts.delete(key);
+  }
+
+  /**
+   * Gets the agents of the workflow of a task that have a concurrency limit.
+   */
+  private limitedAgents(taskId: string): string[] {
+    const workflow = this.xsky.getTask(taskId)?.workflow;
+    const names = (workflow?.agents || [])
+      .filter((agent) => !agent.subWorkflow)
+      .map((agent) => agent.name);
+    return [...new Set(names)].filter((name) => this.agentLimits[name] !== undefined);
+  }
+
+  private settle(entry: QueueEntry, result: XSkyResult | string) {
+    if (entry.settled) {
+      return;
+    }
+    entry.settled = true;
+    entry.resolve(
+      typeof result == "string"
+        ? { taskId: entry.taskId, success: false, stopReason: "abort", result }
+        : result
+    );
+  }
+
+  private notify(entry: QueueEntry, status: "waiting" | "started", position: number) {
+    entry.position = position;
+    const callback = this.xsky.config.callback;
+    if (!callback) {
+      return;
+    }
+    callback
+      .onMessage({
+        taskId: entry.taskId,
+        agentName: "TaskQueue",
+        type: "queue",
+        status,
+        position,
+        length: this.waiting.length,
+      })
+      .catch((e) => {
+        Log.error("Task queue callback error:", e);
+      });
+  }
+}
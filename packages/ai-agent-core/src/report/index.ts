@@ -0,0 +1,17 @@
+/**
+ * Execution report module for XSky agent framework.
+ * Turns a finished task into an HTML, Markdown or JSON timeline.
+ */
+
+export { ExecutionRecorder } from './recorder';
+export { buildExecutionReport, type ExecutionReportOptions } from './report';
+export { renderExecutionReport } from './render';
+
+export type {
+  ExecutionReport,
+  ExecutionReportAgent,
+  ExecutionReportStep,
+  ExecutionReportToolCall,
+  ExecutionReportFormat,
+  RecordedStreamEvent,
+} from '../types/report.types';
@@ -0,0 +1,113 @@
+import type { AgentContext } from "../core/context";
+import type {
+  HumanCallback,
+  StreamCallback,
+  StreamCallbackMessage,
+} from "../types/core.types";
+import type { RecordedStreamEvent } from "../types/report.types";
+
+/**
+ * A stream callback capturing the messages of tasks for their execution reports,
+ * forwarding them to another callback. The human callbacks of the other callback are kept.
+ *
+ * @example
+ * const recorder = new ExecutionRecorder(callback);
+ * const xsky = new XSky({ llms, agents, callback: recorder });
+ * const result = await xsky.run("Export the invoices", taskId);
+ * const report = buildExecutionReport(xsky.getTask(taskId)!, {
+ *   events: recorder.getEvents(taskId),
+ *   result,
+ * });
+ */
+export class ExecutionRecorder implements StreamCallback, HumanCallback {
+  private callback?: StreamCallback & HumanCallback;
+  private events: RecordedStreamEvent[] = [];
+  /** Events of the texts still streaming, by stream */
+  private streams: Map<string, RecordedStreamEvent> = new Map();
+
+  onHumanConfirm?: HumanCallback["onHumanConfirm"];
+  onHumanInput?: HumanCallback["onHumanInput"];
+  onHumanSelect?: HumanCallback["onHumanSelect"];
+  onHumanHelp?: HumanCallback["onHumanHelp"];
+
+  /**
+   * Creates a new ExecutionRecorder.
+   * @param callback - Optional callback the messages and human requests are forwarded to.
+   */
+  constructor(callback?: StreamCallback & HumanCallback) {
+    this.callback = callback;
+    // Only the human callbacks it implements, the human_interact tool checks which exist
+    this.onHumanConfirm = callback?.onHumanConfirm?.bind(callback);
+    this.onHumanInput = callback?.onHumanInput?.bind(callback);
+    this.onHumanSelect = callback?.onHumanSelect?.bind(callback);
+    this.onHumanHelp = callback?.onHumanHelp?.bind(callback);
+  }
+
+  async onMessage(
+    message: StreamCallbackMessage,
+    agentContext?: AgentContext
+  ): Promise<void> {
+    this.record(message);
+    if (this.callback) {
+      await this.callback.onMessage(message, agentContext);
+    }
+  }
+
+  /**
+   * Records a message.
+   * @param message - The stream callback message.
+   */
+  record(message: StreamCallbackMessage): void {
+    const now = Date.now();
+    if (message.type == "tool_streaming") {
+      // The tool_use message carries the complete params
+      return;
+    }
+    if (
+      message.type == "text" ||
+      message.type == "thinking" ||
+      message.type == "tool_running"
+    ) {
+      const key = message.taskId + ":" + message.type + ":" + message.streamId;
+      let event = this.streams.get(key);
+      if (event) {
+        event.message = message;
+        event.endTime = now;
+      } else {
+        event = { time: now, message };
+        this.events.push(event);
+        this.streams.set(key, event);
+      }
+      if (message.streamDone) {
+        this.streams.delete(key);
+      }
+      return;
+    }
+    this.events.push({ time: now, message });
+  }
+
+  /**
+   * Gets the recorded events, in order.
+   * @param taskId - Optional ID of the task to get the events of.
+   */
+  getEvents(taskId?: string): RecordedStreamEvent[] {
+    return taskId
+      ? this.events.filter((event) => event.message.taskId == taskId)
+      : [...this.events];
+  }
+
+  /**
+   * Forgets the events of a task, or of every task.
+   * @param taskId - Optional ID of the task.
+   */
+  clear(taskId?: string): void {
+    this.events = taskId
+      ? this.events.filter((event) => event.message.taskId != taskId)
+      : [];
+    for (const [key, event] of this.streams) {
+      if (!taskId || event.message.taskId == taskId) {
+        this.streams.delete(key);
+      }
+    }
+  }
+}
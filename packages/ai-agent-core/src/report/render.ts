@@ -0,0 +1,260 @@
+import type {
+  ExecutionReport,
+  ExecutionReportAgent,
+  ExecutionReportFormat,
+  ExecutionReportImage,
+  ExecutionReportStep,
+  ExecutionReportToolCall,
+  ExecutionReportUsage,
+} from "../types/report.types";
+
+/**
+ * Renders an execution report as a self-contained HTML page, Markdown or JSON.
+ * Images, e.g. screenshots, are inlined as data URLs.
+ * @param report - The execution report, see `buildExecutionReport`.
+ * @param format - The output format.
+ * @returns The rendered report.
+ */
+export function renderExecutionReport(
+  report: ExecutionReport,
+  format: ExecutionReportFormat
+): string {
+  switch (format) {
+    case "html":
+      return renderHtml(report);
+    case "markdown":
+      return renderMarkdown(report);
+    case "json":
+      return JSON.stringify(report, null, 2);
+    default:
+      throw new Error("Unsupported report format: " + format);
+  }
+}
+
+function renderMarkdown(report: ExecutionReport): string {
+  const lines: string[] = [
+    `# Execution report: ${report.name || report.taskId}`,
+    "",
+    ...summary(report).map(([label, value]) => `- **${label}:** ${value}`),
+    "",
+    "## Task",
+    "",
+    report.taskPrompt,
+  ];
+  if (report.thought) {
+    lines.push("", "## Plan", "", report.thought);
+  }
+  if (report.result !== undefined) {
+    lines.push("", "## Result", "", report.result);
+  }
+  report.agents.forEach((agent, i) => {
+    lines.push(
+      "",
+      `## Agent ${i + 1}: ${agent.name} (${agent.status})`,
+      "",
+      ...agentSummary(agent).map(([label, value]) => `- **${label}:** ${value}`)
+    );
+    if (agent.error) {
+      lines.push("", `> **Error:** ${agent.error}`);
+    }
+    for (const step of agent.steps) {
+      lines.push("", `### Step ${step.index + 1}${stepSuffix(step)}`);
+      if (step.thinking) {
+        lines.push("", ...step.thinking.split("\n").map((line) => "> " + line));
+      }
+      if (step.text) {
+        lines.push("", step.text);
+      }
+      step.images.forEach((image) => lines.push("", markdownImage(image)));
+      for (const error of step.errors) {
+        lines.push("", `> **Error:** ${error}`);
+      }
+      for (const call of step.toolCalls) {
+        lines.push(
+          "",
+          `#### Tool \`${call.toolName}\` ${toolStatus(call)}`,
+          "",
+          codeBlock(JSON.stringify(call.params, null, 2), "json")
+        );
+        if (call.result) {
+          lines.push("", codeBlock(call.result, "text"));
+        }
+        call.images.forEach((image) => lines.push("", markdownImage(image)));
+      }
+    }
+    if (agent.result) {
+      lines.push("", "**Agent result:**", "", agent.result);
+    }
+  });
+  return lines.join("\n") + "\n";
+}
+
+function renderHtml(report: ExecutionReport): string {
+  const title = `Execution report: ${report.name || report.taskId}`;
+  const agents = report.agents
+    .map((agent, i) => {
+      const steps = agent.steps.map((step) => htmlStep(step)).join("\n");
+      return `<section class="agent ${agent.status}">
+<h2>Agent ${i + 1}: ${escapeHtml(agent.name)} <span class="badge">${escapeHtml(agent.status)}</span></h2>
+${htmlTable(agentSummary(agent))}
+${agent.error ? `<div class="error">${escapeHtml(agent.error)}</div>` : ""}
+<ol class="timeline">
+${steps}
+</ol>
+${agent.result ? `<h3>Agent result</h3>\n<pre>${escapeHtml(agent.result)}</pre>` : ""}
+</section>`;
+    })
+    .join("\n");
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(title)}</title>
+<style>
+body { font-family: system-ui, sans-serif; margin: 2em auto; max-width: 1100px; color: #222; }
+table { border-collapse: collapse; margin: .5em 0; }
+th, td { text-align: left; padding: 2px 12px 2px 0; vertical-align: top; }
+pre { background: #f5f5f5; padding: .6em; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+img { max-width: 100%; border: 1px solid #ccc; margin: .5em 0; }
+section.agent { border-top: 2px solid #ddd; margin-top: 1.5em; }
+.badge { font-size: .6em; padding: 2px 8px; border-radius: 8px; background: #e0e0e0; vertical-align: middle; }
+.done .badge, .ok { background: #d4edda; }
+.error, .failed { background: #f8d7da; }
+.error { padding: .6em; }
+.timeline > li { margin: 1em 0; }
+.thinking { color: #666; font-style: italic; border-left: 3px solid #ccc; padding-left: .8em; white-space: pre-wrap; }
+.tool { border: 1px solid #ddd; border-radius: 4px; padding: .4em .8em; margin: .4em 0; }
+.tool.failed { border-color: #e0a0a6; }
+.meta { color: #666; font-size: .9em; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+${htmlTable(summary(report))}
+<h2>Task</h2>
+<pre>${escapeHtml(report.taskPrompt)}</pre>
+${report.thought ? `<h2>Plan</h2>\n<pre>${escapeHtml(report.thought)}</pre>` : ""}
+${report.result !== undefined ? `<h2>Result</h2>\n<pre>${escapeHtml(report.result)}</pre>` : ""}
+${agents}
+</body>
+</html>
+`;
+}
+
+function htmlStep(step: ExecutionReportStep): string {
+  const parts: string[] = [
+    `<li class="step"><strong>Step ${step.index + 1}</strong> <span class="meta">${escapeHtml(stepSuffix(step))}</span>`,
+  ];
+  if (step.thinking) {
+    parts.push(`<div class="thinking">${escapeHtml(step.thinking)}</div>`);
+  }
+  if (step.text) {
+    parts.push(`<pre>${escapeHtml(step.text)}</pre>`);
+  }
+  step.images.forEach((image) => parts.push(htmlImage(image)));
+  step.errors.forEach((error) =>
+    parts.push(`<div class="error">${escapeHtml(error)}</div>`)
+  );
+  for (const call of step.toolCalls) {
+    parts.push(`<details class="tool ${call.isError ? "failed" : "ok"}" open>
+<summary><code>${escapeHtml(call.toolName)}</code> ${escapeHtml(toolStatus(call))}</summary>
+<pre>${escapeHtml(JSON.stringify(call.params, null, 2))}</pre>
+${call.result ? `<pre>${escapeHtml(call.result)}</pre>` : ""}
+${call.images.map((image) => htmlImage(image)).join("\n")}
+</details>`);
+  }
+  parts.push("</li>");
+  return parts.join("\n");
+}
+
+function htmlTable(rows: [string, string][]): string {
+  return `<table>\n${rows
+    .map(([label, value]) => `<tr><th>${escapeHtml(label)}</th><td>${escapeHtml(value)}</td></tr>`)
+    .join("\n")}\n</table>`;
+}
+
+function htmlImage(image: ExecutionReportImage): string {
+  return `<img src="${escapeHtml(dataUrl(image))}" alt="screenshot">`;
+}
+
+function markdownImage(image: ExecutionReportImage): string {
+  return `![screenshot](${dataUrl(image)})`;
+}
+
+function dataUrl(image: ExecutionReportImage): string {
+  return image.data.startsWith("data:")
+    ? image.data
+    : `data:${image.mimeType};base64,${image.data}`;
+}
+
+function summary(report: ExecutionReport): [string, string][] {
+  const rows: [string, string][] = [["Task ID", report.taskId]];
+  if (report.success !== undefined) {
+    rows.push(["Status", report.success ? "Success" : `Failed (${report.stopReason})`]);
+  }
+  if (report.startTime !== undefined) {
+    rows.push(["Started", new Date(report.startTime).toISOString()]);
+  }
+  if (report.startTime !== undefined && report.endTime !== undefined) {
+    rows.push(["Duration", formatDuration(report.endTime - report.startTime)]);
+  }
+  rows.push(["Tokens", formatUsage(report.usage)]);
+  if (report.error) {
+    rows.push(["Error", report.error]);
+  }
+  return rows;
+}
+
+function agentSummary(agent: ExecutionReportAgent): [string, string][] {
+  const rows: [string, string][] = [
+    ["ID", agent.id],
+    ["Task", agent.task],
+  ];
+  if (agent.startTime !== undefined && agent.endTime !== undefined) {
+    rows.push(["Duration", formatDuration(agent.endTime - agent.startTime)]);
+  }
+  rows.push(["Tokens", formatUsage(agent.usage)]);
+  return rows;
+}
+
+function stepSuffix(step: ExecutionReportStep): string {
+  const details: string[] = [];
+  if (step.startTime !== undefined) {
+    details.push(new Date(step.startTime).toISOString());
+  }
+  if (step.startTime !== undefined && step.endTime !== undefined) {
+    details.push(formatDuration(step.endTime - step.startTime));
+  }
+  if (step.usage) {
+    details.push(formatUsage(step.usage));
+  }
+  return details.length ? ` (${details.join(", ")})` : "";
+}
+
+function toolStatus(call: ExecutionReportToolCall): string {
+  const status = call.isError ? "failed" : "succeeded";
+  return call.attempts > 1 ? `${status} after ${call.attempts} attempts` : status;
+}
+
+function formatUsage(usage: ExecutionReportUsage): string {
+  return `${usage.totalTokens} tokens (${usage.promptTokens} prompt, ${usage.completionTokens} completion)`;
+}
+
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+}
+
+function codeBlock(text: string, language: string): string {
+  // A fence longer than any backtick run of the text
+  const runs = text.match(/`+/g) || [];
+  const fence = "`".repeat(Math.max(3, ...runs.map((run) => run.length + 1)));
+  return `${fence}${language}\n${text}\n${fence}`;
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
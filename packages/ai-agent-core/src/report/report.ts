@@ -0,0 +1,278 @@
+import type Context from "../core/context";
+import type { AgentChain } from "../core/chain";
+import type { ToolResult } from "../types/tools.types";
+import type { WorkflowAgent, XSkyResult } from "../types/core.types";
+import type {
+  ExecutionReport,
+  ExecutionReportAgent,
+  ExecutionReportStep,
+  ExecutionReportToolCall,
+  ExecutionReportUsage,
+  RecordedStreamEvent,
+} from "../types/report.types";
+
+/**
+ * Options for building an execution report.
+ * @property events - Stream events of the task, captured by an `ExecutionRecorder`.
+ * @property result - The result returned by `XSky.execute`.
+ */
+export type ExecutionReportOptions = {
+  events?: RecordedStreamEvent[];
+  result?: XSkyResult;
+};
+
+/**
+ * Builds the execution report of a task.
+ *
+ * The agents, tool params and tool results come from `context.chain`. The stream events add
+ * the timeline: the steps of each agent (one per LLM call) with their thinking, text,
+ * token usage and errors. Without events, the tool calls of an agent are reported in one step.
+ *
+ * @param context - The context of the task.
+ * @param options - The recorded events and the result of the task.
+ * @returns The execution report.
+ */
+export function buildExecutionReport(
+  context: Context,
+  options: ExecutionReportOptions = {}
+): ExecutionReport {
+  const events = (options.events || []).filter(
+    (event) => event.message.taskId == context.taskId
+  );
+  const agentChains = context.chain.agents;
+  const workflowAgents = context.workflow?.agents || [];
+  const agents: ExecutionReportAgent[] = agentChains.map((agentChain) =>
+    buildAgent(agentChain.agent, agentChain, events)
+  );
+  // Agents that did not run, e.g. after an error
+  for (const agentNode of workflowAgents) {
+    if (!agentChains.some((agentChain) => agentChain.agent.id == agentNode.id)) {
+      agents.push(buildAgent(agentNode, undefined, events));
+    }
+  }
+  const result = options.result;
+  const times = events.map((event) => event.time);
+  return {
+    taskId: context.taskId,
+    name: context.workflow?.name,
+    taskPrompt: context.workflow?.taskPrompt || context.chain.taskPrompt,
+    thought: context.workflow?.thought,
+    success: result?.success,
+    stopReason: result?.stopReason,
+    result: result?.result,
+    error: result?.error ? errorText(result.error) : undefined,
+    startTime: times.length ? Math.min(...times) : undefined,
+    endTime: times.length
+      ? Math.max(...events.map((event) => event.endTime || event.time))
+      : undefined,
+    usage: sumUsage(agents.map((agent) => agent.usage)),
+    agents,
+    generatedAt: Date.now(),
+  };
+}
+
+function buildAgent(
+  agentNode: WorkflowAgent,
+  agentChain: AgentChain | undefined,
+  events: RecordedStreamEvent[]
+): ExecutionReportAgent {
+  const agent: ExecutionReportAgent = {
+    id: agentNode.id,
+    name: agentNode.name,
+    task: agentNode.task,
+    status: agentNode.status,
+    result: agentChain?.agentResult,
+    usage: sumUsage([]),
+    steps: [],
+  };
+  let step: ExecutionReportStep | undefined;
+  let finished = true;
+  const currentStep = (time?: number): ExecutionReportStep => {
+    if (!step || finished) {
+      step = {
+        index: agent.steps.length,
+        startTime: time,
+        toolCalls: [],
+        images: [],
+        errors: [],
+      };
+      agent.steps.push(step);
+      finished = false;
+    }
+    return step;
+  };
+
+  for (const event of events) {
+    const message = event.message;
+    if (message.nodeId != agentNode.id) {
+      continue;
+    }
+    switch (message.type) {
+      case "agent_start":
+        agent.startTime = event.time;
+        break;
+      case "agent_result":
+        agent.endTime = event.time;
+        if (message.error) {
+          agent.error = errorText(message.error);
+        }
+        if (message.result && !agent.result) {
+          agent.result = message.result;
+        }
+        break;
+      case "thinking":
+        if (message.text) {
+          currentStep(event.time).thinking = message.text;
+        }
+        break;
+      case "text":
+        if (message.text) {
+          currentStep(event.time).text = message.text;
+        }
+        break;
+      case "file":
+        currentStep(event.time).images.push({
+          mimeType: message.mimeType,
+          data: message.data,
+        });
+        break;
+      case "tool_use":
+        currentStep(event.time).toolCalls.push({
+          toolCallId: message.toolId,
+          toolName: message.toolName,
+          params: message.params,
+          images: [],
+          isError: false,
+          attempts: 0,
+          startTime: event.time,
+        });
+        break;
+      case "finish": {
+        const finishedStep = currentStep(event.time);
+        finishedStep.usage = { ...message.usage };
+        finishedStep.finishReason = message.finishReason;
+        finishedStep.endTime = event.time;
+        finished = true;
+        break;
+      }
+      case "tool_result": {
+        const [callStep, toolCall] = findToolCall(agent, message.toolId) || [
+          currentStep(event.time),
+          undefined,
+        ];
+        const call =
+          toolCall ||
+          addToolCall(callStep, message.toolId, message.toolName, message.params);
+        applyToolResult(call, message.toolResult);
+        call.attempts++;
+        call.endTime = event.time;
+        callStep.endTime = Math.max(callStep.endTime || 0, event.time);
+        break;
+      }
+      case "error":
+        currentStep(event.time).errors.push(errorText(message.error));
+        break;
+    }
+  }
+
+  // The chain has the params after the hooks, and every attempt of a retried tool
+  for (const toolChain of agentChain?.tools || []) {
+    let found = findToolCall(agent, toolChain.toolCallId);
+    if (!found) {
+      const lastStep = agent.steps[agent.steps.length - 1] || currentStep();
+      found = [
+        lastStep,
+        addToolCall(lastStep, toolChain.toolCallId, toolChain.toolName, {}),
+      ];
+    }
+    const call = found[1];
+    if (toolChain.params) {
+      call.params = toolChain.params;
+    }
+    if (toolChain.toolResult) {
+      applyToolResult(call, toolChain.toolResult);
+    }
+  }
+  for (const step of agent.steps) {
+    for (const call of step.toolCalls) {
+      const attempts = (agentChain?.tools || []).filter(
+        (toolChain) => toolChain.toolCallId == call.toolCallId
+      ).length;
+      call.attempts = Math.max(call.attempts, attempts, 1);
+    }
+  }
+
+  agent.usage = sumUsage(agent.steps.map((step) => step.usage));
+  agent.startTime ??= agent.steps[0]?.startTime;
+  agent.endTime ??= agent.steps[agent.steps.length - 1]?.endTime;
+  return agent;
+}
+
+function findToolCall(
+  agent: ExecutionReportAgent,
+  toolCallId: string
+): [ExecutionReportStep, ExecutionReportToolCall] | undefined {
+  for (let i = agent.steps.length - 1; i >= 0; i--) {
+    const toolCall = agent.steps[i].toolCalls.find(
+      (call) => call.toolCallId == toolCallId
+    );
+    if (toolCall) {
+      return [agent.steps[i], toolCall];
+    }
+  }
+  return undefined;
+}
+
+function addToolCall(
+  step: ExecutionReportStep,
+  toolCallId: string,
+  toolName: string,
+  params: Record<string, unknown>
+): ExecutionReportToolCall {
+  const call: ExecutionReportToolCall = {
+    toolCallId,
+    toolName,
+    params,
+    images: [],
+    isError: false,
+    attempts: 0,
+  };
+  step.toolCalls.push(call);
+  return call;
+}
+
+function applyToolResult(call: ExecutionReportToolCall, toolResult: ToolResult) {
+  const content = toolResult.content as ToolResult["content"][number][];
+  call.result = content
+    .map((part) => (part.type == "text" ? part.text : ""))
+    .filter((text) => text)
+    .join("\n");
+  call.images = content
+    .filter((part) => part.type == "image")
+    .map((part) => ({
+      mimeType: (part as { mimeType?: string }).mimeType || "image/png",
+      data: (part as { data: string }).data,
+    }));
+  call.isError = !!toolResult.isError;
+}
+
+function sumUsage(
+  usages: (ExecutionReportUsage | undefined)[]
+): ExecutionReportUsage {
+  const sum = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+  for (const usage of usages) {
+    if (usage) {
+      sum.promptTokens += usage.promptTokens || 0;
+      sum.completionTokens += usage.completionTokens || 0;
+      sum.totalTokens += usage.totalTokens || 0;
+    }
+  }
+  return sum;
+}
+
+function errorText(error: unknown): string {
+  if (error instanceof Error) {
+    return error.name + ": " + error.message;
+  }
+  return typeof error == "string" ? error : JSON.stringify(error);
+}
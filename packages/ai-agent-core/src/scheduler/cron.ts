@@ -0,0 +1,143 @@
+// Cron expressions of recurring schedules
+
+const MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+const MONTH_NAMES = ["JAN", "FEB", "MAR", "APR", "MAY", "JUN", "JUL", "AUG", "SEP", "OCT", "NOV", "DEC"];
+const WEEKDAY_NAMES = ["SUN", "MON", "TUE", "WED", "THU", "FRI", "SAT"];
+
+/**
+ * A parsed cron expression, with the allowed values of each field.
+ */
+export type CronExpression = {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  weekdays: Set<number>;
+  /** Whether the day of month is `*`, days then match on the day of week only */
+  anyDay: boolean;
+  /** Whether the day of week is `*`, days then match on the day of month only */
+  anyWeekday: boolean;
+};
+
+/**
+ * Parses a cron expression of five fields (minute, hour, day of month, month, day of week)
+ * or a macro (`@hourly`, `@daily`, `@weekly`, `@monthly`, `@yearly`).
+ *
+ * Fields support `*`, values, ranges (`1-5`), lists (`1,15`), steps (`*\/15`, `0-30/10`)
+ * and month and day names (`JAN`, `MON`). Sunday is 0 or 7. When both the day of month
+ * and the day of week are restricted, a day matching either runs, as in Vixie cron.
+ *
+ * @param expression - The cron expression.
+ * @returns The parsed expression.
+ * @throws Error if the expression is invalid.
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = (MACROS[expression.trim()] || expression).trim().split(/\s+/);
+  if (fields.length != 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`);
+  }
+  try {
+    const weekdays = parseField(fields[4], 0, 7, WEEKDAY_NAMES);
+    if (weekdays.delete(7)) {
+      weekdays.add(0);
+    }
+    return {
+      minutes: parseField(fields[0], 0, 59),
+      hours: parseField(fields[1], 0, 23),
+      days: parseField(fields[2], 1, 31),
+      months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+      weekdays,
+      anyDay: fields[2] == "*",
+      anyWeekday: fields[4] == "*",
+    };
+  } catch (e: any) {
+    throw new Error(`Invalid cron expression "${expression}": ${e.message}`);
+  }
+}
+
+/**
+ * Gets the next time matching a cron expression, in local time.
+ * @param cron - The parsed cron expression.
+ * @param after - Time in milliseconds since the epoch, the next time is strictly after it.
+ * @returns The next matching time, at the start of its minute.
+ * @throws Error if no time matches within 5 years, e.g. on February 30.
+ */
+export function nextCronTime(cron: CronExpression, after: number): number {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+  const limit = after + 5 * 366 * 24 * 3600 * 1000;
+  while (date.getTime() <= limit) {
+    if (!cron.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date.getTime();
+    }
+  }
+  throw new Error("No time matches the cron expression");
+}
+
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const day = cron.days.has(date.getDate());
+  const weekday = cron.weekdays.has(date.getDay());
+  if (cron.anyDay || cron.anyWeekday) {
+    return day && weekday;
+  }
+  return day || weekday;
+}
+
+function parseField(
+  field: string,
+  min: number,
+  max: number,
+  names: string[] = [],
+  nameOffset: number = 0
+): Set<number> {
+  const values = new Set<number>();
+  const parseValue = (text: string) => {
+    const index = names.indexOf(text.toUpperCase());
+    const value = index > -1 ? index + nameOffset : /^\d+$/.test(text) ? +text : NaN;
+    if (isNaN(value) || value < min || value > max) {
+      throw new Error(`"${text}" is not between ${min} and ${max}`);
+    }
+    return value;
+  };
+  for (const part of field.split(",")) {
+    const [range, stepText] = part.split("/");
+    const step = stepText === undefined ? 1 : +stepText;
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`Invalid step "${stepText}"`);
+    }
+    let start = min;
+    let end = max;
+    if (range != "*") {
+      const bounds = range.split("-");
+      start = parseValue(bounds[0]);
+      end = bounds.length > 1 ? parseValue(bounds[1]) : stepText === undefined ? start : max;
+      if (bounds.length > 2 || end < start) {
+        throw new Error(`Invalid range "${range}"`);
+      }
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
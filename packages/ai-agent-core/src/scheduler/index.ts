@@ -0,0 +1,8 @@
+/**
+ * Scheduler module for XSky agent framework.
+ * Runs task prompts and saved workflows on cron or interval schedules.
+ */
+
+export { Scheduler } from "./scheduler";
+export { InMemoryScheduleStore } from "./store";
+export { parseCron, nextCronTime, type CronExpression } from "./cron";
@@ -0,0 +1,359 @@
+import Log from "../common/log";
+import { uuidv4 } from "../common/utils";
+import type Context from "../core/context";
+import type { XSky } from "../core/xsky";
+import { loadSavedWorkflow } from "../core/sub-workflow";
+import { CronExpression, nextCronTime, parseCron } from "./cron";
+import { InMemoryScheduleStore } from "./store";
+import {
+  IScheduleStore,
+  Schedule,
+  ScheduleRun,
+  SchedulerClock,
+  SchedulerOptions,
+} from "../types/scheduler.types";
+
+/** Longest delay of a timer, longer waits are split */
+const MAX_TIMER_DELAY = 2 ** 31 - 1;
+
+const systemClock: SchedulerClock = {
+  now: () => Date.now(),
+  setTimeout: (callback, ms) => setTimeout(callback, ms),
+  clearTimeout: (handle) => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+type ScheduleEntry = {
+  schedule: Schedule;
+  cron?: CronExpression;
+  timer?: unknown;
+  nextRunAt?: number;
+  /** Run of the schedule waiting for a free slot or running */
+  active?: ScheduleRun;
+  /** Run waiting for the active run to finish, with the "queue" overlap policy */
+  queued?: ScheduleRun;
+};
+
+/**
+ * Runs XSky tasks on recurring schedules, e.g. hourly price checks or inbox triage.
+ *
+ * Each schedule runs a task prompt, planned on each run, or a saved workflow at the times of
+ * a cron expression or at a fixed interval. Runs are limited to `maxConcurrentRuns` at once
+ * across schedules, and the overlap policy of a schedule decides what happens when it is due
+ * while its previous run is still running. Every run is recorded in the schedule store, and the
+ * context and result of scheduled tasks carry the schedule metadata for `onWorkflowComplete` hooks.
+ *
+ * @example
+ * const scheduler = new Scheduler(xsky, { maxConcurrentRuns: 2 });
+ * scheduler.add({ id: "prices", cron: "0 * * * *", prompt: "Check the price of ..." });
+ * scheduler.start();
+ */
+export class Scheduler {
+  private xsky: XSky;
+  private store: IScheduleStore;
+  private clock: SchedulerClock;
+  private maxConcurrentRuns: number;
+  private entries: Map<string, ScheduleEntry> = new Map();
+  /** Runs waiting for a free slot, in due order */
+  private pending: { entry: ScheduleEntry; run: ScheduleRun }[] = [];
+  /** Runs executing, awaited by `idle` */
+  private executing: Set<Promise<void>> = new Set();
+  /** IDs of the runs cancelled by a newer run of their schedule */
+  private cancelled: Set<string> = new Set();
+  private started: boolean = false;
+
+  /**
+   * Creates a new Scheduler.
+   * @param xsky - The XSky instance running the tasks.
+   * @param options - The concurrency limit, run history store and clock.
+   */
+  constructor(xsky: XSky, options: SchedulerOptions = {}) {
+    this.xsky = xsky;
+    this.store = options.store || new InMemoryScheduleStore();
+    this.clock = options.clock || systemClock;
+    this.maxConcurrentRuns = options.maxConcurrentRuns || 1;
+  }
+
+  /**
+   * Adds a schedule, it is armed when the scheduler is started.
+   * @param schedule - The schedule to add.
+   * @throws Error if a schedule with the same ID exists or the schedule is invalid.
+   */
+  add(schedule: Schedule): void {
+    if (this.entries.has(schedule.id)) {
+      throw new Error(`Schedule ${schedule.id} already exists`);
+    }
+    if (!schedule.cron == !schedule.intervalMs || (schedule.intervalMs || 0) < 0) {
+      throw new Error(
+        `Schedule ${schedule.id} must have either a cron expression or a positive interval`
+      );
+    }
+    if (!schedule.prompt == !schedule.workflow) {
+      throw new Error(`Schedule ${schedule.id} must have either a prompt or a saved workflow`);
+    }
+    const entry: ScheduleEntry = {
+      schedule,
+      cron: schedule.cron ? parseCron(schedule.cron) : undefined,
+    };
+    this.entries.set(schedule.id, entry);
+    if (this.started) {
+      this.arm(entry, this.clock.now());
+    }
+  }
+
+  /**
+   * Removes a schedule. Its running run completes, its runs not started yet are skipped.
+   * @param scheduleId - The ID of the schedule.
+   * @returns True if the schedule was removed, false if it did not exist.
+   */
+  remove(scheduleId: string): boolean {
+    const entry = this.entries.get(scheduleId);
+    if (!entry) {
+      return false;
+    }
+    this.disarm(entry);
+    this.entries.delete(scheduleId);
+    const skipped = [
+      ...this.pending.filter((item) => item.entry == entry).map((item) => item.run),
+      ...(entry.queued ? [entry.queued] : []),
+    ];
+    this.pending = this.pending.filter((item) => item.entry != entry);
+    entry.queued = undefined;
+    skipped.forEach((run) => {
+      run.status = "skipped";
+      this.save(run);
+    });
+    return true;
+  }
+
+  /**
+   * Starts the scheduler, arming the timers of all schedules.
+   */
+  start(): void {
+    if (this.started) {
+      return;
+    }
+    this.started = true;
+    const now = this.clock.now();
+    this.entries.forEach((entry) => this.arm(entry, now));
+  }
+
+  /**
+   * Stops the scheduler. No new run becomes due, runs already due still complete.
+   */
+  stop(): void {
+    this.started = false;
+    this.entries.forEach((entry) => this.disarm(entry));
+  }
+
+  /**
+   * Runs a schedule now, applying its overlap policy.
+   * @param scheduleId - The ID of the schedule.
+   * @returns The run, with its initial status.
+   */
+  trigger(scheduleId: string): ScheduleRun {
+    const entry = this.entries.get(scheduleId);
+    if (!entry) {
+      throw new Error("The schedule does not exist: " + scheduleId);
+    }
+    return { ...this.due(entry, this.clock.now()) };
+  }
+
+  /**
+   * Gets the schedules.
+   */
+  getSchedules(): Schedule[] {
+    return [...this.entries.values()].map((entry) => entry.schedule);
+  }
+
+  /**
+   * Gets the next time a schedule is due, undefined when the scheduler is stopped.
+   * @param scheduleId - The ID of the schedule.
+   */
+  getNextRunTime(scheduleId: string): number | undefined {
+    const entry = this.entries.get(scheduleId);
+    return entry?.timer !== undefined ? entry.nextRunAt : undefined;
+  }
+
+  /**
+   * Gets the run history of a schedule, most recent first.
+   * @param scheduleId - The ID of the schedule.
+   * @param limit - Maximum number of runs.
+   */
+  async getRuns(scheduleId: string, limit?: number): Promise<ScheduleRun[]> {
+    return await this.store.listRuns(scheduleId, limit);
+  }
+
+  /**
+   * Gets the last finished run of a schedule, with its result.
+   * @param scheduleId - The ID of the schedule.
+   */
+  async getLastResult(scheduleId: string): Promise<ScheduleRun | undefined> {
+    const runs = await this.store.listRuns(scheduleId);
+    return runs.find((run) => run.finishedAt !== undefined);
+  }
+
+  /**
+   * Waits until no run is waiting or executing.
+   */
+  async idle(): Promise<void> {
+    while (this.executing.size > 0) {
+      await Promise.all([...this.executing]);
+    }
+  }
+
+  private arm(entry: ScheduleEntry, from: number) {
+    entry.nextRunAt = entry.cron
+      ? nextCronTime(entry.cron, from)
+      : from + entry.schedule.intervalMs!;
+    this.wait(entry, entry.nextRunAt);
+  }
+
+  private wait(entry: ScheduleEntry, time: number) {
+    const delay = Math.max(0, time - this.clock.now());
+    entry.timer = this.clock.setTimeout(() => {
+      entry.timer = undefined;
+      const now = this.clock.now();
+      if (now < time) {
+        this.wait(entry, time);
+        return;
+      }
+      // Times missed while the process was busy are not caught up
+      this.arm(entry, Math.max(time, now));
+      this.due(entry, time);
+    }, Math.min(delay, MAX_TIMER_DELAY));
+  }
+
+  private disarm(entry: ScheduleEntry) {
+    if (entry.timer !== undefined) {
+      this.clock.clearTimeout(entry.timer);
+      entry.timer = undefined;
+    }
+  }
+
+  /**
+   * Creates the run of a due schedule, and starts, queues or skips it by the overlap policy.
+   */
+  private due(entry: ScheduleEntry, scheduledAt: number): ScheduleRun {
+    const run: ScheduleRun = {
+      scheduleId: entry.schedule.id,
+      runId: uuidv4(),
+      taskId: uuidv4(),
+      scheduledAt,
+      status: "queued",
+    };
+    const active = entry.active;
+    if (active) {
+      const overlap = entry.schedule.overlap || "skip";
+      if (overlap == "skip" || (overlap == "queue" && entry.queued)) {
+        run.status = "skipped";
+        this.save(run);
+        return run;
+      } else if (overlap == "queue") {
+        entry.queued = run;
+        this.save(run);
+        return run;
+      }
+      this.cancel(entry, active);
+    }
+    this.enqueue(entry, run);
+    return run;
+  }
+
+  private cancel(entry: ScheduleEntry, run: ScheduleRun) {
+    entry.active = undefined;
+    if (run.status == "queued") {
+      this.pending = this.pending.filter((item) => item.run != run);
+      run.status = "cancelled";
+      this.save(run);
+    } else {
+      this.cancelled.add(run.runId);
+      this.xsky.abortTask(run.taskId, "Cancelled by a newer scheduled run");
+    }
+  }
+
+  private enqueue(entry: ScheduleEntry, run: ScheduleRun) {
+    entry.active = run;
+    this.pending.push({ entry, run });
+    this.save(run);
+    this.drain();
+  }
+
+  private drain() {
+    while (this.executing.size < this.maxConcurrentRuns && this.pending.length > 0) {
+      const { entry, run } = this.pending.shift()!;
+      const execution: Promise<void> = this.execute(entry, run).finally(() => {
+        this.executing.delete(execution);
+        if (entry.active == run) {
+          entry.active = undefined;
+          const queued = entry.queued;
+          entry.queued = undefined;
+          queued && this.enqueue(entry, queued);
+        }
+        this.drain();
+      });
+      this.executing.add(execution);
+    }
+  }
+
+  private async execute(entry: ScheduleEntry, run: ScheduleRun): Promise<void> {
+    const schedule = entry.schedule;
+    run.status = "running";
+    run.startedAt = this.clock.now();
+    this.save(run);
+    try {
+      let context: Context;
+      if (schedule.workflow) {
+        const saved = (this.xsky.config.workflows || []).find(
+          (item) => item.name == schedule.workflow
+        );
+        if (!saved) {
+          throw new Error("Unknown saved workflow: " + schedule.workflow);
+        }
+        context = await this.xsky.initContext(
+          loadSavedWorkflow(saved, undefined, run.taskId),
+          schedule.contextParams
+        );
+      } else {
+        await this.xsky.generate(schedule.prompt!, run.taskId, schedule.contextParams);
+        context = this.xsky.getTask(run.taskId)!;
+      }
+      if (this.cancelled.has(run.runId)) {
+        const error = new Error("Cancelled by a newer scheduled run");
+        error.name = "AbortError";
+        throw error;
+      }
+      context.schedule = {
+        scheduleId: run.scheduleId,
+        runId: run.runId,
+        scheduledAt: run.scheduledAt,
+      };
+      const result = await this.xsky.execute(run.taskId);
+      run.status = result.success
+        ? "done"
+        : this.cancelled.has(run.runId)
+        ? "cancelled"
+        : result.stopReason == "abort"
+        ? "aborted"
+        : "error";
+      run.result = result.result;
+    } catch (e: any) {
+      run.status = this.cancelled.has(run.runId)
+        ? "cancelled"
+        : e?.name == "AbortError"
+        ? "aborted"
+        : "error";
+      run.error = e?.message || String(e);
+    } finally {
+      this.cancelled.delete(run.runId);
+      this.xsky.deleteTask(run.taskId);
+      run.finishedAt = this.clock.now();
+      this.save(run);
+    }
+  }
+
+  private save(run: ScheduleRun) {
+    this.store.saveRun({ ...run }).catch((e) => {
+      Log.error("Schedule store error:", e);
+    });
+  }
+}
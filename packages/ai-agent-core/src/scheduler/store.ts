@@ -0,0 +1,39 @@
+/**
+ * Stores of the run history of schedules.
+ */
+
+import type { IScheduleStore, ScheduleRun } from "../types/scheduler.types";
+
+/**
+ * In-memory schedule store, keeping the latest runs of each schedule.
+ * The history is lost on a process restart; use a persistent store in production.
+ */
+export class InMemoryScheduleStore implements IScheduleStore {
+  private runs: Map<string, ScheduleRun[]> = new Map();
+  private historyLimit: number;
+
+  /**
+   * Creates a new InMemoryScheduleStore.
+   * @param historyLimit - Maximum number of runs kept per schedule, defaults to 100.
+   */
+  constructor(historyLimit: number = 100) {
+    this.historyLimit = historyLimit;
+  }
+
+  async saveRun(run: ScheduleRun): Promise<void> {
+    const runs = this.runs.get(run.scheduleId) || [];
+    const index = runs.findIndex((item) => item.runId == run.runId);
+    if (index > -1) {
+      runs[index] = { ...run };
+    } else {
+      runs.unshift({ ...run });
+      runs.splice(this.historyLimit);
+    }
+    this.runs.set(run.scheduleId, runs);
+  }
+
+  async listRuns(scheduleId: string, limit?: number): Promise<ScheduleRun[]> {
+    const runs = this.runs.get(scheduleId) || [];
+    return runs.slice(0, limit ?? runs.length).map((run) => ({ ...run }));
+  }
+}
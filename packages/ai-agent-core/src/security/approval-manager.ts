@@ -0,0 +1,350 @@
+/**
+ * Approval workflow for XSky security framework.
+ * Applies ApprovalConfig rules, timeouts and multi-approver requirements to approval requests.
+ */
+
+import Log from '../common/log';
+import { uuidv4 } from '../common/utils';
+import type { AgentContext } from '../core/context';
+import type { IAuditLogger, AuditLogEntry } from '../types/security.types';
+import type {
+  ApprovalConfig,
+  ApprovalRequest,
+  ApprovalResult,
+  ApprovalRule,
+} from '../types/hooks.types';
+
+const TIMEOUT = Symbol('timeout');
+
+/**
+ * Final decision of an approval request.
+ * - approved: the action may proceed
+ * - rejected: an approver rejected the action, or the approvals were insufficient
+ * - skipped: the request timed out and the action should be skipped
+ * - aborted: the request timed out and the task should be aborted
+ * - unavailable: no approval handler is configured
+ */
+export type ApprovalDecision =
+  | 'approved'
+  | 'rejected'
+  | 'skipped'
+  | 'aborted'
+  | 'unavailable';
+
+/**
+ * Outcome of an approval request.
+ */
+export interface ApprovalOutcome {
+  decision: ApprovalDecision;
+  approved: boolean;
+  reason: string;
+  timedOut: boolean;
+  result?: ApprovalResult;
+  rule?: ApprovalRule;
+}
+
+/**
+ * The tool call an approval request is about.
+ */
+export interface ApprovalToolCall {
+  toolName: string;
+  args: Record<string, any>;
+}
+
+/**
+ * Requests human approval through the `onApprovalRequired` hook, applying the rules,
+ * timeouts and onTimeout policy of an ApprovalConfig, and records every decision in the
+ * audit log when `security.auditLogging` is enabled.
+ */
+export class ApprovalManager {
+  private config: ApprovalConfig;
+  private auditLogger?: IAuditLogger;
+
+  /**
+   * Creates a new ApprovalManager.
+   * @param config - The approval configuration.
+   * @param auditLogger - Fallback audit logger when the config does not define one.
+   */
+  constructor(config: ApprovalConfig = {}, auditLogger?: IAuditLogger) {
+    this.config = config;
+    this.auditLogger = config.auditLogger || auditLogger;
+  }
+
+  /**
+   * Finds the first rule whose condition matches a tool call.
+   * A condition that throws is treated as not matching.
+   */
+  findRule(
+    context: AgentContext,
+    toolCall: ApprovalToolCall
+  ): ApprovalRule | undefined {
+    for (const rule of this.config.rules || []) {
+      try {
+        if (rule.condition(context, toolCall)) {
+          return rule;
+        }
+      } catch (error) {
+        Log.error('Approval rule condition error:', error);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Requests approval for a tool call.
+   * @param context - The agent context of the tool call.
+   * @param toolCall - The tool call to approve.
+   * @param request - The approval request; unset options are filled from the matching rule and config.
+   * @returns The outcome of the request.
+   */
+  async request(
+    context: AgentContext,
+    toolCall: ApprovalToolCall,
+    request: ApprovalRequest
+  ): Promise<ApprovalOutcome> {
+    const rule = this.findRule(context, toolCall);
+    const fullRequest: ApprovalRequest = {
+      ...request,
+      timeout: request.timeout ?? rule?.timeout ?? this.config.defaultTimeout,
+      channel: request.channel ?? rule?.channel ?? this.config.defaultChannel,
+      requiredApprovers: request.requiredApprovers ?? rule?.requiredApprovers,
+      minimumApprovals: request.minimumApprovals ?? rule?.minimumApprovals,
+    };
+
+    let outcome: ApprovalOutcome;
+    if (rule?.autoApprove) {
+      outcome = {
+        decision: 'approved',
+        approved: true,
+        reason: 'Auto-approved by rule',
+        timedOut: false,
+        result: { approved: true, approver: 'rule', timestamp: Date.now() },
+      };
+    } else {
+      outcome = await this.ask(context, fullRequest);
+      if (outcome.timedOut) {
+        outcome = await this.onTimeout(context, toolCall, fullRequest, rule);
+      }
+    }
+    outcome.rule = rule;
+
+    await this.logDecision(context, toolCall, fullRequest, outcome);
+    return outcome;
+  }
+
+  /**
+   * Applies the onTimeout policy to a timed out request.
+   */
+  private async onTimeout(
+    context: AgentContext,
+    toolCall: ApprovalToolCall,
+    request: ApprovalRequest,
+    rule?: ApprovalRule
+  ): Promise<ApprovalOutcome> {
+    const policy = this.config.onTimeout || 'skip';
+    const reason = `Approval timed out after ${request.timeout}ms`;
+    switch (policy) {
+      case 'auto-approve':
+        return {
+          decision: 'approved',
+          approved: true,
+          reason: `${reason}, auto-approved`,
+          timedOut: true,
+        };
+      case 'abort':
+        return { decision: 'aborted', approved: false, reason, timedOut: true };
+      case 'escalate': {
+        const escalateTo = rule?.escalateTo;
+        if (!escalateTo) {
+          return {
+            decision: 'skipped',
+            approved: false,
+            reason: `${reason}, no escalation target`,
+            timedOut: true,
+          };
+        }
+        await this.logDecision(context, toolCall, request, {
+          decision: 'rejected',
+          approved: false,
+          reason: `${reason}, escalated to ${escalateTo}`,
+          timedOut: true,
+        }, 'escalated');
+        const escalated = await this.ask(context, {
+          ...request,
+          channel: escalateTo,
+          context: { ...request.context, escalatedFrom: request.channel },
+        });
+        if (escalated.timedOut) {
+          return {
+            decision: 'skipped',
+            approved: false,
+            reason: `Escalated approval timed out after ${request.timeout}ms`,
+            timedOut: true,
+          };
+        }
+        return escalated;
+      }
+      case 'skip':
+      default:
+        return { decision: 'skipped', approved: false, reason, timedOut: true };
+    }
+  }
+
+  /**
+   * Sends the request to the approval hook, enforcing the timeout.
+   */
+  private async ask(
+    context: AgentContext,
+    request: ApprovalRequest
+  ): Promise<ApprovalOutcome> {
+    const onApprovalRequired = context.context.config.hooks?.onApprovalRequired;
+    if (!onApprovalRequired) {
+      return {
+        decision: 'unavailable',
+        approved: false,
+        reason: 'No approval handler configured',
+        timedOut: false,
+      };
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    try {
+      const pending = onApprovalRequired(context, request);
+      const result = request.timeout
+        ? await Promise.race([
+            pending,
+            new Promise<typeof TIMEOUT>((resolve) => {
+              timer = setTimeout(() => resolve(TIMEOUT), request.timeout);
+            }),
+          ])
+        : await pending;
+      if (result === TIMEOUT) {
+        return {
+          decision: 'rejected',
+          approved: false,
+          reason: 'Approval timed out',
+          timedOut: true,
+        };
+      }
+      return evaluateApproval(request, result || { approved: false });
+    } catch (error) {
+      Log.error('Approval request failed:', error);
+      return {
+        decision: 'rejected',
+        approved: false,
+        reason: `Approval request failed: ${error}`,
+        timedOut: false,
+      };
+    } finally {
+      timer && clearTimeout(timer);
+    }
+  }
+
+  private async logDecision(
+    context: AgentContext,
+    toolCall: ApprovalToolCall,
+    request: ApprovalRequest,
+    outcome: ApprovalOutcome,
+    auditOutcome?: AuditLogEntry['outcome']
+  ): Promise<void> {
+    if (!this.auditLogger || !context.context.config.security?.auditLogging?.enabled) {
+      return;
+    }
+    const now = Date.now();
+    try {
+      await this.auditLogger.log({
+        id: uuidv4(),
+        taskId: context.context.taskId,
+        securityContext: {
+          executionId: uuidv4(),
+          agentName: context.agent.Name,
+          toolName: toolCall.toolName,
+          args: toolCall.args,
+          requestedResources: [],
+          effectivePermission: 'require_approval',
+          isAllowed: outcome.approved,
+          decision: outcome.reason,
+          appliedConstraints: [],
+          createdAt: now,
+        },
+        approval: {
+          required: true,
+          approved: outcome.approved,
+          approver: outcome.result?.approver,
+          timestamp: outcome.result?.timestamp || now,
+          reason: outcome.reason,
+        },
+        outcome: auditOutcome || (outcome.approved ? 'success' : 'blocked'),
+        metadata: {
+          type: 'approval',
+          requestType: request.type,
+          decision: outcome.decision,
+          channel: request.channel,
+          timedOut: outcome.timedOut,
+          requiredApprovers: request.requiredApprovers,
+          minimumApprovals: request.minimumApprovals,
+          approvals: outcome.result?.approvals,
+        },
+        loggedAt: now,
+      });
+    } catch (error) {
+      Log.error('Failed to log approval decision:', error);
+    }
+  }
+}
+
+/**
+ * Checks an approval result against the required approvers and minimum approvals of a request.
+ * Any rejection rejects the request.
+ */
+export function evaluateApproval(
+  request: ApprovalRequest,
+  result: ApprovalResult
+): ApprovalOutcome {
+  const votes = result.approvals || [
+    {
+      approver: result.approver || 'user',
+      approved: result.approved,
+      feedback: result.feedback,
+    },
+  ];
+  const rejection = votes.find((vote) => !vote.approved);
+  if (!result.approved || rejection) {
+    return {
+      decision: 'rejected',
+      approved: false,
+      reason: result.feedback || rejection?.feedback || 'Approval denied',
+      timedOut: false,
+      result,
+    };
+  }
+  const approvers = new Set(votes.map((vote) => vote.approver));
+  const missing = (request.requiredApprovers || []).filter(
+    (approver) => !approvers.has(approver)
+  );
+  if (missing.length > 0) {
+    return {
+      decision: 'rejected',
+      approved: false,
+      reason: `Missing approval from: ${missing.join(', ')}`,
+      timedOut: false,
+      result,
+    };
+  }
+  const minimum = request.minimumApprovals || 1;
+  if (approvers.size < minimum) {
+    return {
+      decision: 'rejected',
+      approved: false,
+      reason: `Insufficient approvals: ${approvers.size} of ${minimum}`,
+      timedOut: false,
+      result,
+    };
+  }
+  return {
+    decision: 'approved',
+    approved: true,
+    reason: 'Approved',
+    timedOut: false,
+    result,
+  };
+}
@@ -5,6 +5,13 @@
 
 export { DefaultPermissionEvaluator } from './permission-evaluator';
 export { InMemoryAuditLogger, AuditLoggerFactory } from './audit-logger';
+export {
+  ApprovalManager,
+  evaluateApproval,
+  type ApprovalDecision,
+  type ApprovalOutcome,
+  type ApprovalToolCall,
+} from './approval-manager';
 export {
   ToolExecutionSandbox,
   ToolSandboxFactory,
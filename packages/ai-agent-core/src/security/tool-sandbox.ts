@@ -15,6 +15,7 @@ import {
 } from '../types/security.types';
 import { DefaultPermissionEvaluator } from './permission-evaluator';
 import { InMemoryAuditLogger } from './audit-logger';
+import { ApprovalManager, type ApprovalOutcome } from './approval-manager';
 import type { IPermissionEvaluator, IAuditLogger, SecurityConfig } from '../types/security.types';
 
 /**
@@ -79,15 +80,24 @@ export class ToolExecutionSandbox {
     this.options = options;
   }
 
+  /**
+   * The audit logger of the sandbox.
+   */
+  get AuditLogger(): IAuditLogger {
+    return this.options.auditLogger;
+  }
+
   /**
    * Execute a tool with security checks, approval gates, and audit logging.
+   * @param grantedApproval - Approval already granted for this tool call, which is then not requested again.
    */
   async execute(
     context: AgentContext,
     toolName: string,
     args: Record<string, any>,
     toolExecutor: () => Promise<any>,
-    requestedResources: ResourceAccess[] = []
+    requestedResources: ResourceAccess[] = [],
+    grantedApproval?: ApprovalOutcome
   ): Promise<SandboxResult> {
     const executionId = uuidv4();
     const createdAt = Date.now();
@@ -140,24 +150,34 @@ export class ToolExecutionSandbox {
 
       // Step 2: Check if approval is required
       let approved = true;
+      let approval: ApprovalOutcome | undefined;
       if (evaluation.requiresApproval) {
-        approved = await this.requestApproval(context, securityContext, evaluation);
+        approval =
+          grantedApproval ||
+          (await this.requestApproval(context, securityContext, evaluation));
+        approved = approval.approved;
 
         if (!approved) {
+          if (approval.decision === 'aborted') {
+            context.context.controller.abort();
+          }
           const result: SandboxResult = {
             allowed: false,
-            reason: 'Approval denied by user',
+            reason:
+              approval.decision === 'rejected' || approval.decision === 'unavailable'
+                ? 'Approval denied by user'
+                : approval.reason,
             requiresApproval: true,
             approved: false,
             securityContext,
-            error: new Error('Tool execution rejected by approver'),
+            error: new Error(`Tool execution rejected by approver: ${approval.reason}`),
           };
 
           await this.logAudit(context.context.taskId, securityContext, result, 'blocked', {
-            approval: {
-              required: true,
-              approved: false,
-            },
+            required: true,
+            approved: false,
+            approver: approval.result?.approver,
+            reason: approval.reason,
           });
 
           return result;
@@ -202,10 +222,10 @@ export class ToolExecutionSandbox {
         outcome,
         evaluation.requiresApproval
           ? {
-              approval: {
-                required: true,
-                approved: true,
-              },
+              required: true,
+              approved: true,
+              approver: approval?.result?.approver,
+              reason: approval?.reason,
             }
           : undefined
       );
@@ -307,42 +327,43 @@ export class ToolExecutionSandbox {
 
   /**
    * Request human approval for sensitive operations.
+   * Applies the approval rules, timeout and onTimeout policy of the task's approvalConfig.
    */
   private async requestApproval(
     context: AgentContext,
     securityContext: SecurityContext,
     evaluation: any
-  ): Promise<boolean> {
+  ): Promise<ApprovalOutcome> {
     Log.info(`Approval required for tool: ${securityContext.toolName}`, {
       executionId: securityContext.executionId,
       reason: evaluation.reason,
     });
 
-    // Check if context has approval handler
-    if (context.context.config.hooks?.onApprovalRequired) {
-      try {
-        const result = await context.context.config.hooks.onApprovalRequired(context, {
-          type: 'tool_execution',
-          description: `Execute tool "${securityContext.toolName}" with high-risk resources`,
-          context: {
-            toolName: securityContext.toolName,
-            args: securityContext.args,
-            resources: securityContext.requestedResources,
-            reason: evaluation.reason,
-          },
-          requiredApprovers: evaluation.requiredApprovers,
-        });
-
-        return result?.approved || false;
-      } catch (error) {
-        Log.error('Approval request failed:', error);
-        return false;
+    const manager = new ApprovalManager(
+      context.context.config.approvalConfig,
+      this.options.auditLogger
+    );
+    const outcome = await manager.request(
+      context,
+      { toolName: securityContext.toolName, args: securityContext.args },
+      {
+        type: 'tool_execution',
+        description: `Execute tool "${securityContext.toolName}" with high-risk resources`,
+        context: {
+          toolName: securityContext.toolName,
+          args: securityContext.args,
+          resources: securityContext.requestedResources,
+          reason: evaluation.reason,
+        },
+        requiredApprovers: evaluation.requiredApprovers,
       }
-    }
+    );
 
-    // Default: deny if no approval handler available
-    Log.warn('No approval handler configured, denying tool execution');
-    return false;
+    if (outcome.decision === 'unavailable') {
+      // Default: deny if no approval handler available
+      Log.warn('No approval handler configured, denying tool execution');
+    }
+    return outcome;
   }
 
   /**
@@ -353,7 +374,7 @@ export class ToolExecutionSandbox {
     securityContext: SecurityContext,
     result: SandboxResult,
     outcome: 'success' | 'blocked' | 'failed' | 'escalated',
-    approval?: any
+    approval?: AuditLogEntry['approval']
   ): Promise<void> {
     if (!this.options.config.auditLogging?.enabled) {
       return;
@@ -0,0 +1,103 @@
+/**
+ * Checkpoint stores for durable workflow execution.
+ * Backs `StateConfig.persistence` so that tasks can be resumed after a process restart.
+ */
+
+import type {
+  Checkpoint,
+  StateConfig,
+  ICheckpointStore,
+} from "../types/hooks.types";
+
+/**
+ * In-memory checkpoint store.
+ * Survives task cleanup within a process, but not a process restart; use a persistent store in production.
+ */
+export class InMemoryCheckpointStore implements ICheckpointStore {
+  private checkpoints: Map<string, Checkpoint> = new Map();
+  private ttl?: number;
+
+  /**
+   * Creates a new InMemoryCheckpointStore.
+   * @param ttl - Optional time-to-live of a checkpoint in seconds.
+   */
+  constructor(ttl?: number) {
+    this.ttl = ttl;
+  }
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    this.checkpoints.set(checkpoint.taskId, checkpoint);
+  }
+
+  async load(taskId: string): Promise<Checkpoint | undefined> {
+    const checkpoint = this.checkpoints.get(taskId);
+    if (checkpoint && isExpired(checkpoint, this.ttl)) {
+      this.checkpoints.delete(taskId);
+      return undefined;
+    }
+    return checkpoint;
+  }
+
+  async delete(taskId: string): Promise<void> {
+    this.checkpoints.delete(taskId);
+  }
+}
+
+/**
+ * Adapts `StateConfig.customHandlers` to the ICheckpointStore interface.
+ */
+export class CustomCheckpointStore implements ICheckpointStore {
+  constructor(
+    private handlers: NonNullable<StateConfig["customHandlers"]>
+  ) {}
+
+  async save(checkpoint: Checkpoint): Promise<void> {
+    await this.handlers.save(checkpoint.taskId, checkpoint);
+  }
+
+  async load(taskId: string): Promise<Checkpoint | undefined> {
+    const checkpoint = await this.handlers.load(taskId);
+    return checkpoint || undefined;
+  }
+
+  async delete(taskId: string): Promise<void> {
+    await this.handlers.delete(taskId);
+  }
+}
+
+/**
+ * Checks whether a checkpoint is older than the given time-to-live.
+ * @param checkpoint - The checkpoint to check.
+ * @param ttl - Time-to-live in seconds; no expiry when undefined.
+ */
+export function isExpired(checkpoint: Checkpoint, ttl?: number): boolean {
+  return !!ttl && checkpoint.createdAt + ttl * 1000 < Date.now();
+}
+
+/**
+ * Creates the checkpoint store described by a state configuration.
+ * @param stateConfig - The state persistence configuration.
+ * @returns The checkpoint store.
+ */
+export function createCheckpointStore(
+  stateConfig: StateConfig
+): ICheckpointStore {
+  if (stateConfig.store) {
+    return stateConfig.store;
+  }
+  switch (stateConfig.persistence) {
+    case "memory":
+      return new InMemoryCheckpointStore(stateConfig.ttl);
+    case "custom":
+      if (!stateConfig.customHandlers) {
+        throw new Error(
+          'StateConfig.persistence "custom" requires customHandlers'
+        );
+      }
+      return new CustomCheckpointStore(stateConfig.customHandlers);
+    default:
+      throw new Error(
+        `StateConfig.persistence "${stateConfig.persistence}" requires a store implementation`
+      );
+  }
+}
@@ -0,0 +1,13 @@
+/**
+ * State persistence module for XSky agent framework.
+ * Provides checkpoint stores used to resume workflows after a restart.
+ */
+
+export {
+  InMemoryCheckpointStore,
+  CustomCheckpointStore,
+  createCheckpointStore,
+  isExpired,
+} from './checkpoint-store';
+
+export type { ICheckpointStore } from '../types/hooks.types';
@@ -0,0 +1,212 @@
+import { JSONSchema7 } from "json-schema";
+import config from "../config";
+import { AgentContext } from "../core/context";
+import { Tool, ToolResult } from "../types/tools.types";
+import { extractAgentXmlNode } from "../common/xml";
+
+export const TOOL_NAME = "control_flow";
+
+/**
+ * Execution state of an if, while or try node, kept in the agent variables.
+ */
+type ControlFlowState =
+  | { type: "if"; branch: "then" | "else" }
+  | { type: "while"; iterations: number; ended: boolean; exhausted?: boolean }
+  | { type: "try"; branch: "running" | "catch" | "succeeded" };
+
+export default class ControlFlowTool implements Tool {
+  readonly name: string = TOOL_NAME;
+  readonly description: string;
+  readonly parameters: JSONSchema7;
+
+  constructor() {
+    this.description = `When executing an \`if\`, \`while\` or \`try\` node, please use the current tool to decide which nodes to execute: call it when reaching an if node, before each iteration of a while node, and at the start and end of a try node.`;
+    this.parameters = {
+      type: "object",
+      properties: {
+        nodeId: {
+          type: "number",
+          description: "if, while or try node ID.",
+        },
+        conditionMet: {
+          type: "boolean",
+          description:
+            "Whether the condition of the if or while node is met, as evaluated by you. Not needed when the condition is on a variable.",
+        },
+        restart: {
+          type: "boolean",
+          description:
+            "Whether the while node is entered again to run from its first iteration, e.g. in a new iteration of an enclosing forEach or while node.",
+        },
+        failed: {
+          type: "boolean",
+          description:
+            "Whether the nodes of the try node failed, omit it when starting the try node.",
+        },
+        progress: {
+          type: "string",
+          description: "Current execution progress.",
+        },
+      },
+      required: ["nodeId", "progress"],
+    };
+  }
+
+  async execute(
+    args: Record<string, unknown>,
+    agentContext: AgentContext
+  ): Promise<ToolResult> {
+    let nodeId = args.nodeId as number;
+    let agentXml = agentContext.agentChain.agent.xml;
+    let node = extractAgentXmlNode(agentXml, nodeId);
+    if (node == null) {
+      throw new Error("Node ID does not exist: " + nodeId);
+    }
+    let key = "control_flow_" + nodeId;
+    let state = agentContext.variables.get(key) as ControlFlowState | undefined;
+    let resultText: string;
+    switch (node.tagName) {
+      case "if": {
+        let met = evaluateCondition(node, args, agentContext);
+        state = { type: "if", branch: met ? "then" : "else" };
+        resultText = met
+          ? "The condition is met, execute the <then> nodes."
+          : hasChildElement(node, "else")
+          ? "The condition is not met, execute the <else> nodes."
+          : "The condition is not met, skip this node.";
+        break;
+      }
+      case "while": {
+        let maxIterations =
+          parseInt(node.getAttribute("maxIterations") || "") ||
+          config.maxWhileIterations;
+        let iterations = state?.type == "while" ? state.iterations : 0;
+        let met = evaluateCondition(node, args, agentContext);
+        if (
+          state?.type == "while" &&
+          state.ended &&
+          (args.restart === true || (met && !state.exhausted))
+        ) {
+          // The loop is entered again, e.g. nested in a loop that iterates: start a new run
+          iterations = 0;
+        }
+        if (state?.type == "while" && state.ended && iterations > 0) {
+          resultText = `The loop has ended after ${iterations} iterations, continue with the next node. To run it again in a new iteration of an enclosing loop, call this tool with \`restart\`.`;
+        } else if (!met) {
+          state = { type: "while", iterations, ended: true };
+          resultText = `The condition is no longer met, exit the loop after ${iterations} iterations.`;
+        } else if (iterations >= maxIterations) {
+          state = { type: "while", iterations, ended: true, exhausted: true };
+          resultText = `The maximum number of iterations (${maxIterations}) is reached, exit the loop.`;
+        } else {
+          state = { type: "while", iterations: iterations + 1, ended: false };
+          resultText = `Execute iteration ${iterations + 1} of at most ${maxIterations}.`;
+        }
+        break;
+      }
+      case "try": {
+        let failed = args.failed as boolean | undefined;
+        if (failed === undefined) {
+          state = { type: "try", branch: "running" };
+          resultText =
+            "Execute the nodes of the try node, then call this tool again with `failed`.";
+        } else if (failed) {
+          state = { type: "try", branch: "catch" };
+          resultText = hasChildElement(node, "catch")
+            ? "The nodes failed, execute the <catch> nodes as the fallback."
+            : "The nodes failed, there is no fallback, continue with the next node.";
+        } else {
+          state = { type: "try", branch: "succeeded" };
+          resultText = "The nodes succeeded, skip the <catch> nodes.";
+        }
+        break;
+      }
+      default:
+        throw new Error("Node ID is not an if, while or try node: " + nodeId);
+    }
+    agentContext.variables.set(key, state);
+    return {
+      content: [
+        {
+          type: "text",
+          text: resultText,
+        },
+      ],
+    };
+  }
+}
+
+/**
+ * Renders the execution state of an if, while or try node as its `state` attribute.
+ * @param agentContext - The agent context holding the state.
+ * @param nodeId - The node ID.
+ * @param node - The node element of the agent XML.
+ */
+export function applyControlFlowState(
+  agentContext: AgentContext,
+  nodeId: number,
+  node: Element
+): void {
+  let state = agentContext.variables.get("control_flow_" + nodeId) as
+    | ControlFlowState
+    | undefined;
+  if (!state || state.type != node.tagName) {
+    return;
+  }
+  switch (state.type) {
+    case "if":
+    case "try":
+      node.setAttribute("state", state.branch);
+      break;
+    case "while":
+      node.setAttribute(
+        "state",
+        state.ended ? "ended" : "iteration " + state.iterations
+      );
+      break;
+  }
+}
+
+function evaluateCondition(
+  node: Element,
+  args: Record<string, unknown>,
+  agentContext: AgentContext
+): boolean {
+  let variable = node.getAttribute("variable");
+  if (!variable) {
+    if (typeof args.conditionMet != "boolean") {
+      throw new Error(
+        "conditionMet is required to evaluate the condition: " +
+          node.getAttribute("condition")
+      );
+    }
+    return args.conditionMet;
+  }
+  let value = agentContext.context.variables.get(variable.trim());
+  if (node.hasAttribute("equals")) {
+    let text = typeof value == "string" ? value : JSON.stringify(value) ?? "";
+    return text.trim() == (node.getAttribute("equals") || "").trim();
+  }
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  return !(
+    value === undefined ||
+    value === null ||
+    value === false ||
+    value === 0 ||
+    ["", "false", "0"].indexOf(String(value).trim()) > -1
+  );
+}
+
+function hasChildElement(node: Element, tagName: string): boolean {
+  for (let i = 0; i < node.childNodes.length; i++) {
+    let child = node.childNodes[i] as Element;
+    if (child.nodeType === 1 && child.tagName === tagName) {
+      return true;
+    }
+  }
+  return false;
+}
+
+export { ControlFlowTool };
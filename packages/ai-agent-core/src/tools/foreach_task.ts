@@ -54,7 +54,9 @@ export default class ForeachTaskTool implements Tool {
         let key = "foreach_" + nodeId;
         let loop_count = agentContext.variables.get(key) || 0;
         if (loop_count % 5 == 0) {
-          resultText = `Variable information associated with the current loop task.\nvariable_name: ${items.trim()}\nvariable_value: ${varValue}`;
+          resultText = `Variable information associated with the current loop task.\nvariable_name: ${items.trim()}\nvariable_value: ${
+            typeof varValue == "string" ? varValue : JSON.stringify(varValue)
+          }`;
         }
         agentContext.variables.set(key, ++loop_count);
       }
@@ -3,11 +3,13 @@ import { JSONSchema7 } from "json-schema";                    // JSON schema typ
 import { ToolWrapper } from "./wrapper";                     // Wrapper for external tool integration
 import { AgentContext } from "../core/context";              // Agent execution context
 import ForeachTaskTool from "./foreach_task";                // Tool for iterative task execution
+import ControlFlowTool from "./control_flow";               // Tool for if, while and try node execution
 import HumanInteractTool from "./human_interact";            // Tool for human-in-the-loop interactions
 import TaskNodeStatusTool from "./task_node_status";          // Tool for managing task node status
 import VariableStorageTool from "./variable_storage";          // Tool for persistent variable storage
 import WatchTriggerTool from "./watch_trigger";              // Tool for event-driven triggers
 import { Tool, ToolResult } from "../types/tools.types";     // Tool interface and result types
+import { McpToolAnnotations } from "../types/mcp.types";     // MCP tool behavior hints
 import { LanguageModelV2ToolCallPart } from "@ai-sdk/provider"; // LLM tool call interface
 
 /**
@@ -25,18 +27,22 @@ export class McpTool implements Tool {
   readonly description?: string;
   /** JSON schema defining the parameters this tool accepts */
   readonly parameters: JSONSchema7;
+  /** MCP tools are side-effecting unless the server marks them read-only */
+  readonly sideEffects: boolean;
   /** Internal wrapper that handles the actual tool execution logic */
   private toolWrapper: ToolWrapper;
 
   /**
    * Creates an MCP tool instance from a tool wrapper.
    * @param toolWrapper - The wrapper containing tool metadata and execution logic
+   * @param annotations - Optional hints of the MCP server about the tool behavior
    */
-  constructor(toolWrapper: ToolWrapper) {
+  constructor(toolWrapper: ToolWrapper, annotations?: McpToolAnnotations) {
     this.toolWrapper = toolWrapper;
     this.name = toolWrapper.name;
     this.description = toolWrapper.getTool().description;
     this.parameters = toolWrapper.getTool().inputSchema;
+    this.sideEffects = annotations?.readOnlyHint !== true;
   }
 
   /**
@@ -59,6 +65,7 @@ export class McpTool implements Tool {
 // Export built-in system tools that are automatically available to all agents
 export {
   ForeachTaskTool,        // Iterative task execution tool
+  ControlFlowTool,        // If, while and try node execution tool
   HumanInteractTool,      // Human interaction tool
   TaskNodeStatusTool,     // Task status management tool
   VariableStorageTool,     // Variable persistence tool
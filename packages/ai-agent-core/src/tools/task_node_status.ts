@@ -1,6 +1,7 @@
 import { JSONSchema7 } from "json-schema";
 import { AgentContext } from "../core/context";
 import { buildAgentRootXml } from "../common/xml";
+import { applyControlFlowState } from "./control_flow";
 import { Tool, ToolResult } from "../types/tools.types";
 
 export const TOOL_NAME = "task_node_status";
@@ -58,6 +59,7 @@ export default class TaskNodeStatusTool implements Tool {
         // throw new Error("Node status update exception, nodeId: " + i);
       }
       node.setAttribute("status", done ? "done" : "todo");
+      applyControlFlowState(agentContext, nodeId, node);
     });
     return {
       content: [
@@ -1,6 +1,10 @@
 import { JSONSchema7 } from "json-schema";
+import Log from "../common/log";
+import { RetryLanguageModel } from "../llm";
 import { AgentContext } from "../core/context";
-import { Tool, ToolResult } from "../types/tools.types";
+import { validateJsonSchema } from "../common/json-schema";
+import { Workflow, WorkflowNode } from "../types/core.types";
+import { JsonSchemaIssue, Tool, ToolResult } from "../types/tools.types";
 
 /** Tool name identifier for variable storage operations */
 export const TOOL_NAME = "variable_storage";
@@ -16,6 +20,10 @@ export const TOOL_NAME = "variable_storage";
  *
  * Variables are scoped to the workflow execution context and automatically
  * cleaned up when the workflow completes or is aborted.
+ *
+ * Writes of variables with an `outputSchema` in the workflow are validated against it,
+ * the value is parsed from JSON unless the schema expects a string. An invalid value is
+ * repaired once by the LLM, and rejected with the issues found if it is still invalid.
  */
 export default class VariableStorageTool implements Tool {
   /** Unique tool identifier */
@@ -93,10 +101,32 @@ export default class VariableStorageTool implements Tool {
           resultText = "Error: value is required";
           break;
         }
-        let key = args.name as string;
         // Trim whitespace from key for consistency
-        agentContext.context.variables.set(key.trim(), args.value);
-        resultText = "success";
+        let key = (args.name as string).trim();
+        let value: unknown = args.value;
+        let schema = getVariableSchemas(agentContext.context.workflow).get(key);
+        if (schema) {
+          value = parseValue(value, schema);
+          let issues = validateJsonSchema(schema, value);
+          if (issues.length > 0) {
+            let repaired = await repairValue(key, value, schema, issues, agentContext);
+            if (repaired === undefined || validateJsonSchema(schema, repaired).length > 0) {
+              return {
+                content: [
+                  {
+                    type: "text",
+                    text: `Error: the value of variable "${key}" does not match its schema:\n${formatIssues(issues)}\nJSON Schema: ${JSON.stringify(schema)}\nPlease write the variable again with a valid value.`,
+                  },
+                ],
+                isError: true,
+              };
+            }
+            value = repaired;
+            resultText = "success, the value was repaired to match the schema of the variable";
+          }
+        }
+        agentContext.context.variables.set(key, value);
+        resultText = resultText || "success";
         break;
       }
       case "list_all_variable": {
@@ -116,4 +146,103 @@ export default class VariableStorageTool implements Tool {
   }
 }
 
+/**
+ * Gets the JSON Schemas of the output variables of a workflow, declared by the
+ * `outputSchema` of the nodes writing them.
+ * @param workflow - The workflow.
+ * @returns The schemas by variable name.
+ */
+export function getVariableSchemas(workflow?: Workflow): Map<string, JSONSchema7> {
+  const schemas = new Map<string, JSONSchema7>();
+  const visit = (nodes: WorkflowNode[]) => {
+    for (const node of nodes) {
+      switch (node.type) {
+        case "normal":
+          node.output && node.outputSchema && schemas.set(node.output.trim(), node.outputSchema);
+          break;
+        case "forEach":
+        case "while":
+          visit(node.nodes);
+          break;
+        case "watch":
+          visit(node.triggerNodes);
+          break;
+        case "if":
+          visit(node.thenNodes);
+          visit(node.elseNodes);
+          break;
+        case "try":
+          visit(node.nodes);
+          visit(node.catchNodes);
+          break;
+      }
+    }
+  };
+  workflow?.agents.forEach((agent) => visit(agent.nodes));
+  return schemas;
+}
+
+/**
+ * Values are written as text, parsed from JSON unless the schema expects a string.
+ */
+function parseValue(value: unknown, schema: JSONSchema7): unknown {
+  if (typeof value != "string" || schema.type == "string") {
+    return value;
+  }
+  try {
+    return JSON.parse(value);
+  } catch (e) {
+    return value;
+  }
+}
+
+async function repairValue(
+  name: string,
+  value: unknown,
+  schema: JSONSchema7,
+  issues: JsonSchemaIssue[],
+  agentContext: AgentContext
+): Promise<unknown> {
+  try {
+    const rlm = new RetryLanguageModel(
+      agentContext.context.config.llms,
+      agentContext.agent.Llms
+    );
+    rlm.setContext(agentContext);
+    const result = await rlm.call({
+      messages: [
+        {
+          role: "system",
+          content:
+            "You repair the values of variables so that they match their JSON Schema, keeping their data. Output only the repaired value as JSON, without explanation.",
+        },
+        {
+          role: "user",
+          content: [
+            {
+              type: "text",
+              text: `Variable: ${name}\nJSON Schema: ${JSON.stringify(schema)}\nIssues:\n${formatIssues(issues)}\nValue:\n${typeof value == "string" ? value : JSON.stringify(value)}`,
+            },
+          ],
+        },
+      ],
+      abortSignal: agentContext.context.controller.signal,
+    });
+    const text = (result.text || "")
+      .trim()
+      .replace(/^```(?:json)?\s*/, "")
+      .replace(/\s*```$/, "");
+    return JSON.parse(text);
+  } catch (e) {
+    Log.warn("Failed to repair the value of variable " + name, e);
+    return undefined;
+  }
+}
+
+function formatIssues(issues: JsonSchemaIssue[]): string {
+  return issues
+    .map((issue) => `- ${issue.path || "(value)"}: ${issue.message}`)
+    .join("\n");
+}
+
 export { VariableStorageTool };
@@ -0,0 +1,15 @@
+/**
+ * Tracing module for XSky agent framework.
+ * Provides hierarchical spans and the OTLP/JSON conversion used by span exporters.
+ */
+
+export {
+  Span,
+  Tracer,
+  InMemorySpanExporter,
+  hashArgs,
+  type StartSpanOptions,
+} from './tracer';
+export { toOtlpJson } from './otlp';
+
+export type { SpanData, SpanExporter } from '../types/trace.types';
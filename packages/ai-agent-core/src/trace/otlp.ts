@@ -0,0 +1,88 @@
+/**
+ * Conversion of spans to the OTLP/JSON trace format, as accepted by OpenTelemetry collectors
+ * (`/v1/traces`) and written by their file exporters.
+ * @see https://opentelemetry.io/docs/specs/otlp/#json-protobuf-encoding
+ */
+
+import type {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanData,
+} from "../types/trace.types";
+
+const SCOPE_NAME = "@xsky/ai-agent-core";
+
+/** OTLP SpanKind: SPAN_KIND_INTERNAL and SPAN_KIND_CLIENT */
+const SPAN_KINDS = { internal: 1, client: 3 };
+
+/** OTLP StatusCode: STATUS_CODE_UNSET, STATUS_CODE_OK and STATUS_CODE_ERROR */
+const STATUS_CODES = { unset: 0, ok: 1, error: 2 };
+
+/**
+ * Converts spans to an OTLP/JSON ExportTraceServiceRequest.
+ * @param spans - The spans to convert.
+ * @param serviceName - The `service.name` resource attribute, defaults to "xsky".
+ * @returns The request object, serialize it with `JSON.stringify`.
+ */
+export function toOtlpJson(spans: SpanData[], serviceName: string = "xsky") {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: toOtlpAttributes({ "service.name": serviceName }),
+        },
+        scopeSpans: [
+          {
+            scope: { name: SCOPE_NAME },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              parentSpanId: span.parentSpanId || "",
+              name: span.name,
+              kind: SPAN_KINDS[span.kind],
+              startTimeUnixNano: toUnixNano(span.startTime),
+              endTimeUnixNano: toUnixNano(span.endTime),
+              attributes: toOtlpAttributes(span.attributes),
+              events: span.events.map((event) => ({
+                timeUnixNano: toUnixNano(event.time),
+                name: event.name,
+                attributes: toOtlpAttributes(event.attributes || {}),
+              })),
+              status: {
+                code: STATUS_CODES[span.status.code],
+                message: span.status.message || "",
+              },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+function toOtlpAttributes(attributes: SpanAttributes) {
+  return Object.keys(attributes).map((key) => ({
+    key,
+    value: toOtlpValue(attributes[key]),
+  }));
+}
+
+function toOtlpValue(value: SpanAttributeValue): Record<string, any> {
+  if (Array.isArray(value)) {
+    return {
+      arrayValue: { values: value.map((item) => ({ stringValue: item })) },
+    };
+  } else if (typeof value == "boolean") {
+    return { boolValue: value };
+  } else if (typeof value == "number") {
+    // OTLP/JSON encodes 64 bit integers as strings
+    return Number.isInteger(value)
+      ? { intValue: String(value) }
+      : { doubleValue: value };
+  }
+  return { stringValue: value };
+}
+
+function toUnixNano(time: number): string {
+  return Math.round(time) + "000000";
+}
@@ -0,0 +1,288 @@
+/**
+ * Hierarchical tracing of task execution.
+ * Spans nest as task → workflow agent → react loop iteration → LLM call / tool call,
+ * and are handed to the `TelemetryConfig.exporter` once finished.
+ */
+
+import Log from "../common/log";
+import type {
+  SpanAttributes,
+  SpanAttributeValue,
+  SpanData,
+  SpanEvent,
+  SpanExporter,
+  SpanKind,
+  SpanStatus,
+} from "../types/trace.types";
+
+/** Finished spans buffered before an export, unless a task span ends first */
+const MAX_EXPORT_BATCH_SIZE = 64;
+
+/**
+ * Options for starting a span.
+ * @property parent - The parent span, a new trace is started without one.
+ * @property kind - The kind of the span, defaults to "internal".
+ * @property attributes - Initial attributes of the span.
+ */
+export type StartSpanOptions = {
+  parent?: Span;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+};
+
+/**
+ * A timed operation within a trace.
+ */
+export class Span {
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly name: string;
+  readonly kind: SpanKind;
+  readonly startTime: number;
+  private endTime?: number;
+  private attributes: SpanAttributes;
+  private events: SpanEvent[] = [];
+  private status: SpanStatus = { code: "unset" };
+  private tracer: Tracer;
+
+  /**
+   * Creates a new Span, use `Tracer.startSpan` instead.
+   * @param tracer - The tracer the span is exported through.
+   * @param name - The name of the span.
+   * @param options - The parent, kind and initial attributes of the span.
+   */
+  constructor(tracer: Tracer, name: string, options: StartSpanOptions = {}) {
+    this.tracer = tracer;
+    this.name = name;
+    this.kind = options.kind || "internal";
+    this.traceId = options.parent?.traceId || randomHex(16);
+    this.spanId = randomHex(8);
+    this.parentSpanId = options.parent?.spanId;
+    this.attributes = { ...options.attributes };
+    this.startTime = Date.now();
+  }
+
+  /**
+   * Sets an attribute, undefined values are ignored.
+   * @param key - The attribute key.
+   * @param value - The attribute value.
+   */
+  setAttribute(key: string, value: SpanAttributeValue | undefined): this {
+    if (value !== undefined) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Sets several attributes, undefined values are ignored.
+   * @param attributes - The attributes to set.
+   */
+  setAttributes(attributes: Record<string, SpanAttributeValue | undefined>): this {
+    Object.keys(attributes).forEach((key) =>
+      this.setAttribute(key, attributes[key])
+    );
+    return this;
+  }
+
+  /**
+   * Records an event on the span.
+   * @param name - The name of the event.
+   * @param attributes - Optional attributes of the event.
+   */
+  addEvent(name: string, attributes?: SpanAttributes): this {
+    this.events.push({ name, time: Date.now(), attributes });
+    return this;
+  }
+
+  /**
+   * Sets the status of the span.
+   * @param code - "ok" or "error".
+   * @param message - Optional description, usually of the error.
+   */
+  setStatus(code: SpanStatus["code"], message?: string): this {
+    this.status = { code, message };
+    return this;
+  }
+
+  /**
+   * Records an error as an "exception" event and marks the span as failed.
+   * @param error - The error.
+   */
+  recordError(error: any): this {
+    const message = error?.message || String(error);
+    this.addEvent("exception", {
+      "exception.type": error?.name || "Error",
+      "exception.message": message,
+    });
+    return this.setStatus("error", message);
+  }
+
+  /**
+   * Ends the span and hands it to the exporter. Ending a span again has no effect.
+   */
+  end(): void {
+    if (this.endTime !== undefined) {
+      return;
+    }
+    this.endTime = Date.now();
+    this.tracer.onEnd(this);
+  }
+
+  /**
+   * Whether the span has ended.
+   */
+  get Ended(): boolean {
+    return this.endTime !== undefined;
+  }
+
+  /**
+   * Gets the duration of the span in milliseconds, up to now if it has not ended.
+   */
+  get Duration(): number {
+    return (this.endTime ?? Date.now()) - this.startTime;
+  }
+
+  /**
+   * Gets the data of the span as handed to exporters.
+   */
+  toJSON(): SpanData {
+    return {
+      traceId: this.traceId,
+      spanId: this.spanId,
+      parentSpanId: this.parentSpanId,
+      name: this.name,
+      kind: this.kind,
+      startTime: this.startTime,
+      endTime: this.endTime ?? Date.now(),
+      attributes: { ...this.attributes },
+      events: [...this.events],
+      status: { ...this.status },
+    };
+  }
+}
+
+/**
+ * Creates spans and exports them in batches once they end.
+ * A batch is exported when a root (task) span ends, or when it is full.
+ */
+export class Tracer {
+  private exporter: SpanExporter;
+  private buffer: SpanData[] = [];
+
+  /**
+   * Creates a new Tracer.
+   * @param exporter - The exporter receiving finished spans.
+   */
+  constructor(exporter: SpanExporter) {
+    this.exporter = exporter;
+  }
+
+  /**
+   * Starts a new span.
+   * @param name - The name of the span.
+   * @param options - The parent, kind and initial attributes of the span.
+   * @returns The started span, end it with `span.end()`.
+   */
+  startSpan(name: string, options?: StartSpanOptions): Span {
+    return new Span(this, name, options);
+  }
+
+  /**
+   * Called by a span when it ends.
+   * @param span - The span that ended.
+   */
+  onEnd(span: Span): void {
+    this.buffer.push(span.toJSON());
+    if (!span.parentSpanId || this.buffer.length >= MAX_EXPORT_BATCH_SIZE) {
+      this.flush();
+    }
+  }
+
+  /**
+   * Exports the buffered spans.
+   */
+  async flush(): Promise<void> {
+    if (this.buffer.length == 0) {
+      return;
+    }
+    const spans = this.buffer;
+    this.buffer = [];
+    try {
+      await this.exporter.export(spans);
+    } catch (e) {
+      Log.error("Span exporter error:", e);
+    }
+  }
+
+  /**
+   * Exports the buffered spans and shuts the exporter down.
+   */
+  async shutdown(): Promise<void> {
+    await this.flush();
+    try {
+      await this.exporter.shutdown?.();
+    } catch (e) {
+      Log.error("Span exporter shutdown error:", e);
+    }
+  }
+}
+
+/**
+ * A span exporter keeping finished spans in memory, for tests and custom processing.
+ */
+export class InMemorySpanExporter implements SpanExporter {
+  private spans: SpanData[] = [];
+
+  export(spans: SpanData[]): void {
+    this.spans.push(...spans);
+  }
+
+  /**
+   * Gets the exported spans.
+   */
+  getSpans(): SpanData[] {
+    return [...this.spans];
+  }
+
+  /**
+   * Removes the exported spans.
+   */
+  reset(): void {
+    this.spans = [];
+  }
+}
+
+/**
+ * Hashes the arguments of a tool call, so that identical calls can be correlated
+ * without exporting arguments that may contain sensitive data.
+ * @param args - The tool call arguments.
+ * @returns The FNV-1a hash of the JSON arguments, as 8 hex characters.
+ */
+export function hashArgs(args: unknown): string {
+  let json: string;
+  try {
+    json = JSON.stringify(args) ?? "";
+  } catch (e) {
+    json = String(args);
+  }
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < json.length; i++) {
+    hash ^= json.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+function randomHex(bytes: number): string {
+  const values = new Uint8Array(bytes);
+  if (globalThis.crypto?.getRandomValues) {
+    globalThis.crypto.getRandomValues(values);
+  } else {
+    for (let i = 0; i < bytes; i++) {
+      values[i] = Math.floor(Math.random() * 256);
+    }
+  }
+  return Array.from(values, (b) => b.toString(16).padStart(2, "0")).join("");
+}
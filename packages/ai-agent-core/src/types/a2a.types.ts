@@ -0,0 +1,141 @@
+/**
+ * Agent-to-Agent (A2A) protocol types.
+ * A subset of the A2A JSON-RPC specification used by the A2A client and server adapters.
+ * @see https://a2a-protocol.org/latest/specification/
+ */
+
+/**
+ * A skill advertised by a remote agent in its agent card.
+ */
+export type A2aAgentSkill = {
+  id: string;
+  name: string;
+  description: string;
+  tags?: string[];
+  examples?: string[];
+};
+
+/**
+ * Self-description published by an A2A agent, usually at `/.well-known/agent-card.json`.
+ * @property name - Human-readable name of the agent.
+ * @property description - What the agent can do.
+ * @property url - JSON-RPC endpoint of the agent.
+ * @property version - Version of the agent.
+ * @property capabilities - Optional protocol features supported by the agent.
+ * @property skills - Skills the agent offers.
+ */
+export type A2aAgentCard = {
+  name: string;
+  description: string;
+  url: string;
+  version: string;
+  protocolVersion?: string;
+  capabilities?: {
+    streaming?: boolean;
+    pushNotifications?: boolean;
+  };
+  defaultInputModes?: string[];
+  defaultOutputModes?: string[];
+  skills: A2aAgentSkill[];
+};
+
+/**
+ * A piece of content exchanged in messages and artifacts.
+ */
+export type A2aPart =
+  | { kind: "text"; text: string }
+  | { kind: "data"; data: Record<string, unknown> }
+  | {
+      kind: "file";
+      file: { name?: string; mimeType?: string; bytes?: string; uri?: string };
+    };
+
+/**
+ * A single message between a client and a remote agent.
+ */
+export type A2aMessage = {
+  kind: "message";
+  messageId: string;
+  role: "user" | "agent";
+  parts: A2aPart[];
+  taskId?: string;
+  contextId?: string;
+};
+
+/**
+ * Lifecycle states of a remote task.
+ */
+export type A2aTaskState =
+  | "submitted"
+  | "working"
+  | "input-required"
+  | "auth-required"
+  | "completed"
+  | "canceled"
+  | "failed"
+  | "rejected"
+  | "unknown";
+
+/**
+ * Current status of a remote task.
+ */
+export type A2aTaskStatus = {
+  state: A2aTaskState;
+  message?: A2aMessage;
+  timestamp?: string;
+};
+
+/**
+ * An output produced by a remote task.
+ */
+export type A2aArtifact = {
+  artifactId: string;
+  name?: string;
+  description?: string;
+  parts: A2aPart[];
+};
+
+/**
+ * A unit of work executed by a remote agent.
+ */
+export type A2aTask = {
+  kind: "task";
+  id: string;
+  contextId: string;
+  status: A2aTaskStatus;
+  artifacts?: A2aArtifact[];
+  history?: A2aMessage[];
+  metadata?: Record<string, unknown>;
+};
+
+/**
+ * Event emitted when the status of a streamed task changes.
+ */
+export type A2aTaskStatusUpdateEvent = {
+  kind: "status-update";
+  taskId: string;
+  contextId: string;
+  status: A2aTaskStatus;
+  final: boolean;
+};
+
+/**
+ * Event emitted when a streamed task produces (a chunk of) an artifact.
+ */
+export type A2aTaskArtifactUpdateEvent = {
+  kind: "artifact-update";
+  taskId: string;
+  contextId: string;
+  artifact: A2aArtifact;
+  append?: boolean;
+  lastChunk?: boolean;
+};
+
+/**
+ * Any result of `message/send` or event of `message/stream`.
+ */
+export type A2aStreamEvent =
+  | A2aMessage
+  | A2aTask
+  | A2aTaskStatusUpdateEvent
+  | A2aTaskArtifactUpdateEvent;
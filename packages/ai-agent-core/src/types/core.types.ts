@@ -1,6 +1,8 @@
+import { JSONSchema7 } from "json-schema";
 import { LanguageModelV2FinishReason } from "@ai-sdk/provider";
 import { Agent } from "../agent";
-import { LLMs } from "./llm.types";
+import type { AgentPool } from "../agent/pool";
+import { BudgetConfig, LLMs } from "./llm.types";
 import { IA2aClient } from "../agent/a2a";
 import { IMcpClient } from "./mcp.types";
 import { ToolResult } from "./tools.types";
@@ -11,7 +13,10 @@ import type {
   ApprovalConfig,
   RateLimitConfig,
 } from "./hooks.types";
-import type { SecurityConfig } from "./security.types";
+import type { ResourceAccess, SecurityConfig } from "./security.types";
+import type { SpanExporter } from "./trace.types";
+import type { ScheduledRunInfo } from "./scheduler.types";
+import type { LongTermMemory } from "../memory/long-term";
 
 /**
  * Configuration options for initializing an XSky instance.
@@ -27,6 +32,11 @@ import type { SecurityConfig } from "./security.types";
  * @property approvalConfig - Optional configuration for approval workflows.
  * @property rateLimits - Optional rate limiting configuration.
  * @property security - Optional security and sandboxing configuration.
+ * @property budget - Optional token and cost budget per task and per agent.
+ * @property workflowValidation - Optional static validation of workflows before execution.
+ * @property workflows - Optional saved workflows that plans can call as sub-workflows.
+ * @property agentPool - Optional pool of agent instances leased per workflow agent.
+ * @property longTermMemory - Optional memory of the facts learned from tasks, recalled into new tasks.
  */
 export type XSkyConfig = {
   llms: LLMs;
@@ -48,6 +58,79 @@ export type XSkyConfig = {
   security?: SecurityConfig;
   /** Basic telemetry configuration for observability */
   telemetry?: TelemetryConfig;
+  /** Token and cost budget enforced on LLM calls */
+  budget?: BudgetConfig;
+  /** Static validation of workflows after planning and before execution */
+  workflowValidation?: WorkflowValidationConfig;
+  /** Saved workflows that plans can call as sub-workflows */
+  workflows?: SavedWorkflow[];
+  /** Pool leasing a separate agent instance to each workflow agent of its agents */
+  agentPool?: AgentPool;
+  /** Facts learned from finished tasks, recalled into the prompts of new tasks of the same tenant */
+  longTermMemory?: LongTermMemory;
+};
+
+/**
+ * A named workflow saved for reuse, e.g. a login or export sequence, called by the
+ * agent entries of other workflows instead of being planned again.
+ * @property name - Unique name of the workflow, referenced by the calling agent entries.
+ * @property description - What the workflow does, listed to the planner.
+ * @property workflow - The workflow, a workflow definition, or the text of an XML plan or definition.
+ * @property inputs - Variables read by the workflow, bound from the variables of the caller.
+ * @property outputs - Variables written by the workflow, returned to the variables of the caller.
+ */
+export type SavedWorkflow = {
+  name: string;
+  description: string;
+  workflow: Workflow | WorkflowDefinition | string;
+  inputs?: string[];
+  outputs?: string[];
+};
+
+/**
+ * The bindings of an agent entry calling a saved workflow. Inputs and outputs
+ * without a binding use the variable of the same name.
+ * @property inputs - Variables of the caller by input name of the saved workflow.
+ * @property outputs - Variables of the caller by output name of the saved workflow.
+ */
+export type SubWorkflowCall = {
+  inputs: Record<string, string>;
+  outputs: Record<string, string>;
+};
+
+/**
+ * Configuration of the static validation of workflows.
+ * @property enabled - Whether workflows are validated before execution, defaults to true.
+ * @property maxReplans - Maximum number of corrective replans when a planned workflow is invalid,
+ *   the issues are fed back to the planner. Defaults to 0.
+ */
+export interface WorkflowValidationConfig {
+  enabled?: boolean;
+  maxReplans?: number;
+}
+
+/**
+ * An issue found by the static validation of a workflow.
+ * Errors prevent the workflow from being executed, warnings are logged.
+ * @property type - The kind of issue.
+ * @property severity - "error" or "warning".
+ * @property agentId - The ID of the agent the issue was found in.
+ * @property message - Description of the issue.
+ */
+export type WorkflowValidationIssue = {
+  type:
+    | "cycle"
+    | "missing_dependency"
+    | "unnamed_agent"
+    | "unknown_agent"
+    | "unsupported_watch"
+    | "undefined_variable"
+    | "undefined_foreach_items"
+    | "undefined_condition_variable"
+    | "unknown_workflow";
+  severity: "error" | "warning";
+  agentId?: string;
+  message: string;
 };
 
 /**
@@ -56,8 +139,12 @@ export type XSkyConfig = {
 export interface TelemetryConfig {
   /** Callback for metric events */
   onMetric?: (metric: { name: string; value: number; tags: Record<string, string> }) => void;
-  /** Callback for trace events */
+  /** Callback for trace events, called when a workflow agent finishes */
   onTrace?: (trace: { taskId: string; agentName: string; duration: number }) => void;
+  /** Exporter receiving the task, agent, iteration, LLM and tool spans */
+  exporter?: SpanExporter;
+  /** Service name reported in the resource of exported spans, defaults to "xsky" */
+  serviceName?: string;
 }
 
 /**
@@ -129,6 +216,14 @@ export type StreamCallbackMessage = {
       type: "error";
       error: unknown;
     }
+    | {
+      type: "queue";
+      status: "waiting" | "started";
+      /** Position of the task in a task queue, from 1, or 0 when it started */
+      position: number;
+      /** Number of tasks waiting in the queue */
+      length: number;
+    }
     | {
       type: "finish";
       finishReason: LanguageModelV2FinishReason;
@@ -162,12 +257,14 @@ export interface StreamCallback {
  * @property text - The task description or instruction text.
  * @property input - Optional input variable name to read from context.
  * @property output - Optional output variable name to store results.
+ * @property outputSchema - Optional JSON Schema the value of the output variable must match.
  */
 export type WorkflowTextNode = {
   type: "normal";
   text: string;
   input?: string | null;
   output?: string | null;
+  outputSchema?: JSONSchema7;
 };
 
 /**
@@ -198,14 +295,70 @@ export type WorkflowWatchNode = {
   triggerNodes: (WorkflowTextNode | WorkflowForEachNode)[];
 };
 
+/**
+ * The condition of an if or while node, either on a variable value or evaluated by the LLM.
+ * @property variable - Name of the variable tested, the condition is then evaluated without the LLM.
+ * @property equals - Value the variable must be equal to, without it the variable must be truthy.
+ * @property text - Description of the condition evaluated by the LLM, used when there is no variable.
+ */
+export type WorkflowCondition = {
+  variable?: string;
+  equals?: string;
+  text?: string;
+};
+
+/**
+ * A workflow node that executes one of two branches depending on a condition.
+ * @property type - Always "if" for conditional nodes.
+ * @property condition - The condition deciding the branch.
+ * @property thenNodes - Array of nodes to execute when the condition is met.
+ * @property elseNodes - Array of nodes to execute otherwise, may be empty.
+ */
+export type WorkflowIfNode = {
+  type: "if";
+  condition: WorkflowCondition;
+  thenNodes: WorkflowNode[];
+  elseNodes: WorkflowNode[];
+};
+
+/**
+ * A workflow node that repeats its child nodes while a condition is met.
+ * @property type - Always "while" for loop nodes.
+ * @property condition - The condition checked before each iteration.
+ * @property maxIterations - Maximum number of iterations, the loop ends when it is reached.
+ * @property nodes - Array of child workflow nodes to execute on each iteration.
+ */
+export type WorkflowWhileNode = {
+  type: "while";
+  condition: WorkflowCondition;
+  maxIterations: number;
+  nodes: WorkflowNode[];
+};
+
+/**
+ * A workflow node that executes fallback nodes when its child nodes fail.
+ * @property type - Always "try" for fallback nodes.
+ * @property nodes - Array of child workflow nodes to try.
+ * @property catchNodes - Array of nodes to execute only if the child nodes fail.
+ */
+export type WorkflowTryNode = {
+  type: "try";
+  nodes: WorkflowNode[];
+  catchNodes: WorkflowNode[];
+};
+
 /**
  * Union type representing all possible workflow node types.
- * A workflow node can be a simple text node, a forEach iteration node, or a watch event node.
+ * A workflow node can be a simple text node, a forEach iteration node, a watch event node,
+ * or an if, while or try control flow node.
  */
 export type WorkflowNode =
   | WorkflowTextNode
   | WorkflowForEachNode
-  | WorkflowWatchNode;
+  | WorkflowWatchNode
+  | WorkflowIfNode
+  | WorkflowWhileNode
+  | WorkflowTryNode;
 
 /**
  * Represents an agent within a workflow, including its task definition and execution state.
@@ -217,6 +370,7 @@ export type WorkflowNode =
  * @property parallel - Whether this agent can run in parallel with others.
  * @property status - Current execution status: "init", "running", "done", or "error".
  * @property xml - XML representation of this agent configuration.
+ * @property subWorkflow - Set when the entry calls the saved workflow named `name` instead of an agent.
  */
 export type WorkflowAgent = {
   id: string;
@@ -227,6 +381,7 @@ export type WorkflowAgent = {
   parallel?: boolean;
   status: "init" | "running" | "done" | "error";
   xml: string; // <agent name="xxx">...</agent>
+  subWorkflow?: SubWorkflowCall;
 };
 
 /**
@@ -249,6 +404,161 @@ export type Workflow = {
   taskPrompt?: string;
 };
 
+/**
+ * A text node of a workflow definition, either the bare node text or an object
+ * with its input and output variable names, and the JSON Schema of its output.
+ */
+export type WorkflowTextNodeDefinition =
+  | string
+  | {
+      text: string;
+      input?: string;
+      output?: string;
+      outputSchema?: JSONSchema7;
+    };
+
+/**
+ * A forEach node of a workflow definition.
+ * @property forEach - The variable name containing the list to iterate over.
+ * @property nodes - The nodes to execute for each item.
+ */
+export type WorkflowForEachNodeDefinition = {
+  forEach: string;
+  nodes: WorkflowTextNodeDefinition[];
+};
+
+/**
+ * A watch node of a workflow definition.
+ * @property watch - The type of event to watch.
+ * @property loop - Whether to continue watching after the first trigger, defaults to false.
+ * @property description - Description of the watched event.
+ * @property trigger - The nodes to execute when the event occurs.
+ */
+export type WorkflowWatchNodeDefinition = {
+  watch: "dom" | "gui" | "file";
+  loop?: boolean;
+  description?: string;
+  trigger: WorkflowTextNodeDefinition[];
+};
+
+/**
+ * The condition of an if or while node of a workflow definition.
+ * @property variable - Name of the variable tested.
+ * @property equals - Value the variable must be equal to, without it the variable must be truthy.
+ * @property condition - Description of the condition evaluated by the LLM, when there is no variable.
+ */
+export type WorkflowConditionDefinition = {
+  variable?: string;
+  equals?: string;
+  condition?: string;
+};
+
+/**
+ * An if node of a workflow definition.
+ * @property if - The condition deciding the branch.
+ * @property then - The nodes to execute when the condition is met.
+ * @property else - The nodes to execute otherwise.
+ */
+export type WorkflowIfNodeDefinition = {
+  if: WorkflowConditionDefinition;
+  then: WorkflowTextNodeDefinition[];
+  else?: WorkflowTextNodeDefinition[];
+};
+
+/**
+ * A while node of a workflow definition.
+ * @property while - The condition checked before each iteration.
+ * @property maxIterations - Maximum number of iterations, defaults to `config.maxWhileIterations`.
+ * @property nodes - The nodes to execute on each iteration.
+ */
+export type WorkflowWhileNodeDefinition = {
+  while: WorkflowConditionDefinition;
+  maxIterations?: number;
+  nodes: WorkflowTextNodeDefinition[];
+};
+
+/**
+ * A try node of a workflow definition.
+ * @property try - The nodes to try.
+ * @property catch - The nodes to execute only if the tried nodes fail.
+ */
+export type WorkflowTryNodeDefinition = {
+  try: WorkflowTextNodeDefinition[];
+  catch?: WorkflowTextNodeDefinition[];
+};
+
+/**
+ * A node of a workflow definition.
+ */
+export type WorkflowNodeDefinition =
+  | WorkflowTextNodeDefinition
+  | WorkflowForEachNodeDefinition
+  | WorkflowWatchNodeDefinition
+  | WorkflowIfNodeDefinition
+  | WorkflowWhileNodeDefinition
+  | WorkflowTryNodeDefinition;
+
+/**
+ * An agent of a workflow definition.
+ * @property id - Id of the agent within the workflow, referenced by `dependsOn`, defaults to its index.
+ * @property name - The registered name of the agent.
+ * @property task - Description of the task of the agent.
+ * @property dependsOn - Ids of the agents that must complete before this agent runs.
+ * @property nodes - The execution steps of the agent.
+ * @property workflow - Whether the entry calls the saved workflow named `name` instead of an agent.
+ * @property inputs - Variables bound to the inputs of the saved workflow, by input name.
+ * @property outputs - Variables the outputs of the saved workflow are returned to, by output name.
+ */
+export type WorkflowAgentDefinition = {
+  id?: string | number;
+  name: string;
+  task: string;
+  dependsOn?: (string | number)[];
+  nodes?: WorkflowNodeDefinition[];
+  workflow?: boolean;
+  inputs?: Record<string, string>;
+  outputs?: Record<string, string>;
+};
+
+/**
+ * A hand-authored workflow, in JSON or YAML, equivalent to the XML plan of a Workflow.
+ * @property taskId - Optional task ID, a new one is generated when missing.
+ * @property name - Human-readable name of the workflow.
+ * @property thought - Optional reasoning behind the workflow.
+ * @property taskPrompt - Optional user prompt the workflow answers.
+ * @property agents - The agents of the workflow.
+ */
+export type WorkflowDefinition = {
+  $schema?: string;
+  taskId?: string;
+  name: string;
+  thought?: string;
+  taskPrompt?: string;
+  agents: WorkflowAgentDefinition[];
+};
+
+/**
+ * An error found in a workflow definition.
+ * @property path - Location of the error in the definition, e.g. `agents[1].dependsOn[0]`.
+ * @property message - Description of the error.
+ */
+export type WorkflowDefinitionIssue = {
+  path: string;
+  message: string;
+};
+
+/**
+ * Options of the validation of a workflow definition.
+ * @property agents - Names of the registered agents, agent names are not checked when missing.
+ * @property variables - Names of the variables set before execution, e.g. the context parameters.
+ * @property workflows - Names of the saved workflows, sub-workflow names are not checked when missing.
+ */
+export type WorkflowDefinitionOptions = {
+  agents?: string[];
+  variables?: string[];
+  workflows?: string[];
+};
+
 /**
  * Callback interface for human-in-the-loop interactions during workflow execution.
  * Allows agents to request human input, confirmation, or assistance.
@@ -314,16 +624,70 @@ export interface HumanCallback {
  * The result returned after a workflow execution completes.
  * @property taskId - Unique identifier of the completed task.
  * @property success - Whether the task completed successfully.
- * @property stopReason - Why execution stopped: "abort" if cancelled, "error" if failed, "done" if completed successfully.
+ * @property stopReason - Why execution stopped: "abort" if cancelled, "error" if failed, "budget" if the budget was exhausted, "done" if completed successfully.
  * @property result - The final result or output of the task execution.
  * @property error - The error object if stopReason is "error".
+ * @property dryRunReport - The actions of a dry run, see `ExecuteOptions.dryRun`.
+ * @property schedule - The schedule metadata of a task run by a Scheduler.
  */
 export type XSkyResult = {
   taskId: string;
   success: boolean;
-  stopReason: "abort" | "error" | "done";
+  stopReason: "abort" | "error" | "budget" | "done";
   result: string;
   error?: unknown;
+  dryRunReport?: DryRunReport;
+  schedule?: ScheduledRunInfo;
+};
+
+/**
+ * Options for executing a workflow with `XSky.execute`.
+ * @property dryRun - Whether to simulate the side-effecting tools (`Tool.sideEffects`) instead of
+ *   running them. Read-only tools and the LLM run for real, and every tool call is reported in
+ *   `XSkyResult.dryRunReport` so that the plan can be reviewed before a live run.
+ */
+export type ExecuteOptions = {
+  dryRun?: boolean;
+};
+
+/**
+ * A tool call of a dry run.
+ * @property agentName - Name of the agent calling the tool.
+ * @property nodeId - ID of the workflow agent node.
+ * @property toolName - Name of the tool.
+ * @property toolCallId - ID of the tool call.
+ * @property args - Arguments of the tool call.
+ * @property resources - Resources the call accesses, as resolved for the security checks.
+ * @property simulated - Whether the call was intercepted (side-effecting tool) instead of run.
+ * @property approvalRequired - Whether the call would be submitted for approval, not asked during a dry run.
+ * @property timestamp - Time of the call in milliseconds.
+ */
+export type DryRunAction = {
+  agentName: string;
+  nodeId: string;
+  toolName: string;
+  toolCallId: string;
+  args: Record<string, unknown>;
+  resources: ResourceAccess[];
+  simulated: boolean;
+  approvalRequired?: boolean;
+  timestamp: number;
+};
+
+/**
+ * The report of a dry run, listing the actions the workflow intends to perform.
+ * @property taskId - ID of the task.
+ * @property workflowName - Name of the workflow.
+ * @property startTime - Start time of the run in milliseconds.
+ * @property endTime - End time of the run in milliseconds.
+ * @property actions - Every tool call of the run, in order.
+ */
+export type DryRunReport = {
+  taskId: string;
+  workflowName?: string;
+  startTime: number;
+  endTime: number;
+  actions: DryRunAction[];
 };
 
 /**
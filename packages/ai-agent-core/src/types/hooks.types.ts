@@ -2,7 +2,7 @@ import type { AgentContext } from "../core/context";
 import type { ToolResult } from "./tools.types";
 import type { Workflow, WorkflowAgent, XSkyResult } from "./core.types";
 import type Context from "../core/context";
-import type { SecurityConfig } from "./security.types";
+import type { SecurityConfig, IAuditLogger } from "./security.types";
 
 
 /**
@@ -59,6 +59,18 @@ export type ApprovalResult = {
    * Timestamp of the approval decision.
    */
   timestamp?: number;
+
+  /**
+   * Individual decisions when several approvers were involved.
+   * Used to check `requiredApprovers` and `minimumApprovals`; when omitted,
+   * the result itself counts as a single decision.
+   */
+  approvals?: Array<{
+    approver: string;
+    approved: boolean;
+    feedback?: string;
+    timestamp?: number;
+  }>;
 };
 
 /**
@@ -166,6 +178,27 @@ export type Checkpoint = {
   createdAt: number;
 };
 
+/**
+ * Storage backend for workflow checkpoints.
+ * Only the latest checkpoint per task is kept; it is what `XSky.resume` loads.
+ */
+export interface ICheckpointStore {
+  /**
+   * Persists a checkpoint, replacing any previous checkpoint of the same task.
+   */
+  save(checkpoint: Checkpoint): Promise<void>;
+
+  /**
+   * Loads the latest checkpoint of a task, or undefined if none exists (or it expired).
+   */
+  load(taskId: string): Promise<Checkpoint | undefined>;
+
+  /**
+   * Deletes all persisted state of a task.
+   */
+  delete(taskId: string): Promise<void>;
+}
+
 /**
  * Configuration for workflow steps with approval gates.
  */
@@ -428,6 +461,12 @@ export interface StateConfig {
     load: (taskId: string) => Promise<any>;
     delete: (taskId: string) => Promise<void>;
   };
+
+  /**
+   * Checkpoint store instance. Required for "redis" and "postgresql",
+   * and takes precedence over the built-in stores when provided.
+   */
+  store?: ICheckpointStore;
 }
 
 /**
@@ -445,14 +484,25 @@ export interface ApprovalConfig {
   defaultChannel?: string;
 
   /**
-   * Action to take when approval times out.
+   * Action to take when approval times out (default: "skip").
+   * - abort: abort the task
+   * - skip: do not execute the tool and let the agent continue
+   * - auto-approve: execute the tool
+   * - escalate: re-send the request to the rule's `escalateTo` target
    */
   onTimeout?: "abort" | "skip" | "auto-approve" | "escalate";
 
   /**
-   * Conditional approval rules.
+   * Conditional approval rules. The first rule whose condition matches a tool call applies:
+   * the tool call requires approval unless the rule auto-approves it.
    */
   rules?: ApprovalRule[];
+
+  /**
+   * Audit logger recording every approval decision when `security.auditLogging` is enabled,
+   * e.g. `AuditLoggerFactory.getInstance()` to share one log between tasks.
+   */
+  auditLogger?: IAuditLogger;
 }
 
 /**
@@ -460,9 +510,12 @@ export interface ApprovalConfig {
  */
 export interface ApprovalRule {
   /**
-   * Condition function to determine if this rule applies.
+   * Condition function to determine if this rule applies to a tool call.
    */
-  condition: (context: AgentContext) => boolean;
+  condition: (
+    context: AgentContext,
+    toolCall: { toolName: string; args: Record<string, any> }
+  ) => boolean;
 
   /**
    * Channel to send approval request to.
@@ -489,14 +542,28 @@ export interface ApprovalRule {
    */
   requiredApprovers?: string[];
 
+  /**
+   * Minimum number of approvals needed for this rule.
+   */
+  minimumApprovals?: number;
+
   /**
    * Whether signature is required for approval.
    */
   requiresSignature?: boolean;
 }
 
+/**
+ * A maximum number of operations within a sliding time window.
+ */
+export type RateLimit = {
+  maxOperations: number;
+  windowMs: number;
+};
+
 /**
  * Rate limiting configuration for tools/actions.
+ * Every tool call counts against its tool bucket, plus its agent and target domain buckets when configured.
  */
 export interface RateLimitConfig {
   /**
@@ -512,7 +579,29 @@ export interface RateLimitConfig {
   /**
    * Optional per-tool rate limits.
    */
-  perTool?: Record<string, { maxOperations: number; windowMs: number }>;
+  perTool?: Record<string, RateLimit>;
+
+  /**
+   * Optional per-agent rate limits, shared by all tools of the agent.
+   */
+  perAgent?: Record<string, RateLimit>;
+
+  /**
+   * Optional per-domain rate limits for tools targeting a URL.
+   * Keyed by host ("example.com"), subdomain pattern ("*.example.com"),
+   * or "*" to give every other domain its own bucket.
+   */
+  perDomain?: Record<string, RateLimit>;
+
+  /**
+   * What to do when a limit is reached: wait until allowed, or reject the tool call (default: "wait").
+   */
+  strategy?: "wait" | "reject";
+
+  /**
+   * Maximum time to wait with the "wait" strategy before rejecting the tool call.
+   */
+  maxWaitMs?: number;
 }
 
 /**
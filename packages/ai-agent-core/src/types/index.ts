@@ -5,6 +5,13 @@ export * from "./tools.types";
 export * from "./mcp.types";
 export * from "./hooks.types";
 export * from "./security.types";
+export * from "./a2a.types";
+export * from "./trace.types";
+export * from "./report.types";
+export * from "./scheduler.types";
+export * from "./queue.types";
+export * from "./pool.types";
+export * from "./memory.types";
 
 export type {
   JSONSchema7,
@@ -38,6 +38,7 @@ export type LLMprovider =
  * @property options - Optional provider-specific options passed to the underlying SDK.
  * @property fetch - Optional custom fetch implementation for network requests.
  * @property handler - Optional middleware function to modify request options before sending.
+ * @property price - Optional price of the model, used to estimate the cost of calls for budgets.
  */
 export type LLMConfig = {
   provider: LLMprovider;
@@ -54,6 +55,97 @@ export type LLMConfig = {
   options?: Record<string, any>;
   fetch?: typeof globalThis.fetch;
   handler?: (options: LanguageModelV2CallOptions, context?: Context, agentContext?: AgentContext) => Promise<LanguageModelV2CallOptions>;
+  price?: LLMPrice;
+};
+
+/**
+ * Price of a language model in USD per million tokens.
+ * @property prompt - Price per million prompt (input) tokens.
+ * @property completion - Price per million completion (output) tokens.
+ */
+export type LLMPrice = {
+  prompt: number;
+  completion: number;
+};
+
+/**
+ * Token and cost limits of a budget. Unset limits are unlimited.
+ * @property maxPromptTokens - Maximum prompt tokens.
+ * @property maxCompletionTokens - Maximum completion tokens.
+ * @property maxCost - Maximum estimated cost in USD, based on the LLMConfig prices.
+ */
+export type BudgetLimits = {
+  maxPromptTokens?: number;
+  maxCompletionTokens?: number;
+  maxCost?: number;
+};
+
+/**
+ * Budget enforced on the LLM calls of a task.
+ * The top-level limits apply to the whole task, `perAgent` limits to the calls of a single agent.
+ * @property perAgent - Optional limits per agent name, "*" applies to every other agent.
+ * @property onExhausted - "abort" stops the task with stopReason "budget" (default),
+ *   "downgrade" switches the exhausted calls to `downgradeLlm` and keeps the task running.
+ * @property downgradeLlm - Name of the cheaper LLM in `llms` to downgrade to.
+ */
+export type BudgetConfig = BudgetLimits & {
+  perAgent?: Record<string, BudgetLimits>;
+  onExhausted?: "abort" | "downgrade";
+  downgradeLlm?: string;
+};
+
+/**
+ * Usage recorded against a budget.
+ */
+export type BudgetUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+};
+
+/**
+ * Mode of an LLM cassette: "record" calls the providers and captures their responses,
+ * "replay" serves the captured responses without network.
+ */
+export type CassetteMode = "record" | "replay";
+
+/**
+ * A recorded LLM call.
+ * @property key - Hash of the normalized request, replayed calls are matched on it.
+ * @property llm - Name of the LLM configuration that was called.
+ * @property model - Model that was called.
+ * @property type - Whether the call was generated or streamed.
+ * @property request - The normalized request, kept for readability and debugging.
+ * @property response - The result of a generate call.
+ * @property chunks - The parts of a stream call, with the delay in milliseconds before each part.
+ */
+export type CassetteInteraction = {
+  key: string;
+  llm: string;
+  model: string;
+  type: "generate" | "stream";
+  request: Record<string, unknown>;
+  response?: Record<string, unknown>;
+  chunks?: Array<{ delay: number; part: Record<string, unknown> }>;
+};
+
+/**
+ * Serializable content of an LLM cassette.
+ */
+export type CassetteData = {
+  version: 1;
+  interactions: CassetteInteraction[];
+};
+
+/**
+ * Options of an LLM cassette.
+ * @property replayTiming - Whether replayed streams wait the recorded delay between parts (default false).
+ * @property normalize - Optional extra normalization of prompt texts before hashing,
+ *   applied after the built-in one that masks datetimes and UUIDs.
+ */
+export type CassetteOptions = {
+  replayTiming?: boolean;
+  normalize?: (text: string) => string;
 };
 
 /**
@@ -54,11 +54,278 @@ export type McpListToolResult = Array<{
   description?: string;
   /** JSON Schema defining the tool's input parameters */
   inputSchema: JSONSchema7;
+  /** Optional hints about the behavior of the tool */
+  annotations?: McpToolAnnotations;
 }>;
 
+/**
+ * Hints of an MCP server about the behavior of a tool.
+ */
+export type McpToolAnnotations = {
+  /** Human-readable title of the tool */
+  title?: string;
+  /** If true, the tool does not modify its environment */
+  readOnlyHint?: boolean;
+  /** If true, the tool may perform destructive updates */
+  destructiveHint?: boolean;
+  /** If true, calling the tool repeatedly with the same arguments has no additional effect */
+  idempotentHint?: boolean;
+  /** If true, the tool interacts with external entities */
+  openWorldHint?: boolean;
+};
+
+/**
+ * A resource exposed by an MCP server, e.g. a file, a database schema or an API response.
+ */
+export type McpResource = {
+  /** URI identifying the resource */
+  uri: string;
+  /** Name of the resource */
+  name: string;
+  /** Optional human-readable title of the resource */
+  title?: string;
+  /** Optional description of the resource */
+  description?: string;
+  /** Optional MIME type of the resource */
+  mimeType?: string;
+  /** Optional size of the resource in bytes */
+  size?: number;
+};
+
+/**
+ * Contents of a resource read from an MCP server, either text or base64 encoded binary data.
+ */
+export type McpResourceContents = {
+  /** URI of the resource */
+  uri: string;
+  /** Optional MIME type of the contents */
+  mimeType?: string;
+  /** Text of a text resource */
+  text?: string;
+  /** Base64 encoded data of a binary resource */
+  blob?: string;
+};
+
+/**
+ * A prompt template exposed by an MCP server.
+ */
+export type McpPrompt = {
+  /** Name of the prompt */
+  name: string;
+  /** Optional human-readable title of the prompt */
+  title?: string;
+  /** Optional description of the prompt */
+  description?: string;
+  /** Optional arguments used to fill the template */
+  arguments?: Array<{
+    name: string;
+    description?: string;
+    required?: boolean;
+  }>;
+};
+
+/**
+ * A message of a prompt returned by an MCP server.
+ */
+export type McpPromptMessage = {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "image" | "audio"; data: string; mimeType: string }
+    | { type: "resource"; resource: McpResourceContents };
+};
+
+/**
+ * Result from getting a prompt, the template filled with its arguments.
+ */
+export type McpGetPromptResult = {
+  /** Optional description of the prompt */
+  description?: string;
+  /** Messages of the prompt */
+  messages: McpPromptMessage[];
+};
+
+/**
+ * A message of a sampling request of an MCP server.
+ */
+export type McpSamplingMessage = {
+  role: "user" | "assistant";
+  content:
+    | { type: "text"; text: string }
+    | { type: "image" | "audio"; data: string; mimeType: string };
+};
+
+/**
+ * Parameters of a `sampling/createMessage` request, an MCP server asking the client for an LLM completion.
+ */
+export type McpSamplingParams = {
+  /** Messages to complete */
+  messages: McpSamplingMessage[];
+  /** Optional system prompt */
+  systemPrompt?: string;
+  /** Maximum number of tokens to generate */
+  maxTokens: number;
+  /** Optional sampling temperature */
+  temperature?: number;
+  /** Optional sequences stopping the generation */
+  stopSequences?: string[];
+  /** Optional preferences of the server for the model, advisory */
+  modelPreferences?: {
+    hints?: Array<{ name?: string }>;
+    costPriority?: number;
+    speedPriority?: number;
+    intelligencePriority?: number;
+  };
+  [key: string]: unknown;
+};
+
+/**
+ * Result of a `sampling/createMessage` request.
+ */
+export type McpSamplingResult = {
+  role: "assistant";
+  content: { type: "text"; text: string };
+  /** Name of the model that generated the message */
+  model: string;
+  /** Optional reason the generation stopped, e.g. "endTurn" or "maxTokens" */
+  stopReason?: string;
+};
+
+/**
+ * Parameters of an `elicitation/create` request, an MCP server asking the user for information.
+ */
+export type McpElicitationParams = {
+  /** Message explaining the requested information */
+  message: string;
+  /** Flat object schema of the requested information, with string, number, boolean or enum properties */
+  requestedSchema: {
+    type: "object";
+    properties: Record<string, JSONSchema7>;
+    required?: string[];
+  };
+};
+
+/**
+ * Result of an `elicitation/create` request.
+ */
+export type McpElicitationResult = {
+  /** Whether the user provided the information, declined explicitly or dismissed the request */
+  action: "accept" | "decline" | "cancel";
+  /** The information provided by the user, when accepted */
+  content?: Record<string, string | number | boolean>;
+};
+
+/**
+ * A progress notification of a long running request.
+ */
+export type McpProgress = {
+  /** Token of the request the progress belongs to */
+  progressToken: string | number;
+  /** Progress so far, increasing */
+  progress: number;
+  /** Optional total of the progress, if known */
+  total?: number;
+  /** Optional human-readable message of the progress */
+  message?: string;
+};
+
+/**
+ * Handlers of the messages an MCP server initiates while a tool call is running.
+ * A server request without a handler is answered with a "Method not found" error.
+ */
+export type McpServerHandlers = {
+  /** Serves a `sampling/createMessage` request */
+  onSampling?: (params: McpSamplingParams, signal?: AbortSignal) => Promise<McpSamplingResult>;
+  /** Serves an `elicitation/create` request */
+  onElicitation?: (
+    params: McpElicitationParams,
+    signal?: AbortSignal
+  ) => Promise<McpElicitationResult>;
+  /** Receives the progress notifications of the tool call */
+  onProgress?: (progress: McpProgress) => void;
+};
+
+/**
+ * Provides the OAuth access tokens an MCP client sends as bearer tokens.
+ */
+export interface McpTokenProvider {
+  /**
+   * Gets the access token, called before each request.
+   * @returns A promise resolving to the token, undefined to send no token.
+   */
+  getToken(): Promise<string | undefined>;
+
+  /**
+   * Refreshes the access token after the server rejected it with a 401 response.
+   * @returns A promise resolving to the new token, undefined if it cannot be refreshed.
+   */
+  refreshToken?(): Promise<string | undefined>;
+}
+
+/**
+ * Options of the Streamable HTTP MCP client.
+ * @property clientName - Name of the client sent on initialization.
+ * @property headers - Additional headers sent with each request.
+ * @property tokenProvider - Provider of the bearer tokens, for servers requiring authorization.
+ * @property listen - Whether to open a stream for the messages the server initiates outside requests (default: true).
+ * @property maxRetries - Maximum reconnection attempts of a closed stream (default: 5).
+ * @property initialDelay - Delay in milliseconds before the first reconnection, doubled each attempt (default: 1000).
+ * @property maxDelay - Maximum delay in milliseconds between two reconnections (default: 30000).
+ */
+export type StreamableHttpMcpClientOptions = {
+  clientName?: string;
+  headers?: Record<string, string>;
+  tokenProvider?: McpTokenProvider;
+  listen?: boolean;
+  maxRetries?: number;
+  initialDelay?: number;
+  maxDelay?: number;
+};
+
+/**
+ * Servers and tools of a multiplexed MCP client visible to an agent.
+ * @property servers - Names of the visible servers, all servers when undefined.
+ * @property tools - Visible tools, by tool name or `server/tool`, all tools of the visible servers when undefined.
+ */
+export type McpServerFilter = {
+  servers?: string[];
+  tools?: string[];
+};
+
+/**
+ * Options of the MCP client multiplexing several servers.
+ * @property separator - Separator between the server name and the tool name of colliding tools (default: "_").
+ * @property retryInterval - Delay in milliseconds before a failed server is used again (default: 30000).
+ * @property agents - Servers and tools visible to each agent, by agent name, all for agents not listed.
+ */
+export type MultiMcpClientOptions = {
+  separator?: string;
+  retryInterval?: number;
+  agents?: Record<string, McpServerFilter>;
+};
+
+/**
+ * Health of a server of a multiplexed MCP client.
+ * @property name - Name of the server.
+ * @property healthy - False while the server is skipped after a failure.
+ * @property connected - Whether the client of the server is connected.
+ * @property failures - Consecutive failures of the server.
+ * @property error - Message of the last failure.
+ * @property retryAt - Timestamp after which an unhealthy server is used again.
+ */
+export type McpServerHealth = {
+  name: string;
+  healthy: boolean;
+  connected: boolean;
+  failures: number;
+  error?: string;
+  retryAt?: number;
+};
+
 /**
  * Interface for Model Context Protocol (MCP) client implementations.
  * MCP provides a standardized way to discover and invoke tools from external servers.
+ * Resources and prompts are optional, clients not implementing them expose tools only.
  */
 export interface IMcpClient {
   /**
@@ -80,9 +347,69 @@ export interface IMcpClient {
    * Calls a specific tool on the MCP server.
    * @param param - Parameters including tool name and arguments.
    * @param signal - Optional AbortSignal to cancel the request.
+   * @param handlers - Optional handlers of the requests and progress the server sends during the call.
    * @returns A promise resolving to the tool's result.
    */
-  callTool(param: McpCallToolParam, signal?: AbortSignal): Promise<ToolResult>;
+  callTool(
+    param: McpCallToolParam,
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
+  ): Promise<ToolResult>;
+
+  /**
+   * Listens to the `notifications/tools/list_changed` notifications of the MCP server.
+   * @param listener - Called when the tools of the server changed.
+   * @returns A function that removes the listener.
+   */
+  onToolsChanged?(listener: () => void): () => void;
+
+  /**
+   * Lists available resources from the MCP server.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to an array of resources.
+   */
+  listResources?(signal?: AbortSignal): Promise<McpResource[]>;
+
+  /**
+   * Reads a resource from the MCP server.
+   * @param uri - The URI of the resource.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to the contents of the resource.
+   */
+  readResource?(uri: string, signal?: AbortSignal): Promise<McpResourceContents[]>;
+
+  /**
+   * Subscribes to the updates of a resource.
+   * @param uri - The URI of the resource.
+   * @param listener - Called with the URI when the resource is updated.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to a function that unsubscribes the listener.
+   */
+  subscribe?(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>>;
+
+  /**
+   * Lists available prompts from the MCP server.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to an array of prompts.
+   */
+  listPrompts?(signal?: AbortSignal): Promise<McpPrompt[]>;
+
+  /**
+   * Gets a prompt from the MCP server, filled with its arguments.
+   * @param name - The name of the prompt.
+   * @param args - Optional values of the arguments of the prompt.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to the messages of the prompt.
+   */
+  getPrompt?(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult>;
 
   /**
    * Checks if the client is currently connected to the MCP server.
@@ -0,0 +1,92 @@
+import type Context from "../core/context";
+
+/**
+ * Kind of a fact learned from a task:
+ * - "navigation": how to reach a page or a feature, e.g. the menu holding an export button.
+ * - "credentials": where credentials are found, never the credentials themselves.
+ * - "preference": a preference of the user, e.g. a file format or a currency.
+ * - "fact": any other fact reusable by later tasks.
+ */
+export type LongTermMemoryKind = "navigation" | "credentials" | "preference" | "fact";
+
+/**
+ * A fact learned from a task, recalled into the prompts of the later tasks of its tenant.
+ * @property id - Unique identifier of the memory.
+ * @property tenant - Tenant the memory belongs to, only its tasks recall it.
+ * @property kind - Kind of the fact.
+ * @property content - The fact, a self-contained sentence.
+ * @property taskId - ID of the task the fact was learned from, undefined when remembered explicitly.
+ * @property createdAt - Time the memory was created in milliseconds.
+ */
+export type LongTermMemoryEntry = {
+  id: string;
+  tenant: string;
+  kind: LongTermMemoryKind;
+  content: string;
+  taskId?: string;
+  createdAt: number;
+};
+
+/**
+ * A memory found by a search, with its relevance to the query.
+ * @property entry - The memory.
+ * @property score - Relevance of the memory, higher is more relevant. The scale depends on the store.
+ */
+export type LongTermMemoryMatch = {
+  entry: LongTermMemoryEntry;
+  score: number;
+};
+
+/**
+ * Store of long-term memories, e.g. an adapter of a vector database.
+ * Every operation is scoped to a tenant.
+ */
+export interface ILongTermMemoryStore {
+  /**
+   * Adds memories, replacing the memories of the same ID.
+   * @param entries - The memories to add.
+   */
+  add(entries: LongTermMemoryEntry[]): Promise<void>;
+
+  /**
+   * Searches the memories of a tenant relevant to a query.
+   * @param tenant - The tenant of the memories.
+   * @param query - The text to find relevant memories for.
+   * @param limit - Maximum number of memories returned.
+   * @returns The relevant memories, most relevant first.
+   */
+  search(tenant: string, query: string, limit: number): Promise<LongTermMemoryMatch[]>;
+
+  /**
+   * Lists all memories of a tenant.
+   * @param tenant - The tenant of the memories.
+   * @returns The memories, oldest first.
+   */
+  list(tenant: string): Promise<LongTermMemoryEntry[]>;
+
+  /**
+   * Deletes memories of a tenant.
+   * @param tenant - The tenant of the memories.
+   * @param ids - IDs of the memories to delete, all memories of the tenant when undefined.
+   * @returns The number of deleted memories.
+   */
+  delete(tenant: string, ids?: string[]): Promise<number>;
+}
+
+/**
+ * Options of the long-term memory.
+ * @property store - Store of the memories, defaults to an in-memory BM25 store that needs no embeddings.
+ * @property llms - Names of the LLMs extracting facts from tasks, defaults to the default LLM.
+ * @property maxRecalled - Maximum number of memories recalled into the prompts of a task (default: 5).
+ * @property minScore - Minimum score of a recalled memory (default: 0).
+ * @property extract - Whether facts are extracted after each task (default: true).
+ * @property tenant - Gets the tenant of a task, defaults to its `tenant` variable or "default".
+ */
+export type LongTermMemoryOptions = {
+  store?: ILongTermMemoryStore;
+  llms?: string[];
+  maxRecalled?: number;
+  minScore?: number;
+  extract?: boolean;
+  tenant?: (context: Context) => string;
+};
@@ -0,0 +1,63 @@
+import type { Agent } from "../agent";
+
+/**
+ * Options of an agent pool.
+ * @property factories - Creates a new instance of an agent, by agent name. The instances
+ *   must have the name they are created for, the configured agent of the same name is
+ *   still used for planning.
+ * @property maxSize - Maximum number of instances across all agents, defaults to 4.
+ *   Leases wait when the pool is full and no instance is idle.
+ * @property recycle - Resets an instance before it is leased to another task, e.g. clears
+ *   the storage of a browser. An instance failing to recycle is destroyed.
+ * @property destroy - Releases the resources of an instance evicted from the pool or of a closed pool.
+ */
+export type AgentPoolOptions = {
+  factories: Record<string, () => Agent | Promise<Agent>>;
+  maxSize?: number;
+  recycle?: (agent: Agent) => Promise<void>;
+  destroy?: (agent: Agent) => Promise<void>;
+};
+
+/**
+ * An agent instance leased from an agent pool, for the run of one workflow agent.
+ * @property agent - The leased instance.
+ * @property reused - Whether the instance was reused instead of created.
+ * @property waitMs - Time waited for the instance in milliseconds.
+ * @property release - Returns the instance to the pool, later calls are ignored.
+ */
+export type AgentLease = {
+  agent: Agent;
+  reused: boolean;
+  waitMs: number;
+  release: () => Promise<void>;
+};
+
+/**
+ * Metrics of an agent pool.
+ * @property size - Number of instances, leased or idle.
+ * @property inUse - Number of leased instances.
+ * @property idle - Number of idle instances.
+ * @property waiting - Number of leases waiting for an instance.
+ * @property leases - Number of leases granted.
+ * @property created - Number of instances created.
+ * @property reused - Number of leases granted an existing instance.
+ * @property recycled - Number of instances reset for another task.
+ * @property destroyed - Number of instances destroyed.
+ * @property totalWaitMs - Total time leases waited for an instance.
+ * @property maxWaitMs - Longest time a lease waited for an instance.
+ * @property agents - Leased and idle instances by agent name.
+ */
+export type AgentPoolMetrics = {
+  size: number;
+  inUse: number;
+  idle: number;
+  waiting: number;
+  leases: number;
+  created: number;
+  reused: number;
+  recycled: number;
+  destroyed: number;
+  totalWaitMs: number;
+  maxWaitMs: number;
+  agents: Record<string, { inUse: number; idle: number }>;
+};
@@ -0,0 +1,51 @@
+import type { ExecuteOptions } from "./core.types";
+
+/**
+ * Options of a task queue.
+ * @property maxConcurrentTasks - Maximum number of tasks running at once, planning included.
+ *   Defaults to 1.
+ * @property agentLimits - Maximum number of running tasks using an agent, by agent name,
+ *   e.g. `{ Browser: 2 }` to open at most two browsers. A task holds a slot of each
+ *   limited agent of its workflow until it finishes.
+ */
+export type TaskQueueOptions = {
+  maxConcurrentTasks?: number;
+  agentLimits?: Record<string, number>;
+};
+
+/**
+ * Options of a task submitted to a task queue.
+ * @property priority - Tasks of a higher priority start first, defaults to 0.
+ * @property tenant - Tenant the task runs for, tasks of the same priority are shared fairly
+ *   between tenants, the tenant with the fewest running tasks goes first. Defaults to "default".
+ */
+export type TaskQueueSubmitOptions = {
+  priority?: number;
+  tenant?: string;
+};
+
+/**
+ * Options of a task prompt planned and executed by a task queue, see `XSky.run`.
+ * @property taskId - ID of the task, generated when omitted.
+ * @property contextParams - Variables set before planning.
+ */
+export type TaskQueueRunOptions = TaskQueueSubmitOptions & {
+  taskId?: string;
+  contextParams?: Record<string, any>;
+};
+
+/**
+ * Options of an initialized task executed by a task queue, see `XSky.execute`.
+ */
+export type TaskQueueExecuteOptions = TaskQueueSubmitOptions & ExecuteOptions;
+
+/**
+ * Tasks of a task queue at the time it was shut down.
+ * @property paused - Tasks that were running, paused and checkpointed to be resumed
+ *   with `XSky.resume` after a restart.
+ * @property cancelled - Tasks that were waiting and never started.
+ */
+export type TaskQueueShutdownResult = {
+  paused: string[];
+  cancelled: string[];
+};
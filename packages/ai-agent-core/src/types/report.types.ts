@@ -0,0 +1,110 @@
+/**
+ * Execution report types.
+ * A report is the timeline of a finished task, built from its chain and stream events.
+ */
+
+import type { StreamCallbackMessage, WorkflowAgent } from "./core.types";
+
+/**
+ * Output format of a rendered execution report.
+ */
+export type ExecutionReportFormat = "html" | "markdown" | "json";
+
+/**
+ * Token usage of an LLM call, or the sum of several calls.
+ */
+export type ExecutionReportUsage = {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+};
+
+/**
+ * An image of a tool result or of the LLM output, e.g. a screenshot.
+ */
+export type ExecutionReportImage = {
+  mimeType: string;
+  /** Base64 encoded data */
+  data: string;
+};
+
+/**
+ * A tool call of a step.
+ */
+export type ExecutionReportToolCall = {
+  toolCallId: string;
+  toolName: string;
+  params: Record<string, unknown>;
+  /** Text content of the result */
+  result?: string;
+  images: ExecutionReportImage[];
+  isError: boolean;
+  /** Number of times the tool was called, more than 1 when retried after an error */
+  attempts: number;
+  startTime?: number;
+  endTime?: number;
+};
+
+/**
+ * A step of an agent: one LLM call and the tools it called.
+ */
+export type ExecutionReportStep = {
+  index: number;
+  startTime?: number;
+  endTime?: number;
+  thinking?: string;
+  text?: string;
+  finishReason?: string;
+  usage?: ExecutionReportUsage;
+  toolCalls: ExecutionReportToolCall[];
+  images: ExecutionReportImage[];
+  errors: string[];
+};
+
+/**
+ * An agent of the workflow, in execution order.
+ */
+export type ExecutionReportAgent = {
+  id: string;
+  name: string;
+  task: string;
+  status: WorkflowAgent["status"];
+  result?: string;
+  error?: string;
+  startTime?: number;
+  endTime?: number;
+  usage: ExecutionReportUsage;
+  steps: ExecutionReportStep[];
+};
+
+/**
+ * The report of a task execution.
+ */
+export type ExecutionReport = {
+  taskId: string;
+  name?: string;
+  taskPrompt: string;
+  thought?: string;
+  success?: boolean;
+  stopReason?: string;
+  result?: string;
+  error?: string;
+  startTime?: number;
+  endTime?: number;
+  usage: ExecutionReportUsage;
+  agents: ExecutionReportAgent[];
+  /** Time the report was generated in milliseconds */
+  generatedAt: number;
+};
+
+/**
+ * A stream callback message captured by an `ExecutionRecorder`.
+ * Streamed texts are recorded once, with the text of their last message.
+ */
+export type RecordedStreamEvent = {
+  /** Time of the first message in milliseconds */
+  time: number;
+  /** Time of the last message of a streamed text in milliseconds */
+  endTime?: number;
+  message: StreamCallbackMessage;
+};
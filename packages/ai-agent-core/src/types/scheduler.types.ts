@@ -0,0 +1,100 @@
+/**
+ * What happens when a schedule is due while its previous run is still running:
+ * - "skip": the due run is skipped
+ * - "queue": the due run starts when the previous run finishes, at most one run is queued
+ * - "cancel-previous": the previous run is aborted and the due run starts
+ */
+export type ScheduleOverlapPolicy = "skip" | "queue" | "cancel-previous";
+
+/**
+ * A task run on a recurring schedule, e.g. an hourly price check.
+ * @property id - Unique ID of the schedule.
+ * @property cron - Cron expression of the run times in local time: minute, hour, day of month,
+ *   month and day of week, or a macro such as `@hourly`. Exclusive with `intervalMs`.
+ * @property intervalMs - Interval between runs in milliseconds, the first run is one interval
+ *   after the schedule starts. Exclusive with `cron`.
+ * @property prompt - Task prompt planned and executed on each run. Exclusive with `workflow`.
+ * @property workflow - Name of the saved workflow (`XSkyConfig.workflows`) executed on each run.
+ * @property contextParams - Variables set before each run.
+ * @property overlap - Policy when the previous run is still running, defaults to "skip".
+ */
+export type Schedule = {
+  id: string;
+  cron?: string;
+  intervalMs?: number;
+  prompt?: string;
+  workflow?: string;
+  contextParams?: Record<string, any>;
+  overlap?: ScheduleOverlapPolicy;
+};
+
+/**
+ * Metadata of a scheduled run, set on the context of the task (`Context.schedule`) and on its
+ * result, so that `onWorkflowComplete` hooks can tell scheduled runs apart.
+ * @property scheduleId - ID of the schedule.
+ * @property runId - ID of the run.
+ * @property scheduledAt - Time the run was due, in milliseconds since the epoch.
+ */
+export type ScheduledRunInfo = {
+  scheduleId: string;
+  runId: string;
+  scheduledAt: number;
+};
+
+/**
+ * A run of a schedule, recorded in the run history.
+ * @property taskId - ID of the XSky task of the run.
+ * @property status - "queued" until it starts, then "running" and finally "done", "error",
+ *   "aborted" or "cancelled" (by a newer run); "skipped" when it never ran because of the overlap policy.
+ * @property startedAt - Time the run started.
+ * @property finishedAt - Time the run finished.
+ * @property result - Result of the task.
+ * @property error - Error message of a failed run.
+ */
+export type ScheduleRun = ScheduledRunInfo & {
+  taskId: string;
+  status: "queued" | "running" | "done" | "error" | "aborted" | "cancelled" | "skipped";
+  startedAt?: number;
+  finishedAt?: number;
+  result?: string;
+  error?: string;
+};
+
+/**
+ * Persistence of the run history of schedules.
+ */
+export interface IScheduleStore {
+  /**
+   * Persists a run, replacing the previously saved state of the same run.
+   */
+  saveRun(run: ScheduleRun): Promise<void>;
+
+  /**
+   * Lists the runs of a schedule, most recent first.
+   * @param scheduleId - ID of the schedule.
+   * @param limit - Maximum number of runs to list.
+   */
+  listRuns(scheduleId: string, limit?: number): Promise<ScheduleRun[]>;
+}
+
+/**
+ * The clock of a scheduler, replaced by a fake clock in tests.
+ */
+export interface SchedulerClock {
+  now(): number;
+  setTimeout(callback: () => void, ms: number): unknown;
+  clearTimeout(handle: unknown): void;
+}
+
+/**
+ * Options of a scheduler.
+ * @property maxConcurrentRuns - Maximum number of runs executing at once across all schedules,
+ *   due runs wait for a free slot. Defaults to 1.
+ * @property store - Store of the run history, defaults to an in-memory store.
+ * @property clock - Clock of the scheduler, defaults to the system clock.
+ */
+export type SchedulerOptions = {
+  maxConcurrentRuns?: number;
+  store?: IScheduleStore;
+  clock?: SchedulerClock;
+};
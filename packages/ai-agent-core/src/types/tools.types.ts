@@ -116,4 +116,16 @@ export interface Tool extends ToolExecuter {
   readonly planDescription?: string;
   /** If true, multiple calls to this tool can be executed in parallel */
   readonly supportParallelCalls?: boolean;
+  /** If true, the tool changes the outside world and is simulated in dry runs */
+  readonly sideEffects?: boolean;
 }
+
+/**
+ * An issue found when validating a value against a JSON Schema.
+ * @property path - Path of the invalid value, e.g. "jobs[0].title", empty for the value itself.
+ * @property message - Description of the issue.
+ */
+export type JsonSchemaIssue = {
+  path: string;
+  message: string;
+};
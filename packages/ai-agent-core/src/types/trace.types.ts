@@ -0,0 +1,74 @@
+/**
+ * Tracing types.
+ * Spans follow the OpenTelemetry data model so that they can be exported as OTLP.
+ * @see https://opentelemetry.io/docs/specs/otel/trace/api/
+ */
+
+/**
+ * Value of a span attribute.
+ */
+export type SpanAttributeValue = string | number | boolean | string[];
+
+/**
+ * Attributes of a span or span event.
+ */
+export type SpanAttributes = Record<string, SpanAttributeValue>;
+
+/**
+ * Role of a span: "internal" for work inside XSky, "client" for calls to external services (LLMs, MCP, A2A).
+ */
+export type SpanKind = "internal" | "client";
+
+/**
+ * Status of a span, "unset" unless the operation explicitly succeeded or failed.
+ */
+export type SpanStatus = {
+  code: "unset" | "ok" | "error";
+  message?: string;
+};
+
+/**
+ * A timestamped event recorded on a span, e.g. an exception.
+ */
+export type SpanEvent = {
+  name: string;
+  time: number;
+  attributes?: SpanAttributes;
+};
+
+/**
+ * A finished span, as handed to exporters.
+ * @property traceId - 32 hex characters, shared by every span of a task.
+ * @property spanId - 16 hex characters.
+ * @property parentSpanId - The span ID of the parent, undefined for the task span.
+ * @property startTime - Start time in milliseconds since the epoch.
+ * @property endTime - End time in milliseconds since the epoch.
+ */
+export type SpanData = {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  startTime: number;
+  endTime: number;
+  attributes: SpanAttributes;
+  events: SpanEvent[];
+  status: SpanStatus;
+};
+
+/**
+ * Receives finished spans, e.g. to write them to a file or send them to a collector.
+ */
+export interface SpanExporter {
+  /**
+   * Exports a batch of finished spans.
+   * @param spans - The spans, children before their parents.
+   */
+  export(spans: SpanData[]): Promise<void> | void;
+
+  /**
+   * Optional: flushes and releases the resources of the exporter.
+   */
+  shutdown?(): Promise<void>;
+}
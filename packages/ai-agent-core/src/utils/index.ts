@@ -2,7 +2,12 @@
  * Utility exports for XSky Agent Core
  */
 
-export { RateLimiter, RateLimitPresets } from "./rate-limiter";
+export {
+  RateLimiter,
+  RateLimitPresets,
+  RateLimitError,
+  type RateLimitBucket,
+} from "./rate-limiter";
 export {
   createRateLimitedHook,
   createBlocklistHook,
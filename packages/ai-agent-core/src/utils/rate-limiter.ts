@@ -1,12 +1,39 @@
 /**
  * Rate Limiter for controlling tool/action execution frequency.
- * Implements sliding window rate limiting per tool.
+ * Implements sliding window rate limiting per tool, agent and domain.
  */
 
-import type { RateLimitConfig } from "../types/hooks.types";
+import { sleep } from "../common/utils";
+import type { RateLimit, RateLimitConfig } from "../types/hooks.types";
+
+/**
+ * A rate limit bucket: operations recorded under the same key share the limit.
+ */
+export interface RateLimitBucket {
+  key: string;
+  limit: RateLimit;
+}
+
+/**
+ * Error thrown when an operation is rejected by a rate limit.
+ */
+export class RateLimitError extends Error {
+  /** Key of the bucket that rejected the operation */
+  readonly key: string;
+  /** Milliseconds until the bucket allows the operation */
+  readonly retryAfterMs: number;
+
+  constructor(key: string, retryAfterMs: number) {
+    super(`Rate limit exceeded for ${key}, retry after ${retryAfterMs}ms`);
+    this.name = "RateLimitError";
+    this.key = key;
+    this.retryAfterMs = retryAfterMs;
+  }
+}
 
 /**
  * A sliding window rate limiter that tracks operations per tool.
+ * Buckets for agents and domains are keyed as `agent:<name>` and `domain:<host>`.
  */
 export class RateLimiter {
   private operations: Map<string, number[]> = new Map();
@@ -21,11 +48,11 @@ export class RateLimiter {
    * Checks if an operation is allowed under the rate limit.
    * Records the operation if allowed.
    *
-   * @param toolName - The name of the tool to check.
+   * @param toolName - The name of the tool (or bucket key) to check.
+   * @param limit - Optional limit of the bucket, defaults to the tool limit.
    * @returns True if the operation is allowed, false if rate limited.
    */
-  checkLimit(toolName: string): boolean {
-    const limit = this.getLimit(toolName);
+  checkLimit(toolName: string, limit: RateLimit = this.getLimit(toolName)): boolean {
     const now = Date.now();
     const ops = this.operations.get(toolName) || [];
 
@@ -45,11 +72,11 @@ export class RateLimiter {
   /**
    * Gets the time in milliseconds until the next operation is allowed.
    *
-   * @param toolName - The name of the tool to check.
+   * @param toolName - The name of the tool (or bucket key) to check.
+   * @param limit - Optional limit of the bucket, defaults to the tool limit.
    * @returns Milliseconds until next allowed operation, or 0 if allowed now.
    */
-  getWaitTime(toolName: string): number {
-    const limit = this.getLimit(toolName);
+  getWaitTime(toolName: string, limit: RateLimit = this.getLimit(toolName)): number {
     const now = Date.now();
     const ops = this.operations.get(toolName) || [];
 
@@ -80,14 +107,81 @@ export class RateLimiter {
     this.checkLimit(toolName);
   }
 
+  /**
+   * Gets the buckets an operation counts against: its tool bucket,
+   * plus the agent and domain buckets when limits are configured for them.
+   *
+   * @param operation - The tool name, and optionally the agent name and target domain.
+   * @returns The buckets of the operation.
+   */
+  getBuckets(operation: {
+    toolName: string;
+    agentName?: string;
+    domain?: string;
+  }): RateLimitBucket[] {
+    const buckets: RateLimitBucket[] = [
+      { key: operation.toolName, limit: this.getLimit(operation.toolName) },
+    ];
+    const agentLimit = operation.agentName && this.config.perAgent?.[operation.agentName];
+    if (agentLimit) {
+      buckets.push({ key: "agent:" + operation.agentName, limit: agentLimit });
+    }
+    const domainBucket = operation.domain && this.getDomainBucket(operation.domain);
+    if (domainBucket) {
+      buckets.push(domainBucket);
+    }
+    return buckets;
+  }
+
+  /**
+   * Acquires a slot in every bucket at once, following the configured strategy:
+   * "wait" waits until all buckets allow the operation, "reject" throws immediately.
+   *
+   * @param buckets - The buckets of the operation, see getBuckets.
+   * @param signal - Optional signal to stop waiting.
+   * @throws RateLimitError when rejected or when waiting longer than maxWaitMs.
+   */
+  async acquire(buckets: RateLimitBucket[], signal?: AbortSignal): Promise<void> {
+    const start = Date.now();
+    while (true) {
+      signal?.throwIfAborted();
+      let waitTime = 0;
+      let blocked = buckets[0];
+      for (const bucket of buckets) {
+        const bucketWait = this.getWaitTime(bucket.key, bucket.limit);
+        if (bucketWait > waitTime) {
+          waitTime = bucketWait;
+          blocked = bucket;
+        }
+      }
+      if (waitTime <= 0) {
+        for (const bucket of buckets) {
+          this.checkLimit(bucket.key, bucket.limit);
+        }
+        return;
+      }
+      const maxWaitMs = this.config.maxWaitMs;
+      if (
+        this.config.strategy == "reject" ||
+        (maxWaitMs !== undefined && Date.now() - start + waitTime > maxWaitMs)
+      ) {
+        throw new RateLimitError(blocked.key, waitTime);
+      }
+      await sleep(waitTime, signal);
+    }
+  }
+
   /**
    * Gets the current usage stats for a tool.
    *
-   * @param toolName - The name of the tool.
+   * @param toolName - The name of the tool (or bucket key).
+   * @param limit - Optional limit of the bucket, defaults to the tool limit.
    * @returns Object with current count and max allowed.
    */
-  getUsage(toolName: string): { current: number; max: number; windowMs: number } {
-    const limit = this.getLimit(toolName);
+  getUsage(
+    toolName: string,
+    limit: RateLimit = this.getLimit(toolName)
+  ): { current: number; max: number; windowMs: number } {
     const now = Date.now();
     const ops = this.operations.get(toolName) || [];
     const valid = ops.filter((t) => now - t < limit.windowMs);
@@ -115,12 +209,37 @@ export class RateLimiter {
   /**
    * Gets the rate limit config for a specific tool.
    */
-  private getLimit(toolName: string): { maxOperations: number; windowMs: number } {
+  private getLimit(toolName: string): RateLimit {
     return this.config.perTool?.[toolName] || {
       maxOperations: this.config.maxOperations,
       windowMs: this.config.windowMs,
     };
   }
+
+  /**
+   * Gets the bucket of a domain: an exact host match, then the longest
+   * matching "*.domain" pattern, then a bucket per host when "*" is configured.
+   */
+  private getDomainBucket(domain: string): RateLimitBucket | undefined {
+    const perDomain = this.config.perDomain;
+    if (!perDomain) {
+      return undefined;
+    }
+    const host = domain.toLowerCase();
+    if (perDomain[host]) {
+      return { key: "domain:" + host, limit: perDomain[host] };
+    }
+    const pattern = Object.keys(perDomain)
+      .filter((key) => key.startsWith("*.") && host.endsWith(key.substring(1)))
+      .sort((a, b) => b.length - a.length)[0];
+    if (pattern) {
+      return { key: "domain:" + pattern, limit: perDomain[pattern] };
+    }
+    if (perDomain["*"]) {
+      return { key: "domain:" + host, limit: perDomain["*"] };
+    }
+    return undefined;
+  }
 }
 
 /**
@@ -0,0 +1,308 @@
+import http from "http";
+import { AddressInfo } from "net";
+import { A2aClient, A2aRemoteAgent } from "../../src/agent/a2a";
+import Context from "../../src/core/context";
+import Chain, { AgentChain } from "../../src/core/chain";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import {
+  A2aAgentCard,
+  A2aMessage,
+  A2aTask,
+  A2aTaskState,
+} from "../../src/types/a2a.types";
+import { StreamCallbackMessage, XSkyConfig } from "../../src/types/core.types";
+
+type RpcRequest = { id: string; method: string; params: any };
+
+/**
+ * A minimal A2A stub server: serves an agent card and answers JSON-RPC requests
+ * with the handler configured by each test.
+ */
+class StubA2aServer {
+  server: http.Server;
+  baseUrl = "";
+  streaming = false;
+  requests: RpcRequest[] = [];
+  onRpc: (req: RpcRequest, res: http.ServerResponse) => void = () => {};
+
+  constructor() {
+    this.server = http.createServer((req, res) => {
+      if (req.method == "GET" && req.url == "/.well-known/agent-card.json") {
+        res.setHeader("Content-Type", "application/json");
+        res.end(JSON.stringify(this.card()));
+        return;
+      }
+      let body = "";
+      req.on("data", (chunk) => (body += chunk));
+      req.on("end", () => {
+        const rpc = JSON.parse(body) as RpcRequest;
+        this.requests.push(rpc);
+        this.onRpc(rpc, res);
+      });
+    });
+  }
+
+  card(): A2aAgentCard {
+    return {
+      name: "Researcher",
+      description: "Researches topics on the web",
+      url: this.baseUrl + "/rpc",
+      version: "1.0.0",
+      capabilities: { streaming: this.streaming },
+      skills: [
+        { id: "search", name: "Search", description: "Search the web" },
+      ],
+    };
+  }
+
+  async start(): Promise<void> {
+    await new Promise<void>((resolve) => this.server.listen(0, resolve));
+    const port = (this.server.address() as AddressInfo).port;
+    this.baseUrl = `http://127.0.0.1:${port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.server.closeAllConnections();
+    await new Promise<void>((resolve) => this.server.close(() => resolve()));
+  }
+}
+
+function reply(res: http.ServerResponse, id: string, result: any) {
+  res.setHeader("Content-Type", "application/json");
+  res.end(JSON.stringify({ jsonrpc: "2.0", id, result }));
+}
+
+function sse(res: http.ServerResponse, id: string, result: any) {
+  res.write(`data: ${JSON.stringify({ jsonrpc: "2.0", id, result })}\n\n`);
+}
+
+function task(state: A2aTaskState, text?: string, artifact?: string): A2aTask {
+  return {
+    kind: "task",
+    id: "remote-1",
+    contextId: "ctx-1",
+    status: {
+      state,
+      message: text
+        ? {
+            kind: "message",
+            messageId: "m-" + state,
+            role: "agent",
+            parts: [{ kind: "text", text }],
+          }
+        : undefined,
+    },
+    artifacts: artifact
+      ? [{ artifactId: "a-1", parts: [{ kind: "text", text: artifact }] }]
+      : undefined,
+  };
+}
+
+function createContext(config: Partial<XSkyConfig> = {}) {
+  const workflow = buildSimpleAgentWorkflow({
+    taskId: "task-1",
+    name: "Research",
+    agentName: "Researcher",
+    task: "Research the A2A protocol",
+  });
+  const context = new Context(
+    "task-1",
+    { llms: {}, ...config } as XSkyConfig,
+    [],
+    new Chain("Research the A2A protocol")
+  );
+  context.workflow = workflow;
+  const agentChain = new AgentChain(workflow.agents[0]);
+  context.chain.push(agentChain);
+  return { context, agentChain };
+}
+
+describe("A2aClient", () => {
+  let server: StubA2aServer;
+
+  beforeEach(async () => {
+    server = new StubA2aServer();
+    await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it("discovers remote agents from their agent cards", async () => {
+    const client = new A2aClient([server.baseUrl, "http://127.0.0.1:1"]);
+    const agents = await client.listAgents("task");
+
+    expect(agents).toHaveLength(1);
+    expect(agents[0]).toBeInstanceOf(A2aRemoteAgent);
+    expect(agents[0].Name).toBe("Researcher");
+    expect(agents[0].Description).toContain("Researches topics on the web");
+    expect(agents[0].Description).toContain("- Search: Search the web");
+  });
+
+  it("delegates a task with message/send and polls until completion", async () => {
+    const states: A2aTaskState[] = ["working", "completed"];
+    server.onRpc = (rpc, res) => {
+      if (rpc.method == "message/send") {
+        reply(res, rpc.id, task("submitted"));
+      } else if (rpc.method == "tasks/get") {
+        const state = states.shift()!;
+        reply(res, rpc.id, task(state, undefined, state == "completed" ? "A2A is a protocol" : undefined));
+      }
+    };
+    const client = new A2aClient(server.baseUrl, {}, 10);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext();
+
+    const result = await agent.run(context, agentChain);
+
+    expect(result).toBe("A2A is a protocol");
+    expect(agentChain.agentResult).toBe("A2A is a protocol");
+    expect(server.requests.map((r) => r.method)).toEqual([
+      "message/send",
+      "tasks/get",
+      "tasks/get",
+    ]);
+    const message = server.requests[0].params.message as A2aMessage;
+    expect(message.role).toBe("user");
+    expect((message.parts[0] as any).text).toContain("Research the A2A protocol");
+  });
+
+  it("streams progress and artifacts as stream callback messages", async () => {
+    server.streaming = true;
+    server.onRpc = (rpc, res) => {
+      res.setHeader("Content-Type", "text/event-stream");
+      sse(res, rpc.id, task("submitted"));
+      sse(res, rpc.id, {
+        kind: "status-update",
+        taskId: "remote-1",
+        contextId: "ctx-1",
+        status: task("working", "Searching...").status,
+        final: false,
+      });
+      sse(res, rpc.id, {
+        kind: "artifact-update",
+        taskId: "remote-1",
+        contextId: "ctx-1",
+        artifact: { artifactId: "a-1", parts: [{ kind: "text", text: "Hello " }] },
+        lastChunk: false,
+      });
+      sse(res, rpc.id, {
+        kind: "artifact-update",
+        taskId: "remote-1",
+        contextId: "ctx-1",
+        artifact: { artifactId: "a-1", parts: [{ kind: "text", text: "world" }] },
+        append: true,
+        lastChunk: true,
+      });
+      sse(res, rpc.id, {
+        kind: "status-update",
+        taskId: "remote-1",
+        contextId: "ctx-1",
+        status: { state: "completed" },
+        final: true,
+      });
+      res.end();
+    };
+    const messages: StreamCallbackMessage[] = [];
+    const client = new A2aClient(server.baseUrl);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext({
+      callback: { onMessage: async (message) => { messages.push(message); } },
+    });
+
+    const result = await agent.run(context, agentChain);
+
+    expect(result).toBe("Hello world");
+    expect(server.requests[0].method).toBe("message/stream");
+    expect(messages.map((m) => [m.type, (m as any).text])).toEqual([
+      ["thinking", "Searching..."],
+      ["text", "Hello "],
+      ["text", "Hello world"],
+    ]);
+    expect((messages[2] as any).streamDone).toBe(true);
+    expect(messages[0].agentName).toBe("Researcher");
+  });
+
+  it("asks the human when the remote agent requires input", async () => {
+    server.onRpc = (rpc, res) => {
+      const message = rpc.params.message as A2aMessage;
+      if (!message.taskId) {
+        reply(res, rpc.id, task("input-required", "Which year?"));
+      } else {
+        const text = (message.parts[0] as any).text;
+        reply(res, rpc.id, task("completed", undefined, "Report for " + text));
+      }
+    };
+    const onHumanInput = jest.fn(async () => "2024");
+    const client = new A2aClient(server.baseUrl);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext({
+      callback: { onMessage: async () => {}, onHumanInput },
+    });
+
+    const result = await agent.run(context, agentChain);
+
+    expect(result).toBe("Report for 2024");
+    expect(onHumanInput).toHaveBeenCalledWith(
+      expect.anything(),
+      "Which year?",
+      { a2aTaskId: "remote-1" }
+    );
+    const followUp = server.requests[1].params.message as A2aMessage;
+    expect(followUp.taskId).toBe("remote-1");
+    expect(followUp.contextId).toBe("ctx-1");
+  });
+
+  it("fails when the remote task fails", async () => {
+    server.onRpc = (rpc, res) => {
+      reply(res, rpc.id, task("failed", "Quota exceeded"));
+    };
+    const client = new A2aClient(server.baseUrl);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext();
+
+    await expect(agent.run(context, agentChain)).rejects.toThrow(
+      "A2A agent Researcher task failed: Quota exceeded"
+    );
+  });
+
+  it("fails with the HTTP status when the server rejects the request", async () => {
+    server.onRpc = (rpc, res) => {
+      res.statusCode = 502;
+      res.end("<html>Bad Gateway</html>");
+    };
+    const client = new A2aClient(server.baseUrl);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext();
+
+    await expect(agent.run(context, agentChain)).rejects.toThrow(
+      "A2A message/send error: HTTP 502"
+    );
+  });
+
+  it("cancels the remote task when the context is aborted", async () => {
+    let cancelled!: () => void;
+    const cancelReceived = new Promise<void>((resolve) => (cancelled = resolve));
+    server.onRpc = (rpc, res) => {
+      if (rpc.method == "tasks/cancel") {
+        reply(res, rpc.id, task("canceled"));
+        cancelled();
+      } else {
+        reply(res, rpc.id, task("working"));
+      }
+    };
+    const client = new A2aClient(server.baseUrl, {}, 20);
+    const [agent] = await client.listAgents("task");
+    const { context, agentChain } = createContext();
+
+    const running = agent.run(context, agentChain);
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    context.controller.abort();
+
+    await expect(running).rejects.toThrow();
+    await cancelReceived;
+    const cancel = server.requests.find((r) => r.method == "tasks/cancel");
+    expect(cancel?.params).toEqual({ id: "remote-1" });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { AgentPool } from "../../src/agent/pool";
+import { XSky } from "../../src/core/xsky";
+import { Tool } from "../../src/types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function createAgent(name: string, tools: Tool[] = []): Agent {
+  return new Agent({ name, description: `The ${name} agent`, tools });
+}
+
+describe("AgentPool", () => {
+  test("should create instances up to the maximum size and reuse released instances", async () => {
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      maxSize: 2,
+    });
+
+    const first = await pool.acquire("Browser", "task-1");
+    const second = await pool.acquire("Browser", "task-1");
+    let third: Agent | undefined;
+    const waiting = pool.acquire("Browser", "task-1").then((lease) => {
+      third = lease.agent;
+      return lease;
+    });
+    await flush();
+
+    expect(first.agent).not.toBe(second.agent);
+    expect(first.reused).toBe(false);
+    expect(third).toBeUndefined();
+    expect(pool.getMetrics()).toMatchObject({ size: 2, inUse: 2, waiting: 1 });
+
+    await first.release();
+    await first.release();
+    const lease = await waiting;
+    expect(lease.agent).toBe(first.agent);
+    expect(lease.reused).toBe(true);
+
+    await lease.release();
+    await second.release();
+    expect(pool.getMetrics()).toMatchObject({
+      size: 2,
+      inUse: 0,
+      idle: 2,
+      waiting: 0,
+      leases: 3,
+      created: 2,
+      reused: 1,
+      agents: { Browser: { inUse: 0, idle: 2 } },
+    });
+  });
+
+  test("should keep instances for the same task and recycle them for other tasks", async () => {
+    const recycled: Agent[] = [];
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      recycle: async (agent) => {
+        recycled.push(agent);
+      },
+    });
+    const taskOne = await pool.acquire("Browser", "task-1");
+    const taskTwo = await pool.acquire("Browser", "task-2");
+    await taskOne.release();
+    await taskTwo.release();
+
+    const again = await pool.acquire("Browser", "task-2");
+    expect(again.agent).toBe(taskTwo.agent);
+    expect(recycled).toEqual([]);
+
+    const other = await pool.acquire("Browser", "task-3");
+    expect(other.agent).toBe(taskOne.agent);
+    expect(recycled).toEqual([taskOne.agent]);
+    expect(pool.getMetrics().recycled).toBe(1);
+  });
+
+  test("should replace instances failing to recycle", async () => {
+    const destroyed: Agent[] = [];
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      recycle: async () => {
+        throw new Error("Context closed");
+      },
+      destroy: async (agent) => {
+        destroyed.push(agent);
+      },
+    });
+    const first = await pool.acquire("Browser", "task-1");
+    await first.release();
+
+    const second = await pool.acquire("Browser", "task-2");
+
+    expect(second.agent).not.toBe(first.agent);
+    expect(destroyed).toEqual([first.agent]);
+    expect(pool.getMetrics()).toMatchObject({ size: 1, created: 2, destroyed: 1 });
+  });
+
+  test("should evict idle instances of other agents when the pool is full", async () => {
+    const destroyed: string[] = [];
+    const pool = new AgentPool({
+      factories: {
+        Browser: () => createAgent("Browser"),
+        File: () => createAgent("File"),
+      },
+      maxSize: 1,
+      destroy: async (agent) => {
+        destroyed.push(agent.Name);
+      },
+    });
+    await (await pool.acquire("Browser")).release();
+
+    const file = await pool.acquire("File");
+
+    expect(file.agent.Name).toBe("File");
+    expect(destroyed).toEqual(["Browser"]);
+    const browser = pool.acquire("Browser");
+    await flush();
+    await file.release();
+    expect((await browser).agent.Name).toBe("Browser");
+    expect(destroyed).toEqual(["Browser", "File"]);
+    expect(pool.getMetrics()).toMatchObject({ size: 1, agents: { Browser: { inUse: 1 } } });
+  });
+
+  test("should keep the instance created for a waiter aborted meanwhile", async () => {
+    let created!: () => void;
+    const creating = new Promise<void>((resolve) => (created = resolve));
+    const pool = new AgentPool({
+      factories: {
+        Browser: () => createAgent("Browser"),
+        File: async () => {
+          await creating;
+          return createAgent("File");
+        },
+      },
+      maxSize: 1,
+    });
+    const browser = await pool.acquire("Browser");
+    const controller = new AbortController();
+    const waiting = pool.acquire("File", "task-2", controller.signal);
+    await flush();
+
+    const released = browser.release();
+    controller.abort("Cancelled");
+    created();
+    await released;
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+    await flush();
+
+    expect(pool.getMetrics()).toMatchObject({ size: 1, inUse: 0, idle: 1 });
+    const file = await pool.acquire("File");
+    expect(file.reused).toBe(false);
+    expect(pool.getMetrics()).toMatchObject({ size: 1, inUse: 1, agents: { File: { inUse: 1 } } });
+  });
+
+  test("should stop waiting when the signal is aborted", async () => {
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      maxSize: 1,
+    });
+    await pool.acquire("Browser");
+    const controller = new AbortController();
+
+    const waiting = pool.acquire("Browser", "task-2", controller.signal);
+    controller.abort("Cancelled");
+
+    await expect(waiting).rejects.toMatchObject({ name: "AbortError" });
+    expect(pool.getMetrics().waiting).toBe(0);
+  });
+
+  test("should destroy the instances of a closed pool", async () => {
+    const destroyed: Agent[] = [];
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      maxSize: 2,
+      destroy: async (agent) => {
+        destroyed.push(agent);
+      },
+    });
+    const idle = await pool.acquire("Browser");
+    const leased = await pool.acquire("Browser");
+    await idle.release();
+
+    await pool.close();
+    expect(destroyed).toEqual([idle.agent]);
+    await leased.release();
+    expect(destroyed).toEqual([idle.agent, leased.agent]);
+    await expect(pool.acquire("Browser")).rejects.toThrow("The agent pool is closed");
+  });
+
+  test("should reject the waiting leases of a closed pool", async () => {
+    const pool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser") },
+      maxSize: 1,
+    });
+    await pool.acquire("Browser");
+    const waiting = pool.acquire("Browser");
+    await flush();
+
+    await pool.close();
+
+    await expect(waiting).rejects.toThrow("The agent pool is closed");
+    await expect(pool.acquire("Unknown")).rejects.toThrow("The agent pool is closed");
+  });
+});
+
+/**
+ * A provider calling the `open_page` tool, then answering with a text once the tool returned.
+ */
+function mockProvider(): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          const called = options.prompt[options.prompt.length - 1].role == "tool";
+          const parts: LanguageModelV2StreamPart[] = called
+            ? [
+                { type: "text-start", id: "t" },
+                { type: "text-delta", id: "t", delta: "Page opened" },
+                { type: "text-end", id: "t" },
+                { type: "finish", finishReason: "stop", usage },
+              ]
+            : [
+                {
+                  type: "tool-call",
+                  toolCallId: "call-1",
+                  toolName: "open_page",
+                  input: JSON.stringify({}),
+                },
+                { type: "finish", finishReason: "tool-calls", usage },
+              ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("XSky with an agent pool", () => {
+  test("should run parallel agents of the same name on separate instances", async () => {
+    const instances: Agent[] = [];
+    const openPage: Tool = {
+      name: "open_page",
+      description: "Opens a page",
+      parameters: { type: "object", properties: {} },
+      execute: async (_args, agentContext) => {
+        instances.push(agentContext.agent);
+        await new Promise((resolve) => setTimeout(resolve, 10));
+        return { content: [{ type: "text", text: "Opened" }] };
+      },
+    };
+    const template = createAgent("Browser", [openPage]);
+    const agentPool = new AgentPool({
+      factories: { Browser: () => createAgent("Browser", [openPage]) },
+    });
+    const metrics: string[] = [];
+    const xsky = new XSky({
+      llms: {
+        default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+      },
+      agents: [template],
+      agentPool,
+      telemetry: {
+        onMetric: (metric) => {
+          metric.name == "xsky.agent.lease_wait" && metrics.push(metric.tags.agentName);
+        },
+      },
+    });
+    const context = await xsky.initContext(
+      {
+        name: "Compare prices",
+        agents: [
+          { id: "0", name: "Browser", task: "Open the first shop", nodes: ["Open"] },
+          { id: "1", name: "Browser", task: "Open the second shop", nodes: ["Open"] },
+        ],
+      },
+      { agentParallel: true }
+    );
+
+    const result = await xsky.execute(context.taskId);
+    xsky.deleteTask(context.taskId);
+
+    expect(result.success).toBe(true);
+    expect(instances).toHaveLength(2);
+    expect(instances[0]).not.toBe(instances[1]);
+    expect(instances).not.toContain(template);
+    expect(metrics).toEqual(["Browser", "Browser"]);
+    expect(agentPool.getMetrics()).toMatchObject({ inUse: 0, idle: 2, leases: 2 });
+  });
+});
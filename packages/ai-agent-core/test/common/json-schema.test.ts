@@ -0,0 +1,106 @@
+import { validateJsonSchema } from "../../src/common/json-schema";
+
+describe("validateJsonSchema", () => {
+  test("should accept valid values", () => {
+    const schema = {
+      type: "object" as const,
+      properties: {
+        name: { type: "string" as const, minLength: 1 },
+        stars: { type: "integer" as const, minimum: 0 },
+        tags: { type: "array" as const, items: { type: "string" as const }, uniqueItems: true },
+      },
+      required: ["name"],
+      additionalProperties: false,
+    };
+
+    expect(validateJsonSchema(schema, { name: "xsky", stars: 12, tags: ["ai"] })).toEqual([]);
+    expect(validateJsonSchema(schema, { name: "xsky" })).toEqual([]);
+  });
+
+  test("should report type mismatches", () => {
+    expect(validateJsonSchema({ type: "array" }, "a, b")).toEqual([
+      { path: "", message: "Must be array" },
+    ]);
+    expect(validateJsonSchema({ type: ["string", "null"] }, 1)).toEqual([
+      { path: "", message: "Must be string or null" },
+    ]);
+    expect(validateJsonSchema({ type: "integer" }, 1.5)).toHaveLength(1);
+    expect(validateJsonSchema({ type: "object" }, [])).toHaveLength(1);
+    expect(validateJsonSchema({ type: "null" }, null)).toEqual([]);
+  });
+
+  test("should report nested issues with their path", () => {
+    const schema = {
+      type: "array" as const,
+      items: {
+        type: "object" as const,
+        properties: {
+          account: { type: "string" as const },
+          url: { type: "string" as const, pattern: "^https://" },
+        },
+        required: ["account", "url"],
+        additionalProperties: false,
+      },
+    };
+
+    expect(
+      validateJsonSchema(schema, [
+        { account: "a", url: "https://github.com/a" },
+        { url: "http://github.com/b", extra: true },
+      ])
+    ).toEqual([
+      { path: "[1].account", message: "Is required" },
+      { path: "[1].url", message: "Must match the pattern ^https://" },
+      { path: "[1].extra", message: "Unknown property" },
+    ]);
+  });
+
+  test("should check string, number and array constraints", () => {
+    expect(validateJsonSchema({ maxLength: 2 }, "abc")).toHaveLength(1);
+    expect(validateJsonSchema({ exclusiveMaximum: 10 }, 10)).toHaveLength(1);
+    expect(validateJsonSchema({ multipleOf: 0.5 }, 1.5)).toEqual([]);
+    expect(validateJsonSchema({ multipleOf: 2 }, 3)).toHaveLength(1);
+    expect(validateJsonSchema({ minItems: 1 }, [])).toHaveLength(1);
+    expect(validateJsonSchema({ uniqueItems: true }, [{ a: 1 }, { a: 1 }])).toHaveLength(1);
+    expect(
+      validateJsonSchema(
+        { items: [{ type: "string" }], additionalItems: false },
+        ["a", "b"]
+      )
+    ).toEqual([{ path: "[1]", message: "Is not allowed" }]);
+  });
+
+  test("should check enum, const and combinators", () => {
+    expect(validateJsonSchema({ enum: ["open", "closed"] }, "draft")).toEqual([
+      { path: "", message: 'Must be one of: "open", "closed"' },
+    ]);
+    expect(validateJsonSchema({ const: 1 }, 2)).toHaveLength(1);
+    expect(validateJsonSchema({ anyOf: [{ type: "string" }, { type: "number" }] }, true)).toHaveLength(1);
+    expect(validateJsonSchema({ oneOf: [{ type: "number" }, { type: "integer" }] }, 1)).toHaveLength(1);
+    expect(validateJsonSchema({ not: { type: "string" } }, "a")).toHaveLength(1);
+    expect(validateJsonSchema({ allOf: [{ minimum: 1 }, { maximum: 2 }] }, 3)).toHaveLength(1);
+  });
+
+  test("should report the issues of the oneOf branch a value is meant for", () => {
+    const schema = {
+      oneOf: [
+        { type: "string" as const },
+        { type: "object" as const, required: ["forEach", "nodes"] },
+        { type: "object" as const, required: ["text"] },
+      ],
+    };
+
+    expect(validateJsonSchema(schema, { forEach: "items" })).toEqual([
+      { path: "nodes", message: "Is required" },
+    ]);
+    expect(validateJsonSchema(schema, { nodes: [] })).toEqual([
+      { path: "", message: "Must match exactly one of the oneOf schemas" },
+    ]);
+  });
+
+  test("should prefix the issue paths", () => {
+    expect(validateJsonSchema({ type: "string" }, 1, "developers[0]")).toEqual([
+      { path: "developers[0]", message: "Must be string" },
+    ]);
+  });
+});
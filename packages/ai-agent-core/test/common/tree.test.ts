@@ -1,5 +1,5 @@
 
-import { buildAgentTree } from '../../src/common/tree';
+import { buildAgentTree, findDependencyCycle } from '../../src/common/tree';
 import { WorkflowAgent, NormalAgentNode, ParallelAgentNode } from '../../src/types/core.types';
 
 describe('buildAgentTree', () => {
@@ -90,7 +90,34 @@ describe('buildAgentTree', () => {
     expect(tree).toBeDefined();
   });
 
+  test('should leave the dependencies of the workflow agents unchanged', () => {
+    const agents = [
+      createAgent('A', ['B', 'missing']),
+      createAgent('B', ['A'])
+    ];
+
+    buildAgentTree(agents);
+
+    expect(agents[0].dependsOn).toEqual(['B', 'missing']);
+    expect(agents[1].dependsOn).toEqual(['A']);
+  });
+
   test('should throw error for no executable agents', () => {
     expect(() => buildAgentTree([])).toThrow('No executable agent');
   });
 });
+
+describe('findDependencyCycle', () => {
+  test('should return the ids along a cycle', () => {
+    const dependsOn: Record<string, string[]> = { A: [], B: ['A', 'D'], C: ['B'], D: ['C'] };
+
+    expect(findDependencyCycle(Object.keys(dependsOn), (id) => dependsOn[id])).toEqual([
+      'B',
+      'D',
+      'C',
+      'B'
+    ]);
+    dependsOn.B = ['A'];
+    expect(findDependencyCycle(Object.keys(dependsOn), (id) => dependsOn[id])).toBeNull();
+  });
+});
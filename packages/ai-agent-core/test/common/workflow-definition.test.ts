@@ -0,0 +1,326 @@
+import { Agent } from "../../src/agent/base";
+import { parseWorkflow } from "../../src/common/xml";
+import {
+  parseWorkflowDefinition,
+  stringifyWorkflowDefinition,
+  validateWorkflowDefinition,
+  workflowFromDefinition,
+  workflowToDefinition,
+  WorkflowDefinitionError,
+} from "../../src/common/workflow-definition";
+import { XSky } from "../../src/core/xsky";
+import { Workflow, WorkflowDefinition } from "../../src/types";
+
+const planXml = `<root>
+  <name>Social campaign</name>
+  <thought>Research, then post &amp; report</thought>
+  <agents>
+    <agent name="Browser" id="0" dependsOn="">
+      <task>Research Fellou</task>
+      <nodes>
+        <node>Open the website</node>
+        <node output="researchData" outputSchema='{"type":"object","required":["summary"]}'>Compile the findings</node>
+      </nodes>
+    </agent>
+    <agent name="Browser" id="1" dependsOn="0">
+      <task>Post on social media</task>
+      <nodes>
+        <forEach items="platforms">
+          <node input="researchData" output="postUrl">Post on the platform</node>
+        </forEach>
+        <watch event="dom" loop="true">
+          <description>New comments</description>
+          <trigger>
+            <node>Reply to the comment</node>
+          </trigger>
+        </watch>
+      </nodes>
+    </agent>
+    <agent name="File" id="2" dependsOn="0,1">
+      <task>Write the report</task>
+      <nodes>
+        <node input="researchData,postUrl">Write a report with &lt;links&gt;</node>
+      </nodes>
+    </agent>
+  </agents>
+</root>`;
+
+const yamlDefinition = `
+name: Export invoices
+taskPrompt: Export this month's invoices
+agents:
+  - id: login
+    name: Browser
+    task: Log in to the billing portal
+    nodes:
+      - Open the portal
+      - text: Read the session token
+        output: token
+  - id: export
+    name: Browser
+    task: Export the invoices
+    dependsOn: [login]
+    nodes:
+      - text: Download the CSV
+        input: token,month
+`;
+
+/** Drops the XML of a workflow, which is formatted differently by the LLM */
+function withoutXml(workflow: Workflow) {
+  return {
+    ...workflow,
+    xml: undefined,
+    agents: workflow.agents.map((agent) => ({ ...agent, xml: undefined })),
+  };
+}
+
+function issuesOf(definition: unknown, agents?: string[], variables?: string[]) {
+  return validateWorkflowDefinition(definition, { agents, variables });
+}
+
+describe("workflow definitions", () => {
+  test("should round-trip a planned workflow through its definition", () => {
+    const planned = parseWorkflow("task-1", planXml, true)!;
+
+    const definition = workflowToDefinition(planned);
+    const workflow = workflowFromDefinition(definition);
+
+    expect(definition.agents[1]).toMatchObject({ id: 1, dependsOn: [0] });
+    expect(definition.agents[0].nodes![0]).toBe("Open the website");
+    expect(definition.agents[0].nodes![1]).toEqual({
+      text: "Compile the findings",
+      output: "researchData",
+      outputSchema: { type: "object", required: ["summary"] },
+    });
+    expect(withoutXml(workflow)).toEqual(withoutXml(planned));
+    expect(withoutXml(parseWorkflow("task-1", workflow.xml, true)!)).toEqual(
+      withoutXml(planned)
+    );
+    expect(workflow.agents[2].parallel).toBe(false);
+  });
+
+  test("should round-trip through YAML and JSON text", () => {
+    const planned = parseWorkflow("task-1", planXml, true)!;
+
+    for (const format of ["yaml", "json"] as const) {
+      const text = stringifyWorkflowDefinition(planned, format);
+      expect(withoutXml(parseWorkflowDefinition(text))).toEqual(withoutXml(planned));
+    }
+  });
+
+  test("should parse a YAML definition with named agent ids", () => {
+    const workflow = parseWorkflowDefinition(yamlDefinition, {
+      taskId: "task-2",
+      variables: ["month"],
+    });
+
+    expect(workflow.taskId).toBe("task-2");
+    expect(workflow.taskPrompt).toBe("Export this month's invoices");
+    expect(workflow.agents.map((agent) => agent.id)).toEqual([
+      "task-2-login",
+      "task-2-export",
+    ]);
+    expect(workflow.agents[1].dependsOn).toEqual(["task-2-login"]);
+    expect(workflow.agents[0].nodes[1]).toMatchObject({
+      type: "normal",
+      text: "Read the session token",
+      output: "token",
+    });
+    expect(workflow.xml).toContain('<agent name="Browser" id="export" dependsOn="login">');
+  });
+
+  test("should report schema errors with their path", () => {
+    const issues = issuesOf({
+      name: "Invalid",
+      agents: [
+        { name: "Browser", task: "Task", nodes: [{ forEach: "items" }, 42] },
+        { name: "Browser", task: "Task", extra: true },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { path: "agents[0].nodes[0].nodes", message: "Is required" },
+      { path: "agents[0].nodes[1]", message: "Must match exactly one of the oneOf schemas" },
+      { path: "agents[1].extra", message: "Unknown property" },
+    ]);
+  });
+
+  test("should report unknown agents, dangling dependencies and undefined inputs", () => {
+    const definition: WorkflowDefinition = {
+      name: "Invalid",
+      agents: [
+        { name: "Browser", task: "Task", nodes: [{ text: "Use", input: "token" }] },
+        { name: "Shell", task: "Task", dependsOn: [5] },
+      ],
+    };
+
+    expect(issuesOf(definition, ["Browser", "File"])).toEqual([
+      {
+        path: "agents[1].name",
+        message: 'Unknown agent "Shell", available agents: Browser, File',
+      },
+      {
+        path: "agents[1].dependsOn[0]",
+        message: 'Agent "1" depends on undefined agent "5"',
+      },
+    ]);
+    definition.agents[1].dependsOn = [0];
+    expect(issuesOf(definition)).toEqual([
+      {
+        path: "agents[0].nodes[0].input",
+        message:
+          'Variable "token" is read before it is written by agent "0" or the agents it depends on',
+      },
+    ]);
+    expect(issuesOf(definition, undefined, ["token"])).toEqual([]);
+  });
+
+  test("should convert if, while and try nodes", () => {
+    const definition: WorkflowDefinition = {
+      name: "Invoices",
+      agents: [
+        {
+          name: "Browser",
+          task: "Download the invoices",
+          nodes: [
+            { try: ["Log in with the saved session"], catch: ["Ask the user to log in"] },
+            { while: { condition: "The list has a next page" }, nodes: ["Download the page"] },
+            { text: "Collect the overdue invoices", output: "overdue" },
+            { if: { variable: "overdue" }, then: [{ text: "Summarize", input: "overdue" }] },
+            { if: { variable: "status", equals: "" }, then: ["Report"], else: ["Retry"] },
+          ],
+        },
+      ],
+    };
+
+    const workflow = workflowFromDefinition(definition, { variables: ["status"] });
+
+    expect(workflow.agents[0].nodes[1]).toMatchObject({
+      type: "while",
+      condition: { text: "The list has a next page" },
+      maxIterations: 10,
+    });
+    expect(workflow.agents[0].nodes[4]).toMatchObject({
+      type: "if",
+      condition: { variable: "status", equals: "" },
+      elseNodes: [{ type: "normal", text: "Retry" }],
+    });
+    expect(workflowToDefinition(workflow).agents[0].nodes).toEqual([
+      definition.agents[0].nodes![0],
+      { ...(definition.agents[0].nodes![1] as object), maxIterations: 10 },
+      ...definition.agents[0].nodes!.slice(2),
+    ]);
+    expect(issuesOf(definition)).toEqual([
+      {
+        path: "agents[0].nodes[4].if.variable",
+        message:
+          'Variable "status" is read before it is written by agent "0" or the agents it depends on',
+      },
+    ]);
+    const empty = { name: "Empty", agents: [{ name: "Browser", task: "Task", nodes: [{ while: {}, nodes: [] }] }] };
+    expect(issuesOf(empty)).toEqual([
+      { path: "agents[0].nodes[0].while", message: "Must have a variable or a condition" },
+    ]);
+  });
+
+  test("should convert sub-workflow entries and check their bindings", () => {
+    const definition: WorkflowDefinition = {
+      name: "Monthly report",
+      agents: [
+        {
+          name: "Export invoices",
+          task: "Export the invoices of March",
+          workflow: true,
+          inputs: { month: "reportMonth" },
+          outputs: { csvPath: "marchCsv" },
+        },
+        { name: "File", task: "Write the report", dependsOn: [0], nodes: [{ text: "Write", input: "marchCsv" }] },
+      ],
+    };
+
+    const workflow = workflowFromDefinition(definition, {
+      taskId: "task-3",
+      variables: ["reportMonth"],
+      workflows: ["Export invoices"],
+    });
+
+    expect(workflow.agents[0].subWorkflow).toEqual({
+      inputs: { month: "reportMonth" },
+      outputs: { csvPath: "marchCsv" },
+    });
+    expect(workflowToDefinition(workflow).agents[0]).toEqual({ id: 0, ...definition.agents[0] });
+    expect(issuesOf(definition, ["File"], [])).toEqual([
+      {
+        path: "agents[0].inputs.month",
+        message: 'Variable "reportMonth" is read before it is written by agent "0" or the agents it depends on',
+      },
+    ]);
+    expect(
+      validateWorkflowDefinition(definition, { variables: ["reportMonth"], workflows: [] })
+    ).toEqual([{ path: "agents[0].name", message: 'Unknown workflow "Export invoices", saved workflows: ' }]);
+  });
+
+  test("should report dependency cycles", () => {
+    const issues = issuesOf({
+      name: "Cycle",
+      agents: [
+        { id: "a", name: "Browser", task: "Task", dependsOn: ["c"] },
+        { id: "b", name: "Browser", task: "Task", dependsOn: ["a"] },
+        { id: "c", name: "Browser", task: "Task", dependsOn: ["b"] },
+      ],
+    });
+
+    expect(issues).toEqual([
+      { path: "agents[0].dependsOn", message: "Dependency cycle: a -> c -> b -> a" },
+    ]);
+  });
+
+  test("should throw every issue of an invalid definition", () => {
+    expect(() => parseWorkflowDefinition("name: [unclosed")).toThrow(
+      WorkflowDefinitionError
+    );
+    expect(() => parseWorkflowDefinition("name: Empty\nagents: []")).toThrow(
+      "Invalid workflow definition:\n- agents: Must have at least 1 item(s)"
+    );
+  });
+});
+
+describe("XSky.initContext with workflow definitions", () => {
+  const agents = [
+    new Agent({ name: "Browser", description: "Browses", tools: [] }),
+    new Agent({ name: "File", description: "Writes files", tools: [] }),
+  ];
+
+  test("should accept a definition object, definition text and XML plan", async () => {
+    const xsky = new XSky({ llms: {} as any, agents });
+
+    const fromYaml = await xsky.initContext(yamlDefinition, { month: "May" });
+    const fromObject = await xsky.initContext({
+      taskId: "task-3",
+      name: "Report",
+      agents: [{ name: "File", task: "Write the report" }],
+    });
+    const fromXml = await xsky.initContext(planXml);
+
+    expect(fromYaml.workflow?.agents).toHaveLength(2);
+    expect(fromYaml.variables.get("month")).toBe("May");
+    expect(fromObject.taskId).toBe("task-3");
+    expect(fromObject.workflow?.xml).toContain("<task>Write the report</task>");
+    expect(fromXml.workflow?.name).toBe("Social campaign");
+    expect(xsky.getTask("task-3")).toBe(fromObject);
+  });
+
+  test("should validate definitions against the registered agents", async () => {
+    const xsky = new XSky({ llms: {} as any, agents });
+
+    await expect(
+      xsky.initContext({
+        name: "Report",
+        agents: [{ name: "Computer", task: "Take a screenshot" }],
+      })
+    ).rejects.toThrow('Unknown agent "Computer", available agents: Browser, File');
+    await expect(xsky.initContext(yamlDefinition)).rejects.toThrow(
+      'Variable "month" is read before it is written'
+    );
+  });
+});
@@ -235,6 +235,135 @@ describe("common/xml", () => {
     });
   });
 
+  describe("control flow nodes", () => {
+    const xml = `<root>
+  <name>Invoices</name>
+  <thought>Download the invoices</thought>
+  <agents>
+    <agent name="Browser" id="0" dependsOn="">
+      <task>Download the invoices</task>
+      <nodes>
+        <try>
+          <node>Log in with the saved session</node>
+          <catch>
+            <node>Ask the user to log in</node>
+          </catch>
+        </try>
+        <while condition="The list has a next page" maxIterations="20">
+          <node>Download the invoices of the page</node>
+          <if variable="lastPage" equals="true">
+            <then>
+              <node>Stop</node>
+            </then>
+          </if>
+        </while>
+        <if variable="overdue">
+          <then>
+            <node input="overdue">Summarize the overdue invoices</node>
+          </then>
+          <else>
+            <node>Report that no invoice is overdue</node>
+          </else>
+        </if>
+        <while condition="Loading">
+          <node>Wait</node>
+        </while>
+      </nodes>
+    </agent>
+  </agents>
+</root>`;
+
+    test("should parse if, while and try nodes", () => {
+      const workflow = parseWorkflow("test", xml, true)!;
+      const nodes = workflow.agents[0].nodes;
+
+      expect(nodes[0]).toMatchObject({
+        type: "try",
+        nodes: [{ type: "normal", text: "Log in with the saved session" }],
+        catchNodes: [{ type: "normal", text: "Ask the user to log in" }],
+      });
+      expect(nodes[1]).toMatchObject({
+        type: "while",
+        condition: { text: "The list has a next page" },
+        maxIterations: 20,
+        nodes: [
+          { type: "normal", text: "Download the invoices of the page" },
+          {
+            type: "if",
+            condition: { variable: "lastPage", equals: "true" },
+            thenNodes: [{ type: "normal", text: "Stop" }],
+            elseNodes: [],
+          },
+        ],
+      });
+      expect(nodes[2]).toMatchObject({
+        type: "if",
+        condition: { variable: "overdue" },
+        thenNodes: [{ type: "normal", text: "Summarize the overdue invoices", input: "overdue" }],
+        elseNodes: [{ type: "normal", text: "Report that no invoice is overdue" }],
+      });
+      expect((nodes[2] as any).condition).not.toHaveProperty("equals");
+      expect(nodes[3]).toMatchObject({ type: "while", maxIterations: 10 });
+    });
+
+    test("should regenerate the XML of control flow nodes", () => {
+      const workflow = parseWorkflow("test", xml, true)!;
+
+      resetWorkflowXml(workflow);
+
+      expect(workflow.xml).toContain(`        <if variable="overdue">
+          <then>
+            <node input="overdue">Summarize the overdue invoices</node>
+          </then>
+          <else>
+            <node>Report that no invoice is overdue</node>
+          </else>
+        </if>`);
+      expect(workflow.xml).toContain(
+        '<while condition="The list has a next page" maxIterations="20">'
+      );
+      const reparsed = parseWorkflow("test", workflow.xml, true)!;
+      expect(reparsed.agents[0].nodes).toEqual(workflow.agents[0].nodes);
+    });
+  });
+
+  describe("output schemas", () => {
+    const xml = `<root>
+  <name>Developers</name>
+  <agents>
+    <agent name="Browser" id="0" dependsOn="">
+      <task>List the developers</task>
+      <nodes>
+        <node output="developers" outputSchema='{"type":"array","items":{"type":"string"}}'>Extract the developer accounts</node>
+        <node output="count" outputSchema="not json">Count the developers</node>
+      </nodes>
+    </agent>
+  </agents>
+</root>`;
+
+    test("should parse the output schema of nodes", () => {
+      const nodes = parseWorkflow("test", xml, true)!.agents[0].nodes;
+
+      expect(nodes[0]).toMatchObject({
+        output: "developers",
+        outputSchema: { type: "array", items: { type: "string" } },
+      });
+      expect(nodes[1]).not.toHaveProperty("outputSchema");
+    });
+
+    test("should regenerate the XML of output schemas", () => {
+      const workflow = parseWorkflow("test", xml, true)!;
+
+      resetWorkflowXml(workflow);
+
+      expect(workflow.xml).toContain(
+        'outputSchema="{&quot;type&quot;:&quot;array&quot;,&quot;items&quot;:{&quot;type&quot;:&quot;string&quot;}}"'
+      );
+      const reparsed = parseWorkflow("test", workflow.xml, true)!;
+      expect(reparsed.agents[0].nodes).toEqual(workflow.agents[0].nodes);
+    });
+  });
+
   describe("buildAgentRootXml", () => {
     test("should build agent XML with status", () => {
       const xml = `<agent name="Browser">
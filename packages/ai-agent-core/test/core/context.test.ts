@@ -471,6 +471,44 @@ describe("Context", () => {
       expect(context.conversation).toEqual(["restored message"]);
     });
 
+    test("should restore the chains of completed agents only", () => {
+      const context = new Context(
+        "task-1",
+        createMockConfig(),
+        [],
+        new Chain("Test")
+      );
+      const agent = (id: string, status: string) => ({
+        id,
+        name: "Agent",
+        task: "task " + id,
+        dependsOn: [],
+        nodes: [],
+        status,
+        parallel: false,
+        xml: "",
+      });
+
+      context.restore({
+        workflow: {
+          taskId: "task-1",
+          name: "Test",
+          agents: [agent("a", "done"), agent("b", "running")],
+          xml: "",
+        },
+        chain: {
+          taskPrompt: "Test",
+          agents: [
+            { agentId: "a", agentResult: "result of a", tools: [] },
+            { agentId: "b", tools: [] },
+          ],
+        },
+      });
+
+      expect(context.chain.agents.map((chain) => chain.agent.id)).toEqual(["a"]);
+      expect(context.chain.agents[0].agentResult).toBe("result of a");
+    });
+
     test("should handle restore with partial state", () => {
       const context = new Context(
         "task-1",
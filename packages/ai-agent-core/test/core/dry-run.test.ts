@@ -0,0 +1,227 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { A2aClient, A2aRemoteAgent } from "../../src/agent/a2a";
+import { Agent } from "../../src/agent/base";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import { XSky } from "../../src/core/xsky";
+import { McpTool } from "../../src/tools";
+import { ToolWrapper } from "../../src/tools/wrapper";
+import { LLMs, Tool, XSkyConfig } from "../../src/types";
+
+const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+
+/**
+ * A provider answering the first stream with a read and a write of a file,
+ * and the following streams with a text.
+ */
+function mockProvider(calls: LanguageModelV2CallOptions[]): ProviderV2 {
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          const parts: LanguageModelV2StreamPart[] =
+            calls.push(options) == 1
+              ? [
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-1",
+                    toolName: "file_read",
+                    input: JSON.stringify({ path: "/data/in.txt" }),
+                  },
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-2",
+                    toolName: "file_write",
+                    input: JSON.stringify({ path: "/data/out.txt", content: "Report" }),
+                  },
+                  { type: "finish", finishReason: "tool-calls", usage },
+                ]
+              : [
+                  { type: "text-start", id: "t" },
+                  { type: "text-delta", id: "t", delta: "Report written" },
+                  { type: "text-end", id: "t" },
+                  { type: "finish", finishReason: "stop", usage },
+                ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function fileTool(name: string, sideEffects?: boolean): Tool {
+  return {
+    name,
+    description: name,
+    parameters: {
+      type: "object",
+      properties: { path: { type: "string" }, content: { type: "string" } },
+    },
+    sideEffects,
+    execute: jest.fn(async () => ({
+      content: [{ type: "text" as const, text: name + " done" }],
+    })),
+  };
+}
+
+async function runTask(dryRun?: boolean, config: Partial<XSkyConfig> = {}) {
+  const calls: LanguageModelV2CallOptions[] = [];
+  const llms: LLMs = {
+    default: { provider: mockProvider(calls), model: "mock-model", apiKey: "test" },
+  };
+  const fileRead = fileTool("file_read");
+  const fileWrite = fileTool("file_write", true);
+  const xsky = new XSky({
+    llms,
+    agents: [
+      new Agent({ name: "File", description: "Files", tools: [fileRead, fileWrite] }),
+    ],
+    ...config,
+  });
+  await xsky.initContext(
+    buildSimpleAgentWorkflow({
+      taskId: "task-dry-run",
+      name: "Report",
+      agentName: "File",
+      task: "Write the report",
+    })
+  );
+  const result = await xsky.execute("task-dry-run", { dryRun });
+  xsky.deleteTask("task-dry-run");
+  return { result, calls, fileRead, fileWrite };
+}
+
+describe("dry run", () => {
+  it("should simulate side-effecting tools and run read-only tools", async () => {
+    const { result, calls, fileRead, fileWrite } = await runTask(true);
+
+    expect(result.success).toBe(true);
+    expect(fileRead.execute).toHaveBeenCalledTimes(1);
+    expect(fileWrite.execute).not.toHaveBeenCalled();
+    expect(JSON.stringify(calls[1].prompt)).toContain(
+      'Dry run: \\"file_write\\" was not executed'
+    );
+  });
+
+  it("should report every tool call with its resources", async () => {
+    const { result } = await runTask(true);
+    const report = result.dryRunReport!;
+
+    expect(report).toMatchObject({ taskId: "task-dry-run", workflowName: "Report" });
+    expect(report.endTime).toBeGreaterThanOrEqual(report.startTime);
+    expect(report.actions).toEqual([
+      expect.objectContaining({
+        agentName: "File",
+        nodeId: "task-dry-run-00",
+        toolName: "file_read",
+        toolCallId: "call-1",
+        args: { path: "/data/in.txt" },
+        resources: [expect.objectContaining({ type: "file_system", identifier: "/data/in.txt" })],
+        simulated: false,
+      }),
+      expect.objectContaining({
+        toolName: "file_write",
+        args: { path: "/data/out.txt", content: "Report" },
+        resources: [expect.objectContaining({ type: "file_system", identifier: "/data/out.txt" })],
+        simulated: true,
+      }),
+    ]);
+  });
+
+  it("should not ask the approval of simulated tools, and report it", async () => {
+    const onApprovalRequired = jest.fn(async () => ({ approved: false, reason: "Denied" }));
+    const { result, fileWrite } = await runTask(true, {
+      hooks: { onApprovalRequired },
+      approvalConfig: { rules: [{ condition: (_ctx, call) => call.toolName == "file_write" }] },
+    });
+
+    expect(onApprovalRequired).not.toHaveBeenCalled();
+    expect(fileWrite.execute).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.dryRunReport!.actions).toEqual([
+      expect.objectContaining({ toolName: "file_read", approvalRequired: false }),
+      expect.objectContaining({ toolName: "file_write", simulated: true, approvalRequired: true }),
+    ]);
+  });
+
+  it("should run every tool without a report outside of dry runs", async () => {
+    const { result, fileWrite } = await runTask();
+
+    expect(fileWrite.execute).toHaveBeenCalledTimes(1);
+    expect(result.dryRunReport).toBeUndefined();
+  });
+
+  it("should record the task of a remote A2A agent without sending it", async () => {
+    const client = new A2aClient("http://127.0.0.1:1");
+    const sendMessage = jest.spyOn(client, "sendMessage");
+    const streamMessage = jest.spyOn(client, "streamMessage");
+    const agent = new A2aRemoteAgent(client, {
+      name: "Researcher",
+      description: "Researches topics on the web",
+      url: "http://127.0.0.1:1/rpc",
+      version: "1.0.0",
+      capabilities: { streaming: true },
+    });
+    const xsky = new XSky({ llms: {}, agents: [agent] });
+    await xsky.initContext(
+      buildSimpleAgentWorkflow({
+        taskId: "task-dry-run-a2a",
+        name: "Research",
+        agentName: "Researcher",
+        task: "Research the A2A protocol",
+      })
+    );
+
+    const result = await xsky.execute("task-dry-run-a2a", { dryRun: true });
+
+    expect(sendMessage).not.toHaveBeenCalled();
+    expect(streamMessage).not.toHaveBeenCalled();
+    expect(result.success).toBe(true);
+    expect(result.result).toContain('the task was not sent to the remote agent "Researcher"');
+    expect(result.dryRunReport!.actions).toEqual([
+      expect.objectContaining({
+        agentName: "Researcher",
+        toolName: "a2a_remote_agent",
+        args: {
+          url: "http://127.0.0.1:1/rpc",
+          parts: [{ kind: "text", text: expect.stringContaining("<currentTask>Research the A2A protocol</currentTask>") }],
+        },
+        resources: [expect.objectContaining({ type: "network", identifier: "http://127.0.0.1:1/rpc" })],
+        simulated: true,
+      }),
+    ]);
+  });
+
+  it("should treat MCP tools as side-effecting unless marked read-only", () => {
+    const wrapper = new ToolWrapper(
+      { name: "search", parameters: { type: "object", properties: {} } },
+      { execute: jest.fn() }
+    );
+
+    expect(new McpTool(wrapper).sideEffects).toBe(true);
+    expect(new McpTool(wrapper, { readOnlyHint: true }).sideEffects).toBe(false);
+  });
+});
@@ -0,0 +1,231 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import Chain from "../../src/core/chain";
+import Context from "../../src/core/context";
+import { XSky } from "../../src/core/xsky";
+import { getSubWorkflowBindings } from "../../src/core/sub-workflow";
+import { parseWorkflow, resetWorkflowXml } from "../../src/common/xml";
+import { getPlanSystemPrompt } from "../../src/prompt/plan";
+import { LLMs, SavedWorkflow, StreamCallbackMessage, Tool } from "../../src/types";
+
+const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+
+/**
+ * A provider answering the first stream with a call of the `export_invoices` tool,
+ * and the following streams with a text.
+ */
+function mockProvider(): ProviderV2 {
+  let streams = 0;
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async () => {
+          const parts: LanguageModelV2StreamPart[] =
+            streams++ == 0
+              ? [
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-1",
+                    toolName: "export_invoices",
+                    input: JSON.stringify({}),
+                  },
+                  { type: "finish", finishReason: "tool-calls", usage },
+                ]
+              : [
+                  { type: "text-start", id: "t" },
+                  { type: "text-delta", id: "t", delta: "Invoices exported" },
+                  { type: "text-end", id: "t" },
+                  { type: "finish", finishReason: "stop", usage },
+                ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function createLlms(): LLMs {
+  return {
+    default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+  };
+}
+
+/** Exports the invoices of the `month` variable to the `csvPath` variable */
+function exportTool(months: string[]): Tool {
+  return {
+    name: "export_invoices",
+    description: "Exports the invoices of the month",
+    parameters: { type: "object", properties: {} },
+    execute: async (_args, agentContext) => {
+      const month = agentContext.context.variables.get("month");
+      months.push(month);
+      agentContext.context.variables.set("csvPath", `/exports/${month}.csv`);
+      return { content: [{ type: "text", text: "Exported" }] };
+    },
+  };
+}
+
+const exportInvoices: SavedWorkflow = {
+  name: "Export invoices",
+  description: "Exports the invoices of a month to a CSV file",
+  inputs: ["month"],
+  outputs: ["csvPath"],
+  workflow: {
+    name: "Export invoices",
+    agents: [
+      {
+        name: "Billing",
+        task: "Export the invoices of the month",
+        nodes: ["Export the invoices"],
+      },
+    ],
+  },
+};
+
+const planXml = `<root>
+  <name>Monthly report</name>
+  <thought>Export the invoices with the saved workflow</thought>
+  <agents>
+    <agent name="Export invoices" id="0" dependsOn="" type="workflow">
+      <task>Export the invoices of March</task>
+      <input name="month" variable="reportMonth" />
+      <output name="csvPath" variable="marchCsv" />
+    </agent>
+  </agents>
+</root>`;
+
+describe("sub-workflows", () => {
+  test("should parse and regenerate the agent entries calling a saved workflow", () => {
+    const workflow = parseWorkflow("task-1", planXml, true)!;
+
+    expect(workflow.agents[0]).toMatchObject({
+      name: "Export invoices",
+      task: "Export the invoices of March",
+      nodes: [],
+      subWorkflow: {
+        inputs: { month: "reportMonth" },
+        outputs: { csvPath: "marchCsv" },
+      },
+    });
+    resetWorkflowXml(workflow);
+    expect(workflow.xml).toContain(
+      '<agent name="Export invoices" id="0" dependsOn="" type="workflow">'
+    );
+    expect(parseWorkflow("task-1", workflow.xml, true)!.agents[0].subWorkflow).toEqual(
+      workflow.agents[0].subWorkflow
+    );
+  });
+
+  test("should bind unbound inputs and outputs to the variables of the same name", () => {
+    expect(
+      getSubWorkflowBindings(
+        { ...exportInvoices, inputs: ["month", "portal"] },
+        { inputs: { month: "reportMonth" }, outputs: {} }
+      )
+    ).toEqual({
+      inputs: { month: "reportMonth", portal: "portal" },
+      outputs: { csvPath: "csvPath" },
+    });
+  });
+
+  test("should run the saved workflow in a child context and return its outputs", async () => {
+    const months: string[] = [];
+    const messages: StreamCallbackMessage[] = [];
+    const onWorkflowGenerated = jest.fn();
+    const onWorkflowComplete = jest.fn();
+    const xsky = new XSky({
+      llms: createLlms(),
+      agents: [
+        new Agent({
+          name: "Billing",
+          description: "Manages invoices",
+          tools: [exportTool(months)],
+        }),
+      ],
+      workflows: [exportInvoices],
+      callback: {
+        onMessage: async (message) => {
+          messages.push(message);
+        },
+      },
+      hooks: { onWorkflowGenerated, onWorkflowComplete },
+    });
+    const context = await xsky.initContext(planXml, { reportMonth: "2026-03" });
+
+    const result = await xsky.execute(context.taskId);
+    xsky.deleteTask(context.taskId);
+
+    expect(result).toMatchObject({ success: true, result: "Invoices exported" });
+    expect(months).toEqual(["2026-03"]);
+    expect(context.variables.get("marchCsv")).toBe("/exports/2026-03.csv");
+    expect(context.variables.has("month")).toBe(false);
+    expect(context.workflow!.agents[0].status).toBe("done");
+    expect(context.chain.agents[0].agentResult).toBe("Invoices exported");
+    const entryMessages = messages.filter(
+      (message) => message.agentName == "Export invoices"
+    );
+    expect(entryMessages.map((message) => message.type)).toEqual([
+      "agent_start",
+      "agent_result",
+    ]);
+    // The workflow hooks report the workflow of the task only, not the sub-workflow
+    expect(onWorkflowGenerated).toHaveBeenCalledTimes(1);
+    expect(onWorkflowGenerated).toHaveBeenCalledWith(context, context.workflow);
+    expect(onWorkflowComplete).toHaveBeenCalledTimes(1);
+    expect(onWorkflowComplete.mock.calls[0][0]).toBe(context);
+  });
+
+  test("should reject calls of workflows that are not saved", async () => {
+    const xsky = new XSky({ llms: createLlms(), agents: [], workflows: [] });
+    const context = await xsky.initContext(planXml, { reportMonth: "2026-03" });
+
+    const result = await xsky.execute(context.taskId);
+    xsky.deleteTask(context.taskId);
+
+    expect(result.success).toBe(false);
+    expect(result.result).toContain(
+      "Agent 0 (Export invoices) is not a saved workflow"
+    );
+  });
+
+  test("should list the saved workflows in the planner prompt", async () => {
+    const context = new Context(
+      "task-1",
+      { llms: createLlms(), workflows: [exportInvoices] },
+      [],
+      new Chain("Monthly report")
+    );
+
+    const prompt = await getPlanSystemPrompt(context);
+
+    expect(prompt).toContain("## Sub-workflow list");
+    expect(prompt).toContain(`<workflow name="Export invoices">
+Description: Exports the invoices of a month to a CSV file
+Inputs: month
+Outputs: csvPath
+</workflow>`);
+  });
+});
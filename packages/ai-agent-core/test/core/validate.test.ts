@@ -0,0 +1,252 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { parseWorkflow } from "../../src/common/xml";
+import { validateWorkflow, WorkflowValidationError } from "../../src/core/validate";
+import { XSky } from "../../src/core/xsky";
+import { LLMs } from "../../src/types";
+
+class WatchingAgent extends Agent {
+  constructor() {
+    super({ name: "Browser", description: "Browses", tools: [] });
+  }
+
+  async screenshot() {
+    return { imageBase64: "", imageType: "image/png" };
+  }
+
+  async execute_script() {
+    return null;
+  }
+}
+
+const agents = [
+  new WatchingAgent(),
+  new Agent({ name: "File", description: "Writes files", tools: [] }),
+];
+
+function workflowOf(agentsXml: string) {
+  return parseWorkflow(
+    "task",
+    `<root><name>Test</name><thought></thought><agents>${agentsXml}</agents></root>`,
+    true
+  )!;
+}
+
+/** A provider streaming the given plans, one per call */
+function planProvider(plans: string[], calls: LanguageModelV2CallOptions[]): ProviderV2 {
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          const plan = plans[calls.length];
+          calls.push(options);
+          const parts: LanguageModelV2StreamPart[] = [
+            { type: "text-start", id: "t" },
+            { type: "text-delta", id: "t", delta: plan },
+            { type: "text-end", id: "t" },
+            {
+              type: "finish",
+              finishReason: "stop",
+              usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+            },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("validateWorkflow", () => {
+  test("should accept a valid workflow", () => {
+    const workflow = workflowOf(`
+      <agent name="Browser" id="0"><task>Research</task><nodes>
+        <node output="links">Collect links</node>
+        <watch event="dom" loop="false"><description>New item</description>
+          <trigger><node>Read the item</node></trigger></watch>
+      </nodes></agent>
+      <agent name="File" id="1" dependsOn="0"><task>Save</task><nodes>
+        <forEach items="links"><node input="links,folder">Save the link</node></forEach>
+      </nodes></agent>`);
+
+    expect(validateWorkflow(workflow, agents, ["folder"])).toEqual([]);
+  });
+
+  test("should report missing dependencies, unknown and nameless agents", () => {
+    const workflow = workflowOf(`
+      <agent id="0"><task>Anything</task></agent>
+      <agent name="Shell" id="1" dependsOn="0,7"><task>Run</task></agent>`);
+
+    expect(validateWorkflow(workflow, agents)).toEqual([
+      {
+        type: "unnamed_agent",
+        severity: "error",
+        agentId: "task-00",
+        message: "Agent 0 (no name) has no name",
+      },
+      {
+        type: "unknown_agent",
+        severity: "error",
+        agentId: "task-01",
+        message: "Agent 1 (Shell) is not an available agent, use one of: Browser, File",
+      },
+      {
+        type: "missing_dependency",
+        severity: "error",
+        agentId: "task-01",
+        message: "Agent 1 (Shell) depends on the missing agent task-07",
+      },
+    ]);
+  });
+
+  test("should report dependency cycles", () => {
+    const workflow = workflowOf(`
+      <agent name="Browser" id="0"><task>Start</task></agent>
+      <agent name="Browser" id="1" dependsOn="0,2"><task>Loop</task></agent>
+      <agent name="File" id="2" dependsOn="1"><task>Loop</task></agent>`);
+
+    const issues = validateWorkflow(workflow, agents);
+
+    expect(issues).toEqual([
+      {
+        type: "cycle",
+        severity: "error",
+        agentId: "task-01",
+        message: "Agent 1 (Browser) is in a dependency cycle: 1 -> 2 -> 1",
+      },
+    ]);
+  });
+
+  test("should warn about variables read before they are written", () => {
+    const workflow = workflowOf(`
+      <agent name="Browser" id="0"><task>Research</task><nodes>
+        <node input="summary">Use the summary</node>
+        <node output="summary">Summarize</node>
+      </nodes></agent>
+      <agent name="File" id="1"><task>Save</task><nodes>
+        <forEach items="summary"><node>Save</node></forEach>
+        <forEach items="list"><node>Save</node></forEach>
+      </nodes></agent>`);
+
+    expect(validateWorkflow(workflow, agents).map((issue) => [issue.type, issue.message])).toEqual([
+      [
+        "undefined_variable",
+        'Agent 0 (Browser) reads the variable "summary" before it is written by a previous node or agent',
+      ],
+      [
+        "undefined_foreach_items",
+        'Agent 1 (File) iterates over the variable "summary" before it is written by a previous node or agent',
+      ],
+    ]);
+  });
+
+  test("should warn about condition variables tested before they are written", () => {
+    const workflow = workflowOf(`
+      <agent name="Browser" id="0"><task>Check</task><nodes>
+        <if variable="status" equals="ok"><then><node output="report">Report</node></then></if>
+        <while variable="report"><node>Wait</node></while>
+      </nodes></agent>`);
+
+    expect(validateWorkflow(workflow, agents).map((issue) => [issue.type, issue.message])).toEqual([
+      [
+        "undefined_condition_variable",
+        'Agent 0 (Browser) tests the variable "status" before it is written by a previous node or agent',
+      ],
+    ]);
+  });
+
+  test("should report watch nodes on agents that cannot watch", () => {
+    const workflow = workflowOf(`
+      <agent name="File" id="0"><task>Watch</task><nodes>
+        <watch event="file" loop="true"><description>New file</description>
+          <trigger><node>Read it</node></trigger></watch>
+      </nodes></agent>`);
+
+    expect(validateWorkflow(workflow, agents)[0]).toMatchObject({
+      type: "unsupported_watch",
+      severity: "error",
+    });
+  });
+});
+
+describe("XSky workflow validation", () => {
+  const invalidPlan = `<root><name>Save</name><thought></thought><agents>
+    <agent name="Shell" id="0"><task>Save the file</task><nodes><node>Save</node></nodes></agent>
+  </agents></root>`;
+  const validPlan = invalidPlan.replace("Shell", "File");
+
+  function createLlms(plans: string[], calls: LanguageModelV2CallOptions[]): LLMs {
+    return {
+      default: { provider: planProvider(plans, calls), model: "mock-model", apiKey: "test" },
+    };
+  }
+
+  test("should refuse to execute an invalid workflow", async () => {
+    const xsky = new XSky({ llms: createLlms([], []), agents });
+    const context = await xsky.initContext(workflowOf(`
+      <agent name="Browser" id="0" dependsOn="1"><task>A</task></agent>
+      <agent name="Browser" id="1" dependsOn="0"><task>B</task></agent>`));
+
+    const result = await xsky.execute(context.taskId);
+
+    expect(result.success).toBe(false);
+    expect(result.error).toBeInstanceOf(WorkflowValidationError);
+    expect(result.result).toContain("is in a dependency cycle");
+  });
+
+  test("should feed the issues back to the planner for a corrective replan", async () => {
+    const calls: LanguageModelV2CallOptions[] = [];
+    const xsky = new XSky({
+      llms: createLlms([invalidPlan, validPlan], calls),
+      agents,
+      workflowValidation: { maxReplans: 2 },
+    });
+
+    const workflow = await xsky.generate("Save the file", "task-replan");
+
+    expect(calls).toHaveLength(2);
+    expect(JSON.stringify(calls[1].prompt)).toContain(
+      "Agent 0 (Shell) is not an available agent, use one of: Browser, File"
+    );
+    expect(workflow.agents[0].name).toBe("File");
+    expect(workflow.taskPrompt).toBe("Save the file");
+  });
+  test("should not replan a workflow with warnings only", async () => {
+    const calls: LanguageModelV2CallOptions[] = [];
+    const warningPlan = validPlan.replace("<node>Save</node>", '<node input="report">Save</node>');
+    const xsky = new XSky({
+      llms: createLlms([warningPlan, validPlan], calls),
+      agents,
+      workflowValidation: { maxReplans: 2 },
+    });
+
+    const workflow = await xsky.generate("Save the file", "task-warning");
+
+    expect(calls).toHaveLength(1);
+    expect(workflow.agents[0].name).toBe("File");
+  });
+});
@@ -0,0 +1,269 @@
+import { Agent } from "../../src/agent/base";
+import BaseBrowserAgent from "../../src/agent/browser/browser_base";
+import Context, { AgentContext } from "../../src/core/context";
+import Chain, { AgentChain } from "../../src/core/chain";
+import { RateLimiter, RateLimitError } from "../../src/utils/rate-limiter";
+import { Tool, XSkyConfig } from "../../src/types";
+import { RateLimitConfig } from "../../src/types/hooks.types";
+
+describe("RateLimiter buckets", () => {
+  it("should keep tool buckets compatible with checkLimit", () => {
+    const limiter = new RateLimiter({ maxOperations: 1, windowMs: 60000 });
+
+    expect(limiter.getBuckets({ toolName: "navigate" })).toEqual([
+      { key: "navigate", limit: { maxOperations: 1, windowMs: 60000 } },
+    ]);
+    expect(limiter.checkLimit("navigate")).toBe(true);
+    expect(limiter.checkLimit("navigate")).toBe(false);
+  });
+
+  it("should add agent and domain buckets when configured", () => {
+    const limiter = new RateLimiter({
+      maxOperations: 10,
+      windowMs: 1000,
+      perAgent: { Browser: { maxOperations: 5, windowMs: 1000 } },
+      perDomain: {
+        "example.com": { maxOperations: 1, windowMs: 1000 },
+        "*.shop.com": { maxOperations: 2, windowMs: 1000 },
+        "*": { maxOperations: 3, windowMs: 1000 },
+      },
+    });
+
+    const keys = (domain?: string, agentName?: string) =>
+      limiter
+        .getBuckets({ toolName: "click", agentName, domain })
+        .map((bucket) => bucket.key);
+
+    expect(keys("example.com", "Browser")).toEqual([
+      "click",
+      "agent:Browser",
+      "domain:example.com",
+    ]);
+    expect(keys("a.shop.com")).toEqual(["click", "domain:*.shop.com"]);
+    expect(keys("b.shop.com")).toEqual(["click", "domain:*.shop.com"]);
+    expect(keys("other.org", "File")).toEqual(["click", "domain:other.org"]);
+    expect(keys()).toEqual(["click"]);
+  });
+
+  it("should record an operation in every bucket", async () => {
+    const limiter = new RateLimiter({
+      maxOperations: 10,
+      windowMs: 1000,
+      perDomain: { "*": { maxOperations: 5, windowMs: 1000 } },
+    });
+    const buckets = limiter.getBuckets({ toolName: "click", domain: "a.com" });
+
+    await limiter.acquire(buckets);
+
+    expect(limiter.getUsage("click").current).toBe(1);
+    expect(limiter.getUsage("domain:a.com", buckets[1].limit).current).toBe(1);
+  });
+
+  it("should wait until every bucket allows the operation", async () => {
+    const limiter = new RateLimiter({
+      maxOperations: 10,
+      windowMs: 1000,
+      perDomain: { "example.com": { maxOperations: 1, windowMs: 50 } },
+    });
+    const buckets = limiter.getBuckets({ toolName: "click", domain: "example.com" });
+
+    await limiter.acquire(buckets);
+    const start = Date.now();
+    await limiter.acquire(buckets);
+
+    expect(Date.now() - start).toBeGreaterThanOrEqual(40);
+    expect(limiter.getUsage("click").current).toBe(2);
+  });
+
+  it("should reject with the reject strategy or when waiting too long", async () => {
+    const config: RateLimitConfig = { maxOperations: 1, windowMs: 60000 };
+    const rejecting = new RateLimiter({ ...config, strategy: "reject" });
+    const impatient = new RateLimiter({ ...config, maxWaitMs: 100 });
+
+    for (const limiter of [rejecting, impatient]) {
+      const buckets = limiter.getBuckets({ toolName: "click" });
+      await limiter.acquire(buckets);
+      const error = await limiter.acquire(buckets).catch((e) => e);
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.key).toBe("click");
+      expect(error.retryAfterMs).toBeGreaterThan(100);
+    }
+  });
+
+  it("should stop waiting when aborted", async () => {
+    const limiter = new RateLimiter({ maxOperations: 1, windowMs: 60000 });
+    const buckets = limiter.getBuckets({ toolName: "click" });
+    const controller = new AbortController();
+    await limiter.acquire(buckets);
+
+    const pending = limiter.acquire(buckets, controller.signal);
+    controller.abort();
+
+    await expect(pending).rejects.toMatchObject({ name: "AbortError" });
+    expect(limiter.getUsage("click").current).toBe(1);
+  });
+});
+
+describe("Agent rate limiting", () => {
+  class RateLimitedAgent extends Agent {
+    constructor() {
+      super({ name: "Fetcher", description: "Fetches pages", tools: [] });
+    }
+  }
+
+  const tool: Tool = {
+    name: "fetch_page",
+    description: "Fetch a page",
+    parameters: { type: "object", properties: {} },
+    execute: jest.fn(async () => ({
+      content: [{ type: "text" as const, text: "Fetched" }],
+    })),
+  };
+
+  function createAgentContext(rateLimits: RateLimitConfig): AgentContext {
+    const config = { llms: {}, rateLimits } as unknown as XSkyConfig;
+    const context = new Context("task-1", config, [], new Chain("Fetch pages"));
+    context.rateLimiter = new RateLimiter(rateLimits);
+    const agentChain = new AgentChain({
+      id: "task-1-00",
+      name: "Fetcher",
+      task: "Fetch pages",
+      dependsOn: [],
+      nodes: [],
+      status: "running",
+      xml: "",
+    });
+    agentChain.agentRequest = { messages: [] } as any;
+    return new AgentContext(context, new RateLimitedAgent(), agentChain);
+  }
+
+  function callTool(agentContext: AgentContext, url: string) {
+    return (agentContext.agent as any).callToolCall(agentContext, [tool], {
+      type: "tool-call",
+      toolName: "fetch_page",
+      toolCallId: "call-" + url,
+      input: { url },
+    });
+  }
+
+  beforeEach(() => {
+    (tool.execute as jest.Mock).mockClear();
+  });
+
+  it("should reject tool calls over the domain limit", async () => {
+    const agentContext = createAgentContext({
+      maxOperations: 10,
+      windowMs: 60000,
+      strategy: "reject",
+      perDomain: { "*.example.com": { maxOperations: 1, windowMs: 60000 } },
+    });
+
+    await callTool(agentContext, "https://a.example.com/1");
+    const limited = await callTool(agentContext, "https://b.example.com/2");
+    const other = await callTool(agentContext, "https://other.org/");
+
+    expect(tool.execute).toHaveBeenCalledTimes(2);
+    expect(JSON.stringify(limited)).toContain(
+      "Rate limit exceeded for domain:*.example.com"
+    );
+    expect(JSON.stringify(other)).toContain("Fetched");
+  });
+
+  it("should share the agent limit across tools", async () => {
+    const agentContext = createAgentContext({
+      maxOperations: 10,
+      windowMs: 60000,
+      strategy: "reject",
+      perAgent: { Fetcher: { maxOperations: 1, windowMs: 60000 } },
+    });
+
+    await callTool(agentContext, "https://a.com/");
+    const limited = await callTool(agentContext, "https://b.com/");
+
+    expect(tool.execute).toHaveBeenCalledTimes(1);
+    expect(JSON.stringify(limited)).toContain("Rate limit exceeded for agent:Fetcher");
+  });
+});
+
+describe("Browser agent rate limiting", () => {
+  /**
+   * A browser agent without MCP client, whose page is given by the test.
+   */
+  class PageBrowserAgent extends BaseBrowserAgent {
+    pageUrl = "https://shop.example.com/cart";
+
+    constructor(tools: Tool[]) {
+      super({ name: "Browser", description: "Browses pages", tools });
+    }
+
+    protected async screenshot(): Promise<{ imageBase64: string; imageType: "image/png" }> {
+      return { imageBase64: "", imageType: "image/png" };
+    }
+
+    protected async navigate_to(_agentContext: AgentContext, url: string) {
+      this.pageUrl = url;
+      return { url };
+    }
+
+    protected async get_all_tabs() {
+      return [{ tabId: 0, url: this.pageUrl, title: "" }];
+    }
+
+    protected async switch_tab() {
+      return { tabId: 0, url: this.pageUrl, title: "" };
+    }
+
+    protected async execute_script(): Promise<any> {
+      return { url: this.pageUrl, title: "" };
+    }
+  }
+
+  const click: Tool = {
+    name: "click_element",
+    description: "Click an element",
+    parameters: { type: "object", properties: {} },
+    execute: jest.fn(async () => ({
+      content: [{ type: "text" as const, text: "Clicked" }],
+    })),
+  };
+
+  it("should count the calls without URL against the domain of the current page", async () => {
+    const rateLimits: RateLimitConfig = {
+      maxOperations: 10,
+      windowMs: 60000,
+      strategy: "reject",
+      perDomain: { "shop.example.com": { maxOperations: 1, windowMs: 60000 } },
+    };
+    const config = { llms: {}, rateLimits } as unknown as XSkyConfig;
+    const context = new Context("task-1", config, [], new Chain("Buy"));
+    context.rateLimiter = new RateLimiter(rateLimits);
+    const agentChain = new AgentChain({
+      id: "task-1-00",
+      name: "Browser",
+      task: "Buy",
+      dependsOn: [],
+      nodes: [],
+      status: "running",
+      xml: "",
+    });
+    agentChain.agentRequest = { messages: [] } as any;
+    const agent = new PageBrowserAgent([click]);
+    const agentContext = new AgentContext(context, agent, agentChain);
+    const callClick = (id: string) =>
+      (agent as any).callToolCall(agentContext, [click], {
+        type: "tool-call",
+        toolName: "click_element",
+        toolCallId: id,
+        input: { index: 1 },
+      });
+
+    await callClick("call-1");
+    const limited = await callClick("call-2");
+    agent.pageUrl = "https://other.org/";
+    const other = await callClick("call-3");
+
+    expect(click.execute).toHaveBeenCalledTimes(2);
+    expect(JSON.stringify(limited)).toContain("Rate limit exceeded for domain:shop.example.com");
+    expect(JSON.stringify(other)).toContain("Clicked");
+  });
+});
@@ -0,0 +1,254 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import Chain, { AgentChain } from "../../src/core/chain";
+import Context, { AgentContext } from "../../src/core/context";
+import { XSky } from "../../src/core/xsky";
+import { RetryLanguageModel } from "../../src/llm";
+import { BudgetExceededError, BudgetTracker } from "../../src/llm/budget";
+import { BudgetConfig, LLMs, XSkyConfig } from "../../src/types";
+
+const usage = { inputTokens: 1000, outputTokens: 100, totalTokens: 1100 };
+
+function mockProvider(calls: string[]): ProviderV2 {
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          calls.push(modelId);
+          return {
+            content: [{ type: "text", text: "Hello from " + modelId }],
+            finishReason: "stop",
+            usage,
+            warnings: [],
+          };
+        },
+        doStream: async () => {
+          calls.push(modelId);
+          const parts: LanguageModelV2StreamPart[] = [
+            { type: "text-start", id: "t" },
+            { type: "text-delta", id: "t", delta: "Hello" },
+            { type: "text-end", id: "t" },
+            { type: "finish", finishReason: "stop", usage },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function createLlms(calls: string[]): LLMs {
+  const provider = mockProvider(calls);
+  return {
+    default: {
+      provider,
+      model: "expensive",
+      apiKey: "test",
+      // $1 per 1000 prompt tokens, $10 per 1000 completion tokens
+      price: { prompt: 1000, completion: 10000 },
+    },
+    cheap: {
+      provider,
+      model: "cheap",
+      apiKey: "test",
+      price: { prompt: 100, completion: 1000 },
+    },
+  };
+}
+
+class BudgetAgent extends Agent {
+  constructor(name = "Writer") {
+    super({ name, description: "Writes text", tools: [] });
+  }
+}
+
+function createContext(budget: BudgetConfig, onMetric = jest.fn()) {
+  const calls: string[] = [];
+  const config = {
+    llms: createLlms(calls),
+    budget,
+    telemetry: { onMetric },
+  } as XSkyConfig;
+  const context = new Context("task-1", config, [], new Chain("Write"));
+  return { context, calls, onMetric };
+}
+
+function agentContext(context: Context, name = "Writer") {
+  return new AgentContext(
+    context,
+    new BudgetAgent(name),
+    new AgentChain({
+      id: "task-1-00",
+      name,
+      task: "Write",
+      dependsOn: [],
+      nodes: [],
+      status: "running",
+      xml: "",
+    })
+  );
+}
+
+const request = { messages: [{ role: "user" as const, content: [{ type: "text" as const, text: "Hi" }] }] };
+
+describe("BudgetTracker", () => {
+  it("should estimate the cost of calls from the LLM price", () => {
+    const tracker = new BudgetTracker("task-1", { maxCost: 5 });
+    const llms = createLlms([]);
+
+    const call = tracker.record("default", llms.default, usage, "Writer");
+    tracker.record("cheap", llms.cheap, usage);
+
+    expect(call).toEqual({ promptTokens: 1000, completionTokens: 100, cost: 2 });
+    expect(tracker.getUsage()).toEqual({
+      promptTokens: 2000,
+      completionTokens: 200,
+      cost: 2.2,
+    });
+    expect(tracker.getUsage("Writer").cost).toBe(2);
+    expect(tracker.check()).toBeUndefined();
+  });
+
+  it("should report exhausted task and agent limits", () => {
+    const tracker = new BudgetTracker("task-1", {
+      maxPromptTokens: 3000,
+      perAgent: { "*": { maxCompletionTokens: 100 } },
+    });
+    const llms = createLlms([]);
+
+    tracker.record("default", llms.default, usage, "Writer");
+
+    expect(tracker.check("Reader")).toBeUndefined();
+    expect(tracker.check("Writer")).toBe(
+      "Budget of agent Writer exhausted: 100 of 100 completion tokens used"
+    );
+    tracker.record("default", llms.default, usage, "Reader");
+    tracker.record("default", llms.default, usage, "Reader");
+    expect(tracker.check("Reader")).toBe(
+      "Task budget exhausted: 3000 of 3000 prompt tokens used"
+    );
+  });
+});
+
+describe("RetryLanguageModel budget", () => {
+  it("should track streamed usage and emit budget metrics", async () => {
+    const { context, onMetric } = createContext({ maxCost: 10 });
+    const rlm = new RetryLanguageModel(context.config.llms);
+    rlm.setContext(agentContext(context));
+
+    const result = await rlm.callStream(request);
+    const reader = result.stream.getReader();
+    while (!(await reader.read()).done) {}
+
+    expect(context.budget!.getUsage("Writer")).toEqual({
+      promptTokens: 1000,
+      completionTokens: 100,
+      cost: 2,
+    });
+    expect(onMetric).toHaveBeenCalledWith({
+      name: "xsky.budget.cost",
+      value: 2,
+      tags: { taskId: "task-1", agentName: "Writer", llm: "default" },
+    });
+  });
+
+  it("should abort the task when the budget is exhausted", async () => {
+    const { context, calls, onMetric } = createContext({ maxCost: 3 });
+    const rlm = new RetryLanguageModel(context.config.llms);
+    rlm.setContext(context);
+
+    await rlm.call(request);
+    await rlm.call(request);
+    await expect(rlm.call(request)).rejects.toBeInstanceOf(BudgetExceededError);
+
+    expect(calls).toEqual(["expensive", "expensive"]);
+    expect(context.controller.signal.aborted).toBe(true);
+    expect(context.budget!.Exceeded?.message).toBe(
+      "Task budget exhausted: $4.0000 of $3 spent"
+    );
+    expect(onMetric).toHaveBeenCalledWith({
+      name: "xsky.budget.exhausted",
+      value: 1,
+      tags: { taskId: "task-1", agentName: "", action: "abort" },
+    });
+  });
+
+  it("should downgrade the exhausted agent to the cheaper LLM", async () => {
+    const { context, calls } = createContext({
+      perAgent: { Writer: { maxCost: 1 } },
+      onExhausted: "downgrade",
+      downgradeLlm: "cheap",
+    });
+    const writer = new RetryLanguageModel(context.config.llms);
+    writer.setContext(agentContext(context, "Writer"));
+    const reader = new RetryLanguageModel(context.config.llms);
+    reader.setContext(agentContext(context, "Reader"));
+
+    await writer.call(request);
+    const downgraded = await writer.call(request);
+    await reader.call(request);
+
+    expect(downgraded.llm).toBe("cheap");
+    expect(calls).toEqual(["expensive", "cheap", "expensive"]);
+    expect(context.controller.signal.aborted).toBe(false);
+  });
+});
+
+describe("XSky budget", () => {
+  class SpendingAgent extends BudgetAgent {
+    async run(context: Context, agentChain: AgentChain): Promise<string> {
+      const rlm = new RetryLanguageModel(context.config.llms);
+      rlm.setContext(new AgentContext(context, this, agentChain));
+      for (let i = 0; i < 5; i++) {
+        await context.checkAborted();
+        await rlm.call(request);
+      }
+      return "Spent";
+    }
+  }
+
+  it("should stop the task with stopReason budget", async () => {
+    const xsky = new XSky({
+      llms: createLlms([]),
+      agents: [new SpendingAgent()],
+      budget: { maxCost: 3 },
+    });
+    const workflow = buildSimpleAgentWorkflow({
+      taskId: "task-budget",
+      name: "Spend",
+      agentName: "Writer",
+      task: "Spend",
+    });
+    await xsky.initContext(workflow);
+
+    const result = await xsky.execute("task-budget");
+    xsky.deleteTask("task-budget");
+
+    expect(result.stopReason).toBe("budget");
+    expect(result.success).toBe(false);
+    expect(result.result).toBe(
+      "BudgetExceededError: Task budget exhausted: $4.0000 of $3 spent"
+    );
+  });
+});
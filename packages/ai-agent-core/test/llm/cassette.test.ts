@@ -0,0 +1,237 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { uuidv4 } from "../../src/common/utils";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import { XSky } from "../../src/core/xsky";
+import { RetryLanguageModel } from "../../src/llm";
+import { CassetteMissError, LlmCassette } from "../../src/llm/cassette";
+import {
+  CassetteData,
+  CassetteOptions,
+  LLMs,
+  LLMRequest,
+  Tool,
+  ToolResult,
+} from "../../src/types";
+
+const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+
+/**
+ * A provider answering the first stream with a call of the `lookup` tool,
+ * and the following calls with a numbered text.
+ */
+function mockProvider(calls: LanguageModelV2CallOptions[]): ProviderV2 {
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async (options: LanguageModelV2CallOptions) => {
+          calls.push(options);
+          return {
+            content: [{ type: "text", text: "Answer " + calls.length }],
+            finishReason: "stop",
+            usage,
+            response: { id: "res-1", timestamp: new Date(0), modelId },
+            warnings: [],
+          };
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          calls.push(options);
+          const parts: LanguageModelV2StreamPart[] =
+            calls.length == 1
+              ? [
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-1",
+                    toolName: "lookup",
+                    input: JSON.stringify({ query: "weather" }),
+                  },
+                  { type: "finish", finishReason: "tool-calls", usage },
+                ]
+              : [
+                  { type: "response-metadata", timestamp: new Date(0) },
+                  { type: "text-start", id: "t" },
+                  { type: "text-delta", id: "t", delta: "Answer " + calls.length },
+                  { type: "text-end", id: "t" },
+                  { type: "finish", finishReason: "stop", usage },
+                ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function createLlms(calls: LanguageModelV2CallOptions[] = []): LLMs {
+  return {
+    default: { provider: mockProvider(calls), model: "mock-model", apiKey: "test" },
+  };
+}
+
+/** LLMs that fail when called, replayed calls must never reach them */
+function offlineLlms(): LLMs {
+  const offline = {
+    ...mockProvider([]),
+    languageModel: () => {
+      throw new Error("Network is not available");
+    },
+  };
+  return { default: { provider: offline, model: "mock-model", apiKey: "test" } };
+}
+
+function request(text: string): LLMRequest {
+  return {
+    messages: [
+      { role: "system", content: "Current datetime: " + new Date().toLocaleString() },
+      { role: "user", content: [{ type: "text", text }] },
+    ],
+  };
+}
+
+async function readText(stream: ReadableStream<LanguageModelV2StreamPart>) {
+  const reader = stream.getReader();
+  let text = "";
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) {
+      return text;
+    }
+    if (value.type == "text-delta") {
+      text += value.delta;
+    }
+  }
+}
+
+/** Records and serializes a cassette, as it would be written to and read from a file */
+async function record(
+  run: (llms: LLMs) => Promise<unknown>,
+  options?: CassetteOptions
+): Promise<CassetteData> {
+  const cassette = new LlmCassette("record", undefined, options);
+  await run(cassette.wrap(createLlms()));
+  return JSON.parse(JSON.stringify(cassette));
+}
+
+describe("LlmCassette", () => {
+  it("should replay recorded generate and stream calls offline", async () => {
+    const data = await record(async (llms) => {
+      const rlm = new RetryLanguageModel(llms);
+      await rlm.call(request("Hello"));
+      await readText((await rlm.callStream(request("Hello"))).stream);
+      await readText((await rlm.callStream(request("Again"))).stream);
+    });
+
+    expect(data.interactions.map((s) => s.type)).toEqual([
+      "generate",
+      "stream",
+      "stream",
+    ]);
+    expect(data.interactions[1].chunks![0].delay).toEqual(expect.any(Number));
+
+    const cassette = new LlmCassette("replay", data);
+    const rlm = new RetryLanguageModel(cassette.wrap(offlineLlms()));
+    const generated = await rlm.call(request("Hello"));
+    const again = await rlm.callStream(request("Again"));
+
+    expect(generated.text).toBe("Answer 1");
+    expect(generated.response?.timestamp).toEqual(new Date(0));
+    expect(await readText(again.stream)).toBe("Answer 3");
+  });
+
+  it("should match normalized requests whatever the datetime of the prompt", async () => {
+    const options = { normalize: (text: string) => text.toLowerCase() };
+    const data = await record(async (llms) => {
+      await new RetryLanguageModel(llms).call(request("Hello"));
+    }, options);
+    const cassette = new LlmCassette("replay", data, options);
+    const rlm = new RetryLanguageModel(cassette.wrap(offlineLlms()));
+
+    const replayed = await rlm.call({
+      messages: [
+        { role: "system", content: "Current datetime: 1/1/2000, 00:00:00" },
+        { role: "user", content: [{ type: "text", text: "HELLO" }] },
+      ],
+    });
+
+    expect(replayed.text).toBe("Answer 1");
+  });
+
+  it("should fail on a cache miss without retrying", async () => {
+    const data = await record(async (llms) => {
+      await new RetryLanguageModel(llms).call(request("Hello"));
+    });
+    const cassette = new LlmCassette("replay", data);
+    const rlm = new RetryLanguageModel(cassette.wrap(offlineLlms()));
+
+    const error = await rlm.call(request("Unknown")).catch((e) => e);
+
+    expect(error).toBeInstanceOf(CassetteMissError);
+    expect(error.message).toMatch(
+      /^No recorded generate response for request [0-9a-f]{16} \(llm: default, model: mock-model, last message: "Unknown"\)/
+    );
+    // The circuit breaker did not trip on the misses
+    await expect(rlm.call(request("Hello"))).resolves.toBeDefined();
+  });
+
+  it("should replay a full agent loop", async () => {
+    const lookup = jest.fn(
+      async (): Promise<ToolResult> => ({
+        content: [{ type: "text", text: "Sunny" }],
+      })
+    );
+    const tool: Tool = {
+      name: "lookup",
+      description: "Looks up information",
+      parameters: { type: "object", properties: { query: { type: "string" } } },
+      execute: lookup,
+    };
+    const run = async (llms: LLMs) => {
+      const xsky = new XSky({
+        llms,
+        agents: [
+          new Agent({ name: "Researcher", description: "Researches", tools: [tool] }),
+        ],
+      });
+      const taskId = uuidv4();
+      await xsky.initContext(
+        buildSimpleAgentWorkflow({
+          taskId,
+          name: "Research",
+          agentName: "Researcher",
+          task: "Look up the weather",
+        })
+      );
+      const result = await xsky.execute(taskId);
+      xsky.deleteTask(taskId);
+      return result;
+    };
+    const data = await record(run);
+
+    const cassette = new LlmCassette("replay", data);
+    const result = await run(cassette.wrap(offlineLlms()));
+
+    expect(result.success).toBe(true);
+    expect(result.result).toBe("Answer 2");
+    expect(lookup).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,247 @@
+import { McpResponseError } from "../../src/mcp/error";
+import { MultiMcpClient } from "../../src/mcp/multi";
+import {
+  IMcpClient,
+  McpCallToolParam,
+  McpGetPromptResult,
+  McpListToolParam,
+  McpPrompt,
+  McpResource,
+  McpResourceContents,
+  ToolResult,
+} from "../../src/types";
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * An in-memory MCP server, failing every request while down.
+ */
+class MemoryMcpClient implements IMcpClient {
+  connected = false;
+  down = false;
+  calls: McpCallToolParam[] = [];
+  tools: string[];
+  prompts: McpPrompt[] = [];
+  resources: McpResource[] = [];
+  private toolsListener?: () => void;
+
+  constructor(tools: string[]) {
+    this.tools = tools;
+  }
+
+  async connect(): Promise<void> {
+    this.check();
+    this.connected = true;
+  }
+
+  async listTools() {
+    this.check();
+    return this.tools.map((name) => ({ name, inputSchema: { type: "object" as const } }));
+  }
+
+  async callTool(param: McpCallToolParam): Promise<ToolResult> {
+    this.check();
+    this.calls.push(param);
+    return { content: [{ type: "text", text: "Called " + param.name }] };
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    this.toolsListener = listener;
+    return () => (this.toolsListener = undefined);
+  }
+
+  changeTools(tools: string[]) {
+    this.tools = tools;
+    this.toolsListener?.();
+  }
+
+  async listResources(): Promise<McpResource[]> {
+    this.check();
+    return this.resources;
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    this.check();
+    return [{ uri, text: "Contents of " + uri }];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    this.check();
+    return this.prompts;
+  }
+
+  async getPrompt(name: string): Promise<McpGetPromptResult> {
+    this.check();
+    return { messages: [{ role: "user", content: { type: "text", text: "Prompt " + name } }] };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+  }
+
+  private check() {
+    if (this.down) {
+      this.connected = false;
+      throw new Error("Connection refused");
+    }
+  }
+}
+
+function listParam(agent_name: string): McpListToolParam {
+  return { environment: "linux", agent_name, prompt: "" };
+}
+
+function callParam(name: string, agent_name: string): McpCallToolParam {
+  return {
+    name,
+    arguments: { query: "report" },
+    extInfo: { taskId: "task", nodeId: "node", environment: "linux", agent_name },
+  };
+}
+
+describe("MultiMcpClient", () => {
+  test("should namespace colliding tool names and route calls to their server", async () => {
+    const internal = new MemoryMcpClient(["search", "deploy"]);
+    const fs = new MemoryMcpClient(["search", "read_file"]);
+    const client = new MultiMcpClient({ internal, fs });
+
+    await client.connect();
+    const tools = await client.listTools(listParam("Browser"));
+    const result = await client.callTool(callParam("fs_search", "Browser"));
+    await client.callTool(callParam("deploy", "Browser"));
+    await client.close();
+
+    expect(tools.map((tool) => tool.name)).toEqual([
+      "internal_search",
+      "deploy",
+      "fs_search",
+      "read_file",
+    ]);
+    expect(result.content).toEqual([{ type: "text", text: "Called search" }]);
+    expect(fs.calls[0]).toMatchObject({ name: "search", arguments: { query: "report" } });
+    expect(internal.calls.map((call) => call.name)).toEqual(["deploy"]);
+    expect(client.isConnected()).toBe(false);
+  });
+
+  test("should keep using the other servers while a server is down and retry it later", async () => {
+    const internal = new MemoryMcpClient(["deploy"]);
+    const fs = new MemoryMcpClient(["read_file"]);
+    fs.down = true;
+    const client = new MultiMcpClient({ internal, fs }, { retryInterval: 200 });
+    let changes = 0;
+    client.onToolsChanged(() => changes++);
+
+    await client.connect();
+    const tools = await client.listTools(listParam("Browser"));
+
+    expect(tools.map((tool) => tool.name)).toEqual(["deploy"]);
+    expect(client.getHealth()).toMatchObject([
+      { name: "internal", healthy: true, connected: true, failures: 0 },
+      { name: "fs", healthy: false, connected: false, failures: 1, error: "Connection refused" },
+    ]);
+    await expect(client.callTool(callParam("fs_read_file", "Browser"))).rejects.toThrow(
+      "MCP server fs is unavailable: Connection refused"
+    );
+    expect(changes).toBe(1);
+
+    fs.down = false;
+    await sleep(250);
+    expect(changes).toBe(2);
+    const recovered = await client.listTools(listParam("Browser"));
+    await client.close();
+
+    expect(recovered.map((tool) => tool.name)).toEqual(["deploy", "read_file"]);
+    expect(client.getHealth()[1]).toMatchObject({ healthy: true, failures: 0 });
+  });
+
+  test("should keep a server healthy when its tools fail", async () => {
+    const internal = new MemoryMcpClient(["deploy"]);
+    const client = new MultiMcpClient({ internal });
+    let changes = 0;
+    client.onToolsChanged(() => changes++);
+    jest
+      .spyOn(internal, "callTool")
+      .mockRejectedValue(new McpResponseError("MCP tools/call error: Invalid environment"));
+
+    await client.connect();
+    await client.listTools(listParam("Browser"));
+    await expect(client.callTool(callParam("deploy", "Browser"))).rejects.toThrow(
+      "MCP tools/call error: Invalid environment"
+    );
+    await client.close();
+
+    expect(client.getHealth()[0]).toMatchObject({ healthy: true, failures: 0 });
+    expect(changes).toBe(0);
+  });
+
+  test("should fail to connect only when every server is down", async () => {
+    const internal = new MemoryMcpClient(["deploy"]);
+    const fs = new MemoryMcpClient(["read_file"]);
+    internal.down = true;
+    fs.down = true;
+    const client = new MultiMcpClient({ internal, fs });
+
+    await expect(client.connect()).rejects.toThrow("Connection refused");
+    await client.close();
+  });
+
+  test("should show each agent only its servers and tools", async () => {
+    const internal = new MemoryMcpClient(["search", "deploy"]);
+    const fs = new MemoryMcpClient(["search", "read_file", "write_file"]);
+    const client = new MultiMcpClient(
+      { internal, fs },
+      {
+        agents: {
+          Writer: { servers: ["fs"] },
+          Reader: { tools: ["read_file", "internal/search"] },
+        },
+      }
+    );
+
+    const writer = await client.listTools(listParam("Writer"));
+    const reader = await client.listTools(listParam("Reader"));
+    const other = await client.listTools(listParam("Browser"));
+
+    expect(writer.map((tool) => tool.name)).toEqual(["search", "read_file", "write_file"]);
+    expect(reader.map((tool) => tool.name)).toEqual(["search", "read_file"]);
+    expect(other).toHaveLength(5);
+    await client.callTool(callParam("search", "Writer"));
+    await client.callTool(callParam("search", "Reader"));
+    expect(fs.calls.map((call) => call.name)).toEqual(["search"]);
+    expect(internal.calls.map((call) => call.name)).toEqual(["search"]);
+    await expect(client.callTool(callParam("write_file", "Reader"))).rejects.toThrow(
+      "Unknown MCP tool: write_file"
+    );
+    await expect(client.callTool(callParam("internal_deploy", "Writer"))).rejects.toThrow(
+      "Unknown MCP tool: internal_deploy"
+    );
+  });
+
+  test("should forward tool changes and route prompts and resources", async () => {
+    const internal = new MemoryMcpClient(["deploy"]);
+    const fs = new MemoryMcpClient(["read_file"]);
+    internal.prompts = [{ name: "report" }, { name: "release_notes" }];
+    fs.prompts = [{ name: "report" }];
+    fs.resources = [{ uri: "file:///notes.md", name: "notes" }];
+    const client = new MultiMcpClient({ internal, fs });
+    let changes = 0;
+    client.onToolsChanged(() => changes++);
+
+    fs.changeTools(["read_file", "write_file"]);
+    const prompts = await client.listPrompts();
+    const prompt = await client.getPrompt("fs_report");
+    const contents = await client.readResource("file:///notes.md");
+
+    expect(changes).toBe(1);
+    expect(prompts.map((item) => item.name)).toEqual(["internal_report", "release_notes", "fs_report"]);
+    expect(prompt.messages[0].content).toEqual({ type: "text", text: "Prompt report" });
+    expect(contents).toEqual([{ uri: "file:///notes.md", text: "Contents of file:///notes.md" }]);
+    await expect(client.readResource("file:///missing.md")).rejects.toThrow(
+      "Unknown MCP resource: file:///missing.md"
+    );
+  });
+});
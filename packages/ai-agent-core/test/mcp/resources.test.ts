@@ -0,0 +1,372 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { XSky } from "../../src/core/xsky";
+import { SimpleHttpMcpClient } from "../../src/mcp/http";
+import { SimpleSseMcpClient } from "../../src/mcp/sse";
+import { getPlanSystemPrompt } from "../../src/prompt/plan";
+import {
+  IMcpClient,
+  McpGetPromptResult,
+  McpPrompt,
+  McpResourceContents,
+  ToolResult,
+} from "../../src/types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+type JsonRpcRequest = { id?: string; method: string; params: any };
+
+function sseResponse(messages: any[]): Response {
+  const body = messages
+    .map((message) => `event: message\ndata: ${JSON.stringify(message)}\n\n`)
+    .join("");
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+describe("SimpleHttpMcpClient resources and prompts", () => {
+  const originalFetch = global.fetch;
+  let requests: JsonRpcRequest[];
+
+  function mockServer(handle: (request: JsonRpcRequest) => Response) {
+    requests = [];
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      const request = JSON.parse(init.body) as JsonRpcRequest;
+      requests.push(request);
+      return handle(request);
+    }) as any;
+  }
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should list resources across pages and read a resource", async () => {
+    mockServer((request) => {
+      let result: any = {};
+      if (request.method == "resources/list") {
+        result = request.params.cursor
+          ? { resources: [{ uri: "file:///b.md", name: "b" }] }
+          : { resources: [{ uri: "file:///a.md", name: "a" }], nextCursor: "page-2" };
+      } else if (request.method == "resources/read") {
+        result = { contents: [{ uri: request.params.uri, text: "# A" }] };
+      }
+      return Response.json({ jsonrpc: "2.0", id: request.id, result });
+    });
+    const client = new SimpleHttpMcpClient("http://localhost/mcp");
+
+    const resources = await client.listResources();
+    const contents = await client.readResource("file:///a.md");
+
+    expect(resources.map((resource) => resource.uri)).toEqual(["file:///a.md", "file:///b.md"]);
+    expect(requests.map((request) => request.params.cursor)).toEqual([undefined, "page-2", undefined]);
+    expect(contents).toEqual([{ uri: "file:///a.md", text: "# A" }]);
+  });
+
+  test("should list and get prompts", async () => {
+    mockServer((request) => {
+      const result =
+        request.method == "prompts/list"
+          ? { prompts: [{ name: "export", arguments: [{ name: "format", required: true }] }] }
+          : {
+              messages: [
+                {
+                  role: "user",
+                  content: { type: "text", text: `Export as ${request.params.arguments.format}` },
+                },
+              ],
+            };
+      return sseResponse([{ jsonrpc: "2.0", id: request.id, result }]);
+    });
+    const client = new SimpleHttpMcpClient("http://localhost/mcp");
+
+    const prompts = await client.listPrompts();
+    const prompt = await client.getPrompt("export", { format: "csv" });
+
+    expect(prompts[0].name).toBe("export");
+    expect(requests[1].params).toEqual({ name: "export", arguments: { format: "csv" } });
+    expect(prompt.messages[0].content).toEqual({ type: "text", text: "Export as csv" });
+  });
+
+  test("should subscribe once per resource and dispatch update notifications", async () => {
+    const updated = { jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: "file:///a.md" } };
+    mockServer((request) =>
+      sseResponse(
+        request.method == "tools/list"
+          ? [updated, { jsonrpc: "2.0", id: request.id, result: { tools: [] } }]
+          : [{ jsonrpc: "2.0", id: request.id, result: {} }]
+      )
+    );
+    const client = new SimpleHttpMcpClient("http://localhost/mcp");
+    const first: string[] = [];
+    const second: string[] = [];
+
+    const unsubscribeFirst = await client.subscribe("file:///a.md", (uri) => first.push(uri));
+    const unsubscribeSecond = await client.subscribe("file:///a.md", (uri) => second.push(uri));
+    await client.listTools({ environment: "linux", agent_name: "File", prompt: "" });
+    await unsubscribeFirst();
+    await client.listTools({ environment: "linux", agent_name: "File", prompt: "" });
+    await unsubscribeSecond();
+
+    expect(first).toEqual(["file:///a.md"]);
+    expect(second).toEqual(["file:///a.md", "file:///a.md"]);
+    expect(requests.map((request) => request.method)).toEqual([
+      "resources/subscribe",
+      "tools/list",
+      "tools/list",
+      "resources/unsubscribe",
+    ]);
+  });
+});
+
+describe("SimpleSseMcpClient resources", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should answer requests and dispatch update notifications from the event stream", async () => {
+    const client = new SimpleSseMcpClient("http://localhost/sse");
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      const request = JSON.parse(init.body) as JsonRpcRequest;
+      setImmediate(() =>
+        client.onmessage({
+          event: "message",
+          data: JSON.stringify({
+            jsonrpc: "2.0",
+            id: request.id,
+            result:
+              request.method == "resources/read"
+                ? { contents: [{ uri: request.params.uri, text: "42" }] }
+                : {},
+          }),
+        })
+      );
+      return new Response("Accepted");
+    }) as any;
+    const updates: string[] = [];
+
+    await client.subscribe("db://stats", (uri) => updates.push(uri));
+    client.onmessage({
+      event: "message",
+      data: JSON.stringify({
+        jsonrpc: "2.0",
+        method: "notifications/resources/updated",
+        params: { uri: "db://stats" },
+      }),
+    });
+    const contents = await client.readResource("db://stats");
+
+    expect(updates).toEqual(["db://stats"]);
+    expect(contents[0].text).toBe("42");
+  });
+});
+
+/**
+ * An in-memory MCP client exposing resources and prompts, without tools.
+ */
+class MemoryMcpClient implements IMcpClient {
+  connected = false;
+  reads: string[] = [];
+  prompts: McpPrompt[] = [];
+  resources: Record<string, McpResourceContents[]> = {};
+
+  async connect(): Promise<void> {
+    this.connected = true;
+  }
+
+  async listTools() {
+    return [];
+  }
+
+  async callTool(): Promise<ToolResult> {
+    throw new Error("Not supported");
+  }
+
+  async readResource(uri: string): Promise<McpResourceContents[]> {
+    this.reads.push(uri);
+    if (!this.resources[uri]) {
+      throw new Error("Resource not found: " + uri);
+    }
+    return this.resources[uri];
+  }
+
+  async listPrompts(): Promise<McpPrompt[]> {
+    return this.prompts;
+  }
+
+  async getPrompt(name: string, args?: Record<string, string>): Promise<McpGetPromptResult> {
+    return {
+      messages: [
+        {
+          role: "user",
+          content: { type: "text", text: `Run ${name} with ${JSON.stringify(args)}` },
+        },
+      ],
+    };
+  }
+
+  isConnected(): boolean {
+    return this.connected;
+  }
+
+  async close(): Promise<void> {
+    this.connected = false;
+  }
+}
+
+/**
+ * A provider recording the prompts it is called with, answering with a text.
+ */
+function recordingProvider(prompts: LanguageModelV2Prompt[]): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          prompts.push(options.prompt);
+          const parts: LanguageModelV2StreamPart[] = [
+            { type: "text-start", id: "t" },
+            { type: "text-delta", id: "t", delta: "Done" },
+            { type: "text-end", id: "t" },
+            { type: "finish", finishReason: "stop", usage },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("MCP resources and prompts in agents and plans", () => {
+  test("should attach the resources of an agent to its user prompt", async () => {
+    const mcpClient = new MemoryMcpClient();
+    mcpClient.resources = {
+      "file:///style.md": [{ uri: "file:///style.md", mimeType: "text/markdown", text: "Use short sentences." }],
+      "file:///logo.png": [{ uri: "file:///logo.png", mimeType: "image/png", blob: "iVBORw0KGgo=" }],
+    };
+    const prompts: LanguageModelV2Prompt[] = [];
+    const xsky = new XSky({
+      llms: {
+        default: { provider: recordingProvider(prompts), model: "mock-model", apiKey: "test" },
+      },
+      agents: [
+        new Agent({
+          name: "Writer",
+          description: "Writes documents",
+          tools: [],
+          mcpClient,
+          resources: ["file:///style.md", "file:///logo.png", "file:///missing.md"],
+        }),
+      ],
+    });
+    const context = await xsky.initContext({
+      name: "Write",
+      agents: [{ id: "0", name: "Writer", task: "Write the release notes", nodes: ["Write"] }],
+    });
+
+    const result = await xsky.execute(context.taskId);
+    await flush();
+
+    expect(result.success).toBe(true);
+    expect(mcpClient.reads).toEqual(["file:///style.md", "file:///logo.png", "file:///missing.md"]);
+    const user = prompts[0].find((message) => message.role == "user")!;
+    const content = user.content as any[];
+    expect(content[1]).toEqual({
+      type: "text",
+      text: '<resource uri="file:///style.md">\nUse short sentences.\n</resource>',
+    });
+    expect(content[2]).toEqual({ type: "text", text: '<resource uri="file:///logo.png" />' });
+    expect(content[3]).toMatchObject({ type: "file", mediaType: "image/png" });
+    expect(content).toHaveLength(4);
+  });
+
+  test("should offer the MCP prompts to the planner as task templates", async () => {
+    const mcpClient = new MemoryMcpClient();
+    mcpClient.prompts = [
+      {
+        name: "weekly_report",
+        description: "Writes the weekly report of a team",
+        arguments: [{ name: "team", description: "The team", required: true }],
+      },
+      {
+        name: "release_notes",
+        description: "Writes release notes",
+        arguments: [{ name: "version", required: true }],
+      },
+    ];
+    const xsky = new XSky({
+      llms: {
+        default: { provider: recordingProvider([]), model: "mock-model", apiKey: "test" },
+      },
+      agents: [new Agent({ name: "Writer", description: "Writes documents", tools: [] })],
+      defaultMcpClient: mcpClient,
+    });
+    const context = await xsky.initContext({
+      name: "Write",
+      agents: [{ id: "0", name: "Writer", task: "Write", nodes: ["Write"] }],
+    });
+    context.variables.set("team", "Platform");
+
+    const prompt = await getPlanSystemPrompt(context);
+
+    expect(prompt).toContain("## Task template list");
+    expect(prompt).toContain(
+      '<template name="weekly_report">\n' +
+        "Description: Writes the weekly report of a team\n" +
+        "Arguments:\n" +
+        "  - team (required): The team\n" +
+        'Template: Run weekly_report with {"team":"Platform"}\n' +
+        "</template>"
+    );
+    expect(prompt).toContain(
+      '<template name="release_notes">\n' +
+        "Description: Writes release notes\n" +
+        "Arguments:\n" +
+        "  - version (required): \n" +
+        "</template>"
+    );
+  });
+
+  test("should not add task templates without MCP prompts", async () => {
+    const xsky = new XSky({
+      llms: {
+        default: { provider: recordingProvider([]), model: "mock-model", apiKey: "test" },
+      },
+      agents: [new Agent({ name: "Writer", description: "Writes documents", tools: [] })],
+    });
+    const context = await xsky.initContext({
+      name: "Write",
+      agents: [{ id: "0", name: "Writer", task: "Write", nodes: ["Write"] }],
+    });
+
+    const prompt = await getPlanSystemPrompt(context);
+
+    expect(prompt).not.toContain("Task template");
+  });
+});
@@ -0,0 +1,399 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { AgentChain } from "../../src/core/chain";
+import { AgentContext } from "../../src/core/context";
+import { XSky } from "../../src/core/xsky";
+import { SimpleHttpMcpClient } from "../../src/mcp/http";
+import { McpServerMessages } from "../../src/mcp/server-messages";
+import {
+  IMcpClient,
+  McpCallToolParam,
+  McpListToolResult,
+  McpServerHandlers,
+  StreamCallbackMessage,
+  ToolResult,
+} from "../../src/types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe("McpServerMessages", () => {
+  test("should route progress notifications to the handlers of their call", async () => {
+    const messages = new McpServerMessages(async () => {});
+    const first: number[] = [];
+    const second: number[] = [];
+    let tokens: string[] = [];
+
+    await messages.track({ onProgress: (progress) => first.push(progress.progress) }, async (token) => {
+      await messages.track({ onProgress: (progress) => second.push(progress.progress) }, async (other) => {
+        tokens = [token, other];
+        messages.dispatch({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: token, progress: 1 } });
+        messages.dispatch({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: other, progress: 2 } });
+      });
+    });
+    messages.dispatch({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: tokens[0], progress: 3 } });
+
+    expect(first).toEqual([1]);
+    expect(second).toEqual([2]);
+  });
+
+  test("should answer server requests with the handlers of the latest call", async () => {
+    const sent: any[] = [];
+    const messages = new McpServerMessages(async (message) => {
+      sent.push(message);
+    });
+    const handlers: McpServerHandlers = {
+      onSampling: async (params) => ({
+        role: "assistant",
+        content: { type: "text", text: `${params.messages.length} messages` },
+        model: "mock-model",
+      }),
+    };
+
+    await messages.track(handlers, async () => {
+      expect(messages.dispatch({ jsonrpc: "2.0", id: 1, method: "sampling/createMessage", params: { messages: [], maxTokens: 10 } })).toBe(true);
+      expect(messages.dispatch({ jsonrpc: "2.0", id: 2, method: "elicitation/create", params: {} })).toBe(true);
+      expect(messages.dispatch({ jsonrpc: "2.0", id: 3, method: "ping" })).toBe(true);
+      expect(messages.dispatch({ jsonrpc: "2.0", id: "4", result: {} })).toBe(false);
+      await flush();
+    });
+
+    expect(sent.sort((a, b) => a.id - b.id)).toEqual([
+      {
+        jsonrpc: "2.0",
+        id: 1,
+        result: { role: "assistant", content: { type: "text", text: "0 messages" }, model: "mock-model" },
+      },
+      { jsonrpc: "2.0", id: 2, error: { code: -32601, message: "Method not found: elicitation/create" } },
+      { jsonrpc: "2.0", id: 3, result: {} },
+    ]);
+  });
+
+  test("should answer failed requests with an error and not answer cancelled requests", async () => {
+    const sent: any[] = [];
+    const messages = new McpServerMessages(async (message) => {
+      sent.push(message);
+    });
+    let aborted = false;
+    const handlers: McpServerHandlers = {
+      onSampling: async () => {
+        throw new Error("Budget exceeded");
+      },
+      onElicitation: (_params, signal) =>
+        new Promise((resolve) => {
+          signal!.addEventListener("abort", () => {
+            aborted = true;
+            resolve({ action: "cancel" });
+          });
+        }),
+    };
+
+    await messages.track(handlers, async () => {
+      messages.dispatch({ jsonrpc: "2.0", id: 1, method: "sampling/createMessage", params: {} });
+      messages.dispatch({ jsonrpc: "2.0", id: 2, method: "elicitation/create", params: {} });
+      messages.dispatch({ jsonrpc: "2.0", method: "notifications/cancelled", params: { requestId: 2 } });
+      await flush();
+    });
+
+    expect(aborted).toBe(true);
+    expect(sent).toEqual([
+      { jsonrpc: "2.0", id: 1, error: { code: -32603, message: "Budget exceeded" } },
+    ]);
+  });
+
+  test("should notify the listeners of tool changes until they are removed", () => {
+    const messages = new McpServerMessages(async () => {});
+    let changes = 0;
+    const remove = messages.onToolsChanged(() => changes++);
+
+    messages.dispatch({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+    remove();
+    messages.dispatch({ jsonrpc: "2.0", method: "notifications/tools/list_changed" });
+
+    expect(changes).toBe(1);
+  });
+});
+
+describe("SimpleHttpMcpClient server messages", () => {
+  const originalFetch = global.fetch;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should serve the requests and progress sent on the stream of a tool call", async () => {
+    const posted: any[] = [];
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      const message = JSON.parse(init.body);
+      posted.push(message);
+      if (message.method != "tools/call") {
+        return new Response(null, { status: 202 });
+      }
+      const progressToken = message.params._meta.progressToken;
+      const events = [
+        { jsonrpc: "2.0", method: "notifications/progress", params: { progressToken, progress: 1, total: 2 } },
+        { jsonrpc: "2.0", id: 7, method: "sampling/createMessage", params: { messages: [], maxTokens: 10 } },
+        { jsonrpc: "2.0", id: message.id, result: { content: [{ type: "text", text: "Done" }] } },
+      ];
+      return new Response(
+        events.map((event) => `event: message\ndata: ${JSON.stringify(event)}\n\n`).join(""),
+        { headers: { "Content-Type": "text/event-stream" } }
+      );
+    }) as any;
+    const client = new SimpleHttpMcpClient("http://localhost/mcp");
+    const progress: number[] = [];
+
+    const result = await client.callTool({ name: "summarize" }, undefined, {
+      onProgress: (item) => progress.push(item.progress),
+      onSampling: async () => ({
+        role: "assistant",
+        content: { type: "text", text: "Summary" },
+        model: "mock-model",
+      }),
+    });
+    await flush();
+
+    expect(result.content).toEqual([{ type: "text", text: "Done" }]);
+    expect(progress).toEqual([1]);
+    expect(posted[1]).toEqual({
+      jsonrpc: "2.0",
+      id: 7,
+      result: { role: "assistant", content: { type: "text", text: "Summary" }, model: "mock-model" },
+    });
+  });
+});
+
+/**
+ * An MCP client whose `summarize` tool samples a summary, elicits the name of the reader and
+ * reports progress, then adds a `translate` tool and notifies the change.
+ */
+class SamplingMcpClient implements IMcpClient {
+  tools: McpListToolResult = [
+    { name: "summarize", description: "Summarizes a text", inputSchema: { type: "object", properties: {} } },
+  ];
+  listed = 0;
+  private listeners: Set<() => void> = new Set();
+
+  async connect(): Promise<void> {}
+
+  async listTools(): Promise<McpListToolResult> {
+    this.listed++;
+    return this.tools;
+  }
+
+  async callTool(
+    param: McpCallToolParam,
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
+  ): Promise<ToolResult> {
+    const summary = await handlers!.onSampling!({
+      systemPrompt: "You summarize texts",
+      messages: [{ role: "user", content: { type: "text", text: "A long text" } }],
+      maxTokens: 100,
+    });
+    const elicited = await handlers!.onElicitation!({
+      message: "Who reads the summary?",
+      requestedSchema: {
+        type: "object",
+        properties: {
+          name: { type: "string", title: "Name" },
+          formal: { type: "boolean", description: "Formal tone" },
+          level: { type: "number" },
+        },
+        required: ["name"],
+      },
+    });
+    handlers!.onProgress!({ progressToken: "token", progress: 1, total: 1, message: "Summarized" });
+    this.tools = [
+      ...this.tools,
+      { name: "translate", description: "Translates a text", inputSchema: { type: "object", properties: {} } },
+    ];
+    this.listeners.forEach((listener) => listener());
+    return {
+      content: [
+        { type: "text", text: `${summary.content.text} for ${JSON.stringify(elicited)} by ${summary.model}` },
+      ],
+    };
+  }
+
+  onToolsChanged(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => this.listeners.delete(listener);
+  }
+
+  isConnected(): boolean {
+    return true;
+  }
+
+  async close(): Promise<void> {}
+}
+
+/**
+ * A provider calling the `summarize` tool, answering sampling requests with a summary,
+ * and recording the tools of each agent call.
+ */
+function mockProvider(toolNames: string[][]): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async (options: LanguageModelV2CallOptions) => {
+          expect(options.prompt[0]).toEqual({ role: "system", content: "You summarize texts" });
+          return {
+            content: [{ type: "text", text: "Summary" }],
+            finishReason: "stop",
+            usage,
+            warnings: [],
+          };
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          toolNames.push((options.tools || []).map((tool) => tool.name));
+          const called = options.prompt[options.prompt.length - 1].role == "tool";
+          const parts: LanguageModelV2StreamPart[] = called
+            ? [
+                { type: "text-start", id: "t" },
+                { type: "text-delta", id: "t", delta: "Done" },
+                { type: "text-end", id: "t" },
+                { type: "finish", finishReason: "stop", usage },
+              ]
+            : [
+                { type: "tool-call", toolCallId: "call-1", toolName: "summarize", input: "{}" },
+                { type: "finish", finishReason: "tool-calls", usage },
+              ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("Agent with MCP server messages", () => {
+  test("should serve sampling and elicitation, stream progress and list changed tools again", async () => {
+    const mcpClient = new SamplingMcpClient();
+    const toolNames: string[][] = [];
+    const messages: StreamCallbackMessage[] = [];
+    const prompts: string[] = [];
+    const xsky = new XSky({
+      llms: {
+        default: { provider: mockProvider(toolNames), model: "mock-model", apiKey: "test" },
+      },
+      agents: [new Agent({ name: "Writer", description: "Writes summaries", tools: [], mcpClient })],
+      callback: {
+        onMessage: async (message) => {
+          messages.push(message);
+        },
+        onHumanConfirm: async (_agentContext, prompt) => {
+          prompts.push(prompt);
+          return true;
+        },
+        onHumanInput: async (_agentContext, prompt) => {
+          prompts.push(prompt);
+          return prompt.endsWith("Name") ? "Ada" : "";
+        },
+        onHumanSelect: async (_agentContext, prompt, options) => {
+          prompts.push(`${prompt} [${options.join(", ")}]`);
+          return ["true"];
+        },
+      },
+    });
+    const context = await xsky.initContext({
+      name: "Summarize",
+      agents: [{ id: "0", name: "Writer", task: "Summarize the text", nodes: ["Summarize"] }],
+    });
+
+    const result = await xsky.execute(context.taskId);
+
+    expect(result.success).toBe(true);
+    const toolResult = messages.find((message) => message.type == "tool_result") as any;
+    expect(toolResult.toolResult.content[0].text).toBe(
+      'Summary for {"action":"accept","content":{"name":"Ada","formal":true}} by mock-model'
+    );
+    expect(prompts).toEqual([
+      'The MCP tool "summarize" asks to generate a completion with the LLM:\nA long text',
+      "Who reads the summary?\nName",
+      "Who reads the summary?\nformal: Formal tone [true, false]",
+      "Who reads the summary?\nlevel",
+    ]);
+    expect(messages.find((message) => message.type == "tool_running")).toMatchObject({
+      toolName: "summarize",
+      toolId: "call-1",
+      text: "Summarized (1/1)",
+      streamDone: true,
+    });
+    expect(mcpClient.listed).toBe(2);
+    expect(toolNames[0]).toContain("summarize");
+    expect(toolNames[0]).not.toContain("translate");
+    expect(toolNames[1]).toContain("translate");
+  });
+
+  test("should decline elicitation without a human callback", async () => {
+    const agent = new Agent({ name: "Writer", description: "Writes summaries", tools: [] });
+    const xsky = new XSky({
+      llms: { default: { provider: mockProvider([]), model: "mock-model", apiKey: "test" } },
+      agents: [agent],
+    });
+    const context = await xsky.initContext({
+      name: "Summarize",
+      agents: [{ id: "0", name: "Writer", task: "Summarize the text", nodes: ["Summarize"] }],
+    });
+    const agentContext = new AgentContext(context, agent, new AgentChain(context.workflow!.agents[0]));
+
+    const handlers = (agent as any).mcpServerHandlers(agentContext, "summarize", "call-1") as McpServerHandlers;
+    const result = await handlers.onElicitation!({
+      message: "Who reads the summary?",
+      requestedSchema: { type: "object", properties: { name: { type: "string" } } },
+    });
+
+    expect(result).toEqual({ action: "decline" });
+  });
+
+  test("should decline sampling unless the user confirms it or the agent allows it", async () => {
+    const llms = { default: { provider: mockProvider([]), model: "mock-model", apiKey: "test" } };
+    const workflow = {
+      name: "Summarize",
+      agents: [{ id: "0", name: "Writer", task: "Summarize the text", nodes: ["Summarize"] }],
+    };
+    const params = {
+      systemPrompt: "You summarize texts",
+      messages: [{ role: "user" as const, content: { type: "text" as const, text: "A long text" } }],
+      maxTokens: 100,
+    };
+    const sample = async (agent: Agent, onHumanConfirm?: () => Promise<boolean>) => {
+      const xsky = new XSky({
+        llms,
+        agents: [agent],
+        callback: onHumanConfirm && { onMessage: async () => {}, onHumanConfirm },
+      });
+      const context = await xsky.initContext(workflow);
+      const agentContext = new AgentContext(context, agent, new AgentChain(context.workflow!.agents[0]));
+      const handlers = (agent as any).mcpServerHandlers(agentContext, "summarize", "call-1") as McpServerHandlers;
+      return await handlers.onSampling!(params);
+    };
+    const writer = () => new Agent({ name: "Writer", description: "Writes summaries", tools: [] });
+
+    await expect(sample(writer())).rejects.toThrow("Sampling request declined by the user");
+    await expect(sample(writer(), async () => false)).rejects.toThrow("declined");
+    const allowed = new Agent({ name: "Writer", description: "Writes summaries", tools: [], allowMcpSampling: true });
+    expect((await sample(allowed)).content).toEqual({ type: "text", text: "Summary" });
+  });
+});
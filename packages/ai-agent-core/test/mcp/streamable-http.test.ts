@@ -0,0 +1,275 @@
+import { StreamableHttpMcpClient } from "../../src/mcp/streamable-http";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+type FetchCall = {
+  method: string;
+  headers: Record<string, string>;
+  body?: any;
+};
+
+function sse(events: Array<{ id?: string; data: any }>): Response {
+  const body = events
+    .map((event) => (event.id ? `id: ${event.id}\n` : "") + `data: ${JSON.stringify(event.data)}\n\n`)
+    .join("");
+  return new Response(body, { headers: { "Content-Type": "text/event-stream" } });
+}
+
+function json(data: any, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(data), {
+    headers: { "Content-Type": "application/json", ...headers },
+  });
+}
+
+function result(call: FetchCall, value: any, headers: Record<string, string> = {}): Response {
+  return json({ jsonrpc: "2.0", id: call.body.id, result: value }, headers);
+}
+
+describe("StreamableHttpMcpClient", () => {
+  const originalFetch = global.fetch;
+  let calls: FetchCall[];
+
+  /**
+   * Mocks the server, answering `initialize` with a new session and notifications with 202.
+   */
+  function mockServer(handle: (call: FetchCall) => Response | Promise<Response> | undefined) {
+    calls = [];
+    let sessions = 0;
+    global.fetch = jest.fn(async (_url: any, init?: any) => {
+      const call: FetchCall = {
+        method: init.method,
+        headers: init.headers,
+        body: init.body ? JSON.parse(init.body) : undefined,
+      };
+      calls.push(call);
+      const response = await handle(call);
+      if (response) {
+        return response;
+      }
+      if (call.body?.method == "initialize") {
+        return result(call, { protocolVersion: "2025-03-26" }, { "Mcp-Session-Id": `session-${++sessions}` });
+      }
+      return new Response(null, { status: call.method == "POST" ? 202 : 405 });
+    }) as any;
+  }
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  test("should initialize a session and send its headers until closed", async () => {
+    mockServer((call) =>
+      call.body?.method == "tools/list" ? result(call, { tools: [{ name: "search" }] }) : undefined
+    );
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { listen: false });
+
+    await client.connect();
+    const tools = await client.listTools({ environment: "linux", agent_name: "Search", prompt: "" });
+    await client.close();
+
+    expect(tools.map((tool) => tool.name)).toEqual(["search"]);
+    expect(calls.map((call) => call.body?.method || call.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "DELETE",
+    ]);
+    expect(calls[0].headers["Mcp-Session-Id"]).toBeUndefined();
+    expect(calls[2].headers).toMatchObject({
+      "Mcp-Session-Id": "session-1",
+      "MCP-Protocol-Version": "2025-03-26",
+    });
+    expect(calls[3].headers["Mcp-Session-Id"]).toBe("session-1");
+    expect(client.isConnected()).toBe(false);
+  });
+
+  test("should initialize a new session when the server expired the session", async () => {
+    let expired = true;
+    mockServer((call) => {
+      if (call.body?.method != "tools/list") {
+        return undefined;
+      }
+      if (expired) {
+        expired = false;
+        return new Response("Session not found", { status: 404 });
+      }
+      return result(call, { tools: [] });
+    });
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { listen: false });
+    await client.connect();
+
+    await client.listTools({ environment: "linux", agent_name: "Search", prompt: "" });
+
+    const methods = calls.map((call) => call.body?.method);
+    expect(methods).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+      "initialize",
+      "notifications/initialized",
+      "tools/list",
+    ]);
+    expect(calls[5].headers["Mcp-Session-Id"]).toBe("session-2");
+  });
+
+  test("should subscribe again to the resources of an expired session", async () => {
+    let expired = false;
+    mockServer((call) => {
+      if (call.body?.method == "resources/subscribe") {
+        return result(call, {});
+      }
+      if (call.body?.method != "tools/list") {
+        return undefined;
+      }
+      if (expired) {
+        expired = false;
+        return new Response("Session not found", { status: 404 });
+      }
+      return result(call, { tools: [] });
+    });
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { listen: false });
+    await client.connect();
+    await client.subscribe("file:///report.csv", () => {});
+    expired = true;
+
+    await client.listTools({ environment: "linux", agent_name: "Search", prompt: "" });
+
+    expect(calls.map((call) => call.body?.method)).toEqual([
+      "initialize",
+      "notifications/initialized",
+      "resources/subscribe",
+      "tools/list",
+      "initialize",
+      "notifications/initialized",
+      "resources/subscribe",
+      "tools/list",
+    ]);
+    expect(calls[6]).toMatchObject({
+      headers: { "Mcp-Session-Id": "session-2" },
+      body: { params: { uri: "file:///report.csv" } },
+    });
+  });
+
+  test("should refresh a rejected token and retry the request", async () => {
+    mockServer((call) =>
+      call.headers["Authorization"] != "Bearer fresh"
+        ? new Response("Unauthorized", { status: 401 })
+        : undefined
+    );
+    let token = "expired";
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", {
+      listen: false,
+      tokenProvider: {
+        getToken: async () => token,
+        refreshToken: async () => (token = "fresh"),
+      },
+    });
+
+    await client.connect();
+
+    expect(calls.map((call) => call.headers["Authorization"])).toEqual([
+      "Bearer expired",
+      "Bearer fresh",
+      "Bearer fresh",
+    ]);
+    expect(client.isConnected()).toBe(true);
+  });
+
+  test("should fail without a refreshed token", async () => {
+    mockServer(() => new Response("Unauthorized", { status: 401 }));
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", {
+      listen: false,
+      tokenProvider: { getToken: async () => "expired" },
+    });
+
+    await expect(client.connect()).rejects.toThrow("MCP initialize error: HTTP 401 Unauthorized");
+  });
+
+  test("should resume a response stream closed before the response", async () => {
+    const progress: number[] = [];
+    mockServer((call) => {
+      if (call.body?.method == "tools/call") {
+        const progressToken = call.body.params._meta.progressToken;
+        return sse([
+          {
+            id: "event-1",
+            data: { jsonrpc: "2.0", method: "notifications/progress", params: { progressToken, progress: 1 } },
+          },
+        ]);
+      }
+      if (call.method == "GET" && call.headers["Last-Event-ID"] == "event-1") {
+        const id = calls.find((item) => item.body?.method == "tools/call")!.body.id;
+        return sse([{ id: "event-2", data: { jsonrpc: "2.0", id, result: { content: [{ type: "text", text: "Done" }] } } }]);
+      }
+      return undefined;
+    });
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { listen: false, initialDelay: 1 });
+    await client.connect();
+
+    const toolResult = await client.callTool({ name: "export" }, undefined, {
+      onProgress: (item) => progress.push(item.progress),
+    });
+
+    expect(toolResult.content).toEqual([{ type: "text", text: "Done" }]);
+    expect(progress).toEqual([1]);
+    expect(calls[calls.length - 1]).toMatchObject({ method: "GET", headers: { "Mcp-Session-Id": "session-1" } });
+  });
+
+  test("should cancel an aborted request on the server", async () => {
+    mockServer((call) => {
+      if (call.body?.method == "tools/call") {
+        // Answers once aborted, like fetch
+        return new Promise<Response>((_resolve, reject) => {
+          controller.signal.addEventListener("abort", () => {
+            const error = new Error("The operation was aborted");
+            error.name = "AbortError";
+            reject(error);
+          });
+        });
+      }
+      return undefined;
+    });
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { listen: false });
+    await client.connect();
+    const controller = new AbortController();
+
+    const calling = client.callTool({ name: "export" }, controller.signal);
+    await flush();
+    controller.abort("Task aborted");
+
+    await expect(calling).rejects.toThrow("The operation was aborted");
+    await flush();
+    const toolCall = calls.find((call) => call.body?.method == "tools/call")!;
+    const cancelled = calls.find((call) => call.body?.method == "notifications/cancelled");
+    expect(cancelled?.body.params).toEqual({ requestId: toolCall.body.id, reason: "Task aborted" });
+  });
+
+  test("should listen to server messages and reconnect the stream after the last event", async () => {
+    let streams = 0;
+    mockServer((call) => {
+      if (call.method != "GET") {
+        return undefined;
+      }
+      streams++;
+      if (streams == 1) {
+        return sse([{ id: "event-1", data: { jsonrpc: "2.0", method: "notifications/tools/list_changed" } }]);
+      }
+      if (streams == 2 && call.headers["Last-Event-ID"] == "event-1") {
+        return sse([{ id: "event-2", data: { jsonrpc: "2.0", method: "notifications/tools/list_changed" } }]);
+      }
+      return new Response(null, { status: 405 });
+    });
+    const client = new StreamableHttpMcpClient("http://localhost/mcp", { initialDelay: 1 });
+    let changes = 0;
+    client.onToolsChanged(() => changes++);
+
+    await client.connect();
+    for (let i = 0; i < 20 && streams < 3; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 5));
+    }
+    await client.close();
+
+    expect(changes).toBe(2);
+    expect(streams).toBe(3);
+  });
+});
@@ -0,0 +1,261 @@
+import {
+  EmbeddingModelV2,
+  LanguageModelV2,
+  LanguageModelV2CallOptions,
+  LanguageModelV2Prompt,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { XSky } from "../../src/core/xsky";
+import { LongTermMemory } from "../../src/memory/long-term";
+import { Bm25MemoryStore, VectorMemoryStore } from "../../src/memory/store";
+import { getPlanSystemPrompt } from "../../src/prompt/plan";
+import { LongTermMemoryEntry } from "../../src/types";
+
+function entry(id: string, tenant: string, content: string): LongTermMemoryEntry {
+  return { id, tenant, kind: "fact", content, createdAt: 0 };
+}
+
+/**
+ * A provider answering agents with a text, and memory extractions with the given facts.
+ */
+function memoryProvider(
+  facts: Array<{ kind: string; content: string }>,
+  prompts: { stream: LanguageModelV2Prompt[]; generate: LanguageModelV2Prompt[] }
+): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async (options: LanguageModelV2CallOptions) => {
+          prompts.generate.push(options.prompt);
+          return {
+            content: [
+              {
+                type: "tool-call",
+                toolCallId: "call-1",
+                toolName: "save_memories",
+                input: JSON.stringify({ memories: facts }),
+              },
+            ],
+            finishReason: "tool-calls",
+            usage,
+            warnings: [],
+          };
+        },
+        doStream: async (options: LanguageModelV2CallOptions) => {
+          prompts.stream.push(options.prompt);
+          const parts: LanguageModelV2StreamPart[] = [
+            { type: "text-start", id: "t" },
+            { type: "text-delta", id: "t", delta: "Invoices exported" },
+            { type: "text-end", id: "t" },
+            { type: "finish", finishReason: "stop", usage },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function userPrompt(prompt: LanguageModelV2Prompt): string {
+  const user = prompt.find((message) => message.role == "user")!;
+  return (user.content as any[]).map((part) => part.text || "").join("\n");
+}
+
+describe("Bm25MemoryStore", () => {
+  test("should rank the memories of a tenant by keyword relevance", async () => {
+    const store = new Bm25MemoryStore();
+    await store.add([
+      entry("1", "acme", "Invoices are exported from Billing > Invoices > Export."),
+      entry("2", "acme", "The user prefers reports in CSV."),
+      entry("3", "acme", "The CRM login is in the Sales vault of the password manager."),
+      entry("4", "globex", "Invoices are emailed by the accounting team."),
+    ]);
+
+    const matches = await store.search("acme", "Export the invoices of March", 5);
+    const other = await store.search("globex", "Export the invoices of March", 5);
+
+    expect(matches.map((match) => match.entry.id)).toEqual(["1"]);
+    expect(matches[0].score).toBeGreaterThan(0);
+    expect(other.map((match) => match.entry.id)).toEqual(["4"]);
+    expect(await store.search("acme", "weather", 5)).toEqual([]);
+  });
+
+  test("should replace memories of the same ID and delete memories", async () => {
+    const store = new Bm25MemoryStore();
+    await store.add([entry("1", "acme", "Reports are in CSV."), entry("2", "acme", "Use EUR.")]);
+    await store.add([entry("1", "acme", "Reports are in XLSX.")]);
+
+    expect((await store.list("acme")).map((item) => item.content)).toEqual([
+      "Reports are in XLSX.",
+      "Use EUR.",
+    ]);
+    expect(await store.delete("acme", ["2", "9"])).toBe(1);
+    expect(await store.delete("acme")).toBe(1);
+    expect(await store.list("acme")).toEqual([]);
+  });
+});
+
+describe("VectorMemoryStore", () => {
+  test("should rank memories by the similarity of their embeddings", async () => {
+    const topics = [/invoice|billing/i, /login|password/i, /csv|format/i];
+    const calls: string[][] = [];
+    const embeddingModel: EmbeddingModelV2<string> = {
+      specificationVersion: "v2",
+      provider: "mock",
+      modelId: "mock-embedding",
+      maxEmbeddingsPerCall: 2,
+      supportsParallelCalls: false,
+      doEmbed: async ({ values }) => {
+        calls.push(values);
+        return {
+          embeddings: values.map((value) => topics.map((topic) => (topic.test(value) ? 1 : 0.1))),
+        };
+      },
+    };
+    const store = new VectorMemoryStore(embeddingModel);
+    await store.add([
+      entry("1", "acme", "Invoices are under Billing > Invoices."),
+      entry("2", "acme", "The CRM login is in the Sales vault."),
+      entry("3", "acme", "The user prefers CSV."),
+    ]);
+
+    const matches = await store.search("acme", "Download the billing statements", 2);
+
+    expect(matches.map((match) => match.entry.id)).toEqual(["1", "2"]);
+    expect(calls.map((values) => values.length)).toEqual([2, 1, 1]);
+  });
+});
+
+describe("LongTermMemory", () => {
+  test("should remember new facts only, recall, export and forget them per tenant", async () => {
+    const memory = new LongTermMemory();
+    const first = await memory.remember("acme", [
+      { kind: "preference", content: "The user prefers reports in CSV." },
+      { kind: "preference", content: "the user prefers reports in csv" },
+    ]);
+    const second = await memory.remember("acme", [
+      { kind: "preference", content: "The user prefers reports in CSV!" },
+      { kind: "navigation", content: "Reports are under Analytics > Reports." },
+    ]);
+    await memory.remember("globex", [{ kind: "fact", content: "Reports are sent on Mondays." }]);
+
+    expect(first).toHaveLength(1);
+    expect(second.map((item) => item.kind)).toEqual(["navigation"]);
+    const recalled = await memory.recall("acme", "Download the reports");
+    expect(recalled.map((match) => match.entry.tenant)).toEqual(["acme", "acme"]);
+    expect(await memory.export("acme")).toHaveLength(2);
+
+    expect(await memory.forget("acme", [first[0].id])).toBe(1);
+    expect((await memory.export("acme")).map((item) => item.content)).toEqual([
+      "Reports are under Analytics > Reports.",
+    ]);
+    expect(await memory.forget("acme")).toBe(1);
+    expect(await memory.export("acme")).toEqual([]);
+    expect(await memory.export("globex")).toHaveLength(1);
+  });
+
+  test("should learn from a task and recall into the prompts of the next tasks of its tenant", async () => {
+    const prompts = { stream: [] as LanguageModelV2Prompt[], generate: [] as LanguageModelV2Prompt[] };
+    const memory = new LongTermMemory();
+    const xsky = new XSky({
+      llms: {
+        default: {
+          provider: memoryProvider(
+            [
+              { kind: "navigation", content: "Invoices are exported from Billing > Invoices > Export." },
+              { kind: "credentials", content: "The login of the invoices portal is in the Finance vault." },
+            ],
+            prompts
+          ),
+          model: "mock-model",
+          apiKey: "test",
+        },
+      },
+      agents: [new Agent({ name: "Browser", description: "Browses websites", tools: [] })],
+      longTermMemory: memory,
+      budget: { maxTokens: 100000 },
+    });
+    const workflow = {
+      name: "Export invoices",
+      taskPrompt: "Export the invoices of March",
+      agents: [{ id: "0", name: "Browser", task: "Export the invoices of March", nodes: ["Export"] }],
+    };
+
+    const first = await xsky.initContext(workflow, { tenant: "acme" });
+    await xsky.execute(first.taskId);
+    // Learned in the background, after the result
+    expect(await memory.export("acme")).toEqual([]);
+    await memory.idle();
+    const second = await xsky.initContext(workflow, { tenant: "acme" });
+    await xsky.execute(second.taskId);
+    await memory.idle();
+    const other = await xsky.initContext(workflow, { tenant: "globex" });
+
+    expect(userPrompt(prompts.generate[0])).toContain("Export the invoices of March");
+    expect(userPrompt(prompts.generate[0])).toContain("Invoices exported");
+    expect(first.memories).toEqual([]);
+    // The extraction is counted in the budget of the task
+    expect(first.budget!.getUsage().promptTokens).toBe(200);
+    expect(second.memories!.map((item) => item.kind)).toEqual(["navigation", "credentials"]);
+    expect(other.memories).toEqual([]);
+    // The facts learned again by the second task are not duplicated
+    expect(await memory.export("acme")).toHaveLength(2);
+    expect(userPrompt(prompts.stream[0])).not.toContain("Memories from previous tasks");
+    expect(userPrompt(prompts.stream[1])).toContain(
+      "# Memories from previous tasks\n" +
+        "Facts learned from the previous tasks of the user, use them when they are relevant to the current task.\n" +
+        "- [navigation] Invoices are exported from Billing > Invoices > Export.\n" +
+        "- [credentials] The login of the invoices portal is in the Finance vault."
+    );
+    const planPrompt = await getPlanSystemPrompt(second);
+    expect(planPrompt).toContain("## Memories from previous tasks");
+    expect(planPrompt).toContain("- [navigation] Invoices are exported from Billing > Invoices > Export.");
+    expect(await getPlanSystemPrompt(other)).not.toContain("Memories from previous tasks");
+  });
+
+  test("should not learn from dry runs or with extraction disabled", async () => {
+    const prompts = { stream: [] as LanguageModelV2Prompt[], generate: [] as LanguageModelV2Prompt[] };
+    const llms = {
+      default: {
+        provider: memoryProvider([{ kind: "fact", content: "Invoices are monthly." }], prompts),
+        model: "mock-model",
+        apiKey: "test",
+      },
+    };
+    const workflow = {
+      name: "Export invoices",
+      taskPrompt: "Export the invoices",
+      agents: [{ id: "0", name: "Browser", task: "Export the invoices", nodes: ["Export"] }],
+    };
+    const agents = [new Agent({ name: "Browser", description: "Browses websites", tools: [] })];
+    const dryRun = new XSky({ llms, agents, longTermMemory: new LongTermMemory() });
+    const disabled = new XSky({ llms, agents, longTermMemory: new LongTermMemory({ extract: false }) });
+
+    const context = await dryRun.initContext(workflow);
+    await dryRun.execute(context.taskId, { dryRun: true });
+    const disabledContext = await disabled.initContext(workflow);
+    await disabled.execute(disabledContext.taskId);
+
+    expect(prompts.stream).toHaveLength(2);
+    expect(prompts.generate).toHaveLength(0);
+  });
+});
@@ -0,0 +1,308 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { XSky } from "../../src/core/xsky";
+import { TaskQueue } from "../../src/queue";
+import { InMemoryCheckpointStore } from "../../src/state";
+import { StreamCallbackMessage, XSkyResult } from "../../src/types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+function createTask(taskId: string, agents: string[]) {
+  return {
+    taskId,
+    workflow: { agents: agents.map((name) => ({ name })) },
+    setPause: jest.fn(),
+    waitForPause: jest.fn(async () => true),
+    createCheckpoint: jest.fn(async () => ({ id: "cp-" + taskId })),
+  };
+}
+
+/**
+ * An XSky double whose tasks run until they are finished. Task prompts are planned
+ * into a workflow of the agents listed in the prompt, e.g. "Browser,File".
+ */
+function fakeXSky() {
+  const messages: StreamCallbackMessage[] = [];
+  const tasks = new Map<string, ReturnType<typeof createTask>>();
+  const running = new Map<string, (result: XSkyResult) => void>();
+  const xsky = {
+    config: {
+      llms: {},
+      callback: {
+        onMessage: async (message: StreamCallbackMessage) => {
+          messages.push(message);
+        },
+      },
+    },
+    generate: async (prompt: string, taskId: string) => {
+      tasks.set(taskId, createTask(taskId, prompt.split(",")));
+    },
+    getTask: (taskId: string) => tasks.get(taskId),
+    execute: (taskId: string) =>
+      new Promise<XSkyResult>((resolve) => running.set(taskId, resolve)),
+    abortTask: jest.fn((taskId: string) => {
+      running.get(taskId)?.({ taskId, success: false, stopReason: "abort", result: "Aborted" });
+      running.delete(taskId);
+    }),
+    deleteTask: jest.fn(),
+  };
+  const init = (taskId: string, agents: string[] = []) =>
+    tasks.set(taskId, createTask(taskId, agents));
+  const finish = async (taskId: string) => {
+    running.get(taskId)!({ taskId, success: true, stopReason: "done", result: "Done" });
+    running.delete(taskId);
+    await flush();
+  };
+  return { xsky: xsky as unknown as XSky, messages, tasks, running, init, finish };
+}
+
+describe("TaskQueue", () => {
+  test("should bound the running tasks and start waiting tasks by priority", async () => {
+    const { xsky, running, init, finish } = fakeXSky();
+    ["a", "b", "c", "d"].forEach((taskId) => init(taskId));
+    const queue = new TaskQueue(xsky, { maxConcurrentTasks: 2 });
+
+    const results = [
+      queue.execute("a"),
+      queue.execute("b"),
+      queue.execute("c"),
+      queue.execute("d", { priority: 5 }),
+    ];
+    await flush();
+
+    expect([...running.keys()]).toEqual(["a", "b"]);
+    expect(queue.getStats()).toEqual({ waiting: 2, running: 2 });
+    expect(queue.getPosition("a")).toBe(0);
+    expect(queue.getPosition("d")).toBe(1);
+    expect(queue.getPosition("c")).toBe(2);
+    expect(queue.getPosition("x")).toBeUndefined();
+
+    await finish("b");
+    expect([...running.keys()]).toEqual(["a", "d"]);
+    await finish("a");
+    await finish("d");
+    await finish("c");
+    expect((await Promise.all(results)).map((result) => result.taskId)).toEqual([
+      "a",
+      "b",
+      "c",
+      "d",
+    ]);
+    expect(queue.getStats()).toEqual({ waiting: 0, running: 0 });
+  });
+
+  test("should share the slots fairly between tenants", async () => {
+    const { xsky, running, init, finish } = fakeXSky();
+    ["a1", "a2", "a3", "b1"].forEach((taskId) => init(taskId));
+    const queue = new TaskQueue(xsky);
+
+    queue.execute("a1", { tenant: "acme" });
+    queue.execute("a2", { tenant: "acme" });
+    queue.execute("a3", { tenant: "acme" });
+    queue.execute("b1", { tenant: "globex" });
+    await flush();
+
+    expect(queue.getPosition("b1")).toBe(1);
+    expect(queue.getPosition("a3")).toBe(3);
+    await finish("a1");
+    expect([...running.keys()]).toEqual(["b1"]);
+    await finish("b1");
+    expect([...running.keys()]).toEqual(["a2"]);
+  });
+
+  test("should limit the running tasks of each agent", async () => {
+    const { xsky, running, init, finish } = fakeXSky();
+    init("browse-1", ["Browser"]);
+    init("browse-2", ["Browser", "File"]);
+    init("files", ["File"]);
+    const queue = new TaskQueue(xsky, {
+      maxConcurrentTasks: 3,
+      agentLimits: { Browser: 1 },
+    });
+
+    queue.execute("browse-1");
+    queue.execute("browse-2");
+    queue.execute("files");
+    await flush();
+
+    expect([...running.keys()]).toEqual(["browse-1", "files"]);
+    await finish("browse-1");
+    expect([...running.keys()]).toEqual(["files", "browse-2"]);
+  });
+
+  test("should plan task prompts and wait for the agents of the planned workflow", async () => {
+    const { xsky, running, init, finish } = fakeXSky();
+    init("browse", ["Browser"]);
+    const queue = new TaskQueue(xsky, {
+      maxConcurrentTasks: 2,
+      agentLimits: { Browser: 1 },
+    });
+
+    queue.execute("browse");
+    const result = queue.run("Browser", { taskId: "planned" });
+    await flush();
+
+    expect([...running.keys()]).toEqual(["browse"]);
+    expect(queue.getPosition("planned")).toBe(1);
+    await finish("browse");
+    expect([...running.keys()]).toEqual(["planned"]);
+    await finish("planned");
+    expect(await result).toMatchObject({ taskId: "planned", success: true });
+  });
+
+  test("should send the queue positions on the stream callback", async () => {
+    const { xsky, messages, init, finish } = fakeXSky();
+    ["a", "b", "c"].forEach((taskId) => init(taskId));
+    const queue = new TaskQueue(xsky);
+
+    queue.execute("a");
+    queue.execute("b");
+    queue.execute("c");
+    await finish("a");
+
+    expect(
+      messages.map((message) =>
+        message.type == "queue"
+          ? [message.taskId, message.status, message.position, message.length]
+          : []
+      )
+    ).toEqual([
+      ["a", "started", 0, 0],
+      ["b", "waiting", 1, 1],
+      ["c", "waiting", 2, 2],
+      ["b", "started", 0, 1],
+      ["c", "waiting", 1, 1],
+    ]);
+    expect(messages[0].agentName).toBe("TaskQueue");
+  });
+
+  test("should reject tasks that do not exist", async () => {
+    const queue = new TaskQueue(fakeXSky().xsky);
+
+    await expect(queue.execute("unknown")).rejects.toThrow("The task does not exist");
+  });
+
+  test("should pause and checkpoint the running tasks on shutdown", async () => {
+    const { xsky, tasks, init } = fakeXSky();
+    init("a");
+    init("b");
+    const queue = new TaskQueue(xsky);
+    const running = queue.execute("a");
+    const waiting = queue.execute("b");
+    await flush();
+
+    expect(await queue.shutdown()).toEqual({ paused: ["a"], cancelled: ["b"] });
+    expect(tasks.get("a")!.setPause).toHaveBeenCalledWith(true, true);
+    expect(tasks.get("a")!.createCheckpoint).toHaveBeenCalled();
+    expect(xsky.abortTask).toHaveBeenCalledWith("a", "Shutdown");
+    expect(xsky.deleteTask).toHaveBeenCalledWith("a");
+    expect(await running).toMatchObject({
+      taskId: "a",
+      success: false,
+      stopReason: "abort",
+      result: "The task was paused by the shutdown of the task queue",
+    });
+    expect(await waiting).toMatchObject({ taskId: "b", stopReason: "abort" });
+    await expect(queue.execute("a")).rejects.toThrow("The task queue is shut down");
+  });
+});
+
+/** A provider answering every stream with a call of the `export_invoices` tool */
+function mockProvider(): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async () => {
+          const parts: LanguageModelV2StreamPart[] = [
+            {
+              type: "tool-call",
+              toolCallId: "call-1",
+              toolName: "export_invoices",
+              input: JSON.stringify({}),
+            },
+            { type: "finish", finishReason: "tool-calls", usage },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("TaskQueue shutdown", () => {
+  test("should checkpoint the running tasks to be resumed", async () => {
+    const timers = () =>
+      process.getActiveResourcesInfo().filter((type) => type == "Timeout").length;
+    const idleTimers = timers();
+    const store = new InMemoryCheckpointStore();
+    let started: () => void;
+    const exporting = new Promise<void>((resolve) => (started = resolve));
+    const xsky = new XSky({
+      llms: {
+        default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+      },
+      agents: [
+        new Agent({
+          name: "Billing",
+          description: "Manages invoices",
+          tools: [
+            {
+              name: "export_invoices",
+              description: "Exports the invoices",
+              parameters: { type: "object", properties: {} },
+              execute: async () => {
+                started();
+                return { content: [{ type: "text", text: "Exported" }] };
+              },
+            },
+          ],
+        }),
+      ],
+      stateConfig: { persistence: "memory", store, checkpointInterval: 60000 },
+    });
+    const context = await xsky.initContext(
+      {
+        name: "Export invoices",
+        agents: [{ name: "Billing", task: "Export the invoices", nodes: ["Export"] }],
+      },
+      { month: "2026-03" }
+    );
+    const queue = new TaskQueue(xsky);
+
+    const result = queue.execute(context.taskId);
+    await exporting;
+    const shutdown = await queue.shutdown();
+
+    expect(shutdown.paused).toEqual([context.taskId]);
+    expect((await result).stopReason).toBe("abort");
+    expect(xsky.getTask(context.taskId)).toBeUndefined();
+    const checkpoint = await store.load(context.taskId);
+    expect(JSON.parse(checkpoint!.state).variables).toEqual({ month: "2026-03" });
+    // The execution unwound, no checkpoint, cleanup or pause timer is left
+    expect(timers()).toBeLessThanOrEqual(idleTimers);
+  });
+});
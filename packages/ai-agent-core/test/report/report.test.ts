@@ -0,0 +1,228 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import { XSky } from "../../src/core/xsky";
+import {
+  ExecutionRecorder,
+  buildExecutionReport,
+  renderExecutionReport,
+} from "../../src/report";
+import { LLMs, StreamCallbackMessage, Tool } from "../../src/types";
+
+const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+
+/**
+ * A provider thinking then calling the `screenshot` tool in the first stream,
+ * and answering with a text in the following streams.
+ */
+function mockProvider(): ProviderV2 {
+  let streams = 0;
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async () => {
+          const parts: LanguageModelV2StreamPart[] =
+            streams++ == 0
+              ? [
+                  { type: "reasoning-start", id: "r" },
+                  { type: "reasoning-delta", id: "r", delta: "I should look " },
+                  { type: "reasoning-delta", id: "r", delta: "at the page" },
+                  { type: "reasoning-end", id: "r" },
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-1",
+                    toolName: "screenshot",
+                    input: JSON.stringify({ selector: "<main>" }),
+                  },
+                  { type: "finish", finishReason: "tool-calls", usage },
+                ]
+              : [
+                  { type: "text-start", id: "t" },
+                  { type: "text-delta", id: "t", delta: "The page " },
+                  { type: "text-delta", id: "t", delta: "is ready" },
+                  { type: "text-end", id: "t" },
+                  { type: "finish", finishReason: "stop", usage },
+                ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+async function runTask() {
+  const llms: LLMs = {
+    default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+  };
+  let calls = 0;
+  const screenshot: Tool = {
+    name: "screenshot",
+    description: "Takes a screenshot",
+    parameters: { type: "object", properties: { selector: { type: "string" } } },
+    execute: async () => {
+      if (calls++ == 0) {
+        throw new Error("Page not loaded");
+      }
+      return {
+        content: [
+          { type: "text", text: "Captured <main>" },
+          { type: "image", data: "aW1hZ2U=", mimeType: "image/png" },
+        ],
+      };
+    },
+  };
+  const forwarded: StreamCallbackMessage[] = [];
+  const recorder = new ExecutionRecorder({
+    onMessage: async (message) => {
+      forwarded.push(message);
+    },
+  });
+  const xsky = new XSky({
+    llms,
+    agents: [new Agent({ name: "Browser", description: "Browses", tools: [screenshot] })],
+    callback: recorder,
+    hooks: { onToolError: async () => "retry" },
+  });
+  const context = await xsky.initContext(
+    buildSimpleAgentWorkflow({
+      taskId: "task-report",
+      name: "Check the page",
+      agentName: "Browser",
+      task: "Check that the page is ready",
+    })
+  );
+  const result = await xsky.execute("task-report");
+  xsky.deleteTask("task-report");
+  return { context, result, recorder, forwarded };
+}
+
+describe("ExecutionRecorder", () => {
+  it("should forward messages and record streamed texts once", async () => {
+    const { recorder, forwarded } = await runTask();
+    const events = recorder.getEvents("task-report");
+
+    expect(forwarded.length).toBeGreaterThan(events.length);
+    const texts = events.filter(
+      (event) => event.message.type == "text" && event.message.text
+    );
+    expect(texts).toHaveLength(1);
+    expect(texts[0].message).toMatchObject({ text: "The page is ready", streamDone: true });
+    expect(recorder.getEvents("other-task")).toEqual([]);
+
+    recorder.clear("task-report");
+    expect(recorder.getEvents()).toEqual([]);
+  });
+  it("should forward the human callbacks the callback implements", async () => {
+    const callback = {
+      answer: "Paris",
+      onMessage: async () => {},
+      async onHumanInput() {
+        return this.answer;
+      },
+    };
+    const recorder = new ExecutionRecorder(callback);
+
+    expect(await recorder.onHumanInput!({} as any, "Which city?")).toBe("Paris");
+    expect(recorder.onHumanConfirm).toBeUndefined();
+    expect(new ExecutionRecorder().onHumanInput).toBeUndefined();
+  });
+});
+
+describe("buildExecutionReport", () => {
+  it("should build the timeline of a task from its chain and events", async () => {
+    const { context, result, recorder } = await runTask();
+
+    const report = buildExecutionReport(context, {
+      events: recorder.getEvents(),
+      result,
+    });
+
+    expect(report).toMatchObject({
+      taskId: "task-report",
+      name: "Check the page",
+      success: true,
+      stopReason: "done",
+      usage: { promptTokens: 200, completionTokens: 20, totalTokens: 220 },
+    });
+    expect(report.agents).toHaveLength(1);
+    const [agent] = report.agents;
+    expect(agent).toMatchObject({ name: "Browser", status: "done", result: "The page is ready" });
+    expect(agent.steps).toHaveLength(2);
+    expect(agent.steps[0]).toMatchObject({
+      thinking: "I should look at the page",
+      finishReason: "tool-calls",
+      usage: { totalTokens: 110 },
+    });
+    expect(agent.steps[0].toolCalls).toEqual([
+      expect.objectContaining({
+        toolName: "screenshot",
+        params: { selector: "<main>" },
+        result: "Captured <main>",
+        images: [{ mimeType: "image/png", data: "aW1hZ2U=" }],
+        isError: false,
+        attempts: 2,
+      }),
+    ]);
+    expect(agent.steps[1]).toMatchObject({ text: "The page is ready", toolCalls: [] });
+  });
+
+  it("should report the tool calls of the chain without events", async () => {
+    const { context } = await runTask();
+
+    const report = buildExecutionReport(context);
+
+    expect(report.agents[0].steps).toHaveLength(1);
+    expect(report.agents[0].steps[0].toolCalls[0]).toMatchObject({
+      toolName: "screenshot",
+      result: "Captured <main>",
+      attempts: 2,
+    });
+    expect(report.usage.totalTokens).toBe(0);
+  });
+});
+
+describe("renderExecutionReport", () => {
+  it("should render self-contained HTML, Markdown and JSON", async () => {
+    const { context, result, recorder } = await runTask();
+    const report = buildExecutionReport(context, { events: recorder.getEvents(), result });
+
+    const html = renderExecutionReport(report, "html");
+    const markdown = renderExecutionReport(report, "markdown");
+    const json = renderExecutionReport(report, "json");
+
+    expect(html).toMatch(/^<!DOCTYPE html>/);
+    expect(html).toContain('<img src="data:image/png;base64,aW1hZ2U=" alt="screenshot">');
+    expect(html).toContain("Captured &lt;main&gt;");
+    expect(html).toContain("succeeded after 2 attempts");
+    expect(html).toContain('<div class="thinking">I should look at the page</div>');
+    expect(html).not.toContain("<main>");
+    expect(markdown).toContain("# Execution report: Check the page");
+    expect(markdown).toContain("#### Tool `screenshot` succeeded after 2 attempts");
+    expect(markdown).toContain("![screenshot](data:image/png;base64,aW1hZ2U=)");
+    expect(markdown).toContain("> I should look at the page");
+    expect(JSON.parse(json)).toEqual(report);
+  });
+});
@@ -0,0 +1,64 @@
+import { nextCronTime, parseCron } from "../../src/scheduler/cron";
+
+/** Local time, cron expressions are evaluated in local time */
+function at(month: number, day: number, hour: number, minute: number): number {
+  return new Date(2026, month - 1, day, hour, minute).getTime();
+}
+
+describe("parseCron", () => {
+  test("should parse values, ranges, lists, steps and names", () => {
+    const cron = parseCron("*/15 9-17 1,15 JAN-MAR mon-fri");
+
+    expect([...cron.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...cron.hours]).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+    expect([...cron.days]).toEqual([1, 15]);
+    expect([...cron.months]).toEqual([1, 2, 3]);
+    expect([...cron.weekdays]).toEqual([1, 2, 3, 4, 5]);
+    expect(cron).toMatchObject({ anyDay: false, anyWeekday: false });
+  });
+
+  test("should parse macros and Sunday as 7", () => {
+    expect(parseCron("@hourly")).toMatchObject({ anyDay: true, anyWeekday: true });
+    expect([...parseCron("@hourly").minutes]).toEqual([0]);
+    expect([...parseCron("0 0 * * 7").weekdays]).toEqual([0]);
+    expect([...parseCron("10/20 * * * *").minutes]).toEqual([10, 30, 50]);
+  });
+
+  test("should reject invalid expressions", () => {
+    expect(() => parseCron("* * * *")).toThrow('Invalid cron expression "* * * *": expected 5 fields');
+    expect(() => parseCron("60 * * * *")).toThrow('"60" is not between 0 and 59');
+    expect(() => parseCron("* * * * FOO")).toThrow("is not between 0 and 7");
+    expect(() => parseCron("*/0 * * * *")).toThrow('Invalid step "0"');
+    expect(() => parseCron("5-1 * * * *")).toThrow('Invalid range "5-1"');
+  });
+});
+
+describe("nextCronTime", () => {
+  test("should get the next matching minute strictly after the time", () => {
+    const cron = parseCron("*/15 * * * *");
+
+    expect(nextCronTime(cron, at(3, 10, 10, 7))).toBe(at(3, 10, 10, 15));
+    expect(nextCronTime(cron, at(3, 10, 10, 15))).toBe(at(3, 10, 10, 30));
+    expect(nextCronTime(cron, at(3, 10, 23, 50))).toBe(at(3, 11, 0, 0));
+  });
+
+  test("should skip to the next matching day and month", () => {
+    // Friday March 13, 2026
+    expect(nextCronTime(parseCron("0 9 * * MON-FRI"), at(3, 13, 10, 0))).toBe(at(3, 16, 9, 0));
+    expect(nextCronTime(parseCron("@monthly"), at(3, 13, 10, 0))).toBe(at(4, 1, 0, 0));
+    expect(nextCronTime(parseCron("30 6 1 JUN *"), at(3, 13, 10, 0))).toBe(at(6, 1, 6, 30));
+  });
+
+  test("should match either the day of month or the day of week when both are set", () => {
+    const cron = parseCron("0 0 20 * FRI");
+
+    expect(nextCronTime(cron, at(3, 13, 10, 0))).toBe(at(3, 20, 0, 0));
+    expect(nextCronTime(cron, at(3, 21, 10, 0))).toBe(at(3, 27, 0, 0));
+  });
+
+  test("should throw when no time matches", () => {
+    expect(() => nextCronTime(parseCron("0 0 30 FEB *"), at(1, 1, 0, 0))).toThrow(
+      "No time matches the cron expression"
+    );
+  });
+});
@@ -0,0 +1,361 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { XSky } from "../../src/core/xsky";
+import { Scheduler } from "../../src/scheduler";
+import {
+  SavedWorkflow,
+  SchedulerClock,
+  XSkyResult,
+} from "../../src/types";
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+/** A clock firing its timers when advanced */
+class FakeClock implements SchedulerClock {
+  private time: number;
+  private timers: { id: number; at: number; callback: () => void }[] = [];
+  private nextId: number = 1;
+
+  constructor(time: number = 0) {
+    this.time = time;
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimeout(callback: () => void, ms: number): unknown {
+    const id = this.nextId++;
+    this.timers.push({ id, at: this.time + ms, callback });
+    return id;
+  }
+
+  clearTimeout(handle: unknown): void {
+    this.timers = this.timers.filter((timer) => timer.id != handle);
+  }
+
+  async advance(ms: number): Promise<void> {
+    const end = this.time + ms;
+    while (true) {
+      const next = this.timers
+        .filter((timer) => timer.at <= end)
+        .sort((a, b) => a.at - b.at)[0];
+      if (!next) {
+        break;
+      }
+      this.timers = this.timers.filter((timer) => timer != next);
+      this.time = next.at;
+      next.callback();
+      await flush();
+    }
+    this.time = end;
+    await flush();
+  }
+}
+
+/** An XSky double whose tasks run until they are finished or aborted */
+function fakeXSky() {
+  const prompts = new Map<string, string>();
+  const running = new Map<string, (result: XSkyResult) => void>();
+  const finish = async (taskId: string, result: string = "Done") => {
+    running.get(taskId)!({ taskId, success: true, stopReason: "done", result });
+    running.delete(taskId);
+    await flush();
+  };
+  const xsky = {
+    config: { llms: {}, workflows: [] },
+    generate: async (prompt: string, taskId: string) => {
+      prompts.set(taskId, prompt);
+    },
+    getTask: (taskId: string) => (prompts.has(taskId) ? { taskId } : undefined),
+    execute: (taskId: string) =>
+      new Promise<XSkyResult>((resolve) => running.set(taskId, resolve)),
+    abortTask: (taskId: string) => {
+      running.get(taskId)?.({
+        taskId,
+        success: false,
+        stopReason: "abort",
+        result: "Aborted",
+      });
+      running.delete(taskId);
+      return true;
+    },
+    deleteTask: (taskId: string) => prompts.delete(taskId),
+  };
+  return { xsky: xsky as unknown as XSky, prompts, running, finish };
+}
+
+describe("Scheduler", () => {
+  test("should run interval schedules and record their history", async () => {
+    const clock = new FakeClock(1000);
+    const { xsky, prompts, running, finish } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({ id: "prices", intervalMs: 60000, prompt: "Check the prices" });
+
+    expect(scheduler.getNextRunTime("prices")).toBeUndefined();
+    scheduler.start();
+    expect(scheduler.getNextRunTime("prices")).toBe(61000);
+    await clock.advance(59999);
+    expect(running.size).toBe(0);
+    await clock.advance(1);
+
+    const [taskId] = [...running.keys()];
+    expect(prompts.get(taskId)).toBe("Check the prices");
+    expect(await scheduler.getRuns("prices")).toMatchObject([
+      { scheduleId: "prices", taskId, scheduledAt: 61000, status: "running" },
+    ]);
+    await clock.advance(500);
+    await finish(taskId, "Prices are stable");
+    await scheduler.idle();
+
+    expect(await scheduler.getLastResult("prices")).toMatchObject({
+      status: "done",
+      result: "Prices are stable",
+      startedAt: 61000,
+      finishedAt: 61500,
+    });
+    expect(prompts.has(taskId)).toBe(false);
+    expect(scheduler.getNextRunTime("prices")).toBe(121000);
+
+    await clock.advance(59500);
+    await finish([...running.keys()][0], "Prices went up");
+    const runs = await scheduler.getRuns("prices");
+    expect(runs.map((run) => run.result)).toEqual(["Prices went up", "Prices are stable"]);
+    expect((await scheduler.getLastResult("prices"))!.result).toBe("Prices went up");
+  });
+
+  test("should run cron schedules at the matching times", async () => {
+    const clock = new FakeClock(new Date(2026, 2, 13, 10, 7).getTime());
+    const { xsky, running } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({ id: "inbox", cron: "*/15 * * * *", prompt: "Triage the inbox" });
+    scheduler.start();
+
+    const quarter = new Date(2026, 2, 13, 10, 15).getTime();
+    expect(scheduler.getNextRunTime("inbox")).toBe(quarter);
+    await clock.advance(quarter - clock.now());
+
+    expect(running.size).toBe(1);
+    expect((await scheduler.getRuns("inbox"))[0].scheduledAt).toBe(quarter);
+    expect(scheduler.getNextRunTime("inbox")).toBe(new Date(2026, 2, 13, 10, 30).getTime());
+  });
+
+  test("should skip due runs while the previous run is running", async () => {
+    const clock = new FakeClock();
+    const { xsky, running } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({ id: "prices", intervalMs: 1000, prompt: "Check the prices" });
+    scheduler.start();
+
+    await clock.advance(1000);
+    await clock.advance(1000);
+
+    expect(running.size).toBe(1);
+    expect((await scheduler.getRuns("prices")).map((run) => run.status)).toEqual([
+      "skipped",
+      "running",
+    ]);
+  });
+
+  test("should queue one due run until the previous run finishes", async () => {
+    const clock = new FakeClock();
+    const { xsky, running, finish } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({
+      id: "prices",
+      intervalMs: 1000,
+      prompt: "Check the prices",
+      overlap: "queue",
+    });
+    scheduler.start();
+
+    await clock.advance(3000);
+    expect(running.size).toBe(1);
+    expect((await scheduler.getRuns("prices")).map((run) => run.status)).toEqual([
+      "skipped",
+      "queued",
+      "running",
+    ]);
+
+    scheduler.stop();
+    await finish([...running.keys()][0]);
+
+    expect(running.size).toBe(1);
+    expect((await scheduler.getRuns("prices")).map((run) => run.status)).toEqual([
+      "skipped",
+      "running",
+      "done",
+    ]);
+  });
+
+  test("should cancel the previous run when a new run is due", async () => {
+    const clock = new FakeClock();
+    const { xsky, running } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({
+      id: "prices",
+      intervalMs: 1000,
+      prompt: "Check the prices",
+      overlap: "cancel-previous",
+    });
+    scheduler.start();
+
+    await clock.advance(1000);
+    const [first] = [...running.keys()];
+    await clock.advance(1000);
+
+    expect([...running.keys()]).not.toContain(first);
+    expect(running.size).toBe(1);
+    expect(await scheduler.getRuns("prices")).toMatchObject([
+      { status: "running", scheduledAt: 2000 },
+      { status: "cancelled", taskId: first, result: "Aborted" },
+    ]);
+  });
+
+  test("should limit the runs executing at once across schedules", async () => {
+    const clock = new FakeClock();
+    const { xsky, running, finish } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock, maxConcurrentRuns: 2 });
+    scheduler.add({ id: "a", intervalMs: 1000, prompt: "Task a" });
+    scheduler.add({ id: "b", intervalMs: 1000, prompt: "Task b" });
+    scheduler.add({ id: "c", intervalMs: 1000, prompt: "Task c" });
+    scheduler.start();
+
+    await clock.advance(1000);
+    expect(running.size).toBe(2);
+    expect((await scheduler.getRuns("c"))[0].status).toBe("queued");
+
+    await finish([...running.keys()][0]);
+    expect(running.size).toBe(2);
+    expect((await scheduler.getRuns("c"))[0].status).toBe("running");
+  });
+
+  test("should trigger and remove schedules", async () => {
+    const clock = new FakeClock();
+    const { xsky, running, finish } = fakeXSky();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({ id: "a", intervalMs: 1000, prompt: "Task a" });
+    scheduler.add({ id: "b", intervalMs: 1000, prompt: "Task b" });
+
+    expect(scheduler.trigger("a")).toMatchObject({ scheduleId: "a", status: "running" });
+    expect(scheduler.trigger("b").status).toBe("queued");
+    await flush();
+    expect(scheduler.remove("b")).toBe(true);
+    expect(scheduler.remove("b")).toBe(false);
+    await finish([...running.keys()][0]);
+    await scheduler.idle();
+
+    expect(running.size).toBe(0);
+    expect(scheduler.getSchedules().map((schedule) => schedule.id)).toEqual(["a"]);
+    expect((await scheduler.getRuns("b"))[0].status).toBe("skipped");
+    expect(() => scheduler.trigger("b")).toThrow("The schedule does not exist: b");
+  });
+
+  test("should reject invalid schedules", () => {
+    const scheduler = new Scheduler(fakeXSky().xsky, { clock: new FakeClock() });
+    scheduler.add({ id: "a", intervalMs: 1000, prompt: "Task a" });
+
+    expect(() => scheduler.add({ id: "a", intervalMs: 1000, prompt: "Task a" })).toThrow(
+      "Schedule a already exists"
+    );
+    expect(() =>
+      scheduler.add({ id: "b", cron: "@daily", intervalMs: 1000, prompt: "Task b" })
+    ).toThrow("must have either a cron expression or a positive interval");
+    expect(() => scheduler.add({ id: "b", intervalMs: 1000 })).toThrow(
+      "must have either a prompt or a saved workflow"
+    );
+    expect(() => scheduler.add({ id: "b", cron: "@often", prompt: "Task b" })).toThrow(
+      'Invalid cron expression "@often"'
+    );
+  });
+});
+
+/** A provider answering every stream with a text */
+function mockProvider(): ProviderV2 {
+  const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async () => {
+          const parts: LanguageModelV2StreamPart[] = [
+            { type: "text-start", id: "t" },
+            { type: "text-delta", id: "t", delta: "Prices checked" },
+            { type: "text-end", id: "t" },
+            { type: "finish", finishReason: "stop", usage },
+          ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+describe("Scheduler with saved workflows", () => {
+  test("should run the saved workflow and pass the schedule to the completion hook", async () => {
+    const checkPrices: SavedWorkflow = {
+      name: "Check prices",
+      description: "Checks the prices of the watched products",
+      workflow: {
+        name: "Check prices",
+        agents: [{ name: "Shopper", task: "Check the prices", nodes: ["Check the prices"] }],
+      },
+    };
+    const completed: XSkyResult[] = [];
+    const xsky = new XSky({
+      llms: {
+        default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+      },
+      agents: [new Agent({ name: "Shopper", description: "Checks prices", tools: [] })],
+      workflows: [checkPrices],
+      hooks: {
+        onWorkflowComplete: async (_context, result) => {
+          completed.push(result);
+        },
+      },
+    });
+    const clock = new FakeClock();
+    const scheduler = new Scheduler(xsky, { clock });
+    scheduler.add({ id: "prices", intervalMs: 1000, workflow: "Check prices" });
+    scheduler.add({ id: "missing", intervalMs: 1000, workflow: "Unknown" });
+    scheduler.start();
+
+    await clock.advance(1000);
+    await scheduler.idle();
+
+    const [run] = await scheduler.getRuns("prices");
+    expect(run).toMatchObject({ status: "done", result: "Prices checked" });
+    expect(completed).toHaveLength(1);
+    expect(completed[0]).toMatchObject({
+      taskId: run.taskId,
+      schedule: { scheduleId: "prices", runId: run.runId, scheduledAt: 1000 },
+    });
+    expect(xsky.getTask(run.taskId)).toBeUndefined();
+    expect(await scheduler.getLastResult("missing")).toMatchObject({
+      status: "error",
+      error: "Unknown saved workflow: Unknown",
+    });
+  });
+});
@@ -0,0 +1,410 @@
+import { Agent } from "../../src/agent/base";
+import Context, { AgentContext } from "../../src/core/context";
+import Chain, { AgentChain } from "../../src/core/chain";
+import { InMemoryAuditLogger } from "../../src/security/audit-logger";
+import {
+  ApprovalManager,
+  evaluateApproval,
+} from "../../src/security/approval-manager";
+import { ToolSandboxFactory } from "../../src/security/tool-sandbox";
+import { SecurityConfig, Tool, XSkyConfig } from "../../src/types";
+import {
+  AgentHooks,
+  ApprovalConfig,
+  ApprovalRequest,
+  ApprovalResult,
+} from "../../src/types/hooks.types";
+
+class ApprovalTestAgent extends Agent {
+  constructor() {
+    super({ name: "Purchaser", description: "Buys things", tools: [] });
+  }
+}
+
+function createAgentContext(
+  hooks: AgentHooks,
+  approvalConfig: ApprovalConfig,
+  security: Partial<SecurityConfig> = {
+    auditLogging: { enabled: true, logAllExecutions: true, onlyFailures: false },
+  }
+): AgentContext {
+  const config = {
+    llms: {},
+    hooks,
+    approvalConfig,
+    security,
+  } as unknown as XSkyConfig;
+  const context = new Context("task-1", config, [], new Chain("Buy a laptop"));
+  const agentChain = new AgentChain({
+    id: "task-1-00",
+    name: "Purchaser",
+    task: "Buy a laptop",
+    dependsOn: [],
+    nodes: [],
+    status: "running",
+    xml: "",
+  });
+  agentChain.agentRequest = { messages: [] } as any;
+  return new AgentContext(context, new ApprovalTestAgent(), agentChain);
+}
+
+const request: ApprovalRequest = {
+  type: "tool_execution",
+  description: "Approve purchase",
+};
+
+const purchase = { toolName: "purchase", args: { amount: 2000 } };
+
+describe("ApprovalManager", () => {
+  let auditLogger: InMemoryAuditLogger;
+
+  beforeEach(() => {
+    auditLogger = new InMemoryAuditLogger();
+  });
+
+  it("should match rules against the tool call", async () => {
+    const manager = new ApprovalManager({
+      rules: [
+        {
+          condition: (ctx, call) => call.toolName == "purchase" && call.args.amount > 1000,
+          channel: "finance",
+          timeout: 5000,
+        },
+      ],
+    });
+    const agentContext = createAgentContext({}, {});
+
+    expect(manager.findRule(agentContext, purchase)?.channel).toBe("finance");
+    expect(
+      manager.findRule(agentContext, { toolName: "purchase", args: { amount: 10 } })
+    ).toBeUndefined();
+  });
+
+  it("should fill the request from the matching rule and record the decision", async () => {
+    const onApprovalRequired = jest.fn(async () => ({
+      approved: true,
+      approver: "alice",
+    }));
+    const config: ApprovalConfig = {
+      defaultChannel: "slack",
+      auditLogger,
+      rules: [
+        { condition: () => true, timeout: 5000, requiredApprovers: ["alice"] },
+      ],
+    };
+    const agentContext = createAgentContext({ onApprovalRequired }, config);
+
+    const outcome = await new ApprovalManager(config).request(
+      agentContext,
+      purchase,
+      request
+    );
+
+    expect(outcome.decision).toBe("approved");
+    expect(onApprovalRequired).toHaveBeenCalledWith(
+      agentContext,
+      expect.objectContaining({
+        channel: "slack",
+        timeout: 5000,
+        requiredApprovers: ["alice"],
+      })
+    );
+    const logs = await auditLogger.query({ taskId: "task-1" });
+    expect(logs).toHaveLength(1);
+    expect(logs[0].outcome).toBe("success");
+    expect(logs[0].approval).toMatchObject({
+      required: true,
+      approved: true,
+      approver: "alice",
+    });
+    expect(logs[0].securityContext.toolName).toBe("purchase");
+  });
+
+  it("should auto-approve without asking when the rule says so", async () => {
+    const onApprovalRequired = jest.fn(async () => ({ approved: false }));
+    const config: ApprovalConfig = {
+      auditLogger,
+      rules: [{ condition: () => true, autoApprove: true }],
+    };
+
+    const outcome = await new ApprovalManager(config).request(
+      createAgentContext({ onApprovalRequired }, config),
+      purchase,
+      request
+    );
+
+    expect(outcome.approved).toBe(true);
+    expect(onApprovalRequired).not.toHaveBeenCalled();
+    expect(await auditLogger.query({})).toHaveLength(1);
+  });
+
+  it("should not record the decision when audit logging is disabled", async () => {
+    const config: ApprovalConfig = {
+      auditLogger,
+      rules: [{ condition: () => true, autoApprove: true }],
+    };
+
+    await new ApprovalManager(config).request(
+      createAgentContext({}, config, {}),
+      purchase,
+      request
+    );
+
+    expect(await auditLogger.query({})).toEqual([]);
+  });
+
+  describe("timeouts", () => {
+    const never = () => new Promise<ApprovalResult>(() => {});
+
+    it.each([
+      ["skip", "skipped", false],
+      ["abort", "aborted", false],
+      ["auto-approve", "approved", true],
+    ] as const)("should apply the %s policy", async (policy, decision, approved) => {
+      const config: ApprovalConfig = {
+        defaultTimeout: 10,
+        onTimeout: policy,
+        auditLogger,
+      };
+
+      const outcome = await new ApprovalManager(config).request(
+        createAgentContext({ onApprovalRequired: never }, config),
+        purchase,
+        request
+      );
+
+      expect(outcome).toMatchObject({ decision, approved, timedOut: true });
+      const logs = await auditLogger.query({});
+      expect(logs[0].metadata).toMatchObject({ decision, timedOut: true });
+    });
+
+    it("should escalate to the rule's escalation target", async () => {
+      const onApprovalRequired = jest.fn(async (ctx: AgentContext, req: ApprovalRequest) =>
+        req.channel == "cfo" ? { approved: true, approver: "cfo" } : never()
+      );
+      const config: ApprovalConfig = {
+        defaultTimeout: 10,
+        defaultChannel: "slack",
+        onTimeout: "escalate",
+        auditLogger,
+        rules: [{ condition: () => true, escalateTo: "cfo" }],
+      };
+
+      const outcome = await new ApprovalManager(config).request(
+        createAgentContext({ onApprovalRequired }, config),
+        purchase,
+        request
+      );
+
+      expect(outcome.decision).toBe("approved");
+      expect(onApprovalRequired).toHaveBeenCalledTimes(2);
+      expect(onApprovalRequired.mock.calls[1][1].context).toEqual({
+        escalatedFrom: "slack",
+      });
+      const logs = await auditLogger.query({});
+      expect(logs.map((log) => log.outcome).sort()).toEqual(["escalated", "success"]);
+    });
+
+    it("should skip when the escalation also times out", async () => {
+      const config: ApprovalConfig = {
+        defaultTimeout: 10,
+        onTimeout: "escalate",
+        auditLogger,
+        rules: [{ condition: () => true, escalateTo: "cfo" }],
+      };
+
+      const outcome = await new ApprovalManager(config).request(
+        createAgentContext({ onApprovalRequired: never }, config),
+        purchase,
+        request
+      );
+
+      expect(outcome.decision).toBe("skipped");
+    });
+  });
+
+  it("should report a missing approval handler", async () => {
+    const outcome = await new ApprovalManager({ auditLogger }).request(
+      createAgentContext({}, {}),
+      purchase,
+      request
+    );
+
+    expect(outcome.decision).toBe("unavailable");
+    expect(outcome.approved).toBe(false);
+  });
+});
+
+describe("evaluateApproval", () => {
+  it("should require every required approver", () => {
+    const outcome = evaluateApproval(
+      { ...request, requiredApprovers: ["alice", "bob"] },
+      {
+        approved: true,
+        approvals: [{ approver: "alice", approved: true }],
+      }
+    );
+
+    expect(outcome.approved).toBe(false);
+    expect(outcome.reason).toBe("Missing approval from: bob");
+  });
+
+  it("should require the minimum number of distinct approvals", () => {
+    const partial = evaluateApproval(
+      { ...request, minimumApprovals: 2 },
+      { approved: true, approver: "alice" }
+    );
+    const enough = evaluateApproval(
+      { ...request, minimumApprovals: 2 },
+      {
+        approved: true,
+        approvals: [
+          { approver: "alice", approved: true },
+          { approver: "bob", approved: true },
+        ],
+      }
+    );
+
+    expect(partial.reason).toBe("Insufficient approvals: 1 of 2");
+    expect(enough.approved).toBe(true);
+  });
+
+  it("should reject when any approver rejects", () => {
+    const outcome = evaluateApproval(request, {
+      approved: true,
+      approvals: [
+        { approver: "alice", approved: true },
+        { approver: "bob", approved: false, feedback: "Too expensive" },
+      ],
+    });
+
+    expect(outcome.decision).toBe("rejected");
+    expect(outcome.reason).toBe("Too expensive");
+  });
+});
+
+describe("Agent approval workflow", () => {
+  const tool: Tool = {
+    name: "purchase",
+    description: "Purchase an item",
+    parameters: { type: "object", properties: {} },
+    execute: jest.fn(async () => ({
+      content: [{ type: "text" as const, text: "Purchased" }],
+    })),
+  };
+
+  function callTool(agentContext: AgentContext) {
+    return (agentContext.agent as any).callToolCall(agentContext, [tool], {
+      type: "tool-call",
+      toolName: "purchase",
+      toolCallId: "call-1",
+      input: { amount: 2000 },
+    });
+  }
+
+  beforeEach(() => {
+    (tool.execute as jest.Mock).mockClear();
+  });
+
+  it("should require approval for tool calls matching a rule", async () => {
+    const onApprovalRequired = jest.fn(async () => ({
+      approved: false,
+      feedback: "Over budget",
+    }));
+    const agentContext = createAgentContext(
+      { onApprovalRequired },
+      { rules: [{ condition: (ctx, call) => call.args.amount > 1000 }] }
+    );
+
+    const result = await callTool(agentContext);
+
+    expect(onApprovalRequired).toHaveBeenCalled();
+    expect(tool.execute).not.toHaveBeenCalled();
+    expect(JSON.stringify(result)).toContain("Action rejected: Over budget");
+  });
+
+  it("should execute escalated tool calls once approved", async () => {
+    const agentContext = createAgentContext(
+      {
+        beforeToolCall: async () => ({ allow: false, escalate: true, reason: "Costly" }),
+        onApprovalRequired: async () => ({ approved: true, approver: "alice" }),
+      },
+      {}
+    );
+
+    const result = await callTool(agentContext);
+
+    expect(tool.execute).toHaveBeenCalled();
+    expect(JSON.stringify(result)).toContain("Purchased");
+  });
+
+  it("should ask once when the security sandbox also requires approval", async () => {
+    const onApprovalRequired = jest.fn(async () => ({ approved: true, approver: "alice" }));
+    const auditLogger = new InMemoryAuditLogger();
+    const agentContext = createAgentContext(
+      { onApprovalRequired },
+      { auditLogger, rules: [{ condition: () => true }] },
+      {
+        enabled: true,
+        defaultPermissionLevel: "allow",
+        requireApprovalForHighRisk: true,
+        auditLogging: { enabled: true, logAllExecutions: true, onlyFailures: false },
+        sandboxingEnabled: false,
+        permissions: [],
+        highRiskPatterns: { tools: ["purchase"], resources: [] },
+      }
+    );
+
+    const result = await callTool(agentContext);
+
+    expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+    expect(tool.execute).toHaveBeenCalled();
+    expect(JSON.stringify(result)).toContain("Purchased");
+    expect(await auditLogger.query({})).toHaveLength(1);
+  });
+
+  it("should audit the decisions in the sandbox audit log by default", async () => {
+    const createDefault = jest.spyOn(ToolSandboxFactory, "createDefault");
+    const onApprovalRequired = jest.fn(async () => ({ approved: true, approver: "alice" }));
+    const agentContext = createAgentContext(
+      { onApprovalRequired },
+      { rules: [{ condition: () => true }] },
+      {
+        enabled: true,
+        defaultPermissionLevel: "allow",
+        requireApprovalForHighRisk: false,
+        auditLogging: { enabled: true, logAllExecutions: false, onlyFailures: false },
+        sandboxingEnabled: false,
+        permissions: [],
+      }
+    );
+
+    await callTool(agentContext);
+
+    const sandboxLogger = createDefault.mock.results[0].value.AuditLogger;
+    createDefault.mockRestore();
+    expect(onApprovalRequired).toHaveBeenCalledTimes(1);
+    expect(tool.execute).toHaveBeenCalled();
+    const logs = await sandboxLogger.query({ taskId: "task-1" });
+    expect(logs.map((log: any) => log.approval)).toContainEqual(
+      expect.objectContaining({ required: true, approved: true, approver: "alice" })
+    );
+  });
+
+  it("should abort the task when approval times out with the abort policy", async () => {
+    const agentContext = createAgentContext(
+      { onApprovalRequired: () => new Promise(() => {}) },
+      {
+        defaultTimeout: 10,
+        onTimeout: "abort",
+        rules: [{ condition: () => true }],
+      }
+    );
+
+    await expect(callTool(agentContext)).rejects.toMatchObject({
+      name: "AbortError",
+    });
+    expect(agentContext.context.controller.signal.aborted).toBe(true);
+    expect(tool.execute).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,213 @@
+import { XSky } from "../../src/core/xsky";
+import { Agent } from "../../src/agent";
+import Context from "../../src/core/context";
+import Chain, { AgentChain } from "../../src/core/chain";
+import { buildSimpleAgentWorkflow, resetWorkflowXml } from "../../src/common/xml";
+import {
+  InMemoryCheckpointStore,
+  CustomCheckpointStore,
+  createCheckpointStore,
+} from "../../src/state";
+import { Checkpoint } from "../../src/types/hooks.types";
+import { Workflow, XSkyConfig } from "../../src/types/core.types";
+
+const llms: XSkyConfig["llms"] = {
+  default: { provider: "openai", model: "gpt-4", apiKey: "test-key" },
+};
+
+class StepAgent extends Agent {
+  runs: string[] = [];
+  failNext = false;
+
+  constructor(name: string) {
+    super({ name, description: name + " agent", tools: [] });
+  }
+
+  async run(context: Context, agentChain: AgentChain): Promise<string> {
+    this.runs.push(agentChain.agent.id);
+    if (this.failNext) {
+      this.failNext = false;
+      throw new Error("Process crashed");
+    }
+    context.variables.set(agentChain.agent.id, "value");
+    agentChain.agentResult = "result of " + agentChain.agent.id;
+    return agentChain.agentResult;
+  }
+}
+
+function buildWorkflow(taskId: string): Workflow {
+  const workflow = buildSimpleAgentWorkflow({
+    taskId,
+    name: "Two steps",
+    agentName: "First",
+    task: "first step",
+  });
+  workflow.agents.push({
+    id: taskId + "-01",
+    name: "Second",
+    task: "second step",
+    dependsOn: [taskId + "-00"],
+    nodes: [{ type: "normal", text: "second step" }],
+    status: "init",
+    parallel: false,
+    xml: "",
+  });
+  resetWorkflowXml(workflow);
+  return workflow;
+}
+
+function createCheckpoint(taskId: string, createdAt: number): Checkpoint {
+  return { id: "cp-" + taskId, taskId, state: "{}", metadata: {}, createdAt };
+}
+
+describe("InMemoryCheckpointStore", () => {
+  test("should keep only the latest checkpoint per task", async () => {
+    const store = new InMemoryCheckpointStore();
+    await store.save(createCheckpoint("task-1", 1));
+    await store.save({ ...createCheckpoint("task-1", 2), id: "latest" });
+
+    expect((await store.load("task-1"))?.id).toBe("latest");
+    expect(await store.load("task-2")).toBeUndefined();
+
+    await store.delete("task-1");
+    expect(await store.load("task-1")).toBeUndefined();
+  });
+
+  test("should expire checkpoints older than the ttl", async () => {
+    const store = new InMemoryCheckpointStore(60);
+    await store.save(createCheckpoint("old", Date.now() - 61_000));
+    await store.save(createCheckpoint("fresh", Date.now()));
+
+    expect(await store.load("old")).toBeUndefined();
+    expect(await store.load("fresh")).toBeDefined();
+  });
+});
+
+describe("createCheckpointStore", () => {
+  test("should create stores from the persistence backend", () => {
+    expect(createCheckpointStore({ persistence: "memory" })).toBeInstanceOf(
+      InMemoryCheckpointStore
+    );
+    const handlers = {
+      save: jest.fn(),
+      load: jest.fn(),
+      delete: jest.fn(),
+    };
+    expect(
+      createCheckpointStore({ persistence: "custom", customHandlers: handlers })
+    ).toBeInstanceOf(CustomCheckpointStore);
+  });
+
+  test("should prefer an explicit store", () => {
+    const store = new InMemoryCheckpointStore();
+    expect(createCheckpointStore({ persistence: "redis", store })).toBe(store);
+  });
+
+  test("should reject backends without a store implementation", () => {
+    expect(() => createCheckpointStore({ persistence: "postgresql" })).toThrow(
+      'StateConfig.persistence "postgresql" requires a store implementation'
+    );
+    expect(() => createCheckpointStore({ persistence: "custom" })).toThrow(
+      "requires customHandlers"
+    );
+  });
+});
+
+describe("XSky.resume", () => {
+  const instances: XSky[] = [];
+  const createXSky = (config: XSkyConfig) => {
+    const xsky = new XSky(config);
+    instances.push(xsky);
+    return xsky;
+  };
+
+  afterEach(() => {
+    // Cancels the scheduled task cleanup timers
+    instances.forEach((xsky) =>
+      xsky.getAllTaskId().forEach((taskId) => xsky.deleteTask(taskId))
+    );
+    instances.length = 0;
+  });
+
+  test("should continue from the first agent that is not done", async () => {
+    const store = new InMemoryCheckpointStore();
+    const first = new StepAgent("First");
+    const second = new StepAgent("Second");
+    second.failNext = true;
+    const xsky = createXSky({
+      llms,
+      agents: [first, second],
+      stateConfig: { persistence: "memory", store },
+    });
+
+    await xsky.initContext(buildWorkflow("task-1"), { input: "abc" });
+    const failed = await xsky.execute("task-1");
+    expect(failed.success).toBe(false);
+    expect(await store.load("task-1")).toBeDefined();
+
+    // A fresh instance simulates a restarted process sharing the same store
+    const restartedFirst = new StepAgent("First");
+    const restartedSecond = new StepAgent("Second");
+    const restarted = createXSky({
+      llms,
+      agents: [restartedFirst, restartedSecond],
+      stateConfig: { persistence: "memory", store },
+    });
+    const result = await restarted.resume("task-1");
+
+    expect(result.success).toBe(true);
+    expect(result.result).toBe("result of task-1-01");
+    expect(restartedFirst.runs).toEqual([]);
+    expect(restartedSecond.runs).toEqual(["task-1-01"]);
+
+    const context = restarted.getTask("task-1")!;
+    expect(context.variables.get("input")).toBe("abc");
+    expect(context.variables.get("task-1-00")).toBe("value");
+    expect(context.chain.agents.map((c) => c.agent.id)).toEqual([
+      "task-1-00",
+      "task-1-01",
+    ]);
+    expect(context.chain.agents[0].agentResult).toBe("result of task-1-00");
+    expect(context.workflow!.agents.map((a) => a.status)).toEqual([
+      "done",
+      "done",
+    ]);
+    // Completed tasks have nothing left to resume
+    expect(await store.load("task-1")).toBeUndefined();
+  });
+
+  test("should return the last result when every agent is already done", async () => {
+    const store = new InMemoryCheckpointStore();
+    const workflow = buildWorkflow("task-2");
+    workflow.agents.forEach((agent) => (agent.status = "done"));
+    const context = new Context("task-2", { llms }, [], new Chain("task-2"));
+    context.workflow = workflow;
+    const agentChain = new AgentChain(workflow.agents[1]);
+    agentChain.agentResult = "final";
+    context.chain.push(agentChain);
+    context.checkpointStore = store;
+    await context.createCheckpoint();
+
+    const agent = new StepAgent("First");
+    const xsky = createXSky({
+      llms,
+      agents: [agent],
+      stateConfig: { persistence: "memory", store },
+    });
+    const result = await xsky.resume("task-2");
+
+    expect(result).toMatchObject({ success: true, result: "final" });
+    expect(agent.runs).toEqual([]);
+  });
+
+  test("should fail without persistence or checkpoint", async () => {
+    await expect(createXSky({ llms }).resume("missing")).rejects.toThrow(
+      "State persistence is not configured"
+    );
+
+    const xsky = createXSky({ llms, stateConfig: { persistence: "memory" } });
+    await expect(xsky.resume("missing")).rejects.toThrow(
+      "No checkpoint found for task: missing"
+    );
+  });
+});
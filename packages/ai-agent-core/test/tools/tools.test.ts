@@ -1,8 +1,10 @@
 import VariableStorageTool from '../../src/tools/variable_storage';
 import ForeachTaskTool from '../../src/tools/foreach_task';
+import ControlFlowTool, { applyControlFlowState } from '../../src/tools/control_flow';
 import TodoListManagerTool from '../../src/tools/todo_list_manager';
 import TaskResultCheckTool from '../../src/tools/task_result_check';
 import { ToolResult } from '../../src/types/tools.types';
+import { extractAgentXmlNode } from '../../src/common/xml';
 
 // Mock AgentContext
 const mockAgentContext = (variables?: Map<string, any>, contextVariables?: Map<string, any>) => ({
@@ -133,6 +135,99 @@ describe('tools', () => {
       });
     });
 
+    describe('write_variable with an output schema', () => {
+      const schema = { type: 'array' as const, items: { type: 'string' as const } };
+      const schemaContext = (repair?: string) => {
+        const context = mockAgentContext(undefined, new Map()) as any;
+        context.context.workflow = {
+          agents: [
+            {
+              nodes: [
+                {
+                  type: 'forEach',
+                  items: 'list',
+                  nodes: [{ type: 'normal', text: 'Extract', output: 'developers', outputSchema: schema }],
+                },
+              ],
+            },
+          ],
+        };
+        context.context.controller = new AbortController();
+        context.context.config.llms = {
+          default: {
+            provider: {
+              languageModel: (modelId: string) => ({
+                specificationVersion: 'v2',
+                provider: 'mock',
+                modelId,
+                supportedUrls: {},
+                doGenerate: async () => {
+                  if (repair === undefined) {
+                    throw new Error('Not supported');
+                  }
+                  return {
+                    content: [{ type: 'text', text: repair }],
+                    finishReason: 'stop',
+                    usage: { inputTokens: 10, outputTokens: 10, totalTokens: 20 },
+                    warnings: [],
+                  };
+                },
+              }),
+            },
+            model: 'mock-model',
+            apiKey: 'test',
+          },
+        };
+        return context;
+      };
+
+      test('should store the value parsed from JSON', async () => {
+        const context = schemaContext();
+        const result = await tool.execute(
+          { operation: 'write_variable', name: 'developers', value: '["alice","bob"]' },
+          context
+        );
+
+        expect(result.content[0].text).toBe('success');
+        expect(context.context.variables.get('developers')).toEqual(['alice', 'bob']);
+      });
+
+      test('should store the value repaired by the LLM', async () => {
+        const context = schemaContext('```json\n["alice","bob"]\n```');
+        const result = await tool.execute(
+          { operation: 'write_variable', name: 'developers', value: 'alice, bob' },
+          context
+        );
+
+        expect(result.isError).toBeUndefined();
+        expect(result.content[0].text).toContain('repaired');
+        expect(context.context.variables.get('developers')).toEqual(['alice', 'bob']);
+      });
+
+      test('should reject a value that cannot be repaired', async () => {
+        const context = schemaContext('[1, 2]');
+        const result = await tool.execute(
+          { operation: 'write_variable', name: 'developers', value: '{"alice": 1}' },
+          context
+        );
+
+        expect(result.isError).toBe(true);
+        expect(result.content[0].text).toContain('Must be array');
+        expect(result.content[0].text).toContain(JSON.stringify(schema));
+        expect(context.context.variables.has('developers')).toBe(false);
+      });
+
+      test('should not validate variables without a schema', async () => {
+        const context = schemaContext();
+        await tool.execute(
+          { operation: 'write_variable', name: 'other', value: 'alice, bob' },
+          context
+        );
+
+        expect(context.context.variables.get('other')).toBe('alice, bob');
+      });
+    });
+
     describe('read_variable operation', () => {
       test('should read single variable', async () => {
         const variables = new Map([['var1', 'value1']]);
@@ -528,6 +623,109 @@ describe('tools', () => {
     });
   });
 
+  describe('ControlFlowTool', () => {
+    const agentXml = `<agent name="test"><task>Test</task><nodes>
+      <node>Step 1</node>
+      <if variable="status" equals="shipped"><then><node>Track</node></then><else><node>Wait</node></else></if>
+      <while condition="There is a next page" maxIterations="2"><node>Next page</node></while>
+      <try><node>Log in</node><catch><node>Ask the user</node></catch></try>
+      <if condition="The cart is empty"><then><node>Add an item</node></then></if>
+    </nodes></agent>`;
+    let tool: ControlFlowTool;
+    let agentContext: any;
+
+    const call = async (args: Record<string, unknown>) =>
+      (await tool.execute({ progress: 'Running', ...args }, agentContext)).content[0].text;
+
+    beforeEach(() => {
+      tool = new ControlFlowTool();
+      agentContext = mockAgentContext();
+      agentContext.agentChain.agent.xml = agentXml;
+    });
+
+    test('should have correct name and required parameters', () => {
+      expect(tool.name).toBe('control_flow');
+      expect(tool.parameters.required).toEqual(['nodeId', 'progress']);
+    });
+
+    test('should choose the branch of an if node from a variable', async () => {
+      agentContext.context.variables.set('status', 'shipped');
+      expect(await call({ nodeId: 1 })).toContain('execute the <then> nodes');
+
+      agentContext.context.variables.set('status', 'pending');
+      expect(await call({ nodeId: 1 })).toContain('execute the <else> nodes');
+      expect(agentContext.variables.get('control_flow_1')).toEqual({ type: 'if', branch: 'else' });
+    });
+
+    test('should require the evaluation of LLM conditions', async () => {
+      await expect(call({ nodeId: 4 })).rejects.toThrow('conditionMet is required');
+      expect(await call({ nodeId: 4, conditionMet: false })).toContain('skip this node');
+    });
+
+    test('should end a while node on its condition or its max iterations', async () => {
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 1 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 2 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('maximum number of iterations (2)');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('loop has ended after 2 iterations');
+
+      agentContext.variables.clear();
+      await call({ nodeId: 2, conditionMet: true });
+      expect(await call({ nodeId: 2, conditionMet: false })).toContain('exit the loop after 1 iterations');
+    });
+
+    test('should run a while node again when it is entered again, e.g. nested in a loop', async () => {
+      // First iteration of the enclosing loop
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 1 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: false })).toContain('exit the loop after 1 iterations');
+      expect(await call({ nodeId: 2, conditionMet: false })).toContain('loop has ended after 1 iterations');
+
+      // Second iteration of the enclosing loop
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 1 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 2 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('maximum number of iterations (2)');
+      // A loop stopped by its max iterations is not run again
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('loop has ended after 2 iterations');
+    });
+
+    test('should restart a while node stopped by its max iterations when asked', async () => {
+      await call({ nodeId: 2, conditionMet: true });
+      await call({ nodeId: 2, conditionMet: true });
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('maximum number of iterations (2)');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('call this tool with `restart`');
+
+      // Next iteration of the enclosing loop
+      expect(await call({ nodeId: 2, conditionMet: true, restart: true })).toContain('iteration 1 of at most 2');
+      expect(await call({ nodeId: 2, conditionMet: true })).toContain('iteration 2 of at most 2');
+      // A running loop is not restarted
+      expect(await call({ nodeId: 2, conditionMet: true, restart: true })).toContain('maximum number of iterations (2)');
+    });
+
+    test('should run the catch nodes of a failed try node', async () => {
+      expect(await call({ nodeId: 3 })).toContain('call this tool again with `failed`');
+      expect(await call({ nodeId: 3, failed: true })).toContain('execute the <catch> nodes');
+      expect(await call({ nodeId: 3, failed: false })).toContain('skip the <catch> nodes');
+    });
+
+    test('should reject nodes that are not control flow nodes', async () => {
+      await expect(call({ nodeId: 0 })).rejects.toThrow(
+        'Node ID is not an if, while or try node: 0'
+      );
+      await expect(call({ nodeId: 9 })).rejects.toThrow('Node ID does not exist: 9');
+    });
+
+    test('should render the state of the nodes', async () => {
+      await call({ nodeId: 2, conditionMet: true });
+      await call({ nodeId: 3, failed: true });
+      const states = [1, 2, 3].map((nodeId) => {
+        const node = extractAgentXmlNode(agentXml, nodeId)!;
+        applyControlFlowState(agentContext, nodeId, node);
+        return node.getAttribute('state');
+      });
+
+      expect(states).toEqual(['', 'iteration 1', 'catch']);
+    });
+  });
+
   describe('Tool integration scenarios', () => {
     test('VariableStorageTool should work with ForeachTaskTool', async () => {
       const contextVariables = new Map<string, any>();
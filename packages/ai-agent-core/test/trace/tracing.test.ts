@@ -0,0 +1,268 @@
+import {
+  LanguageModelV2,
+  LanguageModelV2StreamPart,
+  ProviderV2,
+} from "@ai-sdk/provider";
+import { Agent } from "../../src/agent/base";
+import { buildSimpleAgentWorkflow } from "../../src/common/xml";
+import { XSky } from "../../src/core/xsky";
+import {
+  InMemorySpanExporter,
+  Tracer,
+  hashArgs,
+  toOtlpJson,
+} from "../../src/trace";
+import { LLMs, SpanData, Tool } from "../../src/types";
+
+const usage = { inputTokens: 100, outputTokens: 10, totalTokens: 110 };
+
+/**
+ * A provider answering the first stream with a call of the `lookup` tool,
+ * and the following streams with a text.
+ */
+function mockProvider(): ProviderV2 {
+  let streams = 0;
+  return {
+    languageModel: (modelId: string) =>
+      ({
+        specificationVersion: "v2",
+        provider: "mock",
+        modelId,
+        supportedUrls: {},
+        doGenerate: async () => {
+          throw new Error("Not supported");
+        },
+        doStream: async () => {
+          const parts: LanguageModelV2StreamPart[] =
+            streams++ == 0
+              ? [
+                  {
+                    type: "tool-call",
+                    toolCallId: "call-1",
+                    toolName: "lookup",
+                    input: JSON.stringify({ query: "weather" }),
+                  },
+                  { type: "finish", finishReason: "tool-calls", usage },
+                ]
+              : [
+                  { type: "text-start", id: "t" },
+                  { type: "text-delta", id: "t", delta: "Sunny" },
+                  { type: "text-end", id: "t" },
+                  { type: "finish", finishReason: "stop", usage },
+                ];
+          return {
+            stream: new ReadableStream({
+              start(controller) {
+                parts.forEach((part) => controller.enqueue(part));
+                controller.close();
+              },
+            }),
+          };
+        },
+      }) as LanguageModelV2,
+    textEmbeddingModel: () => {
+      throw new Error("Not supported");
+    },
+    imageModel: () => {
+      throw new Error("Not supported");
+    },
+  };
+}
+
+function createLlms(): LLMs {
+  return {
+    default: { provider: mockProvider(), model: "mock-model", apiKey: "test" },
+  };
+}
+
+function lookupTool(execute: Tool["execute"]): Tool {
+  return {
+    name: "lookup",
+    description: "Looks up information",
+    parameters: {
+      type: "object",
+      properties: { query: { type: "string" } },
+    },
+    execute,
+  };
+}
+
+async function runTask(
+  exporter: InMemorySpanExporter,
+  tool: Tool,
+  onTrace?: jest.Mock
+) {
+  const xsky = new XSky({
+    llms: createLlms(),
+    agents: [
+      new Agent({ name: "Researcher", description: "Researches", tools: [tool] }),
+    ],
+    telemetry: { exporter, onTrace },
+  });
+  const workflow = buildSimpleAgentWorkflow({
+    taskId: "task-trace",
+    name: "Research",
+    agentName: "Researcher",
+    task: "Look up the weather",
+  });
+  await xsky.initContext(workflow);
+  const result = await xsky.execute("task-trace");
+  xsky.deleteTask("task-trace");
+  return result;
+}
+
+function findSpans(spans: SpanData[], name: string): SpanData[] {
+  return spans.filter((span) => span.name == name);
+}
+
+describe("Tracer", () => {
+  it("should nest spans in one trace and export them when the root span ends", () => {
+    const exporter = new InMemorySpanExporter();
+    const tracer = new Tracer(exporter);
+
+    const root = tracer.startSpan("root");
+    const child = tracer.startSpan("child", {
+      parent: root,
+      kind: "client",
+      attributes: { "test.key": "value" },
+    });
+    child.recordError(new TypeError("Failed"));
+    child.end();
+    child.end();
+    expect(exporter.getSpans()).toHaveLength(0);
+
+    root.setStatus("ok").end();
+    const [childData, rootData] = exporter.getSpans();
+
+    expect(rootData.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(rootData.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(rootData.parentSpanId).toBeUndefined();
+    expect(childData.traceId).toBe(rootData.traceId);
+    expect(childData.parentSpanId).toBe(rootData.spanId);
+    expect(childData.attributes).toEqual({ "test.key": "value" });
+    expect(childData.status).toEqual({ code: "error", message: "Failed" });
+    expect(childData.events[0].attributes).toEqual({
+      "exception.type": "TypeError",
+      "exception.message": "Failed",
+    });
+  });
+
+  it("should hash tool arguments deterministically", () => {
+    expect(hashArgs({ query: "weather" })).toMatch(/^[0-9a-f]{8}$/);
+    expect(hashArgs({ query: "weather" })).toBe(hashArgs({ query: "weather" }));
+    expect(hashArgs({ query: "weather" })).not.toBe(hashArgs({ query: "news" }));
+  });
+});
+
+describe("toOtlpJson", () => {
+  it("should convert spans to an OTLP/JSON trace request", () => {
+    const span: SpanData = {
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+      name: "xsky.llm",
+      kind: "client",
+      startTime: 1700000000000,
+      endTime: 1700000000250,
+      attributes: { model: "gpt", tokens: 10, cost: 0.5, stream: true },
+      events: [],
+      status: { code: "ok" },
+    };
+
+    const request = toOtlpJson([span], "my-service");
+
+    expect(request.resourceSpans[0].resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "my-service" } },
+    ]);
+    expect(request.resourceSpans[0].scopeSpans[0].spans[0]).toEqual({
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      spanId: "b7ad6b7169203331",
+      parentSpanId: "",
+      name: "xsky.llm",
+      kind: 3,
+      startTimeUnixNano: "1700000000000000000",
+      endTimeUnixNano: "1700000000250000000",
+      attributes: [
+        { key: "model", value: { stringValue: "gpt" } },
+        { key: "tokens", value: { intValue: "10" } },
+        { key: "cost", value: { doubleValue: 0.5 } },
+        { key: "stream", value: { boolValue: true } },
+      ],
+      events: [],
+      status: { code: 1, message: "" },
+    });
+  });
+});
+
+describe("XSky tracing", () => {
+  it("should trace the task, agent, iterations, LLM calls and tool calls", async () => {
+    const exporter = new InMemorySpanExporter();
+    const onTrace = jest.fn();
+    const tool = lookupTool(async () => ({
+      content: [{ type: "text", text: "Sunny" }],
+    }));
+
+    const result = await runTask(exporter, tool, onTrace);
+    const spans = exporter.getSpans();
+
+    expect(result.success).toBe(true);
+    const [task] = findSpans(spans, "xsky.task");
+    const [agent] = findSpans(spans, "xsky.agent");
+    const iterations = findSpans(spans, "xsky.agent.iteration");
+    const llmCalls = findSpans(spans, "xsky.llm");
+    const [toolCall] = findSpans(spans, "xsky.tool");
+
+    expect(task.parentSpanId).toBeUndefined();
+    expect(task.attributes["xsky.task.id"]).toBe("task-trace");
+    expect(task.status.code).toBe("ok");
+    expect(spans.every((span) => span.traceId == task.traceId)).toBe(true);
+
+    expect(agent.parentSpanId).toBe(task.spanId);
+    expect(agent.attributes["xsky.agent.name"]).toBe("Researcher");
+
+    expect(iterations).toHaveLength(2);
+    iterations.forEach((iteration, i) => {
+      expect(iteration.parentSpanId).toBe(agent.spanId);
+      expect(iteration.attributes["xsky.iteration"]).toBe(i);
+      expect(llmCalls[i].parentSpanId).toBe(iteration.spanId);
+    });
+
+    expect(llmCalls[0].kind).toBe("client");
+    expect(llmCalls[0].attributes).toMatchObject({
+      "xsky.llm.name": "default",
+      "gen_ai.request.model": "mock-model",
+      "gen_ai.usage.input_tokens": 100,
+      "gen_ai.usage.output_tokens": 10,
+      "xsky.llm.retry_count": 0,
+      "xsky.llm.circuit_breaker_skips": 0,
+    });
+
+    expect(toolCall.parentSpanId).toBe(iterations[0].spanId);
+    expect(toolCall.attributes).toMatchObject({
+      "xsky.tool.name": "lookup",
+      "xsky.tool.args_hash": hashArgs({ query: "weather" }),
+      "xsky.tool.retry_count": 0,
+    });
+    expect(toolCall.status.code).toBe("ok");
+
+    expect(onTrace).toHaveBeenCalledWith({
+      taskId: "task-trace",
+      agentName: "Researcher",
+      duration: expect.any(Number),
+    });
+  });
+
+  it("should mark failed tool calls with an error status", async () => {
+    const exporter = new InMemorySpanExporter();
+    const tool = lookupTool(async () => {
+      throw new Error("Lookup service down");
+    });
+
+    await runTask(exporter, tool);
+    const [toolCall] = findSpans(exporter.getSpans(), "xsky.tool");
+
+    expect(toolCall.status).toEqual({
+      code: "error",
+      message: "Error: Lookup service down",
+    });
+  });
+});
@@ -38,6 +38,8 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
   private options?: Record<string, any>;
   /** Active browser instance managed by this agent */
   protected browser: Browser | null = null;
+  /** Whether the browser is shared with other agents and not closed by this agent */
+  private shared_browser: boolean = false;
   /** Browser context for managing cookies, local storage, and session isolation */
   private browser_context: BrowserContext | null = null;
   /** Currently active page for web interactions */
@@ -93,6 +95,16 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     return this.userDataDir;
   }
 
+  /**
+   * Uses a browser shared with other agents, e.g. by an agent pool.
+   * The agent opens its own context in the browser, and does not close the browser.
+   * @param browser - The shared browser.
+   */
+  public setBrowser(browser: Browser) {
+    this.browser = browser;
+    this.shared_browser = true;
+  }
+
   /**
    * Sets the options for the browser.
    * @param options - The options to set.
@@ -757,6 +769,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     return [
       {
         name: "save_screenshot",
+        sideEffects: true,
         description:
           "Save the current page screenshot to a file. Useful for documentation and debugging.",
         parameters: {
@@ -929,6 +942,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "save_to_file",
+        sideEffects: true,
         description:
           "Save extracted data to a file in CSV or JSON format. Supports {{date}} template in filename.",
         parameters: {
@@ -964,6 +978,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "save_session",
+        sideEffects: true,
         description:
           "Save the current browser session (cookies, localStorage) to a file. Use for sites requiring login like LinkedIn.",
         parameters: {
@@ -1021,6 +1036,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     return [
       {
         name: "click_at_coordinates",
+        sideEffects: true,
         description:
           "Click at specific X,Y coordinates in the browser viewport. Use when element labels are unavailable (canvas, SVG, video players, custom widgets).",
         parameters: {
@@ -1087,6 +1103,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "drag_to_coordinates",
+        sideEffects: true,
         description:
           "Drag from one position to another. Useful for sliders, resizing, reordering, drawing on canvas.",
         parameters: {
@@ -1196,6 +1213,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "type_at_coordinates",
+        sideEffects: true,
         description:
           "Click at coordinates and type text. Use for inputs not accessible via element labels.",
         parameters: {
@@ -1235,6 +1253,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     return [
       {
         name: "keyboard_action",
+        sideEffects: true,
         description:
           "Perform low-level keyboard operations. Use this for complex interactions like holding keys, shortcuts, or typing.",
         parameters: {
@@ -1270,6 +1289,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "keyboard_combination",
+        sideEffects: true,
         description:
           "Execute key combinations with modifier keys. Automatically detects modifiers (Shift, Control, Alt, Meta) and handles proper sequencing. Use this for shortcuts like Ctrl+C, Shift+A, etc.",
         parameters: {
@@ -1293,6 +1313,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "press_keys_sequence",
+        sideEffects: true,
         description:
           "Press multiple keys in sequence, each pressed and released individually. Use this for typing multiple characters or keys one after another.",
         parameters: {
@@ -1316,6 +1337,7 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
       },
       {
         name: "type_text_enhanced",
+        sideEffects: true,
         description:
           "Type text with realistic human-like delays. Use this for more natural text input simulation.",
         parameters: {
@@ -1446,7 +1468,13 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     if (!this.browser_context) {
       this.current_page = null;
       this.browser_context = null;
-      if (this.cdpWsEndpoint) {
+      if (this.shared_browser && this.browser) {
+        const contextOptions: any = {};
+        if (this.storageStatePath) {
+          contextOptions.storageState = this.storageStatePath;
+        }
+        this.browser_context = await this.browser.newContext(contextOptions);
+      } else if (this.cdpWsEndpoint) {
         this.browser = await chromium.connectOverCDP(
           this.cdpWsEndpoint,
           this.options
@@ -1551,6 +1579,20 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
     };
   }
 
+  /**
+   * Resets the browser session by closing the context and its pages. The next browser
+   * action opens a new context, without the cookies and storage of the previous one.
+   * @returns A promise that resolves when the context is closed.
+   */
+  public async resetSession(): Promise<void> {
+    const browser_context = this.browser_context;
+    this.browser_context = null;
+    this.current_page = null;
+    if (browser_context) {
+      await browser_context.close();
+    }
+  }
+
   /**
    * Closes and cleans up all browser resources.
    * This method should be called when the agent is no longer needed.
@@ -1573,8 +1615,8 @@ export default class BrowserAgent extends BaseBrowserLabelsAgent {
         this.browser_context = null;
       }
 
-      // Close the browser instance (only if we own it, not CDP)
-      if (this.browser && !this.cdpWsEndpoint) {
+      // Close the browser instance (only if we own it, not CDP or shared)
+      if (this.browser && !this.cdpWsEndpoint && !this.shared_browser) {
         await this.browser.close();
         this.browser = null;
       }
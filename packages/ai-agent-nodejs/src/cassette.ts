@@ -0,0 +1,83 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  LlmCassette,
+  type CassetteData,
+  type CassetteMode,
+  type CassetteOptions,
+} from "@xsky/ai-agent-core";
+
+/**
+ * An LLM cassette stored as a JSON file, for deterministic workflow tests without network.
+ *
+ * @example
+ * const cassette = await FileLlmCassette.load(
+ *   "./test/cassettes/research.json",
+ *   process.env.RECORD ? "record" : "replay"
+ * );
+ * const xsky = new XSky({ llms: cassette.wrap(llms), agents });
+ * await xsky.run("Research the weather");
+ * await cassette.save();
+ */
+export class FileLlmCassette extends LlmCassette {
+  private filePath: string;
+
+  /**
+   * Creates a new FileLlmCassette, use `FileLlmCassette.load` to read a recorded file.
+   * @param filePath - The cassette file.
+   * @param mode - "record" to capture calls, "replay" to serve captured calls.
+   * @param data - The recorded calls to replay.
+   * @param options - Replay timing and prompt normalization options.
+   */
+  constructor(
+    filePath: string,
+    mode: CassetteMode,
+    data?: CassetteData,
+    options?: CassetteOptions
+  ) {
+    super(mode, data, options);
+    this.filePath = path.resolve(filePath);
+  }
+
+  /**
+   * Opens a cassette file. In "record" mode the file is not read, it is overwritten by `save`.
+   * @param filePath - The cassette file.
+   * @param mode - "record" to capture calls, "replay" to serve captured calls.
+   * @param options - Replay timing and prompt normalization options.
+   * @returns The cassette.
+   * @throws Error if the file of a cassette to replay does not exist.
+   */
+  static async load(
+    filePath: string,
+    mode: CassetteMode,
+    options?: CassetteOptions
+  ): Promise<FileLlmCassette> {
+    if (mode == "record") {
+      return new FileLlmCassette(filePath, mode, undefined, options);
+    }
+    let content: string;
+    try {
+      content = await fs.readFile(filePath, "utf-8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") {
+        throw new Error(
+          `Cassette ${filePath} does not exist, record it first`
+        );
+      }
+      throw e;
+    }
+    return new FileLlmCassette(filePath, mode, JSON.parse(content), options);
+  }
+
+  /**
+   * Writes the recorded calls to the cassette file (its directory is created on demand).
+   */
+  async save(): Promise<void> {
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(
+      this.filePath,
+      JSON.stringify(this.toJSON(), null, 2) + "\n",
+      "utf-8"
+    );
+  }
+}
@@ -0,0 +1,114 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  Log,
+  isExpired,
+  type Checkpoint,
+  type ICheckpointStore,
+} from "@xsky/ai-agent-core";
+
+/**
+ * A checkpoint store that persists the latest checkpoint of each task as a JSON file,
+ * so that workflows can be resumed with `XSky.resume` after a process restart.
+ *
+ * @example
+ * const xsky = new XSky({
+ *   llms,
+ *   agents,
+ *   stateConfig: {
+ *     persistence: "custom",
+ *     store: new FileCheckpointStore("./.xsky/checkpoints"),
+ *   },
+ * });
+ */
+export class FileCheckpointStore implements ICheckpointStore {
+  private directory: string;
+  private ttl?: number;
+  /** Pending writes by task, the checkpoints of a task share one file */
+  private writes: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Creates a new FileCheckpointStore.
+   * @param directory - The directory checkpoint files are written to (created on demand).
+   * @param ttl - Optional time-to-live of a checkpoint in seconds.
+   */
+  constructor(directory: string, ttl?: number) {
+    this.directory = path.resolve(directory);
+    this.ttl = ttl;
+  }
+
+  /**
+   * Writes the checkpoint, replacing the previous one of the same task.
+   * Writes of a task are serialized, and the file is written to a temporary path and renamed,
+   * so a crash never leaves a partial checkpoint.
+   * @param checkpoint - The checkpoint to persist.
+   */
+  async save(checkpoint: Checkpoint): Promise<void> {
+    await this.serialize(checkpoint.taskId, async () => {
+      await fs.mkdir(this.directory, { recursive: true });
+      const filePath = this.filePath(checkpoint.taskId);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(checkpoint), "utf-8");
+      await fs.rename(tempPath, filePath);
+    });
+  }
+
+  /**
+   * Reads the latest checkpoint of a task.
+   * @param taskId - The ID of the task.
+   * @returns The checkpoint, or undefined if it does not exist or has expired.
+   */
+  async load(taskId: string): Promise<Checkpoint | undefined> {
+    await this.writes.get(taskId)?.catch(() => {});
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(taskId), "utf-8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") {
+        return undefined;
+      }
+      throw e;
+    }
+    let checkpoint: Checkpoint;
+    try {
+      checkpoint = JSON.parse(content);
+    } catch (e) {
+      Log.warn(`Ignoring corrupted checkpoint of task ${taskId}`, e);
+      return undefined;
+    }
+    if (isExpired(checkpoint, this.ttl)) {
+      await this.delete(taskId);
+      return undefined;
+    }
+    return checkpoint;
+  }
+
+  /**
+   * Deletes the checkpoint file of a task.
+   * @param taskId - The ID of the task.
+   */
+  async delete(taskId: string): Promise<void> {
+    await this.serialize(taskId, () => fs.rm(this.filePath(taskId), { force: true }));
+  }
+
+  /**
+   * Runs a write of a task after its pending writes.
+   */
+  private async serialize(taskId: string, task: () => Promise<void>): Promise<void> {
+    const previous = this.writes.get(taskId) || Promise.resolve();
+    const write = previous.catch(() => {}).then(task);
+    this.writes.set(taskId, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(taskId) == write) {
+        this.writes.delete(taskId);
+      }
+    }
+  }
+
+  private filePath(taskId: string): string {
+    // Task IDs are user supplied, never let them escape the checkpoint directory
+    return path.join(this.directory, encodeURIComponent(taskId) + ".json");
+  }
+}
@@ -0,0 +1,412 @@
+import { ChildProcess, execFile, spawn } from "child_process";
+import {
+  AgentContext,
+  BaseComputerAgent,
+  config,
+  normalizeKey,
+  scaleCoordinates,
+} from "@xsky/ai-agent-core";
+import { Tool, IMcpClient } from "@xsky/ai-agent-core/types";
+
+/**
+ * Keys of a Linux desktop, offered to the LLM by the press and hotkey tools.
+ */
+const LINUX_KEYBOARD_KEYS = [
+  'a', 'b', 'c', 'd', 'e', 'f', 'g', 'h', 'i', 'j', 'k', 'l', 'm',
+  'n', 'o', 'p', 'q', 'r', 's', 't', 'u', 'v', 'w', 'x', 'y', 'z',
+  '0', '1', '2', '3', '4', '5', '6', '7', '8', '9',
+  'enter', 'esc', 'backspace', 'tab', 'space', 'delete',
+  'home', 'end', 'pageup', 'pagedown',
+  'ctrl', 'alt', 'shift', 'super',
+  'up', 'down', 'left', 'right',
+  'f1', 'f2', 'f3', 'f4', 'f5', 'f6', 'f7', 'f8', 'f9', 'f10', 'f11', 'f12',
+  'ctrl+c', 'ctrl+v', 'ctrl+x', 'ctrl+z', 'ctrl+a', 'ctrl+s',
+  'alt+tab', 'alt+f4', 'ctrl+alt+t'
+];
+
+/**
+ * X11 keysyms of the Playwright key names returned by `normalizeKey`.
+ */
+const X11_KEYSYMS: Record<string, string> = {
+  Enter: "Return",
+  Escape: "Escape",
+  Backspace: "BackSpace",
+  Tab: "Tab",
+  Space: "space",
+  Delete: "Delete",
+  Insert: "Insert",
+  Home: "Home",
+  End: "End",
+  PageUp: "Prior",
+  PageDown: "Next",
+  ArrowLeft: "Left",
+  ArrowUp: "Up",
+  ArrowRight: "Right",
+  ArrowDown: "Down",
+  Control: "ctrl",
+  ControlLeft: "Control_L",
+  ControlRight: "Control_R",
+  ControlOrMeta: "ctrl",
+  Shift: "shift",
+  ShiftLeft: "Shift_L",
+  ShiftRight: "Shift_R",
+  Alt: "alt",
+  AltLeft: "Alt_L",
+  AltRight: "Alt_R",
+  AltGraph: "ISO_Level3_Shift",
+  Meta: "super",
+  MetaLeft: "Super_L",
+  MetaRight: "Super_R",
+  CapsLock: "Caps_Lock",
+  NumLock: "Num_Lock",
+  ScrollLock: "Scroll_Lock",
+  PrintScreen: "Print",
+  Pause: "Pause",
+  ContextMenu: "Menu",
+  NumpadAdd: "KP_Add",
+  NumpadSubtract: "KP_Subtract",
+  NumpadMultiply: "KP_Multiply",
+  NumpadDivide: "KP_Divide",
+  NumpadDecimal: "KP_Decimal",
+  NumpadEnter: "KP_Enter",
+  Backquote: "grave",
+  Minus: "minus",
+  Equal: "equal",
+  Backslash: "backslash",
+  BracketLeft: "bracketleft",
+  BracketRight: "bracketright",
+  Semicolon: "semicolon",
+  Quote: "apostrophe",
+  Comma: "comma",
+  Period: "period",
+  Slash: "slash",
+  "`": "grave",
+  "~": "asciitilde",
+  "!": "exclam",
+  "@": "at",
+  "#": "numbersign",
+  "$": "dollar",
+  "%": "percent",
+  "^": "asciicircum",
+  "&": "ampersand",
+  "*": "asterisk",
+  "(": "parenleft",
+  ")": "parenright",
+  "-": "minus",
+  "_": "underscore",
+  "=": "equal",
+  "+": "plus",
+  "[": "bracketleft",
+  "]": "bracketright",
+  "{": "braceleft",
+  "}": "braceright",
+  "\\": "backslash",
+  "|": "bar",
+  ";": "semicolon",
+  ":": "colon",
+  "'": "apostrophe",
+  '"': "quotedbl",
+  ",": "comma",
+  ".": "period",
+  "<": "less",
+  ">": "greater",
+  "/": "slash",
+  "?": "question",
+};
+
+/** Key names of other platforms, which `normalizeKey` does not know */
+const KEY_ALIASES: Record<string, string> = {
+  win: "Meta",
+  super: "Meta",
+};
+
+/**
+ * Converts a key name of the LLM to an X11 keysym, e.g. "enter" to "Return".
+ * @param key - The key name.
+ * @returns The keysym.
+ */
+export function toX11Keysym(key: string): string {
+  const name = KEY_ALIASES[key.toLowerCase()] || normalizeKey(key);
+  if (X11_KEYSYMS[name]) {
+    return X11_KEYSYMS[name];
+  }
+  const numpad = name.match(/^Numpad(\d)$/);
+  return numpad ? "KP_" + numpad[1] : name;
+}
+
+/**
+ * A computer agent driving an X11 display with `xdotool`, e.g. a headless Xvfb display
+ * in a container, to automate desktop applications.
+ *
+ * Screenshots are captured with `xwd` and converted to PNG with ImageMagick `convert`.
+ * When `config.screenshotScaling` is enabled, they are shrunk to fit its maximum size
+ * and the coordinates of the LLM are scaled back to the screen with `scaleCoordinates`.
+ *
+ * @example
+ * const computer = new ComputerAgent();
+ * await computer.startXvfb(":99", 1280, 800);
+ * const xsky = new XSky({ llms, agents: [computer] });
+ */
+export default class ComputerAgent extends BaseComputerAgent {
+  /**
+   * Scale factor of the last screenshot, 1 when it was not scaled.
+   */
+  public lastScaleFactor: number = 1;
+  private display?: string;
+  private xvfb?: ChildProcess;
+
+  /**
+   * Creates an instance of the ComputerAgent.
+   * @param llms - A list of language models to use.
+   * @param ext_tools - A list of external tools to add to the agent.
+   * @param mcpClient - The MCP client to use.
+   * @param keyboardKeys - A list of keyboard keys to use, the keys of a Linux desktop by default.
+   */
+  constructor(
+    llms?: string[],
+    ext_tools?: Tool[],
+    mcpClient?: IMcpClient,
+    keyboardKeys?: string[]
+  ) {
+    super(llms, ext_tools, mcpClient, keyboardKeys || LINUX_KEYBOARD_KEYS);
+  }
+
+  /**
+   * Sets the X11 display to drive, `$DISPLAY` by default.
+   * @param display - The display name, e.g. ":99".
+   */
+  public setDisplay(display: string) {
+    this.display = display;
+  }
+
+  /**
+   * Starts a virtual Xvfb display and drives it, until `close` is called.
+   * @param display - The display name, e.g. ":99".
+   * @param width - The width of the screen in pixels.
+   * @param height - The height of the screen in pixels.
+   */
+  public async startXvfb(display: string, width: number = 1280, height: number = 800) {
+    await this.close();
+    const xvfb = spawn("Xvfb", [display, "-screen", "0", `${width}x${height}x24`, "-nolisten", "tcp"], {
+      stdio: "ignore",
+    });
+    let failure: Error | undefined;
+    xvfb.once("error", (e) => (failure = e));
+    xvfb.once("exit", (code) => (failure ||= new Error(`Xvfb exited with code ${code}`)));
+    this.xvfb = xvfb;
+    this.display = display;
+    // The display accepts connections once xdotool can read its geometry
+    for (let i = 0; i < 50; i++) {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      if (failure) {
+        this.xvfb = undefined;
+        throw failure;
+      }
+      try {
+        await this.getScreenSize();
+        return;
+      } catch (e) {
+        // Not ready yet
+      }
+    }
+    await this.close();
+    throw new Error(`Xvfb display ${display} did not start`);
+  }
+
+  /**
+   * Stops the Xvfb display started by `startXvfb`.
+   */
+  public async close() {
+    const xvfb = this.xvfb;
+    this.xvfb = undefined;
+    if (xvfb && xvfb.exitCode === null && xvfb.signalCode === null) {
+      const exited = new Promise((resolve) => xvfb.once("exit", resolve));
+      xvfb.kill();
+      await exited;
+    }
+  }
+
+  /**
+   * Takes a PNG screenshot of the screen.
+   * @param agentContext - The context for the agent.
+   * @returns A promise that resolves to the screenshot image.
+   */
+  protected async screenshot(agentContext: AgentContext): Promise<{
+    imageBase64: string;
+    imageType: "image/jpeg" | "image/png";
+  }> {
+    const scaling = config.screenshotScaling;
+    let resize = "";
+    let scaleFactor = 1;
+    if (scaling.enabled) {
+      const { width, height } = await this.getScreenSize();
+      scaleFactor = Math.min(1, scaling.maxWidth / width, scaling.maxHeight / height);
+      if (scaleFactor < 1) {
+        resize = ` -resize ${Math.round(width * scaleFactor)}x${Math.round(height * scaleFactor)}!`;
+      }
+    }
+    const image = await this.exec("sh", [
+      "-c",
+      `xwd -root -silent | convert xwd:-${resize} png:-`,
+    ]);
+    this.lastScaleFactor = scaleFactor;
+    return {
+      imageBase64: image.toString("base64"),
+      imageType: "image/png",
+    };
+  }
+
+  /**
+   * Types text into the focused window.
+   * @param agentContext - The context for the agent.
+   * @param text - The text to type.
+   */
+  protected async typing(agentContext: AgentContext, text: string): Promise<void> {
+    await this.xdotool("type", "--clearmodifiers", "--delay", "12", "--", text);
+  }
+
+  /**
+   * Clicks at a position of the last screenshot.
+   * @param agentContext - The context for the agent.
+   * @param x - The x-coordinate in the screenshot.
+   * @param y - The y-coordinate in the screenshot.
+   * @param num_clicks - The number of clicks.
+   * @param button_type - The mouse button.
+   */
+  protected async click(
+    agentContext: AgentContext,
+    x: number,
+    y: number,
+    num_clicks: number,
+    button_type: "left" | "right" | "middle"
+  ): Promise<void> {
+    const point = this.toScreen(x, y);
+    const button = { left: "1", middle: "2", right: "3" }[button_type] || "1";
+    await this.xdotool(
+      "mousemove", "--sync", point.x, point.y,
+      "click", "--repeat", String(num_clicks), "--delay", "100", button
+    );
+  }
+
+  /**
+   * Scrolls the mouse wheel at the pointer position.
+   * @param agentContext - The context for the agent.
+   * @param amount - The number of wheel steps, negative to scroll up.
+   */
+  protected async scroll(agentContext: AgentContext, amount: number): Promise<void> {
+    if (amount == 0) {
+      return;
+    }
+    await this.xdotool(
+      "click", "--repeat", String(Math.abs(Math.round(amount))), "--delay", "50",
+      amount < 0 ? "4" : "5"
+    );
+  }
+
+  /**
+   * Moves the mouse to a position of the last screenshot.
+   * @param agentContext - The context for the agent.
+   * @param x - The x-coordinate in the screenshot.
+   * @param y - The y-coordinate in the screenshot.
+   */
+  protected async move_to(agentContext: AgentContext, x: number, y: number): Promise<void> {
+    const point = this.toScreen(x, y);
+    await this.xdotool("mousemove", "--sync", point.x, point.y);
+  }
+
+  /**
+   * Presses and releases a key.
+   * @param agentContext - The context for the agent.
+   * @param key - The key name, e.g. "enter".
+   */
+  protected async press(agentContext: AgentContext, key: string): Promise<void> {
+    await this.xdotool("key", "--clearmodifiers", "--", toX11Keysym(key));
+  }
+
+  /**
+   * Presses a key combination.
+   * @param agentContext - The context for the agent.
+   * @param keys - The keys joined with "+", e.g. "ctrl+c".
+   */
+  protected async hotkey(agentContext: AgentContext, keys: string): Promise<void> {
+    const keysyms = keys
+      .split(/\+(?=.)/)
+      .map((key) => toX11Keysym(key.trim() || key));
+    await this.xdotool("key", "--clearmodifiers", "--", keysyms.join("+"));
+  }
+
+  /**
+   * Drags the mouse between two positions of the last screenshot.
+   * @param agentContext - The context for the agent.
+   * @param x1 - The starting x-coordinate.
+   * @param y1 - The starting y-coordinate.
+   * @param x2 - The target x-coordinate.
+   * @param y2 - The target y-coordinate.
+   */
+  protected async drag_and_drop(
+    agentContext: AgentContext,
+    x1: number,
+    y1: number,
+    x2: number,
+    y2: number
+  ): Promise<void> {
+    const start = this.toScreen(x1, y1);
+    const end = this.toScreen(x2, y2);
+    await this.xdotool(
+      "mousemove", "--sync", start.x, start.y, "mousedown", "1",
+      "sleep", "0.1",
+      "mousemove", "--sync", end.x, end.y, "mouseup", "1"
+    );
+  }
+
+  /**
+   * Gets the size of the screen in pixels.
+   */
+  protected async getScreenSize(): Promise<{ width: number; height: number }> {
+    const output = (await this.xdotool("getdisplaygeometry")).trim();
+    const [width, height] = output.split(/\s+/).map(Number);
+    if (!width || !height) {
+      throw new Error(`Unexpected display geometry: ${output}`);
+    }
+    return { width, height };
+  }
+
+  /**
+   * Runs a command on the display and returns its standard output.
+   * @param file - The command.
+   * @param args - The arguments of the command.
+   */
+  protected exec(file: string, args: string[]): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      execFile(
+        file,
+        args,
+        {
+          encoding: "buffer",
+          maxBuffer: 64 * 1024 * 1024,
+          timeout: 30000,
+          env: { ...process.env, DISPLAY: this.display || process.env.DISPLAY || ":0" },
+        },
+        (error, stdout, stderr) => {
+          if (error) {
+            const message = stderr.toString().trim();
+            reject(new Error(`${file} failed: ${message || error.message}`));
+          } else {
+            resolve(stdout);
+          }
+        }
+      );
+    });
+  }
+
+  private async xdotool(...args: string[]): Promise<string> {
+    return (await this.exec("xdotool", args)).toString();
+  }
+
+  private toScreen(x: number, y: number): { x: string; y: string } {
+    const point = scaleCoordinates(x, y, this.lastScaleFactor);
+    return { x: String(Math.round(point.x)), y: String(Math.round(point.y)) };
+  }
+}
+
+export { ComputerAgent };
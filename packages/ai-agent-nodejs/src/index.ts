@@ -6,7 +6,15 @@
  * This package enables AI agents to run in Node.js environments with:
  * - Full Playwright browser automation capabilities
  * - Native file system access for file operations
+ * - Shell sessions running commands with child processes
+ * - X11 desktop automation (e.g. Xvfb in containers) with xdotool
  * - MCP (Model Context Protocol) support via stdio
+ * - File-based checkpoint store for resuming workflows after a restart
+ * - File-based run history store for scheduled tasks
+ * - Browser agent pool with isolated contexts over a shared browser
+ * - OTLP/JSON file exporter for task traces
+ * - File-based LLM cassettes for recording and replaying LLM calls in tests
+ * - A2A / MCP server publishing the configured agents to other services
  * - CDP (Chrome DevTools Protocol) endpoint utilities
  */
 
@@ -16,5 +24,15 @@ import { getCdpWsEndpoint } from "./utils";
 // Export core components for Node.js AI agent development
 export { getCdpWsEndpoint };           // Utility for getting Chrome DevTools Protocol endpoint
 export { BrowserAgent } from "./browser";  // Playwright-based browser automation agent
+export { BrowserAgentPool } from "./pool";  // Browser agents leased per workflow agent over a shared browser
+export type { BrowserAgentPoolOptions } from "./pool";
 export { FileAgent } from "./file";        // Native file system access agent
-export { SimpleStdioMcpClient } from "./mcp/stdio"; // MCP client for stdio communication
\ No newline at end of file
+export { ShellAgent } from "./shell";      // Shell command agent with persistent sessions
+export { ComputerAgent } from "./computer"; // X11 desktop automation agent
+export { SimpleStdioMcpClient } from "./mcp/stdio"; // MCP client for stdio communication
+export { FileCheckpointStore } from "./checkpoint"; // File system checkpoint store for durable resume
+export { FileScheduleStore } from "./schedule"; // File system run history of scheduled tasks
+export { OtlpJsonFileExporter } from "./trace"; // OTLP/JSON Lines file exporter for task traces
+export { FileLlmCassette } from "./cassette"; // LLM cassette stored as a JSON file
+export { XSkyServer } from "./server"; // A2A / MCP server exposing XSky agents
+export type { XSkyServerOptions, A2aTaskProgress } from "./server";
@@ -1,9 +1,14 @@
-import { Log, uuidv4 } from "@xsky/ai-agent-core";
+import { Log, McpServerMessages, uuidv4 } from "@xsky/ai-agent-core";
 import {
   IMcpClient,
   McpCallToolParam,
   McpListToolParam,
   McpListToolResult,
+  McpResource,
+  McpResourceContents,
+  McpPrompt,
+  McpGetPromptResult,
+  McpServerHandlers,
   ToolResult,
 } from "@xsky/ai-agent-core/types";
 import {
@@ -27,6 +32,12 @@ export class SimpleStdioMcpClient implements IMcpClient {
   private process: ChildProcessWithoutNullStreams | null = null;
   /** Map of request IDs to their response callbacks */
   private requestMap: Map<string, (messageData: any) => void>;
+  /** Listeners of the subscribed resources by URI */
+  private resourceListeners: Map<string, Set<(uri: string) => void>> = new Map();
+  /** Partial line of stdout, messages are newline delimited */
+  private buffer: string = "";
+  /** Dispatcher of the notifications and requests initiated by the server */
+  private serverMessages = new McpServerMessages(async (message) => this.write(message));
 
   /**
    * Creates a new SimpleStdioMcpClient.
@@ -48,7 +59,7 @@ export class SimpleStdioMcpClient implements IMcpClient {
   }
 
   /**
-   * Connects to the MCP server by spawning the child process.
+   * Connects to the MCP server by spawning the child process and initializing the session.
    * If already connected, kills the existing process and reconnects.
    * @param signal - Optional AbortSignal to cancel the connection.
    * @returns A promise that resolves when connected.
@@ -59,24 +70,44 @@ export class SimpleStdioMcpClient implements IMcpClient {
         this.process.kill();
       } catch (e) {}
     }
-    this.process = spawn(this.command, this.args, this.options);
-    this.process.stdout.on("data", (data) => {
-      const response = data.toString().trim();
-      Log.debug("MCP Client, onmessage", this.command, this.args, response);
-      if (!response.startsWith("{")) {
-        return;
-      }
-      const message = JSON.parse(response);
-      if (message.id) {
-        const callback = this.requestMap.get(message.id);
-        if (callback) {
-          callback(message);
-        }
-      }
+    const child = spawn(this.command, this.args, this.options);
+    this.process = child;
+    this.buffer = "";
+    child.stdout.on("data", (data) => {
+      const lines = (this.buffer + data.toString()).split("\n");
+      this.buffer = lines.pop() || "";
+      lines.forEach((line) => this.onLine(line.trim()));
     });
-    this.process.on("error", (error) => {
+    child.on("error", (error) => {
       Log.error("MCP process error:", this.command, this.args, error);
     });
+    child.on("exit", (code) => {
+      if (this.process !== child) {
+        return;
+      }
+      // Fail the pending requests instead of waiting forever
+      const error = `MCP server exited with code ${code}`;
+      this.requestMap.forEach((callback) => callback({ error }));
+    });
+    await this.sendMessage(
+      "initialize",
+      {
+        protocolVersion: "2025-06-18",
+        capabilities: {
+          tools: {
+            listChanged: true,
+          },
+          sampling: {},
+          elicitation: {},
+        },
+        clientInfo: {
+          name: "XSkyMcpClient",
+          version: "1.0.0",
+        },
+      },
+      signal
+    );
+    this.write({ jsonrpc: "2.0", method: "notifications/initialized", params: {} });
     Log.info("MCP Client, connection successful:", this.command, this.args);
   }
 
@@ -108,18 +139,179 @@ export class SimpleStdioMcpClient implements IMcpClient {
    */
   async callTool(
     param: McpCallToolParam,
-    signal?: AbortSignal
+    signal?: AbortSignal,
+    handlers?: McpServerHandlers
   ): Promise<ToolResult> {
+    return await this.serverMessages.track(handlers, async (progressToken) => {
+      const message = await this.sendMessage(
+        "tools/call",
+        {
+          ...param,
+          _meta: { progressToken },
+        },
+        signal
+      );
+      return message.result;
+    });
+  }
+
+  /**
+   * Listens to the `notifications/tools/list_changed` notifications of the server.
+   * @param listener - Called when the tools of the server changed.
+   * @returns A function that removes the listener.
+   */
+  onToolsChanged(listener: () => void): () => void {
+    return this.serverMessages.onToolsChanged(listener);
+  }
+
+  /**
+   * Lists available resources from the MCP server, following the pagination cursors.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to an array of resources.
+   */
+  async listResources(signal?: AbortSignal): Promise<McpResource[]> {
+    const resources: McpResource[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.sendMessage(
+        "resources/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      resources.push(...(message.result.resources || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return resources;
+  }
+
+  /**
+   * Reads a resource from the MCP server.
+   * @param uri - The URI of the resource.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to the contents of the resource.
+   */
+  async readResource(
+    uri: string,
+    signal?: AbortSignal
+  ): Promise<McpResourceContents[]> {
+    const message = await this.sendMessage("resources/read", { uri }, signal);
+    return message.result.contents || [];
+  }
+
+  /**
+   * Subscribes to the updates of a resource, the server is subscribed once per URI.
+   * @param uri - The URI of the resource.
+   * @param listener - Called with the URI when the resource is updated.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to a function that unsubscribes the listener.
+   */
+  async subscribe(
+    uri: string,
+    listener: (uri: string) => void,
+    signal?: AbortSignal
+  ): Promise<() => Promise<void>> {
+    let listeners = this.resourceListeners.get(uri);
+    if (listeners) {
+      listeners.add(listener);
+    } else {
+      // Listen before subscribing, updates may be sent before the response
+      listeners = new Set([listener]);
+      this.resourceListeners.set(uri, listeners);
+      try {
+        await this.sendMessage("resources/subscribe", { uri }, signal);
+      } catch (e) {
+        this.resourceListeners.delete(uri);
+        throw e;
+      }
+    }
+    const subscribed = listeners;
+    return async () => {
+      if (!subscribed.delete(listener) || subscribed.size > 0) {
+        return;
+      }
+      this.resourceListeners.delete(uri);
+      await this.sendMessage("resources/unsubscribe", { uri });
+    };
+  }
+
+  /**
+   * Lists available prompts from the MCP server, following the pagination cursors.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to an array of prompts.
+   */
+  async listPrompts(signal?: AbortSignal): Promise<McpPrompt[]> {
+    const prompts: McpPrompt[] = [];
+    let cursor: string | undefined;
+    do {
+      const message = await this.sendMessage(
+        "prompts/list",
+        cursor ? { cursor } : {},
+        signal
+      );
+      prompts.push(...(message.result.prompts || []));
+      cursor = message.result.nextCursor;
+    } while (cursor);
+    return prompts;
+  }
+
+  /**
+   * Gets a prompt from the MCP server, filled with its arguments.
+   * @param name - The name of the prompt.
+   * @param args - Optional values of the arguments of the prompt.
+   * @param signal - Optional AbortSignal to cancel the request.
+   * @returns A promise resolving to the messages of the prompt.
+   */
+  async getPrompt(
+    name: string,
+    args?: Record<string, string>,
+    signal?: AbortSignal
+  ): Promise<McpGetPromptResult> {
     const message = await this.sendMessage(
-      "tools/call",
-      {
-        ...param,
-      },
+      "prompts/get",
+      { name, arguments: args || {} },
       signal
     );
     return message.result;
   }
 
+  /**
+   * Handles a line of stdout, resolving the request of a response or dispatching a server message.
+   * @param line - The line, a JSON-RPC 2.0 message or log output of the server.
+   */
+  private onLine(line: string) {
+    Log.debug("MCP Client, onmessage", this.command, this.args, line);
+    if (!line.startsWith("{")) {
+      return;
+    }
+    let message: any;
+    try {
+      message = JSON.parse(line);
+    } catch (e) {
+      Log.warn("MCP Client, invalid message:", line);
+      return;
+    }
+    if (message.method == "notifications/resources/updated") {
+      const uri = message.params?.uri;
+      this.resourceListeners.get(uri)?.forEach((listener) => listener(uri));
+    } else if (!this.serverMessages.dispatch(message) && message.id) {
+      const callback = this.requestMap.get(message.id);
+      if (callback) {
+        callback(message);
+      }
+    }
+  }
+
+  /**
+   * Writes a JSON-RPC 2.0 message to the stdin of the server, e.g. a notification or a response.
+   * @param message - The message to write.
+   */
+  private write(message: Record<string, unknown>) {
+    if (!this.process) {
+      throw new Error("MCP server is not connected");
+    }
+    this.process.stdin.write(JSON.stringify(message) + "\n", "utf-8");
+  }
+
   /**
    * Sends a JSON-RPC 2.0 message to the MCP server and waits for a response.
    * @param method - The JSON-RPC method to call.
@@ -0,0 +1,97 @@
+import { chromium, type Browser, type LaunchOptions } from "playwright";
+import { AgentPool, type AgentPoolOptions } from "@xsky/ai-agent-core";
+import { BrowserAgent } from "./browser";
+
+/**
+ * Options of a browser agent pool.
+ * @property maxSize - Maximum number of agent instances, defaults to 4.
+ * @property headless - Whether the shared browser runs headless, defaults to true.
+ * @property launchOptions - Additional Playwright launch options of the shared browser.
+ * @property createAgent - Creates a browser agent, e.g. with its LLMs or extra tools,
+ *   defaults to `new BrowserAgent()`.
+ * @property launch - Launches the shared browser, defaults to launching Chromium.
+ * @property factories - Factories of other pooled agents, by agent name.
+ */
+export type BrowserAgentPoolOptions = {
+  maxSize?: number;
+  headless?: boolean;
+  launchOptions?: LaunchOptions;
+  createAgent?: () => BrowserAgent;
+  launch?: () => Promise<Browser>;
+  factories?: AgentPoolOptions["factories"];
+};
+
+/**
+ * An agent pool of browser agents sharing one browser, each agent instance browsing in
+ * its own Playwright context. Parallel workflow agents get separate pages, cookies and
+ * storage, and an instance leased to another task starts from an empty context.
+ *
+ * @example
+ * const agentPool = new BrowserAgentPool({ maxSize: 3 });
+ * const xsky = new XSky({ llms, agents: [new BrowserAgent()], agentPool });
+ * // ...
+ * await agentPool.close();
+ */
+export class BrowserAgentPool extends AgentPool {
+  private closeBrowser: () => Promise<void>;
+
+  /**
+   * Creates a new BrowserAgentPool, the shared browser is launched by the first lease.
+   * @param options - The pool size, browser launch and agent creation options.
+   */
+  constructor(options: BrowserAgentPoolOptions = {}) {
+    const createAgent = options.createAgent || (() => new BrowserAgent());
+    const launch =
+      options.launch ||
+      (() =>
+        chromium.launch({
+          headless: options.headless ?? true,
+          args: ["--no-sandbox", "--disable-dev-shm-usage"],
+          ...options.launchOptions,
+        }));
+    let browser: Promise<Browser> | undefined;
+    const getBrowser = () => {
+      browser = browser || launch();
+      // A failed launch is retried by the next lease
+      browser.catch(() => (browser = undefined));
+      return browser;
+    };
+    super({
+      factories: {
+        ...options.factories,
+        Browser: async () => {
+          const agent = createAgent();
+          agent.setBrowser(await getBrowser());
+          return agent;
+        },
+      },
+      maxSize: options.maxSize,
+      recycle: async (agent) => {
+        if (agent instanceof BrowserAgent) {
+          await agent.resetSession();
+        }
+      },
+      destroy: async (agent) => {
+        if (agent instanceof BrowserAgent) {
+          await agent.close();
+        }
+      },
+    });
+    this.closeBrowser = async () => {
+      const launched = browser;
+      browser = undefined;
+      if (launched) {
+        await (await launched.catch(() => undefined))?.close();
+      }
+    };
+  }
+
+  /**
+   * Closes the pool and its agent instances, and the shared browser.
+   * Leased instances are closed when released, after the shared browser is closed.
+   */
+  async close(): Promise<void> {
+    await super.close();
+    await this.closeBrowser();
+  }
+}
@@ -0,0 +1,100 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  Log,
+  type IScheduleStore,
+  type ScheduleRun,
+} from "@xsky/ai-agent-core";
+
+/**
+ * A schedule store that persists the run history of each schedule as a JSON file,
+ * so that the last results of recurring tasks survive a process restart.
+ *
+ * @example
+ * const scheduler = new Scheduler(xsky, {
+ *   store: new FileScheduleStore("./.xsky/schedules"),
+ * });
+ */
+export class FileScheduleStore implements IScheduleStore {
+  private directory: string;
+  private historyLimit: number;
+  /** Pending writes by schedule, the runs of a schedule share one file */
+  private writes: Map<string, Promise<void>> = new Map();
+
+  /**
+   * Creates a new FileScheduleStore.
+   * @param directory - The directory history files are written to (created on demand).
+   * @param historyLimit - Maximum number of runs kept per schedule, defaults to 100.
+   */
+  constructor(directory: string, historyLimit: number = 100) {
+    this.directory = path.resolve(directory);
+    this.historyLimit = historyLimit;
+  }
+
+  /**
+   * Writes a run to the history of its schedule, replacing its previous state.
+   * Writes of a schedule are serialized, and each file is written to a temporary path
+   * and renamed, so a crash never leaves a partial history.
+   * @param run - The run to persist.
+   */
+  async saveRun(run: ScheduleRun): Promise<void> {
+    const previous = this.writes.get(run.scheduleId) || Promise.resolve();
+    const write = previous.catch(() => {}).then(async () => {
+      const runs = await this.readRuns(run.scheduleId);
+      const index = runs.findIndex((item) => item.runId == run.runId);
+      if (index > -1) {
+        runs[index] = run;
+      } else {
+        runs.unshift(run);
+        runs.splice(this.historyLimit);
+      }
+      await fs.mkdir(this.directory, { recursive: true });
+      const filePath = this.filePath(run.scheduleId);
+      const tempPath = `${filePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(runs), "utf-8");
+      await fs.rename(tempPath, filePath);
+    });
+    this.writes.set(run.scheduleId, write);
+    try {
+      await write;
+    } finally {
+      if (this.writes.get(run.scheduleId) == write) {
+        this.writes.delete(run.scheduleId);
+      }
+    }
+  }
+
+  /**
+   * Reads the run history of a schedule, most recent first.
+   * @param scheduleId - The ID of the schedule.
+   * @param limit - Maximum number of runs.
+   */
+  async listRuns(scheduleId: string, limit?: number): Promise<ScheduleRun[]> {
+    await this.writes.get(scheduleId)?.catch(() => {});
+    const runs = await this.readRuns(scheduleId);
+    return runs.slice(0, limit ?? runs.length);
+  }
+
+  private async readRuns(scheduleId: string): Promise<ScheduleRun[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath(scheduleId), "utf-8");
+    } catch (e: any) {
+      if (e?.code === "ENOENT") {
+        return [];
+      }
+      throw e;
+    }
+    try {
+      return JSON.parse(content);
+    } catch (e) {
+      Log.warn(`Ignoring corrupted run history of schedule ${scheduleId}`, e);
+      return [];
+    }
+  }
+
+  private filePath(scheduleId: string): string {
+    // Schedule IDs are user supplied, never let them escape the history directory
+    return path.join(this.directory, encodeURIComponent(scheduleId) + ".json");
+  }
+}
@@ -0,0 +1,397 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { Agent, partsToText, uuidv4 } from "@xsky/ai-agent-core";
+import {
+  A2aPart,
+  A2aTask,
+  A2aMessage,
+  A2aAgentCard,
+  A2aTaskState,
+  A2aTaskStatus,
+  A2aStreamEvent,
+  StreamCallbackMessage,
+} from "@xsky/ai-agent-core/types";
+import type { XSkyServer } from "./index";
+import { A2aTaskProgress, HumanRequest } from "./types";
+import {
+  JsonRpcError,
+  JsonRpcMessage,
+  RpcErrorCode,
+  sendError,
+  sendResult,
+  startSse,
+  writeSse,
+} from "./rpc";
+
+const TERMINAL_STATES: A2aTaskState[] = [
+  "completed",
+  "canceled",
+  "failed",
+  "rejected",
+];
+
+/**
+ * A task accepted over A2A, together with the state of its XSky run.
+ */
+type ServerTask = {
+  task: A2aTask;
+  pending?: (answer: string | undefined) => void;
+  listeners: Set<(event: A2aStreamEvent) => void>;
+  /** Time the task reached a terminal state, finished tasks are evicted after `taskTtl` */
+  finishedAt?: number;
+};
+
+/**
+ * Serves the A2A JSON-RPC methods `message/send`, `message/stream`, `tasks/get`
+ * and `tasks/cancel` on top of an XSkyServer.
+ */
+export class A2aServerHandler {
+  private server: XSkyServer;
+  private tasks: Map<string, ServerTask> = new Map();
+
+  constructor(server: XSkyServer) {
+    this.server = server;
+  }
+
+  /**
+   * Builds the agent card of a single agent, or the root card listing all agents as skills.
+   * @param baseUrl - The public base URL of the server.
+   * @param agent - Optional agent to describe.
+   */
+  getAgentCard(baseUrl: string, agent?: Agent): A2aAgentCard {
+    const options = this.server.Options;
+    const card = {
+      version: options.version || "1.0.0",
+      protocolVersion: "0.3.0",
+      capabilities: { streaming: true, pushNotifications: false },
+      defaultInputModes: ["text/plain"],
+      defaultOutputModes: ["text/plain", "application/json"],
+    };
+    if (agent) {
+      return {
+        ...card,
+        name: agent.Name,
+        description: agent.Description,
+        url: `${baseUrl}/a2a/${encodeURIComponent(agent.Name)}`,
+        skills: [
+          { id: agent.Name, name: agent.Name, description: agent.Description },
+        ],
+      };
+    }
+    return {
+      ...card,
+      name: options.name || "XSky",
+      description:
+        options.description ||
+        "Plans and runs tasks across the following agents.",
+      url: `${baseUrl}/a2a`,
+      skills: this.server.Agents.map((agent) => ({
+        id: agent.Name,
+        name: agent.Name,
+        description: agent.Description,
+      })),
+    };
+  }
+
+  /**
+   * Handles an A2A JSON-RPC request.
+   * @param message - The JSON-RPC request.
+   * @param req - The incoming request.
+   * @param res - The server response.
+   * @param agentName - The agent addressed by the endpoint, if any.
+   */
+  async handle(
+    message: JsonRpcMessage,
+    req: IncomingMessage,
+    res: ServerResponse,
+    agentName?: string
+  ): Promise<void> {
+    const params = message.params || {};
+    try {
+      switch (message.method) {
+        case "message/send": {
+          const task = this.onMessage(params.message, agentName);
+          if (params.configuration?.blocking !== false) {
+            await this.waitForInterrupt(task);
+          }
+          return sendResult(res, message.id, task.task);
+        }
+        case "message/stream": {
+          return this.onStream(message, res, agentName);
+        }
+        case "tasks/get": {
+          return sendResult(res, message.id, this.getTask(params.id).task);
+        }
+        case "tasks/cancel": {
+          const task = this.getTask(params.id);
+          if (TERMINAL_STATES.indexOf(task.task.status.state) > -1) {
+            throw new JsonRpcError(
+              RpcErrorCode.TASK_NOT_CANCELABLE,
+              "Task cannot be canceled"
+            );
+          }
+          this.cancel(task);
+          return sendResult(res, message.id, task.task);
+        }
+        default:
+          throw new JsonRpcError(
+            RpcErrorCode.METHOD_NOT_FOUND,
+            "Method not found: " + message.method
+          );
+      }
+    } catch (e) {
+      sendError(res, message.id, e);
+    }
+  }
+
+  private onStream(
+    message: JsonRpcMessage,
+    res: ServerResponse,
+    agentName?: string
+  ) {
+    // Events raised while the message is accepted are written after the task snapshot
+    const queued: A2aStreamEvent[] = [];
+    let started = false;
+    const write = (event: A2aStreamEvent) => {
+      writeSse(res, { id: message.id, result: event });
+      if (event.kind == "status-update" && event.final) {
+        res.end();
+      }
+    };
+    const listener = (event: A2aStreamEvent) => {
+      started ? write(event) : queued.push(event);
+    };
+    const task = this.onMessage(message.params?.message, agentName, listener);
+    startSse(res);
+    writeSse(res, { id: message.id, result: task.task });
+    started = true;
+    queued.forEach(write);
+    const unsubscribe = () => task.listeners.delete(listener);
+    res.on("close", unsubscribe);
+  }
+
+  /**
+   * Starts a new task, or answers the pending human request of an existing one.
+   */
+  private onMessage(
+    message: A2aMessage,
+    agentName?: string,
+    listener?: (event: A2aStreamEvent) => void
+  ): ServerTask {
+    if (!message || !Array.isArray(message.parts)) {
+      throw new JsonRpcError(RpcErrorCode.INVALID_PARAMS, "Invalid message");
+    }
+    if (message.taskId) {
+      const task = this.getTask(message.taskId);
+      if (!task.pending) {
+        throw new JsonRpcError(
+          RpcErrorCode.INVALID_PARAMS,
+          `Task ${message.taskId} is not waiting for input`
+        );
+      }
+      listener && task.listeners.add(listener);
+      const pending = task.pending;
+      task.pending = undefined;
+      this.updateStatus(task, { state: "working" }, false);
+      pending(partsToText(message.parts));
+      return task;
+    }
+    const task: ServerTask = {
+      task: {
+        kind: "task",
+        id: uuidv4(),
+        contextId: message.contextId || uuidv4(),
+        status: { state: "submitted", timestamp: new Date().toISOString() },
+        history: [message],
+      },
+      listeners: new Set(listener ? [listener] : []),
+    };
+    this.evictFinished();
+    this.tasks.set(task.task.id, task);
+    this.start(task, partsToText(message.parts), agentName);
+    return task;
+  }
+
+  private start(task: ServerTask, taskPrompt: string, agentName?: string) {
+    const taskId = task.task.id;
+    this.server
+      .runTask(taskId, taskPrompt, agentName, {
+        onMessage: (message) => {
+          const progress = taskProgress(message);
+          if (!progress) {
+            return;
+          }
+          this.updateStatus(
+            task,
+            {
+              state: "working",
+              message: agentMessage(task.task, [{ kind: "data", data: progress }]),
+            },
+            false,
+            false
+          );
+        },
+        onHumanRequest: (request) => this.askHuman(task, request),
+      })
+      .then((result) => {
+        if (result.success) {
+          const artifact = {
+            artifactId: uuidv4(),
+            name: "result",
+            parts: [{ kind: "text", text: result.result } as A2aPart],
+          };
+          task.task.artifacts = [artifact];
+          this.emit(task, {
+            kind: "artifact-update",
+            taskId,
+            contextId: task.task.contextId,
+            artifact,
+            lastChunk: true,
+          });
+          this.updateStatus(task, { state: "completed" }, true);
+        } else {
+          this.updateStatus(
+            task,
+            {
+              state: result.stopReason == "abort" ? "canceled" : "failed",
+              message: agentMessage(task.task, [
+                { kind: "text", text: result.result },
+              ]),
+            },
+            true
+          );
+        }
+      });
+  }
+
+  private askHuman(
+    task: ServerTask,
+    request: HumanRequest
+  ): Promise<string | undefined> {
+    return new Promise((resolve) => {
+      task.pending = resolve;
+      const { prompt, ...data } = request;
+      this.updateStatus(
+        task,
+        {
+          state: "input-required",
+          message: agentMessage(task.task, [
+            { kind: "text", text: prompt },
+            { kind: "data", data },
+          ]),
+        },
+        true
+      );
+    });
+  }
+
+  private cancel(task: ServerTask) {
+    const pending = task.pending;
+    task.pending = undefined;
+    this.server.abortTask(task.task.id);
+    this.updateStatus(task, { state: "canceled" }, true);
+    pending && pending(undefined);
+  }
+
+  /**
+   * Updates the status of a task and notifies its listeners.
+   * @param store - Whether the status message is kept on the task; stream messages are only forwarded.
+   */
+  private updateStatus(
+    task: ServerTask,
+    status: A2aTaskStatus,
+    final: boolean,
+    store: boolean = true
+  ) {
+    if (TERMINAL_STATES.indexOf(task.task.status.state) > -1) {
+      return;
+    }
+    status.timestamp = new Date().toISOString();
+    if (TERMINAL_STATES.indexOf(status.state) > -1) {
+      task.finishedAt = Date.now();
+    }
+    task.task.status = store
+      ? status
+      : { ...task.task.status, state: status.state, timestamp: status.timestamp };
+    this.emit(task, {
+      kind: "status-update",
+      taskId: task.task.id,
+      contextId: task.task.contextId,
+      status,
+      final,
+    });
+  }
+
+  private emit(task: ServerTask, event: A2aStreamEvent) {
+    [...task.listeners].forEach((listener) => listener(event));
+    if (event.kind == "status-update" && event.final) {
+      task.listeners.clear();
+    }
+  }
+
+  private waitForInterrupt(task: ServerTask): Promise<void> {
+    const state = task.task.status.state;
+    if (TERMINAL_STATES.indexOf(state) > -1 || state == "input-required") {
+      return Promise.resolve();
+    }
+    return new Promise((resolve) => {
+      const listener = (event: A2aStreamEvent) => {
+        if (event.kind == "status-update" && event.final) {
+          task.listeners.delete(listener);
+          resolve();
+        }
+      };
+      task.listeners.add(listener);
+    });
+  }
+
+  /**
+   * Evicts the finished tasks older than `taskTtl`, and the oldest beyond `maxFinishedTasks`.
+   */
+  private evictFinished() {
+    const options = this.server.Options;
+    const expiredAt = Date.now() - (options.taskTtl ?? 3600) * 1000;
+    const maxFinishedTasks = options.maxFinishedTasks ?? 1000;
+    [...this.tasks.values()]
+      .filter((task) => task.finishedAt !== undefined)
+      .sort((a, b) => b.finishedAt! - a.finishedAt!)
+      .forEach((task, index) => {
+        if (index >= maxFinishedTasks || task.finishedAt! <= expiredAt) {
+          this.tasks.delete(task.task.id);
+        }
+      });
+  }
+
+  private getTask(taskId: string): ServerTask {
+    const task = taskId && this.tasks.get(taskId);
+    if (!task) {
+      throw new JsonRpcError(RpcErrorCode.TASK_NOT_FOUND, "Task not found");
+    }
+    return task;
+  }
+}
+
+/**
+ * Maps a stream message to the progress sent to A2A clients: the finished texts of
+ * the agents and the tools they call. Streaming deltas and internal messages are not sent.
+ */
+function taskProgress(message: StreamCallbackMessage): A2aTaskProgress | undefined {
+  if (message.type == "text" && message.streamDone) {
+    return { type: "text", agentName: message.agentName, text: message.text };
+  }
+  if (message.type == "tool_use") {
+    return { type: "tool", agentName: message.agentName, toolName: message.toolName };
+  }
+  return undefined;
+}
+
+function agentMessage(task: A2aTask, parts: A2aPart[]): A2aMessage {
+  return {
+    kind: "message",
+    messageId: uuidv4(),
+    role: "agent",
+    parts,
+    taskId: task.id,
+    contextId: task.contextId,
+  };
+}
+
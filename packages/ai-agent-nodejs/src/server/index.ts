@@ -0,0 +1,291 @@
+import http, { IncomingMessage, ServerResponse } from "http";
+import { AddressInfo } from "net";
+import {
+  XSky,
+  Log,
+  Agent,
+  AgentContext,
+  buildSimpleAgentWorkflow,
+} from "@xsky/ai-agent-core";
+import {
+  XSkyConfig,
+  XSkyResult,
+  HumanCallback,
+  StreamCallback,
+  StreamCallbackMessage,
+} from "@xsky/ai-agent-core/types";
+import { A2aServerHandler } from "./a2a";
+import { McpServerHandler } from "./mcp";
+import { JsonRpcError, readJsonBody, sendError, sendJson } from "./rpc";
+import { HumanRequest, ServerTaskChannel, XSkyServerOptions } from "./types";
+
+/**
+ * Publishes the agents of an XSky instance over the A2A and MCP protocols.
+ *
+ * Routes:
+ * - `GET /.well-known/agent-card.json` - root agent card; tasks are planned across all agents
+ * - `POST /a2a` - A2A JSON-RPC endpoint of the root agent
+ * - `GET /a2a/{agent}/.well-known/agent-card.json` - agent card of a single agent
+ * - `POST /a2a/{agent}` - A2A JSON-RPC endpoint running a single agent
+ * - `POST /mcp` - MCP endpoint exposing every agent as a tool
+ *
+ * Stream messages are forwarded to the client over SSE, and human callbacks
+ * (`onHumanConfirm`, `onHumanInput`, `onHumanSelect`, `onHumanHelp`) are turned into
+ * A2A `input-required` states or MCP elicitation requests.
+ *
+ * @example
+ * const server = new XSkyServer({ llms, agents: [new BrowserAgent(), new FileAgent()] });
+ * const url = await server.listen(8080);
+ */
+export class XSkyServer {
+  private xsky: XSky;
+  private config: XSkyConfig;
+  private options: XSkyServerOptions;
+  private channels: Map<string, ServerTaskChannel> = new Map();
+  private a2a: A2aServerHandler;
+  private mcp: McpServerHandler;
+  private server?: http.Server;
+
+  /**
+   * Creates an instance of the XSkyServer.
+   * @param config - The XSky configuration; its callback still receives all stream messages.
+   * @param options - Server options.
+   */
+  constructor(config: XSkyConfig, options: XSkyServerOptions = {}) {
+    this.config = config;
+    this.options = options;
+    this.xsky = new XSky({
+      ...config,
+      callback: this.createCallback(config.callback),
+    });
+    this.a2a = new A2aServerHandler(this);
+    this.mcp = new McpServerHandler(this);
+  }
+
+  /**
+   * Starts listening for HTTP requests.
+   * @param port - The port to listen on; 0 picks a free port.
+   * @param host - The host to bind to.
+   * @returns A promise that resolves to the base URL of the server.
+   */
+  async listen(port: number = 0, host: string = "127.0.0.1"): Promise<string> {
+    const server = http.createServer((req, res) => this.handleRequest(req, res));
+    this.server = server;
+    await new Promise<void>((resolve) => server.listen(port, host, resolve));
+    const address = server.address() as AddressInfo;
+    return `http://${host}:${address.port}`;
+  }
+
+  /**
+   * Stops the server, aborts the running tasks and releases their contexts.
+   */
+  async close(): Promise<void> {
+    this.xsky.getAllTaskId().forEach((taskId) => {
+      this.xsky.abortTask(taskId, "Server closed");
+      this.xsky.deleteTask(taskId);
+    });
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  /**
+   * Handles an HTTP request; can be mounted on an existing Node.js HTTP server.
+   * @param req - The incoming request.
+   * @param res - The server response.
+   */
+  async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const baseUrl = this.options.url || `http://${req.headers.host}`;
+    const path = new URL(req.url || "/", baseUrl).pathname.replace(/\/+$/, "");
+    const segments = path.split("/").filter((s) => s).map(decodeURIComponent);
+    try {
+      if (req.method == "GET" && path.endsWith("/.well-known/agent-card.json")) {
+        const agentPath = segments.slice(0, -2);
+        if (agentPath.length == 0) {
+          return sendJson(res, 200, this.a2a.getAgentCard(baseUrl));
+        }
+        const agent = agentPath[0] == "a2a" && this.getAgent(agentPath[1]);
+        if (agent && agentPath.length == 2) {
+          return sendJson(res, 200, this.a2a.getAgentCard(baseUrl, agent));
+        }
+      } else if (req.method == "POST" && segments[0] == "a2a") {
+        if (segments.length == 1 || this.getAgent(segments[1])) {
+          const message = await readJsonBody(req, this.options.maxBodySize);
+          return await this.a2a.handle(message, req, res, segments[1]);
+        }
+      } else if (req.method == "POST" && path == "/mcp") {
+        const message = await readJsonBody(req, this.options.maxBodySize);
+        return await this.mcp.handle(message, req, res);
+      }
+      sendJson(res, 404, { error: "Not found" });
+    } catch (e) {
+      if (!(e instanceof JsonRpcError)) {
+        Log.error("XSkyServer error:", e);
+      }
+      if (!res.headersSent) {
+        sendError(res, null, e);
+      } else {
+        res.end();
+      }
+    }
+  }
+
+  /**
+   * The published agents.
+   */
+  get Agents(): Agent[] {
+    return this.config.agents || [];
+  }
+
+  /**
+   * The server options.
+   */
+  get Options(): XSkyServerOptions {
+    return this.options;
+  }
+
+  /**
+   * Finds a published agent by name.
+   * @param name - The agent name.
+   */
+  getAgent(name: string): Agent | undefined {
+    return this.Agents.find((agent) => agent.Name == name);
+  }
+
+  /**
+   * Runs a task, either on a single agent or planned across all agents.
+   * @param taskId - The ID of the task.
+   * @param taskPrompt - The task prompt.
+   * @param agentName - Optional name of the agent that runs the task without planning.
+   * @param channel - Receives the stream messages and human requests of the task.
+   * @returns A promise that resolves to the result of the task.
+   */
+  async runTask(
+    taskId: string,
+    taskPrompt: string,
+    agentName: string | undefined,
+    channel: ServerTaskChannel
+  ): Promise<XSkyResult> {
+    this.channels.set(taskId, channel);
+    try {
+      if (!agentName) {
+        return await this.xsky.run(taskPrompt, taskId);
+      }
+      const workflow = buildSimpleAgentWorkflow({
+        taskId,
+        name: taskPrompt,
+        agentName,
+        task: taskPrompt,
+      });
+      workflow.taskPrompt = taskPrompt;
+      await this.xsky.initContext(workflow);
+      return await this.xsky.execute(taskId);
+    } catch (e: any) {
+      Log.error("XSkyServer task error:", e);
+      return {
+        taskId,
+        success: false,
+        stopReason: "error",
+        result: e ? e.name + ": " + e.message : "Error",
+        error: e,
+      };
+    } finally {
+      this.channels.delete(taskId);
+    }
+  }
+
+  /**
+   * Aborts a running task.
+   * @param taskId - The ID of the task.
+   * @returns True if the task was found.
+   */
+  abortTask(taskId: string): boolean {
+    return this.xsky.abortTask(taskId, "Canceled by client");
+  }
+
+  private createCallback(
+    callback?: StreamCallback & HumanCallback
+  ): StreamCallback & HumanCallback {
+    const ask = async (
+      agentContext: AgentContext,
+      request: HumanRequest
+    ): Promise<string | undefined> => {
+      const channel = this.channels.get(agentContext.context.taskId);
+      return channel ? await channel.onHumanRequest(request) : undefined;
+    };
+    const hasChannel = (agentContext: AgentContext) =>
+      this.channels.has(agentContext.context.taskId);
+    return {
+      onMessage: async (
+        message: StreamCallbackMessage,
+        agentContext?: AgentContext
+      ) => {
+        this.channels.get(message.taskId)?.onMessage(message);
+        await callback?.onMessage(message, agentContext);
+      },
+      onHumanConfirm: async (agentContext, prompt, extInfo) => {
+        if (!hasChannel(agentContext) && callback?.onHumanConfirm) {
+          return await callback.onHumanConfirm(agentContext, prompt, extInfo);
+        }
+        const answer = await ask(agentContext, { kind: "confirm", prompt });
+        return !!answer && /^(y|yes|true|ok|confirm|approve)/i.test(answer.trim());
+      },
+      onHumanInput: async (agentContext, prompt, extInfo) => {
+        if (!hasChannel(agentContext) && callback?.onHumanInput) {
+          return await callback.onHumanInput(agentContext, prompt, extInfo);
+        }
+        return (await ask(agentContext, { kind: "input", prompt })) || "";
+      },
+      onHumanSelect: async (agentContext, prompt, options, multiple, extInfo) => {
+        if (!hasChannel(agentContext) && callback?.onHumanSelect) {
+          return await callback.onHumanSelect(
+            agentContext,
+            prompt,
+            options,
+            multiple,
+            extInfo
+          );
+        }
+        const answer = await ask(agentContext, {
+          kind: "select",
+          prompt,
+          options,
+          multiple,
+        });
+        const selected = (answer || "")
+          .split(/[,\n]/)
+          .map((s) => s.trim())
+          .filter((s) => options.indexOf(s) > -1);
+        return multiple ? selected : selected.slice(0, 1);
+      },
+      onHumanHelp: async (agentContext, helpType, prompt, extInfo) => {
+        if (!hasChannel(agentContext) && callback?.onHumanHelp) {
+          return await callback.onHumanHelp(
+            agentContext,
+            helpType,
+            prompt,
+            extInfo
+          );
+        }
+        const answer = await ask(agentContext, {
+          kind: "help",
+          helpType,
+          prompt,
+        });
+        return answer !== undefined;
+      },
+    };
+  }
+}
+
+export { A2aServerHandler } from "./a2a";
+export { McpServerHandler } from "./mcp";
+export type {
+  XSkyServerOptions,
+  HumanRequest,
+  ServerTaskChannel,
+  A2aTaskProgress,
+} from "./types";
@@ -0,0 +1,239 @@
+import { IncomingMessage, ServerResponse } from "http";
+import { uuidv4 } from "@xsky/ai-agent-core";
+import { StreamCallbackMessage } from "@xsky/ai-agent-core/types";
+import type { XSkyServer } from "./index";
+import { HumanRequest } from "./types";
+import {
+  acceptsSse,
+  JsonRpcError,
+  JsonRpcMessage,
+  RpcErrorCode,
+  sendError,
+  sendResult,
+  startSse,
+  writeSse,
+} from "./rpc";
+
+/** Name of the MCP tool that plans and runs a task across all agents */
+export const RUN_TASK_TOOL = "xsky_run_task";
+
+const PROTOCOL_VERSION = "2025-06-18";
+
+/**
+ * Serves the agents of an XSkyServer as MCP tools over Streamable HTTP.
+ *
+ * When the client accepts `text/event-stream`, tool calls stream progress notifications
+ * and human requests are sent as `elicitation/create` requests; otherwise the tool call
+ * replies with plain JSON and human requests are declined.
+ */
+export class McpServerHandler {
+  private server: XSkyServer;
+  private elicitations: Map<string, (result: any) => void> = new Map();
+  private calls: Map<string, string> = new Map();
+
+  constructor(server: XSkyServer) {
+    this.server = server;
+  }
+
+  /**
+   * Handles an MCP JSON-RPC message.
+   * @param message - The JSON-RPC request, notification or response.
+   * @param req - The incoming request.
+   * @param res - The server response.
+   */
+  async handle(
+    message: JsonRpcMessage,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    if (!message.method) {
+      // Response of the client to an elicitation request
+      const resolve = this.elicitations.get(String(message.id));
+      this.elicitations.delete(String(message.id));
+      resolve && resolve(message.error ? undefined : message.result);
+      res.writeHead(202).end();
+      return;
+    }
+    if (message.id === undefined || message.id === null) {
+      if (message.method == "notifications/cancelled") {
+        const taskId = this.calls.get(String(message.params?.requestId));
+        taskId && this.server.abortTask(taskId);
+      }
+      res.writeHead(202).end();
+      return;
+    }
+    try {
+      switch (message.method) {
+        case "initialize":
+          return sendResult(res, message.id, {
+            protocolVersion: message.params?.protocolVersion || PROTOCOL_VERSION,
+            capabilities: { tools: { listChanged: false } },
+            serverInfo: {
+              name: this.server.Options.name || "XSky",
+              version: this.server.Options.version || "1.0.0",
+            },
+          });
+        case "ping":
+          return sendResult(res, message.id, {});
+        case "tools/list":
+          return sendResult(res, message.id, { tools: this.listTools() });
+        case "tools/call":
+          return await this.callTool(message, req, res);
+        default:
+          throw new JsonRpcError(
+            RpcErrorCode.METHOD_NOT_FOUND,
+            "Method not found: " + message.method
+          );
+      }
+    } catch (e) {
+      sendError(res, message.id, e);
+    }
+  }
+
+  private listTools() {
+    const inputSchema = {
+      type: "object",
+      properties: {
+        task: {
+          type: "string",
+          description: "Description of the task to accomplish",
+        },
+      },
+      required: ["task"],
+    };
+    return [
+      {
+        name: RUN_TASK_TOOL,
+        description:
+          "Plans and runs a task across all agents: " +
+          this.server.Agents.map((agent) => agent.Name).join(", "),
+        inputSchema,
+      },
+      ...this.server.Agents.map((agent) => ({
+        name: agent.Name,
+        description: agent.Description,
+        inputSchema,
+      })),
+    ];
+  }
+
+  private async callTool(
+    message: JsonRpcMessage,
+    req: IncomingMessage,
+    res: ServerResponse
+  ): Promise<void> {
+    const { name, arguments: args, _meta } = message.params || {};
+    const agentName = name == RUN_TASK_TOOL ? undefined : name;
+    if (agentName && !this.server.getAgent(agentName)) {
+      throw new JsonRpcError(RpcErrorCode.INVALID_PARAMS, "Unknown tool: " + name);
+    }
+    if (!args || typeof args.task != "string") {
+      throw new JsonRpcError(
+        RpcErrorCode.INVALID_PARAMS,
+        "Missing argument: task"
+      );
+    }
+    const streaming = acceptsSse(req);
+    const progressToken = _meta?.progressToken;
+    let progress = 0;
+    const taskId = uuidv4();
+    this.calls.set(String(message.id), taskId);
+    if (streaming) {
+      startSse(res);
+    }
+    try {
+      const result = await this.server.runTask(taskId, args.task, agentName, {
+        onMessage: (msg) => {
+          const text = progressText(msg);
+          if (streaming && progressToken !== undefined && text) {
+            writeSse(res, {
+              method: "notifications/progress",
+              params: { progressToken, progress: ++progress, message: text },
+            });
+          }
+        },
+        onHumanRequest: async (request) => {
+          if (!streaming) {
+            return undefined;
+          }
+          return await this.elicit(res, request);
+        },
+      });
+      const reply = {
+        id: message.id,
+        result: {
+          content: [{ type: "text", text: result.result }],
+          isError: !result.success,
+        },
+      };
+      if (streaming) {
+        writeSse(res, reply);
+        res.end();
+      } else {
+        sendResult(res, message.id, reply.result);
+      }
+    } finally {
+      this.calls.delete(String(message.id));
+    }
+  }
+
+  private elicit(
+    res: ServerResponse,
+    request: HumanRequest
+  ): Promise<string | undefined> {
+    const id = uuidv4();
+    let property: Record<string, any>;
+    if (request.kind == "confirm") {
+      property = { type: "boolean", title: "Confirm" };
+    } else if (request.kind == "help") {
+      property = { type: "boolean", title: "Done" };
+    } else if (request.kind == "select" && !request.multiple) {
+      property = { type: "string", enum: request.options };
+    } else {
+      property = { type: "string" };
+    }
+    return new Promise((resolve) => {
+      this.elicitations.set(id, (result) => {
+        if (!result || result.action != "accept") {
+          return resolve(undefined);
+        }
+        const answer = result.content?.answer;
+        if (property.type == "boolean") {
+          resolve(answer ? "yes" : request.kind == "help" ? undefined : "no");
+        } else {
+          resolve(answer === undefined ? undefined : String(answer));
+        }
+      });
+      res.once("close", () => {
+        this.elicitations.delete(id) && resolve(undefined);
+      });
+      writeSse(res, {
+        id,
+        method: "elicitation/create",
+        params: {
+          message: request.prompt,
+          requestedSchema: {
+            type: "object",
+            properties: { answer: property },
+            required: ["answer"],
+          },
+        },
+      });
+    });
+  }
+}
+
+function progressText(message: StreamCallbackMessage): string | undefined {
+  switch (message.type) {
+    case "text":
+    case "thinking":
+    case "tool_running":
+      return message.streamDone ? message.text : undefined;
+    case "agent_start":
+      return `${message.agentName} started`;
+    case "tool_use":
+      return `${message.agentName} is using ${message.toolName}`;
+    default:
+      return undefined;
+  }
+}
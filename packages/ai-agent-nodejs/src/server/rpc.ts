@@ -0,0 +1,131 @@
+import { IncomingMessage, ServerResponse } from "http";
+
+/** JSON-RPC error codes used by the server adapters */
+export const RpcErrorCode = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+  TASK_NOT_FOUND: -32001,
+  TASK_NOT_CANCELABLE: -32002,
+};
+
+/**
+ * A JSON-RPC 2.0 message received by the server.
+ */
+export type JsonRpcMessage = {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method?: string;
+  params?: any;
+  result?: any;
+  error?: { code: number; message: string };
+};
+
+/** Default maximum size of a request body in bytes */
+export const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+
+/**
+ * Error surfaced to the client as a JSON-RPC error response.
+ */
+export class JsonRpcError extends Error {
+  code: number;
+  /** HTTP status of the error response, 200 by default as JSON-RPC errors are in the body */
+  status: number;
+
+  constructor(code: number, message: string, status: number = 200) {
+    super(message);
+    this.name = "JsonRpcError";
+    this.code = code;
+    this.status = status;
+  }
+}
+
+/**
+ * Reads and parses the JSON body of a request.
+ * @param maxBodySize - Maximum size of the body in bytes.
+ * @throws JsonRpcError if the body is too large or not valid JSON.
+ */
+export async function readJsonBody(
+  req: IncomingMessage,
+  maxBodySize: number = DEFAULT_MAX_BODY_SIZE
+): Promise<any> {
+  const tooLarge = () =>
+    new JsonRpcError(RpcErrorCode.INVALID_REQUEST, "Request body too large", 413);
+  if (Number(req.headers["content-length"]) > maxBodySize) {
+    throw tooLarge();
+  }
+  let body = "";
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    // Keep draining the request so that the response can still be sent
+    if (size <= maxBodySize) {
+      body += chunk;
+    }
+  }
+  if (size > maxBodySize) {
+    throw tooLarge();
+  }
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new JsonRpcError(RpcErrorCode.PARSE_ERROR, "Parse error");
+  }
+}
+
+export function sendJson(res: ServerResponse, status: number, data: any) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
+
+export function sendResult(
+  res: ServerResponse,
+  id: JsonRpcMessage["id"],
+  result: any
+) {
+  sendJson(res, 200, { jsonrpc: "2.0", id, result });
+}
+
+export function sendError(
+  res: ServerResponse,
+  id: JsonRpcMessage["id"],
+  error: any
+) {
+  sendJson(res, error instanceof JsonRpcError ? error.status : 200, {
+    jsonrpc: "2.0",
+    id: id ?? null,
+    error: {
+      code:
+        error instanceof JsonRpcError
+          ? error.code
+          : RpcErrorCode.INTERNAL_ERROR,
+      message: error?.message || String(error),
+    },
+  });
+}
+
+/**
+ * Switches the response to a Server-Sent Events stream.
+ */
+export function startSse(res: ServerResponse) {
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+}
+
+/**
+ * Writes a JSON-RPC message as an SSE event.
+ */
+export function writeSse(res: ServerResponse, message: Record<string, any>) {
+  if (!res.writableEnded) {
+    res.write(`data: ${JSON.stringify({ jsonrpc: "2.0", ...message })}\n\n`);
+  }
+}
+
+export function acceptsSse(req: IncomingMessage): boolean {
+  return (req.headers.accept || "").indexOf("text/event-stream") > -1;
+}
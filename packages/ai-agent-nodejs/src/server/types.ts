@@ -0,0 +1,67 @@
+import { StreamCallbackMessage } from "@xsky/ai-agent-core/types";
+
+/**
+ * Options for publishing an XSky instance as an A2A / MCP server.
+ * @property name - Name of the server, used in the root agent card and MCP server info.
+ * @property description - Description of the root agent card.
+ * @property version - Version advertised in agent cards and MCP server info.
+ * @property url - Public base URL of the server; defaults to the Host header of each request.
+ * @property maxBodySize - Maximum size of a request body in bytes, larger requests are rejected
+ *   with HTTP 413; defaults to 1 MB.
+ * @property taskTtl - Seconds a finished A2A task can still be fetched with `tasks/get`; defaults to 3600.
+ * @property maxFinishedTasks - Maximum number of finished A2A tasks kept, the oldest are
+ *   evicted first; defaults to 1000.
+ */
+export type XSkyServerOptions = {
+  name?: string;
+  description?: string;
+  version?: string;
+  url?: string;
+  maxBodySize?: number;
+  taskTtl?: number;
+  maxFinishedTasks?: number;
+};
+
+/**
+ * Progress of a running task, sent to A2A clients as the data part of "working" status updates.
+ * @property type - "text" for a finished text of an agent, "tool" for a tool called by an agent.
+ * @property agentName - Name of the agent.
+ * @property toolName - Name of the tool called, for "tool" progress.
+ * @property text - The finished text, for "text" progress.
+ */
+export type A2aTaskProgress = {
+  type: "text" | "tool";
+  agentName: string;
+  toolName?: string;
+  text?: string;
+};
+
+/**
+ * A human-in-the-loop request raised by an agent while a server task is running.
+ */
+export type HumanRequest =
+  | { kind: "confirm"; prompt: string }
+  | { kind: "input"; prompt: string }
+  | { kind: "select"; prompt: string; options: string[]; multiple?: boolean }
+  | {
+      kind: "help";
+      helpType: "request_login" | "request_assistance";
+      prompt: string;
+    };
+
+/**
+ * Connects a running XSky task to the protocol request that started it.
+ */
+export interface ServerTaskChannel {
+  /**
+   * Receives every stream message emitted by the task.
+   * @param message - The stream callback message.
+   */
+  onMessage(message: StreamCallbackMessage): void;
+  /**
+   * Asks the remote client for human input.
+   * @param request - The human request raised by the agent.
+   * @returns The answer of the client, or undefined if the client declined.
+   */
+  onHumanRequest(request: HumanRequest): Promise<string | undefined>;
+}
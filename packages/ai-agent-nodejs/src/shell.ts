@@ -0,0 +1,361 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { ChildProcess, spawn } from "child_process";
+import {
+  AgentContext,
+  BaseShellAgent,
+  DefaultPermissionEvaluator,
+  Log,
+  config,
+  uuidv4,
+  validateFilePath,
+} from "@xsky/ai-agent-core";
+
+/**
+ * Saves the working directory and the exported variables of the shell when it exits,
+ * then runs the command with `eval` so that `cd` and `export` apply to that shell.
+ */
+const COMMAND_SCRIPT = `__xsky_save() {
+  __xsky_status=$?
+  "$__XSKY_NODE" -e '
+    const env = { ...process.env };
+    const file = env.__XSKY_STATE_FILE;
+    for (const key of Object.keys(env)) {
+      if (key.startsWith("__XSKY_") || key == "_") delete env[key];
+    }
+    require("fs").writeFileSync(file, JSON.stringify({ cwd: process.cwd(), env }));
+  ' 2>/dev/null
+  exit $__xsky_status
+}
+trap __xsky_save EXIT
+eval "$__XSKY_COMMAND"`;
+
+/** Minimum delay in milliseconds between two "tool_running" messages of a command */
+const STREAM_INTERVAL = 100;
+
+interface ShellSession {
+  cwd: string;
+  env: Record<string, string>;
+  stateFile: string;
+  /** Commands of a session run one after the other */
+  queue: Promise<unknown>;
+  process?: ChildProcess;
+}
+
+/**
+ * Keeps the beginning and the end of a command output, within `limit` characters.
+ */
+class OutputBuffer {
+  private head = "";
+  private tail = "";
+  private length = 0;
+
+  constructor(private limit: number) {}
+
+  append(text: string) {
+    this.length += text.length;
+    const headLimit = Math.ceil(this.limit / 2);
+    if (this.head.length < headLimit) {
+      const count = headLimit - this.head.length;
+      this.head += text.substring(0, count);
+      text = text.substring(count);
+    }
+    if (text) {
+      this.tail = (this.tail + text).slice(-(this.limit - headLimit));
+    }
+  }
+
+  toString(): string {
+    const truncated = this.length - this.head.length - this.tail.length;
+    if (truncated <= 0) {
+      return this.head + this.tail;
+    }
+    return `${this.head}\n... [${truncated} characters truncated] ...\n${this.tail}`;
+  }
+}
+
+/**
+ * A shell agent running commands with the node `child_process` module.
+ *
+ * Each session is a working directory and environment: every command runs in a new
+ * shell process, and its final working directory and exported variables are carried
+ * over to the next command of the session. The output (stdout and stderr) is streamed
+ * as "tool_running" messages and truncated to `config.largeTextLength` characters.
+ *
+ * When `config.security` is enabled, commands denied by the `system_command`
+ * permissions, or all commands when `sandboxCapabilities.allowProcessSpawn` is false,
+ * are refused before any process is spawned.
+ */
+export default class ShellAgent extends BaseShellAgent {
+  private sessions = new Map<string, ShellSession>();
+  private shell?: string;
+  private commandTimeout: number = 300000;
+
+  /**
+   * Sets the shell running the commands, `/bin/bash` (or `/bin/sh` without bash) by default.
+   * @param shell - The path of a POSIX shell.
+   */
+  public setShell(shell: string) {
+    this.shell = shell;
+  }
+
+  /**
+   * Sets the default timeout of a command, used when the LLM does not set one.
+   * @param timeout - The timeout in milliseconds.
+   */
+  public setCommandTimeout(timeout: number) {
+    this.commandTimeout = timeout;
+  }
+
+  /**
+   * Creates a new shell session.
+   * @param agentContext - The context for the agent.
+   * @param exec_dir - The working directory of the session.
+   * @returns A promise that resolves to the session ID.
+   */
+  protected async create_session(
+    agentContext: AgentContext,
+    exec_dir: string
+  ): Promise<{ session_id: string }> {
+    const validation = validateFilePath(exec_dir, true);
+    if (!validation.valid) {
+      throw new Error(`Invalid directory path: ${validation.reason}`);
+    }
+    const cwd = path.resolve(exec_dir);
+    const stats = await fs.stat(cwd);
+    if (!stats.isDirectory()) {
+      throw new Error(`Not a directory: ${cwd}`);
+    }
+    const session_id = uuidv4();
+    this.sessions.set(session_id, {
+      cwd,
+      env: { ...process.env } as Record<string, string>,
+      stateFile: path.join(os.tmpdir(), `xsky-shell-${session_id}.json`),
+      queue: Promise.resolve(),
+    });
+    return { session_id };
+  }
+
+  /**
+   * Executes a command in a shell session.
+   * @param agentContext - The context for the agent.
+   * @param session_id - The ID of the session.
+   * @param command - The command to execute.
+   * @param timeout - Optional timeout of the command in seconds.
+   * @param toolCallId - The ID of the tool call, used as stream ID of the output.
+   * @returns A promise that resolves to the output of the command.
+   */
+  protected async shell_exec(
+    agentContext: AgentContext,
+    session_id: string,
+    command: string,
+    timeout?: number,
+    toolCallId?: string
+  ): Promise<string> {
+    const session = this.getSession(session_id);
+    await this.checkPermission(agentContext, command);
+    const result = session.queue.then(() =>
+      this.runCommand(
+        agentContext,
+        session,
+        command,
+        timeout && timeout > 0 ? timeout * 1000 : this.commandTimeout,
+        toolCallId || uuidv4()
+      )
+    );
+    session.queue = result.catch(() => {});
+    return await result;
+  }
+
+  /**
+   * Closes a shell session, killing its running command.
+   * @param agentContext - The context for the agent.
+   * @param session_id - The ID of the session.
+   */
+  protected async close_session(
+    agentContext: AgentContext,
+    session_id: string
+  ): Promise<void> {
+    const session = this.getSession(session_id);
+    this.sessions.delete(session_id);
+    if (session.process) {
+      this.kill(session.process);
+    }
+    await fs.rm(session.stateFile, { force: true });
+  }
+
+  private getSession(session_id: string): ShellSession {
+    const session = this.sessions.get(session_id);
+    if (!session) {
+      throw new Error(`Shell session not found: ${session_id}`);
+    }
+    return session;
+  }
+
+  private async checkPermission(agentContext: AgentContext, command: string) {
+    const security = agentContext.context.config.security;
+    if (!security || !security.enabled) {
+      return;
+    }
+    if (security.sandboxCapabilities && !security.sandboxCapabilities.allowProcessSpawn) {
+      throw new Error("Command blocked by security policy: process spawning is not allowed");
+    }
+    const permission = await new DefaultPermissionEvaluator(security).checkResourceAccess(
+      agentContext,
+      {
+        type: "system_command",
+        identifier: command,
+        accessType: "execute",
+        permission: "allow",
+        allowed: true,
+      },
+      "shell_exec"
+    );
+    if (permission == "deny") {
+      throw new Error(`Command blocked by security policy: ${command}`);
+    }
+  }
+
+  private async runCommand(
+    agentContext: AgentContext,
+    session: ShellSession,
+    command: string,
+    timeout: number,
+    streamId: string
+  ): Promise<string> {
+    const shell = this.shell || (await this.defaultShell());
+    const signal = agentContext.context.controller.signal;
+    signal.throwIfAborted();
+    const output = new OutputBuffer(config.largeTextLength);
+    const child = spawn(shell, ["-c", COMMAND_SCRIPT], {
+      cwd: session.cwd,
+      env: {
+        ...session.env,
+        __XSKY_NODE: process.execPath,
+        __XSKY_STATE_FILE: session.stateFile,
+        __XSKY_COMMAND: command,
+      },
+      stdio: ["ignore", "pipe", "pipe"],
+      // A process group, to kill the commands started by the shell with it
+      detached: process.platform != "win32",
+    });
+    session.process = child;
+
+    let lastStream = 0;
+    let streaming = Promise.resolve();
+    const stream = (done: boolean) => {
+      const text = output.toString();
+      streaming = streaming.then(() =>
+        this.streamOutput(agentContext, streamId, text, done)
+      );
+    };
+    const onData = (data: string) => {
+      output.append(data);
+      if (Date.now() - lastStream >= STREAM_INTERVAL) {
+        lastStream = Date.now();
+        stream(false);
+      }
+    };
+    child.stdout!.setEncoding("utf8").on("data", onData);
+    child.stderr!.setEncoding("utf8").on("data", onData);
+
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      this.kill(child);
+    }, timeout);
+    const onAbort = () => this.kill(child);
+    signal.addEventListener("abort", onAbort);
+    let exitCode: number | null;
+    try {
+      exitCode = await new Promise<number | null>((resolve, reject) => {
+        child.on("error", reject);
+        child.on("close", (code) => resolve(code));
+      });
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener("abort", onAbort);
+      session.process = undefined;
+    }
+    stream(true);
+    await streaming;
+    signal.throwIfAborted();
+
+    if (!timedOut) {
+      await this.restoreState(session);
+    }
+    let result = output.toString();
+    if (timedOut) {
+      result += `\n[Command timed out after ${timeout / 1000}s and was killed]`;
+    } else if (exitCode !== 0) {
+      result += `\n[Exit code: ${exitCode}]`;
+    }
+    return result.trim() || "(no output)";
+  }
+
+  private async streamOutput(
+    agentContext: AgentContext,
+    streamId: string,
+    text: string,
+    streamDone: boolean
+  ) {
+    const context = agentContext.context;
+    const callback = this.callback || context.config.callback;
+    if (!callback) {
+      return;
+    }
+    await callback.onMessage(
+      {
+        taskId: context.taskId,
+        agentName: agentContext.agent.Name,
+        nodeId: agentContext.agentChain.agent.id,
+        type: "tool_running",
+        toolName: "shell_exec",
+        toolId: streamId,
+        text,
+        streamId,
+        streamDone,
+      },
+      agentContext
+    );
+  }
+
+  /**
+   * Carries the working directory and environment of the finished command over to the session.
+   */
+  private async restoreState(session: ShellSession) {
+    try {
+      const state = JSON.parse(await fs.readFile(session.stateFile, "utf-8"));
+      session.cwd = state.cwd;
+      session.env = state.env;
+    } catch (e) {
+      Log.warn("Failed to read the shell session state", e);
+    } finally {
+      await fs.rm(session.stateFile, { force: true });
+    }
+  }
+
+  private kill(child: ChildProcess) {
+    try {
+      if (child.pid && process.platform != "win32") {
+        process.kill(-child.pid, "SIGKILL");
+      } else {
+        child.kill("SIGKILL");
+      }
+    } catch (e) {
+      // The process has already exited
+    }
+  }
+
+  private async defaultShell(): Promise<string> {
+    try {
+      await fs.access("/bin/bash");
+      return "/bin/bash";
+    } catch (e) {
+      return "/bin/sh";
+    }
+  }
+}
+
+export { ShellAgent };
@@ -0,0 +1,59 @@
+import * as fs from "fs/promises";
+import * as path from "path";
+import {
+  toOtlpJson,
+  type SpanData,
+  type SpanExporter,
+} from "@xsky/ai-agent-core";
+
+/**
+ * A span exporter appending spans to a file in the OTLP/JSON Lines format:
+ * each export is one ExportTraceServiceRequest per line, as read by the
+ * OpenTelemetry collector `otlpjsonfile` receiver and written by its `file` exporter.
+ *
+ * @example
+ * const xsky = new XSky({
+ *   llms,
+ *   agents,
+ *   telemetry: {
+ *     exporter: new OtlpJsonFileExporter("./.xsky/traces.jsonl"),
+ *   },
+ * });
+ */
+export class OtlpJsonFileExporter implements SpanExporter {
+  private filePath: string;
+  private serviceName?: string;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Creates a new OtlpJsonFileExporter.
+   * @param filePath - The file spans are appended to (its directory is created on demand).
+   * @param serviceName - Optional `service.name` resource attribute, defaults to "xsky".
+   */
+  constructor(filePath: string, serviceName?: string) {
+    this.filePath = path.resolve(filePath);
+    this.serviceName = serviceName;
+  }
+
+  /**
+   * Appends a batch of spans as one line.
+   * Writes are serialized, so that concurrent tasks never interleave their lines.
+   * @param spans - The spans to export.
+   */
+  async export(spans: SpanData[]): Promise<void> {
+    const line = JSON.stringify(toOtlpJson(spans, this.serviceName)) + "\n";
+    const write = this.writing.then(async () => {
+      await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+      await fs.appendFile(this.filePath, line, "utf-8");
+    });
+    this.writing = write.catch(() => {});
+    await write;
+  }
+
+  /**
+   * Waits for pending writes.
+   */
+  async shutdown(): Promise<void> {
+    await this.writing;
+  }
+}
@@ -0,0 +1,65 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  RetryLanguageModel,
+  type LLMs,
+  type LLMRequest,
+} from "@xsky/ai-agent-core";
+import { FileLlmCassette } from "../src";
+
+function createLlms(): LLMs {
+  const provider: any = {
+    languageModel: (modelId: string) => ({
+      specificationVersion: "v2",
+      provider: "mock",
+      modelId,
+      supportedUrls: {},
+      doGenerate: async () => ({
+        content: [{ type: "text", text: "Recorded answer" }],
+        finishReason: "stop",
+        usage: { inputTokens: 10, outputTokens: 2, totalTokens: 12 },
+        warnings: [],
+      }),
+    }),
+  };
+  return { default: { provider, model: "mock-model", apiKey: "test" } };
+}
+
+const request: LLMRequest = {
+  messages: [{ role: "user", content: [{ type: "text", text: "Hello" }] }],
+};
+
+describe("FileLlmCassette", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "xsky-cassettes-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should save recorded calls and replay them from the file", async () => {
+    const filePath = path.join(directory, "nested", "cassette.json");
+    const recorder = await FileLlmCassette.load(filePath, "record");
+    await new RetryLanguageModel(recorder.wrap(createLlms())).call(request);
+    await recorder.save();
+
+    const player = await FileLlmCassette.load(filePath, "replay");
+    const offline: LLMs = {
+      default: { ...createLlms().default, provider: "openai", apiKey: "none" },
+    };
+    const result = await new RetryLanguageModel(player.wrap(offline)).call(request);
+
+    expect(result.text).toBe("Recorded answer");
+    expect(JSON.parse(await fs.readFile(filePath, "utf-8")).interactions).toHaveLength(1);
+  });
+
+  test("should fail to replay a missing cassette", async () => {
+    await expect(
+      FileLlmCassette.load(path.join(directory, "missing.json"), "replay")
+    ).rejects.toThrow("does not exist, record it first");
+  });
+});
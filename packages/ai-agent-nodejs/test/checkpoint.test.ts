@@ -0,0 +1,74 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { type Checkpoint } from "@xsky/ai-agent-core";
+import { FileCheckpointStore } from "../src";
+
+function createCheckpoint(taskId: string, createdAt = Date.now()): Checkpoint {
+  return {
+    id: "cp-" + createdAt,
+    taskId,
+    state: JSON.stringify({ variables: { key: "value" } }),
+    metadata: {},
+    createdAt,
+  };
+}
+
+describe("FileCheckpointStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "xsky-checkpoints-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should save, load and delete the latest checkpoint", async () => {
+    const store = new FileCheckpointStore(path.join(directory, "nested"));
+    await store.save(createCheckpoint("task-1", 1));
+    await store.save(createCheckpoint("task-1", 2));
+
+    const checkpoint = await store.load("task-1");
+    expect(checkpoint?.id).toBe("cp-2");
+    expect(JSON.parse(checkpoint!.state).variables.key).toBe("value");
+
+    await store.delete("task-1");
+    expect(await store.load("task-1")).toBeUndefined();
+  });
+
+  test("should keep the last of concurrent saves", async () => {
+    const store = new FileCheckpointStore(directory);
+    await Promise.all([1, 2, 3].map((n) => store.save(createCheckpoint("task-1", n))));
+
+    expect((await store.load("task-1"))?.id).toBe("cp-3");
+    expect(await fs.readdir(directory)).toEqual(["task-1.json"]);
+  });
+
+  test("should survive a new store instance", async () => {
+    await new FileCheckpointStore(directory).save(createCheckpoint("task-1"));
+    expect(await new FileCheckpointStore(directory).load("task-1")).toBeDefined();
+  });
+
+  test("should keep task ids inside the directory", async () => {
+    const store = new FileCheckpointStore(directory);
+    await store.save(createCheckpoint("../escape"));
+
+    expect(await fs.readdir(directory)).toEqual(["..%2Fescape.json"]);
+    expect(await store.load("../escape")).toBeDefined();
+  });
+
+  test("should expire checkpoints older than the ttl", async () => {
+    const store = new FileCheckpointStore(directory, 60);
+    await store.save(createCheckpoint("task-1", Date.now() - 61_000));
+
+    expect(await store.load("task-1")).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  test("should ignore corrupted checkpoint files", async () => {
+    await fs.writeFile(path.join(directory, "task-1.json"), "{", "utf-8");
+    expect(await new FileCheckpointStore(directory).load("task-1")).toBeUndefined();
+  });
+});
@@ -0,0 +1,109 @@
+import { config, type AgentContext } from "@xsky/ai-agent-core";
+import { ComputerAgent } from "../src";
+import { toX11Keysym } from "../src/computer";
+
+/** Records the commands of the agent instead of running them on a display */
+class RecordingComputerAgent extends ComputerAgent {
+  commands: string[][] = [];
+
+  protected async exec(file: string, args: string[]): Promise<Buffer> {
+    this.commands.push([file, ...args]);
+    if (args[0] == "getdisplaygeometry") {
+      return Buffer.from("2048 1536\n");
+    }
+    return Buffer.from(file == "sh" ? "png-bytes" : "");
+  }
+}
+
+const agentContext = {} as AgentContext;
+
+async function callTool(
+  agent: ComputerAgent,
+  name: string,
+  args: Record<string, unknown>
+) {
+  const tool = agent.Tools.find((tool) => tool.name == name)!;
+  const result = await tool.execute(args, agentContext, {
+    type: "tool-call",
+    toolCallId: "call",
+    toolName: name,
+    input: args,
+  });
+  expect(result.isError).toBeFalsy();
+}
+
+describe("toX11Keysym", () => {
+  test("should convert key names to X11 keysyms", () => {
+    expect(toX11Keysym("enter")).toBe("Return");
+    expect(toX11Keysym("ESC")).toBe("Escape");
+    expect(toX11Keysym("ctrl")).toBe("ctrl");
+    expect(toX11Keysym("command")).toBe("super");
+    expect(toX11Keysym("win")).toBe("super");
+    expect(toX11Keysym("pagedown")).toBe("Next");
+    expect(toX11Keysym("numpad5")).toBe("KP_5");
+    expect(toX11Keysym("a")).toBe("a");
+    expect(toX11Keysym("+")).toBe("plus");
+    expect(() => toX11Keysym("hyper")).toThrow('Unknown key "hyper"');
+  });
+});
+
+describe("ComputerAgent", () => {
+  const screenshotScaling = { ...config.screenshotScaling };
+  let agent: RecordingComputerAgent;
+
+  beforeEach(() => {
+    agent = new RecordingComputerAgent();
+  });
+
+  afterEach(() => {
+    config.screenshotScaling = { ...screenshotScaling };
+  });
+
+  test("should drive the mouse and keyboard with xdotool", async () => {
+    await callTool(agent, "click", { x: 10, y: 20, num_clicks: 2, button: "right" });
+    await callTool(agent, "scroll", { amount: 3, direction: "up" });
+    await callTool(agent, "typing", { text: "--hello" });
+    await callTool(agent, "press", { key: "enter" });
+    await callTool(agent, "hotkey", { keys: "ctrl+alt+t" });
+    await callTool(agent, "drag_and_drop", { x1: 1, y1: 2, x2: 3, y2: 4 });
+
+    expect(agent.commands).toEqual([
+      ["xdotool", "mousemove", "--sync", "10", "20", "click", "--repeat", "2", "--delay", "100", "3"],
+      ["xdotool", "click", "--repeat", "3", "--delay", "50", "4"],
+      ["xdotool", "type", "--clearmodifiers", "--delay", "12", "--", "--hello"],
+      ["xdotool", "key", "--clearmodifiers", "--", "Return"],
+      ["xdotool", "key", "--clearmodifiers", "--", "ctrl+alt+t"],
+      [
+        "xdotool",
+        "mousemove", "--sync", "1", "2", "mousedown", "1",
+        "sleep", "0.1",
+        "mousemove", "--sync", "3", "4", "mouseup", "1",
+      ],
+    ]);
+  });
+
+  test("should scale screenshots and map coordinates back to the screen", async () => {
+    config.screenshotScaling = { enabled: true, maxWidth: 1024, maxHeight: 768 };
+
+    const screenshot = await (agent as any).screenshot(agentContext);
+    await callTool(agent, "move_to", { x: 100, y: 50 });
+
+    expect(screenshot).toEqual({
+      imageBase64: Buffer.from("png-bytes").toString("base64"),
+      imageType: "image/png",
+    });
+    expect(agent.lastScaleFactor).toBe(0.5);
+    expect(agent.commands[1]).toEqual([
+      "sh",
+      "-c",
+      "xwd -root -silent | convert xwd:- -resize 1024x768! png:-",
+    ]);
+    expect(agent.commands[2]).toEqual(["xdotool", "mousemove", "--sync", "200", "100"]);
+  });
+
+  test("should offer the keys of a Linux desktop", () => {
+    const hotkey = agent.Tools.find((tool) => tool.name == "hotkey")!;
+
+    expect((hotkey.parameters.properties as any).keys.enum).toContain("ctrl+c");
+  });
+});
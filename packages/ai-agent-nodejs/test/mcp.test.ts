@@ -30,3 +30,105 @@ t("mcp", async () => {
   Log.setLevel(0);
   await testMcp();
 });
+
+/**
+ * A stdio MCP server answering resources and prompts requests, writing some responses in two chunks.
+ * Its tool calls report progress and sample a message from the client before answering.
+ */
+const STDIO_SERVER = `
+const readline = require("readline");
+const send = (message) => process.stdout.write(JSON.stringify(message) + "\\n");
+let pendingCall;
+readline.createInterface({ input: process.stdin }).on("line", (line) => {
+  const request = JSON.parse(line);
+  const reply = (result) => ({ jsonrpc: "2.0", id: request.id, result });
+  if (!request.method && request.id == "sampling-1") {
+    const text = request.result ? request.result.content.text : request.error.message;
+    send({ jsonrpc: "2.0", id: pendingCall, result: { content: [{ type: "text", text }] } });
+    return;
+  }
+  switch (request.method) {
+    case "tools/call":
+      pendingCall = request.id;
+      send({ jsonrpc: "2.0", method: "notifications/progress", params: { progressToken: request.params._meta.progressToken, progress: 1 } });
+      send({ jsonrpc: "2.0", id: "sampling-1", method: "sampling/createMessage", params: { messages: [], maxTokens: 10 } });
+      break;
+    case "resources/list":
+      send(reply(request.params.cursor
+        ? { resources: [{ uri: "memo://b", name: "b" }] }
+        : { resources: [{ uri: "memo://a", name: "a" }], nextCursor: "2" }));
+      break;
+    case "resources/read": {
+      const text = JSON.stringify(reply({ contents: [{ uri: request.params.uri, text: "Hello" }] })) + "\\n";
+      process.stdout.write(text.slice(0, 10));
+      setTimeout(() => process.stdout.write(text.slice(10)), 20);
+      break;
+    }
+    case "resources/subscribe":
+      send(reply({}));
+      console.log("log output of the server");
+      send({ jsonrpc: "2.0", method: "notifications/resources/updated", params: { uri: request.params.uri } });
+      break;
+    case "prompts/list":
+      send(reply({ prompts: [{ name: "greet", arguments: [{ name: "name", required: true }] }] }));
+      break;
+    case "prompts/get":
+      send(reply({ messages: [{ role: "user", content: { type: "text", text: "Hello " + request.params.arguments.name } }] }));
+      break;
+    default:
+      send(reply({}));
+  }
+});
+`;
+
+describe("SimpleStdioMcpClient resources and prompts", () => {
+  let mcpClient: SimpleStdioMcpClient;
+
+  beforeEach(async () => {
+    mcpClient = new SimpleStdioMcpClient(process.execPath, ["-e", STDIO_SERVER]);
+    await mcpClient.connect();
+  });
+
+  afterEach(async () => {
+    await mcpClient.close();
+  });
+
+  test("should list resources across pages and read resources split across chunks", async () => {
+    const resources = await mcpClient.listResources();
+    const contents = await mcpClient.readResource("memo://a");
+
+    expect(resources.map((resource) => resource.uri)).toEqual(["memo://a", "memo://b"]);
+    expect(contents).toEqual([{ uri: "memo://a", text: "Hello" }]);
+  });
+
+  test("should dispatch resource update notifications to the subscribers", async () => {
+    const updated = new Promise<string>(async (resolve) => {
+      await mcpClient.subscribe("memo://a", resolve);
+    });
+
+    await expect(updated).resolves.toBe("memo://a");
+  });
+
+  test("should list and get prompts", async () => {
+    const prompts = await mcpClient.listPrompts();
+    const prompt = await mcpClient.getPrompt("greet", { name: "Ada" });
+
+    expect(prompts.map((item) => item.name)).toEqual(["greet"]);
+    expect(prompt.messages[0].content).toEqual({ type: "text", text: "Hello Ada" });
+  });
+
+  test("should serve the sampling requests and progress of a tool call", async () => {
+    const progress: number[] = [];
+    const result = await mcpClient.callTool({ name: "summarize" }, undefined, {
+      onProgress: (item) => progress.push(item.progress),
+      onSampling: async () => ({
+        role: "assistant",
+        content: { type: "text", text: "Sampled" },
+        model: "mock-model",
+      }),
+    });
+
+    expect(progress).toEqual([1]);
+    expect(result.content).toEqual([{ type: "text", text: "Sampled" }]);
+  });
+});
@@ -0,0 +1,78 @@
+import { type Browser } from "playwright";
+import { BrowserAgent, BrowserAgentPool } from "../src";
+
+/** A browser opening contexts without pages, Chromium is not launched */
+function createStubBrowser() {
+  const contexts: { close: jest.Mock }[] = [];
+  const browser = {
+    newContext: jest.fn(async () => {
+      const context = {
+        pages: () => [],
+        addInitScript: jest.fn(),
+        close: jest.fn(async () => {}),
+      };
+      contexts.push(context);
+      return context;
+    }),
+    close: jest.fn(async () => {}),
+  };
+  return { browser, contexts };
+}
+
+function getBrowserContext(agent: BrowserAgent) {
+  return (agent as any).getBrowserContext();
+}
+
+describe("BrowserAgentPool", () => {
+  test("should lease browser agents with separate contexts over one browser", async () => {
+    const { browser, contexts } = createStubBrowser();
+    const launch = jest.fn(async () => browser as unknown as Browser);
+    const pool = new BrowserAgentPool({ launch });
+
+    const [first, second] = await Promise.all([
+      pool.acquire("Browser", "task-1"),
+      pool.acquire("Browser", "task-1"),
+    ]);
+    const firstContext = await getBrowserContext(first.agent as BrowserAgent);
+    const secondContext = await getBrowserContext(second.agent as BrowserAgent);
+
+    expect(first.agent).toBeInstanceOf(BrowserAgent);
+    expect(first.agent).not.toBe(second.agent);
+    expect(firstContext).not.toBe(secondContext);
+    expect(launch).toHaveBeenCalledTimes(1);
+    expect(contexts).toHaveLength(2);
+    await pool.close();
+  });
+
+  test("should reset the context of an agent leased to another task", async () => {
+    const { browser, contexts } = createStubBrowser();
+    const pool = new BrowserAgentPool({ launch: async () => browser as unknown as Browser });
+    const lease = await pool.acquire("Browser", "task-1");
+    await getBrowserContext(lease.agent as BrowserAgent);
+    await lease.release();
+
+    const sameTask = await pool.acquire("Browser", "task-1");
+    await sameTask.release();
+    expect(contexts[0].close).not.toHaveBeenCalled();
+
+    const otherTask = await pool.acquire("Browser", "task-2");
+    expect(otherTask.agent).toBe(lease.agent);
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(await getBrowserContext(otherTask.agent as BrowserAgent)).toBe(contexts[1]);
+    await pool.close();
+  });
+
+  test("should close the agents and the shared browser", async () => {
+    const { browser, contexts } = createStubBrowser();
+    const pool = new BrowserAgentPool({ launch: async () => browser as unknown as Browser });
+    const lease = await pool.acquire("Browser");
+    await getBrowserContext(lease.agent as BrowserAgent);
+    await lease.release();
+
+    await pool.close();
+
+    expect(contexts[0].close).toHaveBeenCalled();
+    expect(browser.close).toHaveBeenCalledTimes(1);
+    await expect(pool.acquire("Browser")).rejects.toThrow("The agent pool is closed");
+  });
+});
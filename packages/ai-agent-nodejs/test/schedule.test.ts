@@ -0,0 +1,79 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { type ScheduleRun } from "@xsky/ai-agent-core";
+import { FileScheduleStore } from "../src";
+
+function createRun(runId: string, status: ScheduleRun["status"] = "queued"): ScheduleRun {
+  return {
+    scheduleId: "prices",
+    runId,
+    taskId: "task-" + runId,
+    scheduledAt: 1000,
+    status,
+  };
+}
+
+describe("FileScheduleStore", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "xsky-schedules-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should save and list the runs, most recent first", async () => {
+    const store = new FileScheduleStore(path.join(directory, "nested"));
+    await store.saveRun(createRun("run-1"));
+    await store.saveRun({ ...createRun("run-1", "done"), result: "Prices are stable" });
+    await store.saveRun(createRun("run-2"));
+
+    const runs = await store.listRuns("prices");
+    expect(runs.map((run) => [run.runId, run.status])).toEqual([
+      ["run-2", "queued"],
+      ["run-1", "done"],
+    ]);
+    expect(runs[1].result).toBe("Prices are stable");
+    expect(await store.listRuns("prices", 1)).toHaveLength(1);
+    expect(await store.listRuns("unknown")).toEqual([]);
+  });
+
+  test("should serialize concurrent writes of a schedule", async () => {
+    const store = new FileScheduleStore(directory);
+    store.saveRun(createRun("run-1"));
+    store.saveRun(createRun("run-1", "running"));
+    store.saveRun(createRun("run-2"));
+
+    expect((await store.listRuns("prices")).map((run) => [run.runId, run.status])).toEqual([
+      ["run-2", "queued"],
+      ["run-1", "running"],
+    ]);
+  });
+
+  test("should keep the latest runs up to the history limit", async () => {
+    const store = new FileScheduleStore(directory, 2);
+    for (const runId of ["run-1", "run-2", "run-3"]) {
+      await store.saveRun(createRun(runId));
+    }
+
+    const runs = await new FileScheduleStore(directory).listRuns("prices");
+    expect(runs.map((run) => run.runId)).toEqual(["run-3", "run-2"]);
+  });
+
+  test("should keep schedule ids inside the directory", async () => {
+    const store = new FileScheduleStore(directory);
+    await store.saveRun({ ...createRun("run-1"), scheduleId: "../escape" });
+
+    expect(await fs.readdir(directory)).toEqual(["..%2Fescape.json"]);
+    expect(await store.listRuns("../escape")).toHaveLength(1);
+  });
+
+  test("should ignore a corrupted history", async () => {
+    await fs.writeFile(path.join(directory, "prices.json"), "{", "utf-8");
+
+    expect(await new FileScheduleStore(directory).listRuns("prices")).toEqual([]);
+  });
+});
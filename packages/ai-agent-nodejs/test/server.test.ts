@@ -0,0 +1,336 @@
+import {
+  Agent,
+  AgentChain,
+  AgentContext,
+  A2aClient,
+  Context,
+  type A2aStreamEvent,
+  type A2aTask,
+} from "@xsky/ai-agent-core";
+import { XSkyServer } from "../src";
+
+class WeatherAgent extends Agent {
+  constructor() {
+    super({ name: "Weather", description: "Reports the weather", tools: [] });
+  }
+
+  async run(context: Context, agentChain: AgentChain): Promise<string> {
+    const callback = context.config.callback!;
+    const agentContext = new AgentContext(context, this, agentChain);
+    await callback.onMessage({
+      taskId: context.taskId,
+      agentName: this.Name,
+      type: "text",
+      streamId: "s-1",
+      streamDone: false,
+      text: "Looking up",
+    });
+    await callback.onMessage({
+      taskId: context.taskId,
+      agentName: this.Name,
+      type: "file",
+      mimeType: "image/png",
+      data: "iVBORw0KGgo=",
+    });
+    await callback.onMessage({
+      taskId: context.taskId,
+      agentName: this.Name,
+      type: "text",
+      streamId: "s-1",
+      streamDone: true,
+      text: "Looking up the weather",
+    });
+    let city = agentChain.agent.task;
+    if (city == "ask") {
+      city = await callback.onHumanInput!(agentContext, "Which city?");
+    }
+    agentChain.agentResult = "Sunny in " + city;
+    return agentChain.agentResult;
+  }
+}
+
+async function rpc(url: string, method: string, params: any, accept?: string) {
+  const response = await fetch(url, {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      Accept: accept || "application/json",
+    },
+    body: JSON.stringify({ jsonrpc: "2.0", id: 1, method, params }),
+  });
+  return accept ? response : await response.json();
+}
+
+function message(text: string, taskId?: string) {
+  return {
+    kind: "message" as const,
+    messageId: "m-" + Math.random(),
+    role: "user" as const,
+    parts: [{ kind: "text" as const, text }],
+    taskId,
+  };
+}
+
+describe("XSkyServer", () => {
+  let server: XSkyServer;
+  let baseUrl: string;
+
+  beforeEach(async () => {
+    server = new XSkyServer(
+      {
+        llms: { default: { provider: "openai", model: "gpt-4", apiKey: "test" } },
+        agents: [new WeatherAgent()],
+      },
+      { name: "Weather service" }
+    );
+    baseUrl = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("should publish agent cards", async () => {
+    const client = new A2aClient([baseUrl, baseUrl + "/a2a/Weather"]);
+    const root = await client.getAgentCard(baseUrl);
+    const card = await client.getAgentCard(baseUrl + "/a2a/Weather");
+
+    expect(root.name).toBe("Weather service");
+    expect(root.url).toBe(baseUrl + "/a2a");
+    expect(root.skills.map((skill) => skill.name)).toEqual(["Weather"]);
+    expect(card.name).toBe("Weather");
+    expect(card.url).toBe(baseUrl + "/a2a/Weather");
+    expect(card.capabilities?.streaming).toBe(true);
+  });
+
+  test("should run an agent with message/send", async () => {
+    const client = new A2aClient(baseUrl + "/a2a/Weather");
+    const card = await client.getAgentCard(baseUrl + "/a2a/Weather");
+
+    const task = (await client.sendMessage(card, message("Paris"))) as A2aTask;
+
+    expect(task.status.state).toBe("completed");
+    expect(task.artifacts?.[0].parts).toEqual([
+      { kind: "text", text: "Sunny in Paris" },
+    ]);
+    const fetched = await client.getTask(card, task.id);
+    expect(fetched.status.state).toBe("completed");
+  });
+
+  test("should stream messages and map human input to input-required", async () => {
+    const client = new A2aClient(baseUrl + "/a2a/Weather");
+    const card = await client.getAgentCard(baseUrl + "/a2a/Weather");
+
+    const events: A2aStreamEvent[] = [];
+    for await (const event of client.streamMessage(card, message("ask"))) {
+      events.push(event);
+    }
+    const task = events[0] as A2aTask;
+    const last = events[events.length - 1];
+    expect(task.kind).toBe("task");
+    expect(events).toContainEqual(
+      expect.objectContaining({
+        kind: "status-update",
+        status: expect.objectContaining({
+          message: expect.objectContaining({
+            parts: [
+              {
+                kind: "data",
+                data: { type: "text", agentName: "Weather", text: "Looking up the weather" },
+              },
+            ],
+          }),
+        }),
+      })
+    );
+    // Only the finished text is sent, not the streaming text nor the file
+    const progress = events.filter(
+      (event: any) => event.kind == "status-update" && event.status.state == "working" && event.status.message
+    );
+    expect(progress).toHaveLength(1);
+    expect(last).toMatchObject({
+      kind: "status-update",
+      final: true,
+      status: { state: "input-required" },
+    });
+    expect((last as any).status.message.parts[0]).toEqual({
+      kind: "text",
+      text: "Which city?",
+    });
+
+    const followUp = [] as A2aStreamEvent[];
+    for await (const event of client.streamMessage(
+      card,
+      message("Berlin", task.id)
+    )) {
+      followUp.push(event);
+    }
+    expect(followUp[followUp.length - 1]).toMatchObject({
+      kind: "status-update",
+      final: true,
+      status: { state: "completed" },
+    });
+    const artifact = followUp.find((e) => e.kind == "artifact-update") as any;
+    expect(artifact.artifact.parts[0].text).toBe("Sunny in Berlin");
+  });
+
+  test("should cancel a task waiting for input", async () => {
+    const client = new A2aClient(baseUrl + "/a2a/Weather");
+    const card = await client.getAgentCard(baseUrl + "/a2a/Weather");
+    const task = (await client.sendMessage(card, message("ask"))) as A2aTask;
+    expect(task.status.state).toBe("input-required");
+
+    await client.cancelTask(card, task.id);
+
+    const canceled = await client.getTask(card, task.id);
+    expect(canceled.status.state).toBe("canceled");
+    await expect(client.cancelTask(card, task.id)).rejects.toThrow(
+      "Task cannot be canceled"
+    );
+  });
+
+  test("should return JSON-RPC errors", async () => {
+    const unknown = await rpc(baseUrl + "/a2a", "tasks/get", { id: "missing" });
+    expect(unknown.error).toEqual({ code: -32001, message: "Task not found" });
+    const method = await rpc(baseUrl + "/a2a", "tasks/unknown", {});
+    expect(method.error.code).toBe(-32601);
+    const response = await fetch(baseUrl + "/a2a/Unknown", { method: "POST" });
+    expect(response.status).toBe(404);
+  });
+
+  test("should reject request bodies over the size limit", async () => {
+    const limited = new XSkyServer(
+      { llms: {}, agents: [new WeatherAgent()] },
+      { maxBodySize: 100 }
+    );
+    const url = await limited.listen();
+    try {
+      const response = await rpc(url + "/a2a", "message/send", {
+        message: message("x".repeat(200)),
+      }, "application/json");
+
+      expect(response.status).toBe(413);
+      expect((await response.json()).error.message).toBe("Request body too large");
+    } finally {
+      await limited.close();
+    }
+  });
+
+  test("should evict the oldest finished tasks", async () => {
+    const limited = new XSkyServer(
+      {
+        llms: { default: { provider: "openai", model: "gpt-4", apiKey: "test" } },
+        agents: [new WeatherAgent()],
+      },
+      { maxFinishedTasks: 1 }
+    );
+    const url = (await limited.listen()) + "/a2a/Weather";
+    try {
+      const first = await rpc(url, "message/send", { message: message("Paris") });
+      const second = await rpc(url, "message/send", { message: message("Rome") });
+      const third = await rpc(url, "message/send", { message: message("Oslo") });
+
+      expect((await rpc(url, "tasks/get", { id: first.result.id })).error.message).toBe(
+        "Task not found"
+      );
+      expect((await rpc(url, "tasks/get", { id: second.result.id })).result.status.state).toBe(
+        "completed"
+      );
+      expect((await rpc(url, "tasks/get", { id: third.result.id })).result.status.state).toBe(
+        "completed"
+      );
+    } finally {
+      await limited.close();
+    }
+  });
+
+  test("should list and call agents as MCP tools", async () => {
+    const url = baseUrl + "/mcp";
+    const init = await rpc(url, "initialize", { protocolVersion: "2025-06-18" });
+    expect(init.result.serverInfo.name).toBe("Weather service");
+
+    const list = await rpc(url, "tools/list", {});
+    expect(list.result.tools.map((tool: any) => tool.name)).toEqual([
+      "xsky_run_task",
+      "Weather",
+    ]);
+
+    const call = await rpc(url, "tools/call", {
+      name: "Weather",
+      arguments: { task: "Rome" },
+    });
+    expect(call.result).toEqual({
+      content: [{ type: "text", text: "Sunny in Rome" }],
+      isError: false,
+    });
+  });
+
+  test("should stream MCP progress and elicit human input", async () => {
+    const url = baseUrl + "/mcp";
+    const response = (await rpc(
+      url,
+      "tools/call",
+      {
+        name: "Weather",
+        arguments: { task: "ask" },
+        _meta: { progressToken: "p-1" },
+      },
+      "application/json, text/event-stream"
+    )) as Response;
+    const reader = response.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    const messages: any[] = [];
+    while (true) {
+      const { value, done } = await reader.read();
+      if (done) {
+        break;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const chunks = buffer.split("\n\n");
+      buffer = chunks.pop() || "";
+      for (const chunk of chunks) {
+        const msg = JSON.parse(chunk.substring(5));
+        messages.push(msg);
+        if (msg.method == "elicitation/create") {
+          await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({
+              jsonrpc: "2.0",
+              id: msg.id,
+              result: { action: "accept", content: { answer: "Oslo" } },
+            }),
+          });
+        }
+      }
+    }
+
+    const progress = messages.filter(
+      (msg) => msg.method == "notifications/progress"
+    );
+    expect(progress.map((msg) => msg.params.message)).toEqual([
+      "Weather started",
+      "Looking up the weather",
+    ]);
+    expect(progress[1].params).toMatchObject({ progressToken: "p-1", progress: 2 });
+    expect(messages[2]).toMatchObject({
+      method: "elicitation/create",
+      params: { message: "Which city?" },
+    });
+    expect(messages[3].result.content[0].text).toBe("Sunny in Oslo");
+  });
+
+  test("should decline human input for non-streaming MCP calls", async () => {
+    const call = await rpc(baseUrl + "/mcp", "tools/call", {
+      name: "Weather",
+      arguments: { task: "ask" },
+    });
+    expect(call.result.content[0].text).toBe("Sunny in ");
+    const unknown = await rpc(baseUrl + "/mcp", "tools/call", {
+      name: "Unknown",
+      arguments: { task: "Rome" },
+    });
+    expect(unknown.error).toEqual({ code: -32602, message: "Unknown tool: Unknown" });
+  });
+});
@@ -0,0 +1,172 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import {
+  config,
+  type AgentContext,
+  type SecurityConfig,
+  type StreamCallbackMessage,
+} from "@xsky/ai-agent-core";
+import { ShellAgent } from "../src";
+
+function createAgentContext(
+  messages: StreamCallbackMessage[] = [],
+  security?: SecurityConfig
+): AgentContext {
+  return {
+    agent: { Name: "Shell" },
+    agentChain: { agent: { id: "task-00" } },
+    context: {
+      taskId: "task",
+      controller: new AbortController(),
+      config: {
+        security,
+        callback: {
+          onMessage: async (message: StreamCallbackMessage) => {
+            messages.push(message);
+          },
+        },
+      },
+    },
+  } as any;
+}
+
+async function callTool(
+  agent: ShellAgent,
+  agentContext: AgentContext,
+  name: string,
+  args: Record<string, unknown>
+): Promise<string> {
+  const tool = agent.Tools.find((tool) => tool.name == name)!;
+  const result = await tool.execute(args, agentContext, {
+    type: "tool-call",
+    toolCallId: "call-" + name,
+    toolName: name,
+    input: args,
+  });
+  return (result.content[0] as { text: string }).text;
+}
+
+describe("ShellAgent", () => {
+  let directory: string;
+  let agent: ShellAgent;
+  let agentContext: AgentContext;
+  let sessionId: string;
+
+  beforeEach(async () => {
+    directory = await fs.realpath(
+      await fs.mkdtemp(path.join(os.tmpdir(), "xsky-shell-"))
+    );
+    agent = new ShellAgent();
+    agentContext = createAgentContext();
+    sessionId = JSON.parse(
+      await callTool(agent, agentContext, "create_session", { exec_dir: directory })
+    ).session_id;
+  });
+
+  afterEach(async () => {
+    await callTool(agent, agentContext, "close_session", { session_id: sessionId });
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  const exec = (command: string, timeout?: number) =>
+    callTool(agent, agentContext, "shell_exec", { session_id: sessionId, command, timeout });
+
+  test("should carry the working directory and exported variables between commands", async () => {
+    await fs.mkdir(path.join(directory, "sub"));
+
+    await exec("cd sub && export GREETING=hello && LOCAL=1");
+
+    expect(await exec("pwd")).toBe(path.join(directory, "sub"));
+    expect(await exec('echo "$GREETING-$LOCAL"')).toBe("hello-");
+  });
+
+  test("should return stderr and the exit code of failed commands", async () => {
+    const output = await exec("echo out; echo err >&2; exit 3");
+
+    expect(output).toContain("out");
+    expect(output).toContain("err");
+    expect(output).toContain("[Exit code: 3]");
+    expect(await exec("pwd")).toBe(directory);
+  });
+
+  test("should kill commands running longer than their timeout", async () => {
+    const start = Date.now();
+
+    const output = await exec("echo started; sleep 30", 1);
+
+    expect(Date.now() - start).toBeLessThan(10000);
+    expect(output).toContain("started");
+    expect(output).toContain("[Command timed out after 1s and was killed]");
+  });
+
+  test("should keep the beginning and the end of large outputs", async () => {
+    const largeTextLength = config.largeTextLength;
+    config.largeTextLength = 100;
+    try {
+      const output = await exec("for i in $(seq 1 1000); do echo line$i; done");
+
+      expect(output.startsWith("line1\nline2\n")).toBe(true);
+      expect(output.endsWith("line999\nline1000")).toBe(true);
+      expect(output).toMatch(/\[\d+ characters truncated\]/);
+      expect(output.length).toBeLessThan(200);
+    } finally {
+      config.largeTextLength = largeTextLength;
+    }
+  });
+
+  test("should stream the output as tool_running messages", async () => {
+    const messages: StreamCallbackMessage[] = [];
+    agentContext = createAgentContext(messages);
+
+    await exec("echo first; sleep 0.3; echo second");
+
+    const running = messages.filter((message) => message.type == "tool_running");
+    expect(running.length).toBeGreaterThanOrEqual(2);
+    expect(running[0]).toMatchObject({
+      type: "tool_running",
+      toolName: "shell_exec",
+      toolId: "call-shell_exec",
+      streamId: "call-shell_exec",
+      text: "first\n",
+      streamDone: false,
+    });
+    expect(running[running.length - 1]).toMatchObject({
+      text: "first\nsecond\n",
+      streamDone: true,
+    });
+  });
+
+  test("should refuse commands denied by the security policy", async () => {
+    const marker = path.join(directory, "marker");
+    const security: SecurityConfig = {
+      enabled: true,
+      defaultPermissionLevel: "allow",
+      requireApprovalForHighRisk: false,
+      sandboxingEnabled: false,
+      permissions: [
+        {
+          id: "no-rm",
+          toolName: "shell_exec",
+          resourceType: "system_command",
+          resourcePattern: "rm *",
+          level: "deny",
+          grant: false,
+        },
+      ],
+    };
+    agentContext = createAgentContext([], security);
+
+    await expect(exec(`rm -rf ${directory}; touch ${marker}`)).rejects.toThrow(
+      "Command blocked by security policy"
+    );
+    expect(await exec(`touch ${marker} && echo ok`)).toBe("ok");
+
+    security.sandboxCapabilities = {
+      allowFileSystemAccess: true,
+      allowNetworkAccess: true,
+      allowProcessSpawn: false,
+    };
+    await expect(exec("echo spawned")).rejects.toThrow("process spawning is not allowed");
+  });
+});
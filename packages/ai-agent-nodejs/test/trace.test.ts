@@ -0,0 +1,59 @@
+import * as fs from "fs/promises";
+import * as os from "os";
+import * as path from "path";
+import { type SpanData } from "@xsky/ai-agent-core";
+import { OtlpJsonFileExporter } from "../src";
+
+function createSpan(name: string): SpanData {
+  return {
+    traceId: "0af7651916cd43dd8448eb211c80319c",
+    spanId: "b7ad6b7169203331",
+    name,
+    kind: "internal",
+    startTime: 1700000000000,
+    endTime: 1700000000100,
+    attributes: { "xsky.task.id": "task-1" },
+    events: [],
+    status: { code: "ok" },
+  };
+}
+
+describe("OtlpJsonFileExporter", () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), "xsky-traces-"));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  test("should append one OTLP/JSON request per export", async () => {
+    const filePath = path.join(directory, "nested", "traces.jsonl");
+    const exporter = new OtlpJsonFileExporter(filePath, "my-service");
+
+    await Promise.all([
+      exporter.export([createSpan("xsky.tool"), createSpan("xsky.agent")]),
+      exporter.export([createSpan("xsky.task")]),
+    ]);
+    await exporter.shutdown();
+
+    const lines = (await fs.readFile(filePath, "utf-8")).trim().split("\n");
+    expect(lines).toHaveLength(2);
+    const requests = lines.map((line) => JSON.parse(line));
+    expect(requests[0].resourceSpans[0].resource.attributes).toEqual([
+      { key: "service.name", value: { stringValue: "my-service" } },
+    ]);
+    expect(
+      requests.map((request) =>
+        request.resourceSpans[0].scopeSpans[0].spans.map((span: any) => span.name)
+      )
+    ).toEqual([["xsky.tool", "xsky.agent"], ["xsky.task"]]);
+    expect(requests[1].resourceSpans[0].scopeSpans[0].spans[0]).toMatchObject({
+      traceId: "0af7651916cd43dd8448eb211c80319c",
+      startTimeUnixNano: "1700000000000000000",
+      status: { code: 1 },
+    });
+  });
+});